@@ -0,0 +1,14 @@
+-- =========================================== 
+-- ADD COOLING LOAD COLUMNS TO HVAC_SPACES TABLE
+-- Envelope and lighting inputs for the RTS hourly cooling load profile
+-- Run this in Supabase SQL Editor
+-- ===========================================
+
+ALTER TABLE hvac_spaces ADD COLUMN IF NOT EXISTS envelope JSONB;
+ALTER TABLE hvac_spaces ADD COLUMN IF NOT EXISTS lighting_w_sf NUMERIC;
+
+-- Verify columns were added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'hvac_spaces' 
+AND column_name IN ('envelope', 'lighting_w_sf');
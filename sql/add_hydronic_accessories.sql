@@ -0,0 +1,19 @@
+-- =========================================== 
+-- ADD CLOSED LOOP ACCESSORY COLUMNS TO HYDRONIC SYSTEMS
+-- Expansion tank pressures / temperatures, equipment volume and glycol cost
+-- (null = calculator defaults)
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS fill_pressure_psig NUMERIC;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS max_pressure_psig NUMERIC;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS fill_temp_f NUMERIC;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS max_temp_f NUMERIC;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS equipment_volume_gal NUMERIC;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS glycol_cost_per_gal NUMERIC;
+
+-- Verify columns were added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'hydronic_systems' 
+AND column_name IN ('fill_pressure_psig', 'max_pressure_psig', 'fill_temp_f', 'max_temp_f', 'equipment_volume_gal', 'glycol_cost_per_gal');
@@ -0,0 +1,14 @@
+-- =========================================== 
+-- ADD BALANCING VALVE MODEL TO HYDRONIC SYSTEMS
+-- Valve model used for the network balancing schedule
+-- (NULL = default multi-turn globe valve)
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS balancing_valve_model_id TEXT;
+
+-- Verify column was added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'hydronic_systems' 
+AND column_name = 'balancing_valve_model_id';
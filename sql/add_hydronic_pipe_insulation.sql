@@ -0,0 +1,19 @@
+-- =========================================== 
+-- ADD PIPE INSULATION COLUMNS TO HYDRONIC TABLES
+-- Per-section insulation for heat loss, condensation and
+-- ASHRAE 90.1 minimum thickness checks; ambient conditions per system
+-- (NULL = defaults from the project climate)
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE hydronic_pipe_sections ADD COLUMN IF NOT EXISTS insulation_type TEXT;
+ALTER TABLE hydronic_pipe_sections ADD COLUMN IF NOT EXISTS insulation_thickness_in NUMERIC;
+
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS ambient_temp_f NUMERIC;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS ambient_dew_point_f NUMERIC;
+
+-- Verify columns were added
+SELECT table_name, column_name, data_type 
+FROM information_schema.columns 
+WHERE (table_name = 'hydronic_pipe_sections' AND column_name IN ('insulation_type', 'insulation_thickness_in'))
+OR (table_name = 'hydronic_systems' AND column_name IN ('ambient_temp_f', 'ambient_dew_point_f'));
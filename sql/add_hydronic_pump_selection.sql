@@ -0,0 +1,17 @@
+-- =========================================== 
+-- ADD PUMP SELECTION COLUMNS TO HYDRONIC SYSTEMS
+-- Selected pump curve, duty / standby pumps, VFD and system curve control head
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS pump_curve_id TEXT;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS duty_pumps INTEGER DEFAULT 1;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS standby_pumps INTEGER DEFAULT 0;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS pump_vfd BOOLEAN DEFAULT FALSE;
+ALTER TABLE hydronic_systems ADD COLUMN IF NOT EXISTS pump_control_head_ft NUMERIC;
+
+-- Verify columns were added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'hydronic_systems' 
+AND column_name IN ('pump_curve_id', 'duty_pumps', 'standby_pumps', 'pump_vfd', 'pump_control_head_ft');
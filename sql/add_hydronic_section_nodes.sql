@@ -0,0 +1,15 @@
+-- =========================================== 
+-- ADD NETWORK NODE COLUMNS TO HYDRONIC PIPE SECTIONS
+-- Sections connected through named nodes are solved as a network
+-- (parallel branches, index circuit) instead of a series run
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE hydronic_pipe_sections ADD COLUMN IF NOT EXISTS from_node TEXT;
+ALTER TABLE hydronic_pipe_sections ADD COLUMN IF NOT EXISTS to_node TEXT;
+
+-- Verify columns were added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'hydronic_pipe_sections' 
+AND column_name IN ('from_node', 'to_node');
@@ -0,0 +1,13 @@
+-- =========================================== 
+-- ADD EQUIPMENT CATALOG COLUMN TO SHARED SETTINGS
+-- Edited / added RTU, AHU, DOAS and dehumidifier catalog entries
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE shared_settings ADD COLUMN IF NOT EXISTS custom_equipment JSONB DEFAULT '{}'::jsonb;
+
+-- Verify column was added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'shared_settings' 
+AND column_name = 'custom_equipment';
@@ -0,0 +1,13 @@
+-- =========================================== 
+-- ADD PUMP CURVE LIBRARY COLUMN TO SHARED SETTINGS
+-- Edited / added pump curves for hydronic pump selection
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE shared_settings ADD COLUMN IF NOT EXISTS custom_pump_curves JSONB DEFAULT '{}'::jsonb;
+
+-- Verify column was added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'shared_settings' 
+AND column_name = 'custom_pump_curves';
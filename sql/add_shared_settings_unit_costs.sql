@@ -0,0 +1,13 @@
+-- =========================================== 
+-- ADD COST LIBRARY COLUMN TO SHARED SETTINGS
+-- Edited unit costs for the conceptual MEP cost estimate
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE shared_settings ADD COLUMN IF NOT EXISTS custom_unit_costs JSONB DEFAULT '{}'::jsonb;
+
+-- Verify column was added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'shared_settings' 
+AND column_name = 'custom_unit_costs';
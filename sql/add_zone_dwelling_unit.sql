@@ -0,0 +1,14 @@
+-- =========================================== 
+-- ADD DWELLING UNIT COLUMNS TO ZONES TABLE
+-- ASHRAE 62.2 dwelling grouping and local exhaust mode for res_* zones
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS dwelling_unit TEXT;
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS residential_ventilation_mode TEXT;
+
+-- Verify columns were added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'zones' 
+AND column_name IN ('dwelling_unit', 'residential_ventilation_mode');
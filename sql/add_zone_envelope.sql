@@ -0,0 +1,13 @@
+-- =========================================== 
+-- ADD ENVELOPE COLUMN TO ZONES TABLE
+-- Walls / roof / glazing inputs for the envelope HVAC load method
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS envelope JSONB;
+
+-- Verify column was added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'zones' 
+AND column_name = 'envelope';
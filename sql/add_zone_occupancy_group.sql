@@ -0,0 +1,13 @@
+-- =========================================== 
+-- ADD OCCUPANCY GROUP COLUMN TO ZONES TABLE
+-- NYC Local Law 97 occupancy override (defaults by zone type when null)
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS occupancy_group TEXT;
+
+-- Verify column was added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'zones' 
+AND column_name = 'occupancy_group';
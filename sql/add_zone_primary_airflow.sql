@@ -0,0 +1,16 @@
+-- =========================================== 
+-- ADD PRIMARY AIRFLOW COLUMNS TO HVAC_ZONES TABLE
+-- VAV inputs for the ASHRAE 62.1 Appendix A multiple-zone calculation
+-- Run this in Supabase SQL Editor
+-- =========================================== 
+
+ALTER TABLE hvac_zones ADD COLUMN IF NOT EXISTS primary_cfm NUMERIC;
+ALTER TABLE hvac_zones ADD COLUMN IF NOT EXISTS min_primary_cfm NUMERIC;
+ALTER TABLE hvac_zones ADD COLUMN IF NOT EXISTS primary_air_fraction NUMERIC;
+ALTER TABLE hvac_zones ADD COLUMN IF NOT EXISTS secondary_recirc_fraction NUMERIC;
+
+-- Verify columns were added
+SELECT column_name, data_type 
+FROM information_schema.columns 
+WHERE table_name = 'hvac_zones' 
+AND column_name IN ('primary_cfm', 'min_primary_cfm', 'primary_air_fraction', 'secondary_recirc_fraction');
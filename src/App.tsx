@@ -14,6 +14,7 @@ import ScanWorkspace from './components/plan-scanner/ScanWorkspace'
 import HVACHome from './components/hvac/HVACHome'
 import HVACCalculators from './components/hvac/HVACCalculators'
 import ElectricalHome from './components/electrical/ElectricalHome'
+import ElectricalCalculators from './components/electrical/ElectricalCalculators'
 import PlumbingHome from './components/plumbing/PlumbingHome'
 import PlumbingWorkspace from './components/plumbing/PlumbingWorkspace'
 import HVACWorkspace from './components/hvac/HVACWorkspace'
@@ -136,7 +137,7 @@ function App() {
           }
         />
         
-        {/* Electrical Module (placeholder) */}
+        {/* Electrical Module */}
         <Route
           path="/electrical"
           element={
@@ -145,6 +146,14 @@ function App() {
             </AuthGuard>
           }
         />
+        <Route
+          path="/electrical/calculators"
+          element={
+            <AuthGuard>
+              <ElectricalCalculators />
+            </AuthGuard>
+          }
+        />
         
         {/* Plumbing Module */}
         <Route
@@ -0,0 +1,184 @@
+// ===========================================
+// BALANCING VALVE SCHEDULE
+// Each circuit's terminal branch absorbs the head it is short of the index
+// circuit: required valve dP = excess head + the valve's own full-open drop
+//   Cv = GPM / √(dP_psi / SG)
+// Handwheel setting from the valve model's Cv vs travel characteristic
+// ===========================================
+
+import type {
+  HydronicSystem,
+  HydronicPipeSection,
+  HydronicCalculationResult,
+  BalancingValveModel,
+  BalancingValveSchedule,
+  BalancingValveSetting,
+} from '../types/hydronic'
+import { getFitting, getFittingCv, calculateCvPressureDrop, calculateRequiredCv } from '../data/fittingsLibrary'
+import {
+  BALANCING_FITTING_IDS,
+  getBalancingValveModel,
+  getCvFractionAtTravel,
+  getTravelForCvFraction,
+} from '../data/balancingValves'
+
+const MAX_SIZE_REDUCTION = 2 // nominal sizes below the pipe size
+
+interface ValveSizing {
+  valveSize: string
+  fullOpenCv: number
+  requiredDpFt: number
+  requiredCv: number
+  travel: number
+}
+
+function sizeValveAt(
+  model: BalancingValveModel,
+  valveSize: string,
+  flowGpm: number,
+  excessHeadFt: number,
+  specificGravity: number
+): ValveSizing | null {
+  const fitting = getFitting(model.fittingId)
+  const fullOpenCv = fitting ? getFittingCv(fitting, valveSize) : undefined
+  if (!fullOpenCv) return null
+  const requiredDpFt = excessHeadFt + calculateCvPressureDrop(flowGpm, fullOpenCv, specificGravity)
+  const requiredCv = calculateRequiredCv(flowGpm, requiredDpFt, specificGravity)
+  return {
+    valveSize,
+    fullOpenCv,
+    requiredDpFt,
+    requiredCv,
+    travel: getTravelForCvFraction(model, requiredCv / fullOpenCv),
+  }
+}
+
+/**
+ * Line-size valve, or up to two sizes smaller when line size would sit below
+ * the model's minimum accurate travel
+ */
+function sizeValve(
+  model: BalancingValveModel,
+  pipeSize: string,
+  flowGpm: number,
+  excessHeadFt: number,
+  specificGravity: number
+): ValveSizing | null {
+  const lineSize = sizeValveAt(model, pipeSize, flowGpm, excessHeadFt, specificGravity)
+  if (!lineSize || lineSize.travel >= model.minTravel) return lineSize
+
+  const sizes = Object.keys(getFitting(model.fittingId)?.cvBySizeTable ?? {})
+  const lineIndex = sizes.indexOf(pipeSize)
+  let best = lineSize
+  for (let i = lineIndex - 1; i >= Math.max(0, lineIndex - MAX_SIZE_REDUCTION); i--) {
+    const reduced = sizeValveAt(model, sizes[i], flowGpm, excessHeadFt, specificGravity)
+    if (!reduced) continue
+    best = reduced
+    if (reduced.travel >= model.minTravel) break
+  }
+  return best
+}
+
+// Sections only this circuit passes through - a valve there affects no other circuit
+function getTerminalBranch(
+  circuitIndex: number,
+  result: HydronicCalculationResult,
+  sections: HydronicPipeSection[]
+): HydronicPipeSection | undefined {
+  const circuits = result.network!.circuits
+  const ownIds = circuits[circuitIndex].sectionIds.filter(id =>
+    circuits.every((other, j) => j === circuitIndex || !other.sectionIds.includes(id))
+  )
+  const own = ownIds
+    .map(id => sections.find(s => s.id === id))
+    .filter((s): s is HydronicPipeSection => s !== undefined)
+  return own.find(s => s.fittings.some(f => BALANCING_FITTING_IDS.includes(f.fittingType))) ?? own[own.length - 1]
+}
+
+export function calculateBalancingSchedule(
+  system: HydronicSystem,
+  sections: HydronicPipeSection[],
+  result: HydronicCalculationResult
+): BalancingValveSchedule | null {
+  const network = result.network
+  if (!network) return null
+
+  const warnings: string[] = []
+  const model = getBalancingValveModel(system.balancingValveModelId)
+  const specificGravity = result.fluidProperties.specificGravity
+  const valves: BalancingValveSetting[] = []
+
+  network.circuits.forEach((circuit, circuitIndex) => {
+    const section = getTerminalBranch(circuitIndex, result, sections)
+    if (!section) {
+      warnings.push(`Circuit ${circuitIndex + 1} has no branch of its own - balance it at a shared branch upstream`)
+      return
+    }
+
+    const valveWarnings: string[] = []
+    const flowGpm = section.flowGpm
+    const excessHeadFt = Math.round(Math.max(circuit.excessHeadFt, 0) * 100) / 100
+    const sizing = sizeValve(model, section.pipeSizeNominal, flowGpm, excessHeadFt, specificGravity)
+
+    if (!section.fittings.some(f => BALANCING_FITTING_IDS.includes(f.fittingType))) {
+      valveWarnings.push('No balancing valve in the fittings - add one so its full-open drop is in the pump head')
+    }
+
+    if (!sizing) {
+      valveWarnings.push(`No ${model.displayName} Cv for ${section.pipeSizeNominal}"`)
+      valves.push({
+        circuitIndex,
+        sectionId: section.id,
+        sectionName: section.name,
+        flowGpm,
+        valveSize: section.pipeSizeNominal,
+        excessHeadFt,
+        requiredDpFt: excessHeadFt,
+        fullOpenCv: null,
+        requiredCv: null,
+        setting: null,
+        settingCv: null,
+        settingDpFt: null,
+        warnings: valveWarnings,
+      })
+      return
+    }
+
+    // Round to the handwheel resolution, between one step open and full open
+    const setting = Math.min(
+      Math.max(Math.round(sizing.travel * model.maxSetting / model.settingStep), 1) * model.settingStep,
+      model.maxSetting
+    )
+    const settingCv = sizing.fullOpenCv * getCvFractionAtTravel(model, setting / model.maxSetting)
+    const settingDpFt = calculateCvPressureDrop(flowGpm, settingCv, specificGravity)
+
+    if (sizing.valveSize !== section.pipeSizeNominal) {
+      valveWarnings.push(`Reduced to ${sizing.valveSize}" on a ${section.pipeSizeNominal}" line for setting accuracy`)
+    }
+    if (sizing.travel < model.minTravel) {
+      valveWarnings.push(
+        `Setting below ${(model.minTravel * 100).toFixed(0)}% of travel - add an orifice or reduce the excess head upstream`
+      )
+    }
+
+    valves.push({
+      circuitIndex,
+      sectionId: section.id,
+      sectionName: section.name,
+      flowGpm,
+      valveSize: sizing.valveSize,
+      excessHeadFt,
+      requiredDpFt: Math.round(sizing.requiredDpFt * 100) / 100,
+      fullOpenCv: sizing.fullOpenCv,
+      requiredCv: Math.round(sizing.requiredCv * 100) / 100,
+      setting: Math.round(setting * 100) / 100,
+      settingCv: Math.round(settingCv * 100) / 100,
+      settingDpFt: Math.round(settingDpFt * 100) / 100,
+      warnings: valveWarnings,
+    })
+  })
+
+  valves.forEach(v => v.warnings.forEach(w => warnings.push(`${v.sectionName}: ${w}`)))
+
+  return { valveModel: model, valves, warnings }
+}
@@ -0,0 +1,256 @@
+// ===========================================
+// CONDUCTOR & VOLTAGE DROP SIZING
+// Feeder and branch conductors per NEC 310.16 with ambient/fill correction,
+// EGC per 250.122, EMT conduit per Chapter 9, and voltage drop upsizing
+// VD = k × I × L × (R·cosθ + X·sinθ) / 1000 / sets   (k = √3 three-phase, 2 single-phase)
+// ===========================================
+
+import type { ElectricalCalcResult } from '../types'
+import type {
+  ConductorData,
+  ConductorSizingInput,
+  ConductorSizingResult,
+  FeederSizingRow,
+  FeederSizingSettings,
+} from '../types/electrical'
+import {
+  CONDUCTORS,
+  MIN_PARALLEL_SIZE,
+  MAX_PRACTICAL_SIZE,
+  SMALL_CONDUCTOR_MAX_OCPD,
+  EMT_CONDUIT_AREAS,
+  CONDUIT_MAX_FILL,
+  getConductor,
+  getConductorAmpacity,
+  getAmbientCorrectionFactor,
+  getFillAdjustmentFactor,
+  getEGCSize,
+  formatConductorSize,
+} from '../data/conductorTables'
+import { getStandardOCPDRating, NEC_CONTINUOUS_FACTOR } from '../data/necTables'
+
+const MAX_PARALLEL_SETS = 12
+const DEFAULT_POWER_FACTOR = 0.9
+const DEFAULT_SERVICE_LENGTH_FT = 50
+const DEFAULT_FEEDER_LENGTH_FT = 100
+// Single-phase circuits with one ungrounded conductor + neutral
+const LINE_TO_NEUTRAL_VOLTAGES = [120, 277]
+
+export const DEFAULT_FEEDER_SIZING_SETTINGS: FeederSizingSettings = {
+  material: 'copper',
+  insulationRating: 75,
+  ambientTempF: 86,
+  targetVoltageDropPercent: 3,
+  lengthsFt: {},
+}
+
+// ===========================================
+// VOLTAGE DROP
+// ===========================================
+export function calculateVoltageDrop(
+  conductor: ConductorData,
+  material: ConductorSizingInput['material'],
+  amps: number,
+  lengthFt: number,
+  phase: 1 | 3,
+  sets: number = 1,
+  powerFactor: number = DEFAULT_POWER_FACTOR
+): number {
+  const r = material === 'copper' ? conductor.rCopper : (conductor.rAluminum ?? conductor.rCopper)
+  const effectiveZ = r * powerFactor + conductor.xL * Math.sin(Math.acos(powerFactor))
+  const k = phase === 3 ? Math.sqrt(3) : 2
+  return k * amps * lengthFt * effectiveZ / 1000 / sets
+}
+
+// ===========================================
+// CONDUCTOR SIZING
+// ===========================================
+export function sizeConductor(input: ConductorSizingInput): ConductorSizingResult {
+  const warnings: string[] = []
+  const powerFactor = input.powerFactor ?? DEFAULT_POWER_FACTOR
+  const terminationRating = input.terminationRating ?? 75
+  const currentCarrying = input.currentCarryingConductors ?? (input.phase === 3 ? 3 : 2)
+  const requiredAmps = input.loadAmps * (input.continuous ? NEC_CONTINUOUS_FACTOR : 1)
+  const ocpdAmps = input.ocpdAmps ?? getStandardOCPDRating(requiredAmps)
+  const ambientFactor = getAmbientCorrectionFactor(input.ambientTempF, input.insulationRating)
+  const fillFactor = getFillAdjustmentFactor(currentCarrying)
+
+  if (ambientFactor === 0) {
+    warnings.push(`${input.insulationRating}°C insulation is not permitted at ${input.ambientTempF}°F ambient`)
+  }
+
+  const available = CONDUCTORS.filter(c => input.material === 'copper' || c.aluminum)
+  const minParallelIdx = available.findIndex(c => c.size === MIN_PARALLEL_SIZE)
+  const maxPracticalIdx = available.findIndex(c => c.size === MAX_PRACTICAL_SIZE)
+  const forcedSets = input.parallelSets && input.parallelSets > 0 ? Math.round(input.parallelSets) : undefined
+
+  // Corrected ampacity, limited by the 110.14(C) termination rating
+  const ampacityFor = (c: ConductorData, sets: number) => {
+    const corrected = getConductorAmpacity(c, input.material, input.insulationRating) * ambientFactor * fillFactor
+    const termination = getConductorAmpacity(c, input.material, Math.min(terminationRating, input.insulationRating) as typeof terminationRating)
+    return Math.min(corrected, termination) * sets
+  }
+
+  const meetsAmpacity = (c: ConductorData, sets: number) => {
+    const ampacity = ampacityFor(c, sets)
+    if (ampacity < requiredAmps) return false
+    const smallMax = SMALL_CONDUCTOR_MAX_OCPD[input.material][c.size]
+    if (sets === 1 && smallMax !== undefined && ocpdAmps > smallMax) return false
+    // 240.4(B): next higher standard OCPD permitted up to 800A; 240.4(C) above
+    return ocpdAmps <= 800 ? getStandardOCPDRating(ampacity) >= ocpdAmps : ampacity >= ocpdAmps
+  }
+
+  const firstIdxFor = (sets: number) => sets > 1 ? minParallelIdx : 0
+  const lastIdxFor = () => forcedSets ? available.length - 1 : maxPracticalIdx
+
+  const findMinimum = (sets: number) => {
+    for (let i = firstIdxFor(sets); i <= lastIdxFor(); i++) {
+      if (meetsAmpacity(available[i], sets)) return i
+    }
+    return -1
+  }
+
+  // Minimum size for ampacity, adding parallel sets when a single set gets too large
+  let sets = forcedSets ?? 1
+  let minIdx = findMinimum(sets)
+  while (minIdx < 0 && !forcedSets && sets < MAX_PARALLEL_SETS) {
+    sets++
+    minIdx = findMinimum(sets)
+  }
+  if (minIdx < 0) {
+    warnings.push(`No conductor in Table 310.16 carries ${Math.round(requiredAmps)}A with ${sets} set(s)`)
+    minIdx = lastIdxFor()
+  }
+  const minimumSets = sets
+  const minimum = available[minIdx]
+
+  // Upsize for voltage drop
+  let idx = minIdx
+  const dropPercent = (i: number, s: number) =>
+    calculateVoltageDrop(available[i], input.material, input.loadAmps, input.lengthFt, input.phase, s, powerFactor) / input.voltage * 100
+  let guard = 0
+  while (dropPercent(idx, sets) > input.targetVoltageDropPercent && guard++ < 100) {
+    if (idx < lastIdxFor()) {
+      idx++
+    } else if (!forcedSets && sets < MAX_PARALLEL_SETS) {
+      sets++
+      idx = Math.max(firstIdxFor(sets), findMinimum(sets))
+    } else {
+      warnings.push(`Target voltage drop of ${input.targetVoltageDropPercent}% not reachable`)
+      break
+    }
+  }
+  const chosen = available[idx]
+  const upsizedForVoltageDrop = idx !== minIdx || sets !== minimumSets
+
+  // EGC - 250.122(A), increased proportionally per 250.122(B), never larger than the phase conductors
+  let egc = getConductor(getEGCSize(ocpdAmps, input.material)) ?? available[0]
+  if (upsizedForVoltageDrop) {
+    const ratio = (chosen.circularMils * sets) / (minimum.circularMils * minimumSets)
+    const requiredCmil = egc.circularMils * ratio
+    egc = available.find(c => c.circularMils >= requiredCmil) ?? available[available.length - 1]
+  }
+  if (egc.circularMils > chosen.circularMils) egc = chosen
+
+  // Conduit per set - phase conductors + neutral + EGC in EMT at 40% fill
+  const lineToNeutral = input.phase === 1 && LINE_TO_NEUTRAL_VOLTAGES.includes(input.voltage)
+  const phaseConductors = input.phase === 3 ? 3 : lineToNeutral ? 1 : 2
+  const neutral = input.includeNeutral === false ? 0 : 1
+  const conductorCount = phaseConductors + neutral
+  const totalArea = conductorCount * chosen.thhnAreaIn2 + egc.thhnAreaIn2
+  const conduit = EMT_CONDUIT_AREAS.find(c => c.areaIn2 * CONDUIT_MAX_FILL >= totalArea)
+  if (!conduit) {
+    warnings.push('Conductors exceed 4" EMT - add parallel sets or use larger raceway')
+  }
+
+  const voltageDropV = calculateVoltageDrop(chosen, input.material, input.loadAmps, input.lengthFt, input.phase, sets, powerFactor)
+  const voltageDropPercent = input.voltage > 0 ? voltageDropV / input.voltage * 100 : 0
+  const materialLabel = input.material === 'copper' ? 'CU' : 'AL'
+
+  return {
+    conductorSize: chosen.size,
+    sets,
+    minimumSize: minimum.size,
+    upsizedForVoltageDrop,
+    requiredAmps,
+    ocpdAmps,
+    baseAmpacity: getConductorAmpacity(chosen, input.material, input.insulationRating),
+    ambientFactor,
+    fillFactor,
+    adjustedAmpacity: ampacityFor(chosen, sets),
+    egcSize: egc.size,
+    conduitSize: conduit ? conduit.tradeSize : null,
+    conduitFillPercent: conduit ? totalArea / conduit.areaIn2 * 100 : 0,
+    voltageDropV,
+    voltageDropPercent,
+    description: `${sets > 1 ? `(${sets}) sets ` : ''}${conductorCount}#${formatConductorSize(chosen.size)} ${materialLabel} + 1#${formatConductorSize(egc.size)} ${materialLabel} EGC${conduit ? ` in ${conduit.tradeSize}" EMT` : ''}`,
+    warnings,
+  }
+}
+
+// ===========================================
+// SERVICE + MDP FEEDERS
+// Service entrance conductors from the NEC 220 service result, then one
+// feeder per MDP breaker from the panel schedule
+// ===========================================
+export function sizeDistributionFeeders(
+  electrical: ElectricalCalcResult,
+  settings: FeederSizingSettings = DEFAULT_FEEDER_SIZING_SETTINGS
+): FeederSizingRow[] {
+  const rows: FeederSizingRow[] = []
+  const service = electrical.nec220
+  if (!service) return rows
+
+  const baseInput = {
+    material: settings.material,
+    insulationRating: settings.insulationRating,
+    ambientTempF: settings.ambientTempF,
+    targetVoltageDropPercent: settings.targetVoltageDropPercent,
+  }
+
+  const serviceLength = settings.lengthsFt['Service'] ?? DEFAULT_SERVICE_LENGTH_FT
+  rows.push({
+    name: 'Service',
+    description: `Service entrance - ${service.recommendedService}`,
+    loadAmps: service.calculatedAmps,
+    voltage: service.voltage,
+    phase: service.phase,
+    lengthFt: serviceLength,
+    result: sizeConductor({
+      ...baseInput,
+      loadAmps: service.calculatedAmps,
+      voltage: service.voltage,
+      phase: service.phase,
+      lengthFt: serviceLength,
+      ocpdAmps: service.serviceRatingAmps,
+    }),
+  })
+
+  const mdp = electrical.panelSchedule?.mdp
+  mdp?.feeders.forEach(feeder => {
+    const lengthFt = settings.lengthsFt[feeder.load] ?? DEFAULT_FEEDER_LENGTH_FT
+    const phase: 1 | 3 = feeder.poles === 3 ? 3 : 1
+    const voltage = feeder.poles === 1 ? mdp.voltageLN : mdp.voltageLL
+    const loadAmps = phase === 3
+      ? feeder.demandVA / (voltage * Math.sqrt(3))
+      : feeder.demandVA / voltage
+    rows.push({
+      name: feeder.load,
+      description: feeder.description,
+      loadAmps,
+      voltage,
+      phase,
+      lengthFt,
+      result: sizeConductor({
+        ...baseInput,
+        loadAmps,
+        voltage,
+        phase,
+        lengthFt,
+        ocpdAmps: feeder.breakerAmps,
+      }),
+    })
+  })
+
+  return rows
+}
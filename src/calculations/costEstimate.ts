@@ -0,0 +1,120 @@
+// ===========================================
+// CONCEPTUAL MEP COST ESTIMATE
+// Line cost = quantity from the calculation results × library unit cost ×
+// regional multiplier; project overrides replace a line, adjustments add one
+// ===========================================
+
+import type { CalculationResults, MechanicalElectricalSettings, ZoneFixtures } from '../types'
+import type {
+  CostEstimateResult,
+  CostEstimateSettings,
+  CostLineItem,
+  CostTrade,
+  UnitCost,
+} from '../types/costEstimate'
+import { COST_BASIS_UNITS, COST_TRADE_NAMES, getFixtureCostId } from '../data/costLibrary'
+import { getFixtureById } from '../data/nycFixtures'
+
+export interface CostEstimateInputs {
+  results: CalculationResults
+  fixtures: ZoneFixtures
+  mechanical: MechanicalElectricalSettings
+  totalSF: number
+}
+
+// Fixture counts rolled up to the library's NYC_FIXTURE_DATABASE categories
+function getFixtureCountsByCategory(fixtures: ZoneFixtures): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const [id, count] of Object.entries(fixtures)) {
+    const fixture = getFixtureById(id)
+    if (!fixture || !count) continue
+    counts.set(fixture.category, (counts.get(fixture.category) ?? 0) + count)
+  }
+  return counts
+}
+
+// Quantity for each library line - 0 leaves the line out
+function getQuantities(inputs: CostEstimateInputs): Record<string, number> {
+  const { hvac, electrical, dhw, gas } = inputs.results
+  const systemType = inputs.mechanical.hvacSystemType || 'vrf_erv'
+  const quantities: Record<string, number> = {
+    [`cooling_${systemType}`]: hvac.totalTons - (hvac.poolChillerTons || 0),
+    heating_gas: inputs.mechanical.heatingFuelType === 'gas' ? hvac.totalMBH : 0,
+    pool_chiller: hvac.poolChillerTons || 0,
+    ventilation: hvac.totalVentCFM,
+    exhaust: hvac.totalExhaustCFM,
+    dehumidification: hvac.dehumidLbHr,
+    hvac_distribution: inputs.totalSF,
+    electrical_service: electrical.totalKVA,
+    power_branch: inputs.totalSF,
+    lighting: inputs.totalSF,
+    fire_alarm: inputs.totalSF,
+    dhw_heater: dhw.grossBTU / 1000,
+    dhw_storage: dhw.storageGallons,
+    plumbing_piping: inputs.totalSF,
+    gas_piping: gas.totalCFH,
+  }
+  for (const [category, count] of getFixtureCountsByCategory(inputs.fixtures)) {
+    quantities[getFixtureCostId(category)] = count
+  }
+  return quantities
+}
+
+export function calculateCostEstimate(
+  inputs: CostEstimateInputs,
+  library: UnitCost[],
+  settings: CostEstimateSettings
+): CostEstimateResult {
+  const quantities = getQuantities(inputs)
+
+  const lines: CostLineItem[] = library
+    .filter(item => (quantities[item.id] ?? 0) > 0)
+    .map(item => {
+      const quantity = Math.round(quantities[item.id] * 10) / 10
+      const rate = Math.round(item.rate * settings.regionalMultiplier * 100) / 100
+      const calculatedCost = Math.round(quantity * rate)
+      const override = settings.overrides[item.id]
+      return {
+        id: item.id,
+        trade: item.trade,
+        description: item.name,
+        quantity,
+        unit: COST_BASIS_UNITS[item.basis],
+        rate,
+        calculatedCost,
+        cost: override ?? calculatedCost,
+        overridden: override !== undefined,
+        manual: false,
+      }
+    })
+
+  for (const adjustment of settings.adjustments) {
+    lines.push({
+      id: adjustment.id,
+      trade: adjustment.trade,
+      description: adjustment.description,
+      quantity: 1,
+      unit: 'ls',
+      rate: adjustment.amount,
+      calculatedCost: adjustment.amount,
+      cost: adjustment.amount,
+      overridden: false,
+      manual: true,
+    })
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.cost, 0)
+  const perSf = (cost: number) => (inputs.totalSF > 0 ? Math.round((cost / inputs.totalSF) * 100) / 100 : 0)
+
+  return {
+    regionalMultiplier: settings.regionalMultiplier,
+    region: settings.region,
+    lines,
+    trades: (Object.keys(COST_TRADE_NAMES) as CostTrade[]).map(trade => {
+      const cost = lines.filter(line => line.trade === trade).reduce((sum, line) => sum + line.cost, 0)
+      return { trade, name: COST_TRADE_NAMES[trade], cost, costPerSf: perSf(cost) }
+    }),
+    total,
+    costPerSf: perSf(total),
+  }
+}
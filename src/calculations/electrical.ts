@@ -1,9 +1,15 @@
-import type { Zone, ElectricalCalcResult } from '../types'
-import { electricalDefaults, getStandardServiceSize, exceedsMaxServiceSize } from '../data/defaults'
+import type { Zone, ElectricalCalcResult, CalculationResults, MechanicalElectricalSettings } from '../types'
+import type { NEC220Result, EVChargingResult, MechanicalLoadItem } from '../types/electrical'
+import { electricalDefaults } from '../data/defaults'
 import type { ElectricalSettings } from '../store/useSettingsStore'
+import { calculateNEC220Load } from './nec220'
+import { getScheduleElectricalLoads } from './equipmentSelection'
 
 export interface ElectricalCalcOptions {
   settings?: Partial<ElectricalSettings>
+  phase?: 1 | 3
+  useEnergyCodeLighting?: boolean  // NEC 220.12(B)
+  evCharging?: EVChargingResult    // NEC 625 EV charging (separate load category)
 }
 
 export function calculateElectrical(
@@ -38,6 +44,9 @@ export function calculateElectrical(
     totalKW += lightingKW + receptacleKW + lineItemsKW
   })
 
+  // EV charging at the EMS setpoint / nameplate
+  totalKW += options?.evCharging?.serviceKW ?? 0
+
   // Apply demand factor
   const totalWithDemand = totalKW * demandFactor
 
@@ -63,20 +72,15 @@ export function calculateElectrical(
     ? (totalKVA * 1000) / (voltageSecondary * Math.sqrt(3))
     : (totalKVA * 1000) / voltageSecondary
   
-  // Get standard service size (upsize to next standard)
-  const calculatedAmps = Math.round(amps_primary)
-  const standardServiceAmps = getStandardServiceSize(calculatedAmps, voltagePrimary)
-  const exceedsMax = exceedsMaxServiceSize(calculatedAmps, voltagePrimary)
-  
-  // Determine phase string
-  const phaseStr = isPrimaryThreePhase ? '3PH' : '1PH'
-  const wireStr = isPrimaryThreePhase ? '4W' : '3W'
-  
-  // Format recommended service string
-  let recommendedService = `${standardServiceAmps}A @ ${voltagePrimary}V/${phaseStr}, ${wireStr}`
-  if (exceedsMax) {
-    recommendedService = `${standardServiceAmps}A+ @ ${voltagePrimary}V/${phaseStr} (EXCEEDS STANDARD - consider parallel services)`
-  }
+  // Service size comes from the NEC Article 220 calculation (building loads only here -
+  // useCalculations re-runs it with mechanical equipment via recalculateServiceWithMechanical)
+  const nec220 = calculateNEC220Load(zones, [], {
+    voltage: voltagePrimary,
+    phase: options?.phase ?? (isPrimaryThreePhase ? 3 : 1),
+    spareCapacity,
+    useEnergyCodeLighting: options?.useEnergyCodeLighting,
+    evCharging: options?.evCharging,
+  })
   
   // Estimate panel count based on load
   const panelCount = Math.max(Math.ceil(totalKVA / 200) + 2, 4)
@@ -86,21 +90,26 @@ export function calculateElectrical(
     totalKVA: Math.round(totalKVA),
     amps_480v: Math.round(voltageSecondary === 480 ? amps_secondary : amps_primary),
     amps_208v: Math.round(voltagePrimary === 208 ? amps_primary : amps_secondary),
-    recommendedService,
+    recommendedService: nec220.recommendedService,
     panelCount,
     // Additional detailed info
     voltages: { primary: voltagePrimary, secondary: voltageSecondary },
     powerFactor,
     spareCapacity,
-    calculatedAmps,
-    standardServiceAmps,
-    exceedsMaxService: exceedsMax,
+    calculatedAmps: Math.round(nec220.calculatedAmps),
+    standardServiceAmps: nec220.serviceRatingAmps,
+    exceedsMaxService: nec220.exceedsMaxRating,
+    nec220,
   }
 }
 
 // Get electrical breakdown by zone - must match calculateElectrical logic!
-export function getElectricalBreakdown(zones: Zone[]): { zoneName: string; kW: number; description: string }[] {
-  return zones.map(zone => {
+// EV charging is listed as its own row after the zones
+export function getElectricalBreakdown(
+  zones: Zone[],
+  evCharging?: EVChargingResult
+): { zoneName: string; kW: number; description: string }[] {
+  const zoneRows = zones.map(zone => {
     const lightingKW = zone.sf * zone.rates.lighting_w_sf / 1000
     const receptacleKW = zone.sf * zone.rates.receptacle_va_sf / 1000
     
@@ -125,30 +134,52 @@ export function getElectricalBreakdown(zones: Zone[]): { zoneName: string; kW: n
       description: desc,
     }
   })
+
+  if (!evCharging || evCharging.serviceKW <= 0) return zoneRows
+
+  let evDesc = evCharging.groups.map(g => `${g.count} × ${g.kwPerPort} kW ${g.level === 'dcfc' ? 'DCFC' : g.level.replace('level', 'L')}`).join(' + ')
+  if (evCharging.emsLimitKW !== null && evCharging.serviceKW < evCharging.connectedKW) {
+    evDesc += ` (EMS limited from ${evCharging.connectedKW.toFixed(1)} kW)`
+  }
+  return [
+    ...zoneRows,
+    {
+      zoneName: 'EV Charging',
+      kW: Math.round(evCharging.serviceKW * 10) / 10,
+      description: evDesc,
+    },
+  ]
 }
 
 // Recalculate service sizing with additional mechanical loads
+// nec220 should be calculated with the mechanical loads included (see calculateNEC220Load)
 export function recalculateServiceWithMechanical(
   baseElectrical: ElectricalCalcResult,
   additionalKVA: number,
   voltagePrimary: number = 208,
   demandFactor: number = 1.0,
-  spareCapacity: number = 0.15
+  spareCapacity: number = 0.15,
+  nec220?: NEC220Result
 ): ElectricalCalcResult {
-  // IMPORTANT: baseElectrical.totalKVA already has demand factor, contingency, and spare applied
-  // We need to apply the SAME factors to the mechanical kVA for consistency
-  
+  // Without an NEC 220 result, baseElectrical.totalKVA already has demand factor and spare applied
   // Apply demand factor and spare capacity to mechanical load (same as building load)
   const mechanicalWithDemand = additionalKVA * demandFactor
   const mechanicalWithSpare = mechanicalWithDemand * (1 + spareCapacity)
   
-  const totalKVA = baseElectrical.totalKVA + mechanicalWithSpare
+  // Service size per NEC Article 220 - its design load drives every kVA / amp output
+  // so reports never show a second, connected-load service size
+  const serviceCalc = nec220 ?? baseElectrical.nec220
+  const totalKVA = serviceCalc
+    ? serviceCalc.designVA / 1000
+    : baseElectrical.totalKVA + mechanicalWithSpare
   
-  // Calculate amps at primary voltage (3-phase)
+  // Calculate amps at primary voltage (NEC 220 amps use the project phase)
   const isPrimaryThreePhase = [208, 480].includes(voltagePrimary)
-  const amps_primary = isPrimaryThreePhase 
-    ? (totalKVA * 1000) / (voltagePrimary * Math.sqrt(3))
-    : (totalKVA * 1000) / voltagePrimary
+  const amps_primary = serviceCalc
+    ? serviceCalc.calculatedAmps
+    : isPrimaryThreePhase
+      ? (totalKVA * 1000) / (voltagePrimary * Math.sqrt(3))
+      : (totalKVA * 1000) / voltagePrimary
     
   // Get secondary voltage
   const voltageSecondary = voltagePrimary === 208 ? 480 : 208
@@ -157,19 +188,6 @@ export function recalculateServiceWithMechanical(
     ? (totalKVA * 1000) / (voltageSecondary * Math.sqrt(3))
     : (totalKVA * 1000) / voltageSecondary
   
-  // Get standard service size
-  const calculatedAmps = Math.round(amps_primary)
-  const standardServiceAmps = getStandardServiceSize(calculatedAmps, voltagePrimary)
-  const exceedsMax = exceedsMaxServiceSize(calculatedAmps, voltagePrimary)
-  
-  // Format service string
-  const phaseStr = isPrimaryThreePhase ? '3PH' : '1PH'
-  const wireStr = isPrimaryThreePhase ? '4W' : '3W'
-  let recommendedService = `${standardServiceAmps}A @ ${voltagePrimary}V/${phaseStr}, ${wireStr}`
-  if (exceedsMax) {
-    recommendedService = `${standardServiceAmps}A+ @ ${voltagePrimary}V/${phaseStr} (EXCEEDS STANDARD - consider parallel services)`
-  }
-  
   // Estimate panel count based on load
   const panelCount = Math.max(Math.ceil(totalKVA / 200) + 2, 4)
 
@@ -178,12 +196,104 @@ export function recalculateServiceWithMechanical(
     totalKVA: Math.round(totalKVA),
     amps_480v: Math.round(voltageSecondary === 480 ? amps_secondary : amps_primary),
     amps_208v: Math.round(voltagePrimary === 208 ? amps_primary : amps_secondary),
-    recommendedService,
+    recommendedService: serviceCalc?.recommendedService ?? baseElectrical.recommendedService,
     panelCount,
-    calculatedAmps,
-    standardServiceAmps,
-    exceedsMaxService: exceedsMax,
+    calculatedAmps: serviceCalc ? Math.round(serviceCalc.calculatedAmps) : baseElectrical.calculatedAmps,
+    standardServiceAmps: serviceCalc?.serviceRatingAmps ?? baseElectrical.standardServiceAmps,
+    exceedsMaxService: serviceCalc?.exceedsMaxRating ?? baseElectrical.exceedsMaxService,
     // Track the mechanical component for transparency
     mechanicalKVA: Math.round(mechanicalWithSpare),
+    nec220: serviceCalc,
   }
 }
+
+// Gas heating result for adding to gas totals
+export interface GasHeatingResult {
+  isGasHeating: boolean
+  inputMBH: number        // Heating load in MBH
+  consumedMBH: number     // Gas consumed (input / efficiency)
+  consumedCFH: number     // Gas consumed in CFH (≈ MBH for natural gas)
+  efficiency: number
+}
+
+// Mechanical electrical loads - shared by the service calculation and the central plant UI
+export function calculateMechanicalKVA(
+  hvac: CalculationResults['hvac'],
+  dhw: CalculationResults['dhw'],
+  settings: MechanicalElectricalSettings,
+  dhwHeaterType: 'electric' | 'gas',
+  powerFactor: number,
+  _electricPrimary: boolean // Prefixed with _ to indicate intentionally unused
+): { total: number; breakdown: MechanicalLoadItem[]; gasHeating: GasHeatingResult } {
+  const breakdown: MechanicalLoadItem[] = []
+  
+  // Determine if using gas heating
+  const heatingFuelType = settings.heatingFuelType ?? 'electric'
+  const isGasHeating = heatingFuelType === 'gas'
+  const gasHeatingEfficiency = settings.gasHeatingEfficiency ?? 0.90
+  
+  const scheduleLoads = getScheduleElectricalLoads(hvac, settings)
+  
+  // Space cooling (total minus pool chiller) - packaged units from the equipment schedule
+  if (settings.includeChiller) {
+    const spaceCoolingTons = hvac.totalTons - (hvac.poolChillerTons || 0)
+    const kva = scheduleLoads.coolingKVA ?? spaceCoolingTons * settings.coolingKvaPerTon
+    breakdown.push({ id: 'cooling', name: scheduleLoads.coolingKVA !== null ? 'Space Cooling (RTUs)' : 'Space Cooling', kva })
+    if (scheduleLoads.ahuFanKVA > 0) {
+      breakdown.push({ id: 'ahu_fans', name: 'AHU Supply Fans', kva: scheduleLoads.ahuFanKVA })
+    }
+  }
+  
+  // Supplemental electric heating (percentage of total heating) - ONLY if electric
+  if (settings.includeHeating && !isGasHeating) {
+    const heatingElectricPercent = settings.heatingElectricPercent ?? 0.15
+    const heatingElectricMBH = hvac.totalMBH * heatingElectricPercent
+    const kva = heatingElectricMBH * settings.heatingKvaPerMbh
+    breakdown.push({ id: 'heating', name: `Electric Heating (${Math.round(heatingElectricPercent * 100)}%)`, kva })
+  }
+  
+  // Pool chiller (tracked separately from space cooling)
+  if (settings.includePoolChiller && hvac.poolChillerTons > 0) {
+    const kva = hvac.poolChillerTons * settings.poolChillerKvaPerTon
+    breakdown.push({ id: 'pool_chiller', name: 'Pool Chiller', kva })
+  }
+  
+  if (settings.includeDehumid && hvac.dehumidLbHr > 0) {
+    const kva = scheduleLoads.dehumidKVA ?? hvac.dehumidLbHr * settings.dehumidKvaPerLbHr
+    breakdown.push({ id: 'dehumid', name: 'Dehumidification', kva })
+  }
+  
+  if (settings.includeDhw && dhwHeaterType === 'electric') {
+    const kva = dhw.electricKW / powerFactor
+    breakdown.push({ id: 'dhw', name: 'DHW Electric', kva })
+  }
+  
+  // Fan power for ventilation and exhaust - outdoor air fans in scheduled units come off the factor
+  if (settings.includeFans ?? true) {
+    const fanHpPer1000Cfm = settings.fanHpPer1000Cfm ?? 0.6
+    const fanHP = (scheduleLoads.fanCFM / 1000) * fanHpPer1000Cfm
+    const kva = fanHP * 0.746 / powerFactor // HP to kW to kVA
+    if (kva > 0) {
+      breakdown.push({ id: 'fans', name: 'Fan Power', kva })
+    }
+    if (scheduleLoads.doasKVA > 0) {
+      breakdown.push({ id: 'doas', name: 'DOAS Units', kva: scheduleLoads.doasKVA })
+    }
+  }
+
+  const total = breakdown.reduce((sum, item) => sum + item.kva, 0)
+  
+  // Calculate gas heating consumption
+  const gasHeatingInputMBH = isGasHeating ? hvac.totalMBH : 0
+  const gasHeatingConsumedMBH = isGasHeating ? Math.round(gasHeatingInputMBH / gasHeatingEfficiency) : 0
+  
+  const gasHeating: GasHeatingResult = {
+    isGasHeating,
+    inputMBH: gasHeatingInputMBH,
+    consumedMBH: gasHeatingConsumedMBH,
+    consumedCFH: gasHeatingConsumedMBH, // For natural gas, CFH ≈ MBH
+    efficiency: gasHeatingEfficiency,
+  }
+  
+  return { total, breakdown, gasHeating }
+}
@@ -0,0 +1,169 @@
+// ===========================================
+// ELECTRIFICATION SCENARIO COMPARISON
+// Each scenario rewrites the project's plant fuel selections, runs the full
+// calculation pipeline and reports service, gas, plant, energy, carbon and
+// first-cost deltas against the current design
+// ===========================================
+
+import type { CalculationResults, Project, Zone } from '../types'
+import type {
+  ElectrificationCostItem,
+  ElectrificationScenario,
+  ElectrificationScenarioResult,
+} from '../types/electrification'
+import { HVAC_SYSTEM_CONFIGS } from '../data/defaults'
+import { getZoneDefaults } from '../data/zoneDefaults'
+import { BTU_PER_KWH, POOL_HEAT_PUMP_COP } from '../data/energyModel'
+import { LL97_CARBON_COEFFICIENTS, KBTU_PER_THERM } from '../data/ll97'
+import {
+  ELECTRIFICATION_SCENARIOS,
+  GAS_HEAT_FALLBACK_SYSTEM,
+  HEAT_PUMP_FALLBACK_SYSTEM,
+  RESISTANCE_HEAT_KVA_PER_MBH,
+  DEFAULT_HPWH_COP,
+  ELECTRIC_EQUIPMENT_COP,
+} from '../data/electrification'
+import { gasLineItemMbh, isPoolHeaterLineItem } from './energy'
+import { calculateProject, type ProjectCalculationSettings } from './projectCalculations'
+
+// Gas line items become electric equipment of the same output - pool heaters as heat pumps
+function electrifyZone(zone: Zone): Zone {
+  const switchable = getZoneDefaults(zone.type)?.switchable
+  const lineItems = zone.lineItems.map(item => {
+    if (item.category !== 'gas') return item
+    const mbh = gasLineItemMbh(item)
+    const cop = isPoolHeaterLineItem(item) ? POOL_HEAT_PUMP_COP : ELECTRIC_EQUIPMENT_COP
+    return {
+      ...item,
+      category: 'power' as const,
+      name: `${item.name} (electric)`,
+      quantity: 1,
+      unit: 'kW',
+      value: Math.round((mbh * 1000 / BTU_PER_KWH / cop) * 10) / 10,
+      notes: `Electrified from ${Math.round(mbh)} MBH gas @ COP ${cop}`,
+    }
+  })
+  return {
+    ...zone,
+    subType: switchable ? 'electric' : zone.subType,
+    lineItems,
+    processLoads: { ...zone.processLoads, gas_mbh: 0, pool_heater_mbh: 0 },
+  }
+}
+
+export function applyElectrificationScenario(
+  project: Project,
+  zones: Zone[],
+  scenario: ElectrificationScenario
+): { project: Project; zones: Zone[] } {
+  const mechanical = project.mechanicalSettings
+  let systemType = mechanical.hvacSystemType || 'vrf_erv'
+  let heatingFuelType = mechanical.heatingFuelType
+
+  if (scenario.heating === 'gas') {
+    if (!HVAC_SYSTEM_CONFIGS[systemType].supportsGasHeat) systemType = GAS_HEAT_FALLBACK_SYSTEM
+    heatingFuelType = 'gas'
+  } else if (scenario.heating === 'heat_pump') {
+    if (HVAC_SYSTEM_CONFIGS[systemType].heatingKvaPerMbh >= RESISTANCE_HEAT_KVA_PER_MBH) systemType = HEAT_PUMP_FALLBACK_SYSTEM
+    heatingFuelType = 'electric'
+  }
+
+  // A new system type takes its default conversion factors, as picking it on the Central Plant tab does
+  const systemChanged = systemType !== (mechanical.hvacSystemType || 'vrf_erv')
+  const config = HVAC_SYSTEM_CONFIGS[systemType]
+  const mechanicalSettings = {
+    ...mechanical,
+    ...(systemChanged && {
+      hvacSystemType: systemType,
+      coolingKvaPerTon: config.coolingKvaPerTon,
+      heatingKvaPerMbh: config.heatingKvaPerMbh,
+      fanHpPer1000Cfm: config.ventilationType === 'doas' ? 0.4 : 0.6,
+      heatingElectricPercent: config.hasEnergyRecovery ? 0.10 : 0.25,
+    }),
+    heatingFuelType,
+    // Scenarios always compare estimated energy, never the utility bills
+    ll97: { ...mechanical.ll97, energySource: 'estimate' as const },
+  }
+
+  const dhwSettings = { ...project.dhwSettings }
+  if (scenario.dhw === 'gas') {
+    dhwSettings.heaterType = 'gas'
+    dhwSettings.useHeatPump = false
+  } else if (scenario.dhw === 'electric') {
+    dhwSettings.heaterType = 'electric'
+    dhwSettings.useHeatPump = false
+  } else if (scenario.dhw === 'heat_pump') {
+    dhwSettings.heaterType = 'electric'
+    dhwSettings.useHeatPump = true
+    if (!(dhwSettings.heatPumpCOP > 1)) dhwSettings.heatPumpCOP = DEFAULT_HPWH_COP
+  }
+
+  return {
+    project: { ...project, mechanicalSettings, dhwSettings },
+    zones: scenario.zoneEquipment === 'electric' ? zones.map(electrifyZone) : zones,
+  }
+}
+
+// Every line of the scenario's cost estimate - library rates, regional multiplier and overrides included
+function getFirstCostItems(results: CalculationResults): ElectrificationCostItem[] {
+  return (results.costEstimate?.lines ?? []).map(line => ({
+    id: line.id,
+    name: line.manual ? line.description : `${line.description} (${line.quantity.toLocaleString()} ${line.unit})`,
+    cost: line.cost,
+  }))
+}
+
+function carbonTco2e(kwh: number, therms: number, period: keyof typeof LL97_CARBON_COEFFICIENTS): number {
+  const coefficients = LL97_CARBON_COEFFICIENTS[period]
+  return Math.round((kwh * coefficients.electricityPerKwh + therms * KBTU_PER_THERM * coefficients.gasPerKbtu) * 10) / 10
+}
+
+export function compareElectrificationScenarios(
+  project: Project,
+  zones: Zone[],
+  settings: ProjectCalculationSettings,
+  scenarios: ElectrificationScenario[] = ELECTRIFICATION_SCENARIOS
+): ElectrificationScenarioResult[] {
+  const rows = scenarios.map(scenario => {
+    const variant = applyElectrificationScenario(project, zones, scenario)
+    const { results } = calculateProject(variant.project, variant.zones, settings)
+    const { electrical, energy, emissions } = results
+    const costItems = getFirstCostItems(results)
+    const mechanical = variant.project.mechanicalSettings
+
+    return {
+      id: scenario.id,
+      name: scenario.name,
+      description: scenario.description,
+      hvacSystemType: mechanical.hvacSystemType || 'vrf_erv',
+      heatingFuelType: mechanical.heatingFuelType,
+      dhwHeaterType: variant.project.dhwSettings.heaterType,
+      dhwHeatPump: variant.project.dhwSettings.heaterType === 'electric' && variant.project.dhwSettings.useHeatPump,
+      serviceKva: electrical.totalKVA,
+      serviceAmps: electrical.nec220?.serviceRatingAmps ?? electrical.standardServiceAmps ?? 0,
+      serviceVoltage: variant.project.electricalSettings.voltage,
+      gasCFH: Math.round(results.gas.totalCFH),
+      plantTons: results.hvac.totalPlantTons,
+      kwh: energy?.totalKwh ?? null,
+      therms: energy?.totalTherms ?? null,
+      annualEnergyCost: energy?.totalCost ?? null,
+      carbonTco2e: energy ? carbonTco2e(energy.totalKwh, energy.totalTherms, '2024_2029') : null,
+      carbonTco2e2030: energy ? carbonTco2e(energy.totalKwh, energy.totalTherms, '2030_2034') : null,
+      ll97Penalty2030: emissions?.covered ? emissions.periods.find(p => p.period === '2030_2034')?.penalty ?? null : null,
+      costItems,
+      firstCost: results.costEstimate?.total ?? 0,
+      firstCostDelta: 0,
+      annualCostDelta: null,
+    }
+  })
+
+  // Deltas against the current design (first row when present)
+  const baseline = rows.find(r => r.id === 'current') ?? rows[0]
+  return rows.map(row => ({
+    ...row,
+    firstCostDelta: row.firstCost - baseline.firstCost,
+    annualCostDelta: row.annualEnergyCost !== null && baseline.annualEnergyCost !== null
+      ? row.annualEnergyCost - baseline.annualEnergyCost
+      : null,
+  }))
+}
@@ -0,0 +1,301 @@
+// ===========================================
+// ANNUAL ENERGY & UTILITY COST (BIN METHOD)
+// Space loads scale linearly from the balance points to the design loads;
+// outdoor air is conditioned during occupied hours, less ERV recovery.
+// Each bin: kW = BTU/hr / (EER × 1000) cooling, BTU/hr / (3412 × COP) electric
+// heat, therms = BTU / (η × 100,000) gas heat
+// ===========================================
+
+import type {
+  AnnualEnergyResult,
+  DHWCalcResult,
+  DHWSettings,
+  EnergyBinResult,
+  EnergyEndUse,
+  EnergyEndUseResult,
+  EnergyModelSettings,
+  HVACCalcResult,
+  MechanicalElectricalSettings,
+  LineItem,
+  Zone,
+} from '../types'
+import { HVAC_SYSTEM_CONFIGS } from '../data/defaults'
+import { getLocationById, formatLocationDisplay } from '../data/ashraeClimate'
+import {
+  HOURS_PER_YEAR,
+  BTU_PER_KWH,
+  BTU_PER_THERM,
+  KW_PER_HP,
+  POOL_EVAPORATION_BTU_PER_LB,
+  DEHUMIDIFIER_POOL_HEAT_RECOVERY,
+  POOL_HEAT_PUMP_COP,
+  INDOOR_COOLING_DB,
+  INDOOR_HEATING_DB,
+  INDOOR_HUMIDITY_GR,
+  SYSTEM_ENERGY_EFFICIENCY,
+  RATED_COOLING_OUTDOOR_F,
+  RATED_HEATING_OUTDOOR_F,
+  EER_CHANGE_PER_F,
+  MAX_EER_MULTIPLIER,
+  COP_CHANGE_PER_F,
+  generateTemperatureBins,
+} from '../data/energyModel'
+
+export const DEFAULT_ENERGY_MODEL_SETTINGS: EnergyModelSettings = {
+  electricRatePerKwh: 0.22,
+  demandRatePerKw: 18,
+  gasRatePerTherm: 1.4,
+  occupiedHoursPerDay: 14,
+  occupiedDaysPerWeek: 7,
+  coolingBalancePointF: 60,
+  heatingBalancePointF: 55,
+  ervSensibleEffectiveness: 0.7,
+  ervLatentEffectiveness: 0.6,
+  dhwPeakHoursPerDay: 4,
+  poolEvaporationFactor: 0.6,
+  occupiedLoadFactor: 0.6,
+  unoccupiedLoadFactor: 0.2,
+}
+
+export const ENERGY_END_USE_NAMES: Record<EnergyEndUse, string> = {
+  space_cooling: 'Space Cooling',
+  space_heating: 'Space Heating',
+  ventilation: 'Outdoor Air Conditioning',
+  fans: 'Ventilation / Exhaust Fans',
+  dhw: 'Domestic Hot Water',
+  pool: 'Pool Heating & Dehumidification',
+  building: 'Lighting / Receptacles / Process',
+}
+
+export interface AnnualEnergyInputs {
+  hvac: HVACCalcResult
+  dhw: DHWCalcResult
+  dhwSettings: DHWSettings
+  mechanical: MechanicalElectricalSettings
+  zones: Zone[]
+  buildingKW: number     // Connected non-mechanical load
+  powerFactor: number
+  totalSF: number
+}
+
+interface EndUseTotals {
+  kwh: number
+  therms: number
+}
+
+const WATER_LB_PER_GAL = 8.33
+
+// Pool heaters are carried by the pool end use, not the zone process loads
+export function isPoolHeaterLineItem(item: LineItem): boolean {
+  return item.name.toLowerCase().includes('pool')
+}
+
+// Gas line item input in MBH (1 CFH ≈ 1 MBH natural gas, as calculateGas)
+export function gasLineItemMbh(item: LineItem): number {
+  if (item.unit === 'MBH' || item.unit === 'MBTU' || item.unit === 'CFH') return item.quantity * item.value
+  if (item.unit === 'BTU') return (item.quantity * item.value) / 1000
+  return 0
+}
+
+// Zone gas equipment (burners, ranges, dryers) less pool heaters
+function processGasMbh(zones: Zone[]): number {
+  return zones.reduce((sum, zone) => sum + zone.lineItems
+    .filter(li => li.category === 'gas' && !isPoolHeaterLineItem(li))
+    .reduce((zoneSum, li) => zoneSum + gasLineItemMbh(li), 0), 0)
+}
+
+export function calculateAnnualEnergy(
+  inputs: AnnualEnergyInputs,
+  locationId: string | undefined,
+  settings: EnergyModelSettings = DEFAULT_ENERGY_MODEL_SETTINGS
+): AnnualEnergyResult | undefined {
+  const location = locationId ? getLocationById(locationId) : undefined
+  if (!location) return undefined
+
+  const { hvac, dhw, dhwSettings, mechanical } = inputs
+  const systemType = mechanical.hvacSystemType || 'vrf_erv'
+  const config = HVAC_SYSTEM_CONFIGS[systemType]
+  const efficiency = SYSTEM_ENERGY_EFFICIENCY[systemType]
+  const gasHeat = mechanical.heatingFuelType === 'gas' && config.supportsGasHeat
+  const gasEfficiency = mechanical.gasHeatingEfficiency || 0.9
+
+  const occupiedFraction = Math.min(1, (settings.occupiedHoursPerDay / 24) * (settings.occupiedDaysPerWeek / 7))
+  const ervSensible = config.hasEnergyRecovery ? settings.ervSensibleEffectiveness : 0
+  const ervLatent = config.hasEnergyRecovery ? settings.ervLatentEffectiveness : 0
+  const oaCfm = hvac.totalVentCFM
+
+  const outdoorAirCoolingBtuh = (tempF: number, humidityGr: number): number => {
+    const sensible = tempF > INDOOR_COOLING_DB ? 1.08 * oaCfm * (tempF - INDOOR_COOLING_DB) * (1 - ervSensible) : 0
+    const latent = tempF >= settings.coolingBalancePointF && humidityGr > INDOOR_HUMIDITY_GR
+      ? 0.68 * oaCfm * (humidityGr - INDOOR_HUMIDITY_GR) * (1 - ervLatent)
+      : 0
+    return sensible + latent
+  }
+  const outdoorAirHeatingBtuh = (tempF: number): number =>
+    tempF < INDOOR_HEATING_DB ? 1.08 * oaCfm * (INDOOR_HEATING_DB - tempF) * (1 - ervSensible) : 0
+
+  const eerAt = (tempF: number): number => efficiency.airSource
+    ? efficiency.coolingEer * Math.min(MAX_EER_MULTIPLIER, 1 + EER_CHANGE_PER_F * (RATED_COOLING_OUTDOOR_F - tempF))
+    : efficiency.coolingEer
+  const copAt = (tempF: number): number => efficiency.airSource && efficiency.heatingCop > 1
+    ? Math.max(1, efficiency.heatingCop * (1 - COP_CHANGE_PER_F * (RATED_HEATING_OUTDOOR_F - tempF)))
+    : efficiency.heatingCop
+
+  // Rule-of-thumb tons / MBH already carry the outdoor air - the envelope method does not
+  const coolingDesignDb = location.cooling_04_db
+  const heatingDesignDb = location.heating_99_db
+  const includesOutdoorAir = hvac.loadMethod !== 'envelope'
+  const spaceCoolingDesignBtuh = Math.max(0,
+    (hvac.totalTons - (hvac.poolChillerTons || 0)) * 12000
+      - (includesOutdoorAir ? outdoorAirCoolingBtuh(coolingDesignDb, location.summer_hr) : 0))
+  const spaceHeatingDesignBtuh = Math.max(0,
+    hvac.totalMBH * 1000 - (includesOutdoorAir ? outdoorAirHeatingBtuh(heatingDesignDb) : 0))
+
+  const totals: Record<EnergyEndUse, EndUseTotals> = {
+    space_cooling: { kwh: 0, therms: 0 },
+    space_heating: { kwh: 0, therms: 0 },
+    ventilation: { kwh: 0, therms: 0 },
+    fans: { kwh: 0, therms: 0 },
+    dhw: { kwh: 0, therms: 0 },
+    pool: { kwh: 0, therms: 0 },
+    building: { kwh: 0, therms: 0 },
+  }
+
+  // ---- Constant loads (not weather dependent) ----
+  const fanKw = mechanical.fanHpPer1000Cfm * (hvac.totalVentCFM + hvac.totalExhaustCFM) / 1000 * KW_PER_HP
+  totals.fans.kwh = fanKw * HOURS_PER_YEAR * occupiedFraction
+
+  const occupiedBuildingKw = inputs.buildingKW * settings.occupiedLoadFactor
+  const buildingLoadHours = HOURS_PER_YEAR
+    * (occupiedFraction * settings.occupiedLoadFactor + (1 - occupiedFraction) * settings.unoccupiedLoadFactor)
+  totals.building.kwh = inputs.buildingKW * buildingLoadHours
+  // Gas process equipment runs on the same schedule as the electric process loads
+  totals.building.therms = processGasMbh(inputs.zones) * 1000 * buildingLoadHours / BTU_PER_THERM
+
+  // DHW: daily use as equivalent hours at the peak-hour draw
+  const dhwAnnualBtu = dhw.peakGPH * settings.dhwPeakHoursPerDay * 365
+    * WATER_LB_PER_GAL * (dhwSettings.deliveryTemp - dhwSettings.coldWaterTemp)
+  if (dhwSettings.heaterType === 'gas') {
+    totals.dhw.therms = dhwAnnualBtu / ((dhwSettings.gasEfficiency || 0.9) * BTU_PER_THERM)
+  } else {
+    const cop = dhwSettings.useHeatPump && dhwSettings.heatPumpCOP > 1
+      ? dhwSettings.heatPumpCOP
+      : dhwSettings.electricEfficiency || 1
+    totals.dhw.kwh = dhwAnnualBtu / (BTU_PER_KWH * cop)
+  }
+
+  // Pool: dehumidifier runtime plus make-up of the evaporation heat it does not recover
+  if (hvac.dehumidLbHr > 0) {
+    const dehumidKw = hvac.dehumidLbHr * mechanical.dehumidKvaPerLbHr * inputs.powerFactor
+    totals.pool.kwh = dehumidKw * HOURS_PER_YEAR * settings.poolEvaporationFactor
+    const poolHeatBtu = hvac.dehumidLbHr * settings.poolEvaporationFactor * HOURS_PER_YEAR
+      * POOL_EVAPORATION_BTU_PER_LB * (1 - DEHUMIDIFIER_POOL_HEAT_RECOVERY)
+    const gasPoolHeater = inputs.zones.some(z => (z.processLoads.pool_heater_mbh || 0) > 0)
+    if (gasPoolHeater) {
+      totals.pool.therms = poolHeatBtu / (gasEfficiency * BTU_PER_THERM)
+    } else {
+      totals.pool.kwh += poolHeatBtu / (BTU_PER_KWH * POOL_HEAT_PUMP_COP)
+    }
+  }
+
+  // DHW and pool sit at their annual average in the peak hour
+  const dhwAverageKw = totals.dhw.kwh / HOURS_PER_YEAR
+  const poolAverageKw = totals.pool.kwh / HOURS_PER_YEAR
+
+  // ---- Weather-dependent loads by bin ----
+  const bins: EnergyBinResult[] = []
+  let peakDemandKw = 0
+  let peakBreakdown: Partial<Record<EnergyEndUse, number>> = {}
+
+  for (const bin of generateTemperatureBins(location)) {
+    const occupiedHours = bin.hours * occupiedFraction
+
+    // Beyond design the equipment is at capacity
+    const coolingFraction = Math.min(1, Math.max(0,
+      (bin.tempF - settings.coolingBalancePointF) / (coolingDesignDb - settings.coolingBalancePointF)))
+    const heatingFraction = Math.min(1, Math.max(0,
+      (settings.heatingBalancePointF - bin.tempF) / (settings.heatingBalancePointF - heatingDesignDb)))
+    const spaceCoolingBtuh = spaceCoolingDesignBtuh * coolingFraction
+    const spaceHeatingBtuh = spaceHeatingDesignBtuh * heatingFraction
+    const oaCoolingBtuh = outdoorAirCoolingBtuh(bin.tempF, bin.humidityGr)
+    const oaHeatingBtuh = outdoorAirHeatingBtuh(bin.tempF)
+
+    const eer = eerAt(bin.tempF)
+    const cop = copAt(bin.tempF)
+    const spaceCoolingKw = spaceCoolingBtuh / (eer * 1000)
+    const oaCoolingKw = oaCoolingBtuh / (eer * 1000)
+    const spaceHeatingKw = gasHeat ? 0 : spaceHeatingBtuh / (BTU_PER_KWH * cop)
+    const oaHeatingKw = gasHeat ? 0 : oaHeatingBtuh / (BTU_PER_KWH * cop)
+
+    totals.space_cooling.kwh += spaceCoolingKw * bin.hours
+    totals.ventilation.kwh += (oaCoolingKw + oaHeatingKw) * occupiedHours
+    totals.space_heating.kwh += spaceHeatingKw * bin.hours
+
+    let binTherms = 0
+    if (gasHeat) {
+      const spaceTherms = spaceHeatingBtuh * bin.hours / (gasEfficiency * BTU_PER_THERM)
+      const oaTherms = oaHeatingBtuh * occupiedHours / (gasEfficiency * BTU_PER_THERM)
+      totals.space_heating.therms += spaceTherms
+      totals.ventilation.therms += oaTherms
+      binTherms = spaceTherms + oaTherms
+    }
+
+    const breakdown: Partial<Record<EnergyEndUse, number>> = {
+      space_cooling: spaceCoolingKw,
+      space_heating: spaceHeatingKw,
+      ventilation: oaCoolingKw + oaHeatingKw,
+      fans: fanKw,
+      dhw: dhwAverageKw,
+      pool: poolAverageKw,
+      building: occupiedBuildingKw,
+    }
+    const binKw = Object.values(breakdown).reduce((sum, kw) => sum + (kw ?? 0), 0)
+    if (binKw > peakDemandKw) {
+      peakDemandKw = binKw
+      peakBreakdown = breakdown
+    }
+
+    bins.push({
+      tempF: bin.tempF,
+      hours: Math.round(bin.hours),
+      kw: Math.round(binKw * 10) / 10,
+      therms: Math.round(binTherms),
+    })
+  }
+
+  const endUses: EnergyEndUseResult[] = (Object.keys(totals) as EnergyEndUse[])
+    .map(id => ({
+      id,
+      name: ENERGY_END_USE_NAMES[id],
+      kwh: Math.round(totals[id].kwh),
+      therms: Math.round(totals[id].therms),
+      peakKw: Math.round((peakBreakdown[id] ?? 0) * 10) / 10,
+      cost: Math.round(totals[id].kwh * settings.electricRatePerKwh + totals[id].therms * settings.gasRatePerTherm),
+    }))
+    .filter(e => e.kwh > 0 || e.therms > 0)
+
+  const totalKwh = endUses.reduce((sum, e) => sum + e.kwh, 0)
+  const totalTherms = endUses.reduce((sum, e) => sum + e.therms, 0)
+  const electricCost = Math.round(totalKwh * settings.electricRatePerKwh)
+  const demandCost = Math.round(peakDemandKw * settings.demandRatePerKw * 12)
+  const gasCost = Math.round(totalTherms * settings.gasRatePerTherm)
+  const totalCost = electricCost + demandCost + gasCost
+
+  return {
+    settings,
+    locationName: formatLocationDisplay(location),
+    bins,
+    endUses,
+    totalKwh,
+    totalTherms,
+    peakDemandKw: Math.round(peakDemandKw * 10) / 10,
+    electricCost,
+    demandCost,
+    gasCost,
+    totalCost,
+    costPerSf: inputs.totalSF > 0 ? Math.round(totalCost / inputs.totalSF * 100) / 100 : 0,
+    euiKbtuSf: inputs.totalSF > 0
+      ? Math.round((totalKwh * BTU_PER_KWH + totalTherms * BTU_PER_THERM) / 1000 / inputs.totalSF * 10) / 10
+      : 0,
+  }
+}
@@ -0,0 +1,143 @@
+// ===========================================
+// ENVELOPE BLOCK LOADS - CLTD/SCL/CLF
+// Cooling: wall/roof CLTD, glass conduction + SCL, people, lighting,
+// equipment and infiltration at the 4 PM building peak
+// Heating: U·A·ΔT transmission + infiltration, no internal gain credit
+// ===========================================
+
+import type {
+  EnvelopeDesignConditions,
+  Zone,
+  ZoneEnvelope,
+  ZoneEnvelopeLoad,
+} from '../types'
+import { getDesignTemps, getLocationById, formatLocationDisplay } from '../data/ashraeClimate'
+import { calculateDefaultOccupancy } from '../data/ashrae62'
+import { getZoneDefaults } from '../data/zoneDefaults'
+import {
+  WALL_CLTD,
+  ROOF_CLTD,
+  GLASS_SCL,
+  SHGC_TO_SC,
+  CLTD_BASE_INDOOR_F,
+  CLTD_BASE_MEAN_OUTDOOR_F,
+  DEFAULT_DAILY_RANGE_F,
+  DEFAULT_INDOOR_COOLING_DB,
+  DEFAULT_INDOOR_HEATING_DB,
+  PEOPLE_GAINS,
+  ATHLETIC_ZONE_TYPES,
+  WATTS_TO_BTUH,
+  AIR_SENSIBLE_FACTOR,
+  DEFAULT_ENVELOPE_U,
+  DEFAULT_EQUIPMENT_W_SF,
+  DEFAULT_INFILTRATION_ACH,
+} from '../data/envelopeLoads'
+
+export const DEFAULT_ZONE_ENVELOPE: ZoneEnvelope = {
+  walls: [],
+  glazing: [],
+  roofAreaSF: 0,
+  roofU: DEFAULT_ENVELOPE_U.roof,
+  equipmentWSF: DEFAULT_EQUIPMENT_W_SF,
+  infiltrationACH: DEFAULT_INFILTRATION_ACH,
+}
+
+/**
+ * Design conditions for the project's ASHRAE location
+ * Returns null when no location is set - callers fall back to rules of thumb
+ */
+export function getEnvelopeDesignConditions(
+  locationId: string | undefined,
+  coolingCondition: '0.4%' | '1%' = '0.4%',
+  heatingCondition: '99%' | '99.6%' = '99%'
+): EnvelopeDesignConditions | null {
+  if (!locationId) return null
+  const location = getLocationById(locationId)
+  const temps = getDesignTemps(locationId, coolingCondition, heatingCondition)
+  if (!location || !temps) return null
+
+  return {
+    locationName: formatLocationDisplay(location),
+    coolingDb: temps.coolingDb,
+    heatingDb: temps.heatingDb,
+    dailyRange: DEFAULT_DAILY_RANGE_F,
+    indoorCoolingDb: DEFAULT_INDOOR_COOLING_DB,
+    indoorHeatingDb: DEFAULT_INDOOR_HEATING_DB,
+  }
+}
+
+// CLTDcorr = CLTD + (78 - Ti) + (Tm - 85)
+export function correctCLTD(cltd: number, design: EnvelopeDesignConditions): number {
+  const meanOutdoor = design.coolingDb - design.dailyRange / 2
+  return cltd + (CLTD_BASE_INDOOR_F - design.indoorCoolingDb) + (meanOutdoor - CLTD_BASE_MEAN_OUTDOOR_F)
+}
+
+export function getZoneOccupants(zone: Zone): number {
+  if (typeof zone.occupants === 'number') return zone.occupants
+  const spaceType = zone.ventilationSpaceType ?? getZoneDefaults(zone.type).defaultVentilationSpaceType ?? 'office'
+  return calculateDefaultOccupancy(spaceType, zone.sf)
+}
+
+export function hasEnvelopeInputs(zone: Zone): boolean {
+  const env = zone.envelope
+  if (!env) return false
+  return env.roofAreaSF > 0 || env.walls.some(w => w.areaSF > 0) || env.glazing.some(g => g.areaSF > 0)
+}
+
+export function calculateZoneEnvelopeLoad(zone: Zone, design: EnvelopeDesignConditions): ZoneEnvelopeLoad {
+  const env = { ...DEFAULT_ZONE_ENVELOPE, ...zone.envelope }
+  const coolingDT = design.coolingDb - design.indoorCoolingDb
+  const heatingDT = design.indoorHeatingDb - design.heatingDb
+
+  // Opaque envelope
+  const wallsBtuh = env.walls.reduce(
+    (sum, w) => sum + w.uValue * w.areaSF * correctCLTD(WALL_CLTD[w.orientation], design), 0
+  )
+  const roofBtuh = env.roofU * env.roofAreaSF * correctCLTD(ROOF_CLTD, design)
+
+  // Glazing - conduction at the design ΔT, solar through SCL × SC
+  const glazingConductionBtuh = env.glazing.reduce((sum, g) => sum + g.uValue * g.areaSF * coolingDT, 0)
+  const glazingSolarBtuh = env.glazing.reduce(
+    (sum, g) => sum + g.areaSF * g.shgc * SHGC_TO_SC * GLASS_SCL[g.orientation], 0
+  )
+
+  // Internal gains (CLF = 1.0 for a 24 hr system at peak occupancy)
+  const occupants = getZoneOccupants(zone)
+  const gains = ATHLETIC_ZONE_TYPES.includes(zone.type) ? PEOPLE_GAINS.athletic : PEOPLE_GAINS.moderate
+  const peopleSensibleBtuh = occupants * gains.sensible
+  const peopleLatentBtuh = occupants * gains.latent
+  const lightingBtuh = zone.sf * zone.rates.lighting_w_sf * WATTS_TO_BTUH
+  const equipmentBtuh = zone.sf * env.equipmentWSF * WATTS_TO_BTUH
+
+  // Infiltration (sensible)
+  const ceilingHeight = zone.ceilingHeightFt ?? zone.processLoads?.ceiling_height_ft ?? 10
+  const infiltrationCFM = env.infiltrationACH * zone.sf * ceilingHeight / 60
+  const infiltrationBtuh = AIR_SENSIBLE_FACTOR * infiltrationCFM * coolingDT
+
+  const coolingBtuh = Math.max(0,
+    wallsBtuh + roofBtuh + glazingConductionBtuh + glazingSolarBtuh +
+    peopleSensibleBtuh + peopleLatentBtuh + lightingBtuh + equipmentBtuh + infiltrationBtuh
+  )
+
+  const transmissionUA =
+    env.walls.reduce((sum, w) => sum + w.uValue * w.areaSF, 0) +
+    env.glazing.reduce((sum, g) => sum + g.uValue * g.areaSF, 0) +
+    env.roofU * env.roofAreaSF
+  const heatingBtuh = Math.max(0, transmissionUA * heatingDT + AIR_SENSIBLE_FACTOR * infiltrationCFM * heatingDT)
+
+  return {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    wallsBtuh: Math.round(wallsBtuh),
+    roofBtuh: Math.round(roofBtuh),
+    glazingConductionBtuh: Math.round(glazingConductionBtuh),
+    glazingSolarBtuh: Math.round(glazingSolarBtuh),
+    peopleSensibleBtuh: Math.round(peopleSensibleBtuh),
+    peopleLatentBtuh: Math.round(peopleLatentBtuh),
+    lightingBtuh: Math.round(lightingBtuh),
+    equipmentBtuh: Math.round(equipmentBtuh),
+    infiltrationBtuh: Math.round(infiltrationBtuh),
+    coolingBtuh: Math.round(coolingBtuh),
+    heatingBtuh: Math.round(heatingBtuh),
+  }
+}
@@ -0,0 +1,245 @@
+// ===========================================
+// EQUIPMENT SELECTION
+// Auto-selects catalog units for each system and builds the mechanical
+// equipment schedule. Units are split evenly when the load exceeds the
+// largest size: quantity = ceil(load / largest), then the smallest size
+// that carries load / quantity.
+// Connected kVA is on MCA (NEC 440 - includes 125% of the largest motor)
+// ===========================================
+
+import type { HVACCalcResult, MechanicalElectricalSettings } from '../types'
+import type {
+  EquipmentCatalogItem,
+  EquipmentCategory,
+  EquipmentSchedule,
+  ScheduledEquipment,
+} from '../types/equipment'
+import type { HVACSystem } from '../store/useHVACStore'
+import { HVAC_SYSTEM_CONFIGS } from '../data/defaults'
+import { getStandardOCPDRating } from '../data/necTables'
+import {
+  EQUIPMENT_CATEGORIES,
+  SYSTEM_PRIMARY_EQUIPMENT,
+  CATALOG_VOLTAGE,
+} from '../data/equipmentCatalog'
+
+// Capacity of a catalog item in its category's selection basis
+export function getEquipmentCapacity(item: EquipmentCatalogItem): number {
+  switch (EQUIPMENT_CATEGORIES[item.category].basis) {
+    case 'tons': return item.nominalTons
+    case 'cfm': return item.cfm
+    case 'lb_hr': return item.moistureLbHr
+  }
+}
+
+// 480V services feed 460V nameplate equipment
+export function getEquipmentVoltage(serviceVoltage: number): number {
+  return serviceVoltage >= 440 ? CATALOG_VOLTAGE : serviceVoltage
+}
+
+function formatTag(prefix: string, start: number, quantity: number): string {
+  return quantity > 1 ? `${prefix}-${start} – ${prefix}-${start + quantity - 1}` : `${prefix}-${start}`
+}
+
+interface SelectionOptions {
+  serves: string
+  voltage: number            // Equipment connection voltage
+  phase?: 1 | 3              // Connection phase (default 3)
+  tagStart?: number
+  maxUnitCapacity?: number   // Largest unit allowed (selection basis units)
+}
+
+export function selectEquipment(
+  category: EquipmentCategory,
+  designLoad: number,
+  catalog: EquipmentCatalogItem[],
+  options: SelectionOptions
+): ScheduledEquipment | null {
+  if (designLoad <= 0) return null
+
+  const candidates = catalog
+    .filter(item => item.category === category && !item.disabled && getEquipmentCapacity(item) > 0)
+    .sort((a, b) => getEquipmentCapacity(a) - getEquipmentCapacity(b))
+  if (candidates.length === 0) return null
+
+  const allowed = options.maxUnitCapacity
+    ? candidates.filter(item => getEquipmentCapacity(item) <= options.maxUnitCapacity!)
+    : candidates
+  const sizes = allowed.length > 0 ? allowed : candidates.slice(0, 1)
+  const largest = sizes[sizes.length - 1]
+
+  const quantity = Math.ceil(designLoad / getEquipmentCapacity(largest))
+  const designPerUnit = designLoad / quantity
+  const item = sizes.find(s => getEquipmentCapacity(s) >= designPerUnit) ?? largest
+
+  // Same kVA at the connection voltage - amps scale with the voltage ratio
+  const ratio = item.voltage / options.voltage
+  const mca = item.mca * ratio
+  const mocp = ratio === 1 ? item.mocp : getStandardOCPDRating(item.mocp * ratio)
+  const phaseMultiplier = (options.phase ?? 3) === 3 ? Math.sqrt(3) : 1
+  const kvaPerUnit = phaseMultiplier * options.voltage * mca / 1000
+
+  return {
+    tag: formatTag(EQUIPMENT_CATEGORIES[category].tagPrefix, options.tagStart ?? 1, quantity),
+    category,
+    item,
+    quantity,
+    designPerUnit: Math.round(designPerUnit * 10) / 10,
+    capacityPerUnit: getEquipmentCapacity(item),
+    mca: Math.round(mca * 10) / 10,
+    mocp,
+    voltage: options.voltage,
+    kva: Math.round(kvaPerUnit * quantity * 10) / 10,
+    weightLb: item.weightLb * quantity,
+    serves: options.serves,
+  }
+}
+
+export function getScheduleKVA(schedule: EquipmentSchedule, category: EquipmentCategory): number {
+  return schedule.units
+    .filter(u => u.category === category)
+    .reduce((sum, u) => sum + u.kva, 0)
+}
+
+export interface ScheduleElectricalLoads {
+  schedule?: EquipmentSchedule
+  coolingKVA: number | null     // RTU compressors + fans (null = kVA per ton)
+  ahuFanKVA: number
+  doasKVA: number
+  dehumidKVA: number | null     // null = kVA per lb/hr
+  fanCFM: number                // Airflow left on the HP per 1000 CFM factor
+}
+
+// Mechanical kVA pieces the schedule replaces when equipmentScheduleLoads is on
+export function getScheduleElectricalLoads(
+  hvac: HVACCalcResult,
+  settings: MechanicalElectricalSettings
+): ScheduleElectricalLoads {
+  const schedule = (settings.equipmentScheduleLoads ?? true) ? hvac.equipmentSchedule : undefined
+  const hasDehumidifier = !!schedule?.units.some(u => u.category === 'dehumidifier')
+  return {
+    schedule,
+    coolingKVA: schedule?.coversCooling ? getScheduleKVA(schedule, 'rtu') : null,
+    ahuFanKVA: schedule ? getScheduleKVA(schedule, 'ahu') : 0,
+    doasKVA: schedule ? getScheduleKVA(schedule, 'doas') : 0,
+    dehumidKVA: schedule && hasDehumidifier ? getScheduleKVA(schedule, 'dehumidifier') : null,
+    fanCFM: (schedule?.coversVentilation ? 0 : hvac.totalVentCFM) + hvac.totalExhaustCFM,
+  }
+}
+
+function countUnits(units: ScheduledEquipment[], category: EquipmentCategory): number {
+  return units.filter(u => u.category === category).reduce((sum, u) => sum + u.quantity, 0)
+}
+
+function missingCategoryWarning(category: EquipmentCategory): string {
+  return `No enabled ${EQUIPMENT_CATEGORIES[category].name.toLowerCase()} in the equipment catalog`
+}
+
+// ===========================================
+// CONCEPT MEP - one schedule for the project system type
+// ===========================================
+export function selectConceptEquipment(
+  hvac: HVACCalcResult,
+  settings: MechanicalElectricalSettings,
+  catalog: EquipmentCatalogItem[],
+  serviceVoltage: number,
+  servicePhase: 1 | 3 = 3
+): EquipmentSchedule {
+  const systemType = settings.hvacSystemType || 'vrf_erv'
+  const config = HVAC_SYSTEM_CONFIGS[systemType]
+  const primary = SYSTEM_PRIMARY_EQUIPMENT[systemType]
+  const voltage = getEquipmentVoltage(serviceVoltage)
+  const units: ScheduledEquipment[] = []
+  const warnings: string[] = []
+
+  const spaceCoolingTons = hvac.totalTons - (hvac.poolChillerTons || 0)
+  if (primary && spaceCoolingTons > 0) {
+    const unit = selectEquipment(primary, spaceCoolingTons, catalog, {
+      serves: 'Space cooling / heating',
+      voltage,
+      phase: servicePhase,
+      maxUnitCapacity: config.unitSizeRange.max,
+    })
+    if (unit) units.push(unit)
+    else warnings.push(missingCategoryWarning(primary))
+  } else if (!primary) {
+    warnings.push(`${config.name} terminal units are not in the catalog - cooling stays on kVA per ton`)
+  }
+
+  const needsDoas = config.ventilationType !== 'integrated' || !primary
+  if (needsDoas && hvac.totalVentCFM > 0) {
+    const unit = selectEquipment('doas', hvac.totalVentCFM, catalog, { serves: 'Outdoor air', voltage, phase: servicePhase })
+    if (unit) units.push(unit)
+    else warnings.push(missingCategoryWarning('doas'))
+  }
+
+  if (hvac.dehumidLbHr > 0) {
+    const unit = selectEquipment('dehumidifier', hvac.dehumidLbHr, catalog, {
+      serves: 'Natatorium dehumidification',
+      voltage,
+      phase: servicePhase,
+    })
+    if (unit) units.push(unit)
+    else warnings.push(missingCategoryWarning('dehumidifier'))
+  }
+
+  return {
+    units,
+    primaryUnitCount: primary ? countUnits(units, primary) : 0,
+    coversCooling: units.some(u => u.category === 'rtu'),
+    coversVentilation: units.some(u => u.category === 'doas')
+      || (config.ventilationType === 'integrated' && units.some(u => u.category === primary)),
+    warnings,
+  }
+}
+
+// ===========================================
+// HVAC MODULE - one selection per system
+// ===========================================
+const HVAC_SYSTEM_EQUIPMENT: Record<HVACSystem['systemType'], EquipmentCategory> = {
+  single_zone: 'rtu',
+  vav_multi_zone: 'ahu',
+  doas_100_oa: 'doas',
+}
+
+export interface SystemEquipmentLoad {
+  system: HVACSystem
+  coolingTons: number        // Block space load + outdoor air load
+  outdoorAirCfm: number      // Vot
+}
+
+export function selectSystemEquipment(
+  loads: SystemEquipmentLoad[],
+  catalog: EquipmentCatalogItem[],
+  voltage: number = CATALOG_VOLTAGE
+): EquipmentSchedule {
+  const units: ScheduledEquipment[] = []
+  const warnings: string[] = []
+  const nextTag: Record<EquipmentCategory, number> = { rtu: 1, ahu: 1, doas: 1, dehumidifier: 1 }
+
+  for (const { system, coolingTons, outdoorAirCfm } of loads) {
+    const category = HVAC_SYSTEM_EQUIPMENT[system.systemType]
+    const design = category === 'doas' ? outdoorAirCfm : coolingTons
+    if (design <= 0) continue
+
+    const unit = selectEquipment(category, design, catalog, {
+      serves: system.name,
+      voltage,
+      tagStart: nextTag[category],
+    })
+    if (unit) {
+      units.push(unit)
+      nextTag[category] += unit.quantity
+    } else {
+      warnings.push(`${system.name}: ${missingCategoryWarning(category).toLowerCase()}`)
+    }
+  }
+
+  return {
+    units,
+    primaryUnitCount: countUnits(units, 'rtu') + countUnits(units, 'ahu'),
+    coversCooling: units.some(u => u.category === 'rtu'),
+    coversVentilation: units.length > 0,
+    warnings,
+  }
+}
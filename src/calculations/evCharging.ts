@@ -0,0 +1,85 @@
+// ===========================================
+// EV CHARGING LOAD - NEC ARTICLE 625
+// 625.41: EVSE is a continuous load (125%)
+// 625.42: where an EMS per 750.30 limits the load, the EMS setpoint is the
+// maximum equipment load on the service and feeder
+// ===========================================
+
+import type { EVChargerLevel, EVChargingResult, EVChargingSettings, NEC220LoadItem } from '../types/electrical'
+import { EV_CHARGER_LEVELS, EVSE_CONTINUOUS_FACTOR, EMS_MIN_KW_PER_L2_PORT } from '../data/evChargerTables'
+
+export const DEFAULT_EV_CHARGING_SETTINGS: EVChargingSettings = {
+  chargers: {
+    level1: { count: 0, kwPerPort: EV_CHARGER_LEVELS.level1.defaultKWPerPort },
+    level2: { count: 0, kwPerPort: EV_CHARGER_LEVELS.level2.defaultKWPerPort },
+    dcfc: { count: 0, kwPerPort: EV_CHARGER_LEVELS.dcfc.defaultKWPerPort },
+  },
+  emsEnabled: false,
+  emsLimitKW: 0,
+}
+
+export function calculateEVCharging(settings: EVChargingSettings = DEFAULT_EV_CHARGING_SETTINGS): EVChargingResult {
+  const warnings: string[] = []
+
+  const groups = (Object.keys(EV_CHARGER_LEVELS) as EVChargerLevel[]).map(level => {
+    const entry = settings.chargers[level] ?? DEFAULT_EV_CHARGING_SETTINGS.chargers[level]
+    const count = Math.max(0, entry.count)
+    return {
+      level,
+      name: EV_CHARGER_LEVELS[level].name,
+      count,
+      kwPerPort: entry.kwPerPort,
+      connectedKW: count * entry.kwPerPort,
+    }
+  }).filter(g => g.count > 0)
+
+  const ports = groups.reduce((sum, g) => sum + g.count, 0)
+  const connectedKW = groups.reduce((sum, g) => sum + g.connectedKW, 0)
+
+  // EMS caps the service load; it never raises it above nameplate
+  const emsActive = settings.emsEnabled && settings.emsLimitKW > 0
+  const emsLimitKW = emsActive ? settings.emsLimitKW : null
+  const serviceKW = emsLimitKW !== null ? Math.min(connectedKW, emsLimitKW) : connectedKW
+  const managedKWPerPort = ports > 0 ? serviceKW / ports : 0
+
+  if (emsLimitKW !== null) {
+    const level2Ports = groups.find(g => g.level === 'level2')?.count ?? 0
+    const dcfc = groups.find(g => g.level === 'dcfc')
+    if (dcfc && emsLimitKW < dcfc.kwPerPort) {
+      warnings.push(`EMS limit ${emsLimitKW} kW is below one DC fast charger (${dcfc.kwPerPort} kW)`)
+    }
+    if (level2Ports > 0 && managedKWPerPort < EMS_MIN_KW_PER_L2_PORT) {
+      warnings.push(`EMS leaves ${managedKWPerPort.toFixed(1)} kW per port - below ${EMS_MIN_KW_PER_L2_PORT} kW useful Level 2 charging`)
+    }
+    if (emsLimitKW >= connectedKW) {
+      warnings.push('EMS limit is at or above the connected load - no reduction taken')
+    }
+  }
+
+  return {
+    groups,
+    ports,
+    connectedKW,
+    emsLimitKW,
+    serviceKW,
+    designKW: serviceKW * EVSE_CONTINUOUS_FACTOR,
+    managedKWPerPort,
+    warnings,
+  }
+}
+
+// EV charging as one NEC 220 load item (the 125% is applied with the demand factors)
+export function getEVChargingLoadItem(ev: EVChargingResult): NEC220LoadItem | null {
+  if (ev.serviceKW <= 0) return null
+  const va = ev.serviceKW * 1000
+  return {
+    source: 'EV Charging',
+    description: ev.emsLimitKW !== null && ev.emsLimitKW < ev.connectedKW
+      ? `${ev.ports} ports, EMS limited to ${ev.serviceKW.toFixed(1)} kW (${ev.connectedKW.toFixed(1)} kW connected)`
+      : `${ev.ports} ports @ nameplate`,
+    category: 'ev_charging',
+    connectedVA: va,
+    quantity: ev.ports,
+    unitVA: 0,
+  }
+}
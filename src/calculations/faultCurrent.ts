@@ -0,0 +1,240 @@
+// ===========================================
+// AVAILABLE FAULT CURRENT - POINT-TO-POINT METHOD
+// Utility transformer → service conductors → MDP → feeders → panels
+// Isc(xfmr) = FLA × 100 / (0.9 × %Z)            (infinite primary)
+// f = k × L × I / (C × n × V)   M = 1 / (1 + f)  (k = √3 three-phase, 2 single-phase)
+// Reference: Eaton Bussmann SPD, NEC 110.9 / 110.10 / 110.24
+// ===========================================
+
+import type { ElectricalCalcResult } from '../types'
+import type {
+  FaultCurrentBus,
+  FaultCurrentResult,
+  FaultCurrentSettings,
+  FeederSizingRow,
+  FeederSizingSettings,
+} from '../types/electrical'
+import {
+  TRANSFORMER_Z_TOLERANCE,
+  DEFAULT_SWITCHBOARD_AIC_KA,
+  DEFAULT_PANEL_AIC_KA,
+  getConductorCValue,
+  getUtilityTransformerKVA,
+  getStandardAICRating,
+} from '../data/shortCircuitTables'
+import { sizeConductor, sizeDistributionFeeders } from './conductorSizing'
+
+export const DEFAULT_FAULT_CURRENT_SETTINGS: FaultCurrentSettings = {
+  utilityImpedancePercent: 5,
+  racewayType: 'steel',
+  stepDownImpedancePercent: 5,
+  secondaryLengthFt: 10,
+  aicRatingsKA: {},
+}
+
+// Point-to-point "f" factor for a conductor run
+export function calculatePointToPointFactor(
+  faultCurrentA: number,
+  lengthFt: number,
+  cValue: number,
+  sets: number,
+  voltage: number,
+  phase: 1 | 3
+): number {
+  if (cValue <= 0 || sets <= 0 || voltage <= 0) return 0
+  const k = phase === 3 ? Math.sqrt(3) : 2
+  return k * lengthFt * faultCurrentA / (cValue * sets * voltage)
+}
+
+// Let-through fault at a transformer secondary, given the primary fault current
+export function calculateTransformerSecondaryFault(
+  primaryFaultA: number,
+  primaryVoltage: number,
+  secondaryVoltage: number,
+  kva: number,
+  impedancePercent: number,
+  phase: 1 | 3
+): { fFactor: number; multiplier: number; faultCurrentA: number } {
+  const z = impedancePercent * TRANSFORMER_Z_TOLERANCE
+  const fFactor = phase === 3
+    ? primaryFaultA * primaryVoltage * Math.sqrt(3) * z / (100000 * kva)
+    : primaryFaultA * primaryVoltage * z / (100000 * kva)
+  const multiplier = 1 / (1 + fFactor)
+  return { fFactor, multiplier, faultCurrentA: (primaryVoltage / secondaryVoltage) * multiplier * primaryFaultA }
+}
+
+function defaultAIC(voltage: number, isSwitchboard: boolean): number {
+  if (isSwitchboard) return DEFAULT_SWITCHBOARD_AIC_KA
+  return voltage >= 480 ? DEFAULT_PANEL_AIC_KA.high : DEFAULT_PANEL_AIC_KA.low
+}
+
+export function calculateFaultCurrent(
+  electrical: ElectricalCalcResult,
+  settings: FaultCurrentSettings = DEFAULT_FAULT_CURRENT_SETTINGS,
+  feederSettings?: FeederSizingSettings
+): FaultCurrentResult | undefined {
+  const service = electrical.nec220
+  const schedule = electrical.panelSchedule
+  if (!service || !schedule) return undefined
+
+  const warnings: string[] = []
+  const feeders = sizeDistributionFeeders(electrical, feederSettings)
+  const feederByName = new Map<string, FeederSizingRow>(feeders.map(f => [f.name, f]))
+  const material = feederSettings?.material ?? 'copper'
+
+  // ===========================================
+  // Utility transformer secondary
+  // ===========================================
+  const serviceVoltage = service.voltage
+  const servicePhase = service.phase
+  const serviceKVA = service.serviceRatingAmps * serviceVoltage * (servicePhase === 3 ? Math.sqrt(3) : 1) / 1000
+  const utilityTransformerKVA = settings.utilityTransformerKVA ?? getUtilityTransformerKVA(serviceKVA)
+  const secondaryFLA = utilityTransformerKVA * 1000 / (serviceVoltage * (servicePhase === 3 ? Math.sqrt(3) : 1))
+  const transformerFaultA = secondaryFLA * 100 / (settings.utilityImpedancePercent * TRANSFORMER_Z_TOLERANCE)
+
+  const buses: FaultCurrentBus[] = []
+
+  const makeBus = (
+    name: string,
+    fedFrom: string,
+    voltage: number,
+    phase: 1 | 3,
+    conductor: string,
+    lengthFt: number,
+    fFactor: number,
+    faultCurrentA: number,
+    isSwitchboard: boolean
+  ): FaultCurrentBus => {
+    const aicRatingKA = settings.aicRatingsKA[name] ?? defaultAIC(voltage, isSwitchboard)
+    const requiredAICKA = getStandardAICRating(faultCurrentA / 1000)
+    const adequate = aicRatingKA * 1000 >= faultCurrentA
+    if (!adequate) {
+      warnings.push(
+        `${name}: ${(faultCurrentA / 1000).toFixed(1)} kA available exceeds ${aicRatingKA} kA rating - ` +
+        `specify ${requiredAICKA} kA equipment or a tested series rating (NEC 110.9 / 240.86)`
+      )
+    }
+    return {
+      name,
+      fedFrom,
+      voltage,
+      phase,
+      conductor,
+      lengthFt,
+      fFactor,
+      multiplier: 1 / (1 + fFactor),
+      faultCurrentA,
+      aicRatingKA,
+      requiredAICKA,
+      adequate,
+    }
+  }
+
+  // Conductor run from an upstream fault to the next bus
+  const throughConductors = (row: FeederSizingRow, upstreamFaultA: number) => {
+    const cValue = getConductorCValue(row.result.conductorSize, material, settings.racewayType)
+    const fFactor = calculatePointToPointFactor(
+      upstreamFaultA, row.lengthFt, cValue, row.result.sets, row.voltage, row.phase
+    )
+    return { fFactor, faultCurrentA: upstreamFaultA / (1 + fFactor) }
+  }
+
+  // ===========================================
+  // Service conductors → MDP
+  // ===========================================
+  const { mdp } = schedule
+  const serviceRow = feederByName.get('Service')
+  const mdpFault = serviceRow
+    ? throughConductors(serviceRow, transformerFaultA)
+    : { fFactor: 0, faultCurrentA: transformerFaultA }
+  buses.push(makeBus(
+    mdp.name,
+    `Utility ${utilityTransformerKVA} kVA`,
+    mdp.voltageLL,
+    mdp.phase,
+    serviceRow?.result.description ?? 'Transformer secondary',
+    serviceRow?.lengthFt ?? 0,
+    mdpFault.fFactor,
+    mdpFault.faultCurrentA,
+    true
+  ))
+
+  // ===========================================
+  // MDP feeders → panels (through step-down transformers for LP panels on 480V)
+  // ===========================================
+  schedule.panels.forEach(panel => {
+    const feederRow = feederByName.get(panel.transformerKVA ? panel.fedFrom : panel.name)
+    if (!feederRow) {
+      warnings.push(`${panel.name}: no feeder found from ${mdp.name}`)
+      return
+    }
+    const feederFault = throughConductors(feederRow, mdpFault.faultCurrentA)
+
+    if (!panel.transformerKVA) {
+      buses.push(makeBus(
+        panel.name,
+        mdp.name,
+        panel.voltageLL,
+        panel.phase,
+        feederRow.result.description,
+        feederRow.lengthFt,
+        feederFault.fFactor,
+        feederFault.faultCurrentA,
+        false
+      ))
+      return
+    }
+
+    // Transformer, then the secondary conductors to the panel
+    const secondary = calculateTransformerSecondaryFault(
+      feederFault.faultCurrentA,
+      feederRow.voltage,
+      panel.voltageLL,
+      panel.transformerKVA,
+      settings.stepDownImpedancePercent,
+      panel.phase
+    )
+    const secondaryConductors = sizeConductor({
+      loadAmps: panel.demandAmps,
+      voltage: panel.voltageLL,
+      phase: panel.phase,
+      lengthFt: settings.secondaryLengthFt,
+      material,
+      insulationRating: feederSettings?.insulationRating ?? 75,
+      ambientTempF: feederSettings?.ambientTempF ?? 86,
+      ocpdAmps: panel.mainBreakerAmps,
+      targetVoltageDropPercent: feederSettings?.targetVoltageDropPercent ?? 3,
+    })
+    const secondaryRow: FeederSizingRow = {
+      name: `${panel.fedFrom} secondary`,
+      description: secondaryConductors.description,
+      loadAmps: panel.demandAmps,
+      voltage: panel.voltageLL,
+      phase: panel.phase,
+      lengthFt: settings.secondaryLengthFt,
+      result: secondaryConductors,
+    }
+    const panelFault = throughConductors(secondaryRow, secondary.faultCurrentA)
+
+    buses.push(makeBus(
+      panel.name,
+      `${panel.fedFrom} (${panel.transformerKVA} kVA)`,
+      panel.voltageLL,
+      panel.phase,
+      `${feederRow.result.description} → ${panel.transformerKVA} kVA @ ${settings.stepDownImpedancePercent}%Z → ${secondaryConductors.description}`,
+      settings.secondaryLengthFt,
+      panelFault.fFactor,
+      panelFault.faultCurrentA,
+      false
+    ))
+  })
+
+  return {
+    utilityTransformerKVA,
+    utilityImpedancePercent: settings.utilityImpedancePercent,
+    secondaryFLA,
+    transformerFaultA,
+    buses,
+    warnings,
+  }
+}
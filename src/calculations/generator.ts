@@ -0,0 +1,239 @@
+// ===========================================
+// EMERGENCY / STANDBY GENERATOR SIZING
+// Loads by NEC class (700 / 701 / 702) from zones and line items,
+// step-loaded with motor starting kVA, then sized for running load and transient dip
+// Voltage dip ≈ S_step × X"d / (S_gen + S_step × X"d)
+// Reference: NEC 700 / 701 / 702, NFPA 110, Cummins T-030
+// ===========================================
+
+import type { Zone, LineItem } from '../types'
+import type {
+  GeneratorLoadClass,
+  GeneratorLoadItem,
+  GeneratorSizingResult,
+  GeneratorSizingSettings,
+  GeneratorStep,
+} from '../types/electrical'
+import { getZoneDefaults } from '../data/zoneDefaults'
+import { MOTOR_NAME_PATTERN } from '../data/necTables'
+import {
+  EGRESS_LIGHTING_W_SF,
+  FIRE_ALARM_W_SF,
+  FIRE_ALARM_MIN_KW,
+  LEGALLY_REQUIRED_PATTERN,
+  LOCKED_ROTOR_KVA_PER_HP,
+  MOTOR_STARTING_FACTORS,
+  MOTOR_RUNNING_KVA_PER_HP,
+  GENERATOR_SUBTRANSIENT_REACTANCE,
+  GENERATOR_RATED_PF,
+  GENERATOR_MAX_CONTINUOUS_LOADING,
+  GENERATOR_LOAD_CLASSES,
+  STANDARD_GENERATOR_KW,
+  NATURAL_GAS_BTU_PER_CF,
+  getStandardGeneratorKW,
+  getGeneratorFuelPerKW,
+  getStandardFuelTankGal,
+} from '../data/generatorTables'
+
+export const DEFAULT_GENERATOR_SIZING_SETTINGS: GeneratorSizingSettings = {
+  fuelType: 'diesel',
+  targetRuntimeHours: 8,
+  motorStarting: 'across_the_line',
+  maxVoltageDipPercent: 30,
+  includeOptionalStandby: true,
+  egressOnGenerator: false,
+}
+
+// Line item → running kW and motor horsepower (0 if not a motor)
+function lineItemLoad(li: LineItem): { kw: number; hp: number } {
+  const unit = li.unit?.toLowerCase() || ''
+  let kw = 0
+  if (unit === 'kw') kw = li.quantity * li.value
+  else if (unit === 'w') kw = li.quantity * li.value / 1000
+  else if (unit === 'hp') kw = li.quantity * li.value * 0.746
+
+  const isMotor = unit === 'hp' || MOTOR_NAME_PATTERN.test(li.name)
+  return { kw, hp: isMotor ? kw / 0.746 : 0 }
+}
+
+// ===========================================
+// LOAD INVENTORY
+// ===========================================
+export function collectGeneratorLoads(
+  zones: Zone[],
+  settings: GeneratorSizingSettings = DEFAULT_GENERATOR_SIZING_SETTINGS,
+  powerFactor: number = 0.9
+): GeneratorLoadItem[] {
+  const items: GeneratorLoadItem[] = []
+  const startingFactor = MOTOR_STARTING_FACTORS[settings.motorStarting].factor
+
+  const addLoad = (source: string, description: string, loadClass: GeneratorLoadClass, kw: number, hp: number = 0) => {
+    if (kw <= 0) return
+    const isMotor = hp > 0
+    const runningKVA = isMotor ? hp * MOTOR_RUNNING_KVA_PER_HP : kw / powerFactor
+    items.push({
+      source,
+      description,
+      loadClass,
+      runningKW: kw,
+      runningKVA,
+      isMotor,
+      startingKVA: isMotor ? hp * LOCKED_ROTOR_KVA_PER_HP * startingFactor : runningKVA,
+    })
+  }
+
+  zones.forEach(zone => {
+    const defaults = getZoneDefaults(zone.type)
+    const standby = settings.includeOptionalStandby && !!defaults.requires_standby_power
+
+    // 700 - Egress lighting in every zone when it is not on battery units (never more than the zone's own lighting)
+    const lightingKW = zone.sf * zone.rates.lighting_w_sf / 1000
+    const egressKW = settings.egressOnGenerator ? Math.min(lightingKW, zone.sf * EGRESS_LIGHTING_W_SF / 1000) : 0
+    addLoad(zone.name, `Egress lighting - ${zone.sf.toLocaleString()} SF`, 'emergency', egressKW)
+
+    // 702 - Remaining lighting and receptacles in zones flagged for standby power
+    if (standby) {
+      const receptacleKW = zone.sf * zone.rates.receptacle_va_sf / 1000
+      addLoad(zone.name, 'Lighting & receptacles', 'optional', lightingKW - egressKW + receptacleKW)
+    }
+
+    // Line items: legally required equipment anywhere, everything else only in standby zones
+    ;(zone.lineItems || []).forEach(li => {
+      const { kw, hp } = lineItemLoad(li)
+      const description = `${li.quantity} × ${li.name} (${li.value} ${li.unit})`
+      if (LEGALLY_REQUIRED_PATTERN.test(li.name)) {
+        addLoad(zone.name, description, 'legally_required', kw, hp)
+      } else if (standby) {
+        addLoad(zone.name, description, 'optional', kw, hp)
+      }
+    })
+  })
+
+  // 700 - Fire alarm and life-safety systems for the whole building
+  const totalSF = zones.reduce((sum, z) => sum + z.sf, 0)
+  if (settings.egressOnGenerator && totalSF > 0) {
+    addLoad('Building', 'Fire alarm / life-safety systems', 'emergency', Math.max(FIRE_ALARM_MIN_KW, totalSF * FIRE_ALARM_W_SF / 1000))
+  }
+
+  return items
+}
+
+// ===========================================
+// STEP LOADING
+// Step 1: emergency (10 s), step 2: legally required (60 s),
+// step 3: optional non-motor loads, then optional motors largest first
+// ===========================================
+export function buildGeneratorSteps(items: GeneratorLoadItem[], maxVoltageDipPercent: number): GeneratorStep[] {
+  const groups: { description: string; loads: GeneratorLoadItem[] }[] = [
+    { description: `${GENERATOR_LOAD_CLASSES.emergency.name} (NEC 700)`, loads: items.filter(i => i.loadClass === 'emergency') },
+    { description: `${GENERATOR_LOAD_CLASSES.legally_required.name} (NEC 701)`, loads: items.filter(i => i.loadClass === 'legally_required') },
+    { description: 'Optional standby - non-motor loads (NEC 702)', loads: items.filter(i => i.loadClass === 'optional' && !i.isMotor) },
+    ...items
+      .filter(i => i.loadClass === 'optional' && i.isMotor)
+      .sort((a, b) => b.startingKVA - a.startingKVA)
+      .map(i => ({ description: `Optional standby - ${i.source}: ${i.description}`, loads: [i] })),
+  ]
+
+  // S_gen = S_step × X"d × (1 - dip) / dip
+  const dip = Math.min(0.9, Math.max(0.05, maxVoltageDipPercent / 100))
+  const dipMultiplier = GENERATOR_SUBTRANSIENT_REACTANCE * (1 - dip) / dip
+
+  const steps: GeneratorStep[] = []
+  let cumulativeKW = 0
+  let cumulativeKVA = 0
+  groups.forEach(group => {
+    if (group.loads.length === 0) return
+    const loadKW = group.loads.reduce((sum, i) => sum + i.runningKW, 0)
+    const startingKVA = group.loads.reduce((sum, i) => sum + i.startingKVA, 0)
+    cumulativeKW += loadKW
+    cumulativeKVA += group.loads.reduce((sum, i) => sum + i.runningKVA, 0)
+    steps.push({
+      step: steps.length + 1,
+      description: group.description,
+      loadKW,
+      startingKVA,
+      cumulativeKW,
+      cumulativeKVA,
+      requiredKVA: startingKVA * dipMultiplier,
+    })
+  })
+  return steps
+}
+
+// ===========================================
+// GENERATOR SIZING
+// ===========================================
+export function calculateGeneratorSizing(
+  zones: Zone[],
+  settings: GeneratorSizingSettings = DEFAULT_GENERATOR_SIZING_SETTINGS,
+  powerFactor: number = 0.9
+): GeneratorSizingResult {
+  const warnings: string[] = []
+  const loads = collectGeneratorLoads(zones, settings, powerFactor)
+  const steps = buildGeneratorSteps(loads, settings.maxVoltageDipPercent)
+
+  const kwByClass: Record<GeneratorLoadClass, number> = { emergency: 0, legally_required: 0, optional: 0 }
+  loads.forEach(l => { kwByClass[l.loadClass] += l.runningKW })
+
+  const runningKW = loads.reduce((sum, l) => sum + l.runningKW, 0)
+  const runningKVA = loads.reduce((sum, l) => sum + l.runningKVA, 0)
+  const largestStepKVA = steps.reduce((max, s) => Math.max(max, s.startingKVA), 0)
+
+  // Running: 80% of standby rating on both kW and kVA; starting: worst step transient dip
+  const runningRequiredKW = Math.max(
+    runningKW / GENERATOR_MAX_CONTINUOUS_LOADING,
+    runningKVA * GENERATOR_RATED_PF / GENERATOR_MAX_CONTINUOUS_LOADING
+  )
+  const startingRequiredKW = steps.reduce((max, s) => Math.max(max, s.requiredKVA), 0) * GENERATOR_RATED_PF
+  const sizedBy: GeneratorSizingResult['sizedBy'] = startingRequiredKW > runningRequiredKW ? 'starting' : 'running'
+  const requiredKW = Math.max(runningRequiredKW, startingRequiredKW)
+  const recommendedKW = requiredKW > 0 ? getStandardGeneratorKW(requiredKW) : 0
+  const recommendedKVA = recommendedKW / GENERATOR_RATED_PF
+  const loadPercent = recommendedKW > 0 ? runningKW / recommendedKW : 0
+
+  if (requiredKW > STANDARD_GENERATOR_KW[STANDARD_GENERATOR_KW.length - 1]) {
+    warnings.push(`Required ${Math.round(requiredKW).toLocaleString()} kW exceeds the largest single genset - consider paralleled generators`)
+  }
+  if (kwByClass.emergency > 0 && kwByClass.optional > kwByClass.emergency * 4) {
+    warnings.push('Optional standby dominates the load - NEC 700.10(B) requires emergency circuits on a separate ATS with load shedding of optional loads')
+  }
+  if (sizedBy === 'starting' && loadPercent < 0.3) {
+    warnings.push(`Running load is ${Math.round(loadPercent * 100)}% of rating with motor starting governing - consider soft starters/VFDs to avoid wet stacking`)
+  }
+
+  // Fuel at the running load
+  const fuelPerKW = getGeneratorFuelPerKW(settings.fuelType, loadPercent)
+  let fuelPerHour = recommendedKW * fuelPerKW
+  let tankGallons: number | null = null
+  let runtimeHours: number | null = null
+  if (recommendedKW === 0) {
+    warnings.push('No standby loads - flag zones for standby power, add life-safety line items or put egress lighting on the generator to size one')
+  } else if (settings.fuelType === 'diesel') {
+    tankGallons = getStandardFuelTankGal(fuelPerHour * settings.targetRuntimeHours)
+    runtimeHours = fuelPerHour > 0 ? tankGallons / fuelPerHour : 0
+    if (tankGallons > 660) {
+      warnings.push(`${tankGallons.toLocaleString()} gal exceeds the 660 gal limit for a generator tank inside a building (NFPA 37) - provide a fuel storage room or exterior tank`)
+    }
+  } else {
+    fuelPerHour = fuelPerHour / NATURAL_GAS_BTU_PER_CF
+    warnings.push('Natural gas generators qualify for NEC 700 only where the utility gas supply is approved as reliable by the AHJ (700.12(B)(3))')
+  }
+
+  return {
+    loads,
+    steps,
+    kwByClass,
+    runningKW,
+    runningKVA,
+    largestStepKVA,
+    recommendedKW,
+    recommendedKVA,
+    sizedBy,
+    loadPercent,
+    fuelType: settings.fuelType,
+    fuelPerHour,
+    tankGallons,
+    runtimeHours,
+    warnings,
+  }
+}
@@ -1,6 +1,14 @@
-import type { Zone, HVACCalcResult, ClimateType } from '../types'
+import type {
+  Zone,
+  HVACCalcResult,
+  ClimateType,
+  HVACLoadMethod,
+  EnvelopeDesignConditions,
+  ZoneEnvelopeLoad,
+} from '../types'
 import { getZoneDefaults } from '../data/zoneDefaults'
 import { climateFactors } from '../data/defaults'
+import { calculateZoneEnvelopeLoad, hasEnvelopeInputs } from './envelopeLoads'
 
 /**
  * DEHUMIDIFICATION TO COOLING TONS CONVERSION
@@ -18,14 +26,41 @@ import { climateFactors } from '../data/defaults'
  */
 export const DEHUMID_TONS_PER_LB_HR = 0.20
 
+export interface HVACLoadOptions {
+  method?: HVACLoadMethod
+  design?: EnvelopeDesignConditions | null  // Required for the envelope method
+}
+
+// Envelope load for a zone, or null when the zone is sized by rules of thumb
+function getZoneEnvelopeLoad(zone: Zone, options: HVACLoadOptions): ZoneEnvelopeLoad | null {
+  if (options.method !== 'envelope' || !options.design || !hasEnvelopeInputs(zone)) return null
+  return calculateZoneEnvelopeLoad(zone, options.design)
+}
+
+// Envelope cooling tons - the latent adder skips people latent, which the envelope load already carries
+function getEnvelopeCoolingTons(load: ZoneEnvelopeLoad, latentAdder: number = 0): number {
+  return (load.coolingBtuh + (load.coolingBtuh - load.peopleLatentBtuh) * latentAdder) / 12000
+}
+
 /**
  * Calculate HVAC loads from zones
  * 
+ * COOLING/HEATING: SF/ton and BTU/SF with climate factors, or - with the envelope
+ * method and a project ASHRAE location - CLTD/SCL/CLF loads for zones that have
+ * envelope inputs (zones without them stay on the rules of thumb)
+ * 
  * VENTILATION/EXHAUST: Uses stored values ONLY (from VentilationSection or pool calc)
  * NO LEGACY FALLBACKS - if values aren't set, they're 0
  */
-export function calculateHVAC(zones: Zone[], climate: ClimateType, contingency: number): HVACCalcResult {
+export function calculateHVAC(
+  zones: Zone[],
+  climate: ClimateType,
+  contingency: number,
+  options: HVACLoadOptions = {}
+): HVACCalcResult {
   const factors = climateFactors[climate]
+  const useEnvelope = options.method === 'envelope' && !!options.design
+  const envelopeZones: ZoneEnvelopeLoad[] = []
   
   let totalTons = 0
   let totalMBH = 0
@@ -38,18 +73,27 @@ export function calculateHVAC(zones: Zone[], climate: ClimateType, contingency:
     // Per-zone flag: if THIS zone has a dehumidification line item, skip THIS zone's defaults
     let zoneHasLineItemDehumid = false
     const defaults = getZoneDefaults(zone.type)
+    const envelopeLoad = getZoneEnvelopeLoad(zone, options)
     
-    // COOLING (SF/ton method)
-    if (zone.rates.cooling_sf_ton > 0) {
-      let tons = zone.sf / zone.rates.cooling_sf_ton
-      if (defaults.latent_adder) tons *= (1 + defaults.latent_adder)
-      tons *= factors.cooling
+    if (envelopeLoad) {
+      // ENVELOPE METHOD - design temps already carry the climate
+      const tons = getEnvelopeCoolingTons(envelopeLoad, defaults.latent_adder)
       totalTons += tons
-    }
-    
-    // HEATING (BTU/hr/SF)
-    if (zone.rates.heating_btuh_sf > 0) {
-      totalMBH += (zone.sf * zone.rates.heating_btuh_sf * factors.heating) / 1000
+      totalMBH += envelopeLoad.heatingBtuh / 1000
+      envelopeZones.push(envelopeLoad)
+    } else {
+      // COOLING (SF/ton method)
+      if (zone.rates.cooling_sf_ton > 0) {
+        let tons = zone.sf / zone.rates.cooling_sf_ton
+        if (defaults.latent_adder) tons *= (1 + defaults.latent_adder)
+        tons *= factors.cooling
+        totalTons += tons
+      }
+      
+      // HEATING (BTU/hr/SF)
+      if (zone.rates.heating_btuh_sf > 0) {
+        totalMBH += (zone.sf * zone.rates.heating_btuh_sf * factors.heating) / 1000
+      }
     }
     
     // VENTILATION/EXHAUST - stored values ONLY, no fallbacks
@@ -118,11 +162,17 @@ export function calculateHVAC(zones: Zone[], climate: ClimateType, contingency:
     poolChillerTons: Math.round(poolChillerTons * 10) / 10,
     totalPlantTons: Math.round(totalPlantTons * 10) / 10,
     rtuCount,
+    loadMethod: useEnvelope ? 'envelope' : 'rule_of_thumb',
+    envelope: useEnvelope && options.design ? {
+      design: options.design,
+      zones: envelopeZones,
+      ruleOfThumbZones: zones.length - envelopeZones.length,
+    } : undefined,
   }
 }
 
 // Get HVAC breakdown by zone - NO FALLBACKS, stored values only
-export function getHVACBreakdown(zones: Zone[], climate: ClimateType): {
+export function getHVACBreakdown(zones: Zone[], climate: ClimateType, options: HVACLoadOptions = {}): {
   zoneName: string
   tons: number
   ventCFM: number
@@ -133,10 +183,13 @@ export function getHVACBreakdown(zones: Zone[], climate: ClimateType): {
   
   return zones.map(zone => {
     const defaults = getZoneDefaults(zone.type)
+    const envelopeLoad = getZoneEnvelopeLoad(zone, options)
     
-    // COOLING - rate-based only
+    // COOLING - envelope load when available, otherwise rate-based
     let tons = 0
-    if (zone.rates.cooling_sf_ton > 0) {
+    if (envelopeLoad) {
+      tons = getEnvelopeCoolingTons(envelopeLoad, defaults.latent_adder)
+    } else if (zone.rates.cooling_sf_ton > 0) {
       tons = zone.sf / zone.rates.cooling_sf_ton * factors.cooling
       if (defaults.latent_adder) {
         tons *= (1 + defaults.latent_adder)
@@ -166,6 +219,7 @@ export function getHVACBreakdown(zones: Zone[], climate: ClimateType): {
     
     // Build notes
     const notes: string[] = []
+    if (envelopeLoad) notes.push('Envelope')
     if (zone.ventilationOverride) notes.push('Override')
     else if (zone.ventilationSpaceType) notes.push('ASHRAE')
     
@@ -191,3 +245,13 @@ export function getHVACBreakdown(zones: Zone[], climate: ClimateType): {
     }
   })
 }
+
+// Load method line for reports, e.g. "Envelope (CLTD/SCL/CLF) - Chicago, IL 91°F / 0°F"
+export function formatHVACLoadMethod(hvac: HVACCalcResult): string {
+  if (hvac.loadMethod !== 'envelope' || !hvac.envelope) {
+    return 'Rule of thumb (SF/Ton, BTU/SF with climate factors)'
+  }
+  const { design, zones, ruleOfThumbZones } = hvac.envelope
+  const fallback = ruleOfThumbZones > 0 ? `, ${ruleOfThumbZones} zone(s) by SF/Ton` : ''
+  return `Envelope (CLTD/SCL/CLF) - ${design.locationName} ${design.coolingDb}°F / ${design.heatingDb}°F, ${zones.length} zone(s)${fallback}`
+}
@@ -16,6 +16,7 @@ import type {
 import { getFluidProperties } from '../data/fluidProperties'
 import { getInnerDiameter, getPipeRoughness, getPipeVolume } from '../data/pipeData'
 import { getFitting, calculateEquivalentLength, calculateCvPressureDrop } from '../data/fittingsLibrary'
+import { isNetworkSystem, solveHydronicNetwork } from './hydronicNetwork'
 
 // Constants
 const GRAVITY_FT_S2 = 32.174 // ft/s²
@@ -301,9 +302,19 @@ export function calculateHydronicSystem(
     result.warnings.forEach(w => warnings.push(`${result.sectionName}: ${w}`))
   })
   
+  // Networks: pump head comes from the index circuit, not the sum of every section
+  const { network, warnings: networkWarnings } = isNetworkSystem(sections)
+    ? solveHydronicNetwork(sections, sectionResults, fluidProperties)
+    : { network: undefined, warnings: [] }
+  warnings.push(...networkWarnings)
+  
   // Sum totals
-  const totalPipeFrictionFt = sectionResults.reduce((sum, s) => sum + s.pipeFrictionLossFt, 0)
-  const totalFittingsLossFt = sectionResults.reduce((sum, s) => sum + s.fittingsLossFt, 0)
+  const totalPipeFrictionFt = network
+    ? network.indexCircuit.pipeFrictionFt
+    : sectionResults.reduce((sum, s) => sum + s.pipeFrictionLossFt, 0)
+  const totalFittingsLossFt = network
+    ? network.indexCircuit.fittingsLossFt
+    : sectionResults.reduce((sum, s) => sum + s.fittingsLossFt, 0)
   const subtotalFrictionFt = totalPipeFrictionFt + totalFittingsLossFt
   
   // Static head (only for open systems)
@@ -322,8 +333,8 @@ export function calculateHydronicSystem(
   // System volume
   const totalSystemVolumeGal = sectionResults.reduce((sum, s) => sum + s.volumeGal, 0)
   
-  // Max flow (for pump sizing)
-  const maxFlowGpm = Math.max(...sections.map(s => s.flowGpm), 0)
+  // Max flow (for pump sizing) - the flow leaving the supply node for networks
+  const maxFlowGpm = network ? network.pumpFlowGpm : Math.max(...sections.map(s => s.flowGpm), 0)
   
   // Add glycol warning if high concentration
   if (system.glycolConcentration > 50) {
@@ -351,6 +362,7 @@ export function calculateHydronicSystem(
     totalPumpHeadFt,
     totalSystemVolumeGal,
     maxFlowGpm,
+    network,
     warnings,
   }
 }
@@ -0,0 +1,163 @@
+// ===========================================
+// CLOSED LOOP ACCESSORY SIZING
+// Diaphragm expansion tank - ASHRAE Handbook, HVAC Systems & Equipment:
+//   Vt = Vs × [(v2 / v1 − 1) − 3αΔT] / (1 − P1 / P2)   (P absolute)
+// Air separator - tangential separator sized on the pump flow
+// Glycol fill - concentrate and make-up water for the full system volume
+// ===========================================
+
+import type {
+  HydronicSystem,
+  HydronicPipeSection,
+  HydronicCalculationResult,
+  HydronicAccessorySizing,
+  PipeMaterial,
+} from '../types/hydronic'
+import { getFluidExpansionFactor } from '../data/fluidProperties'
+import { getPipeVolume } from '../data/pipeData'
+
+const ATMOSPHERIC_PSI = 14.7
+
+export const DEFAULT_ACCESSORY_PARAMS = {
+  fillPressurePsig: 12,       // static height over the tank + 4 psi at the high point
+  maxPressurePsig: 27,        // 90% of a 30 psig relief valve
+  equipmentVolumeGal: 0,
+}
+
+// Fill temperature is the coldest the loop gets, max the hottest - heating
+// loops fill cold, chilled loops warm up to ambient when idle
+const HEATING_FILL_TEMP_F = 50
+const CHILLED_IDLE_TEMP_F = 100
+
+// Linear expansion coefficients (in/in·°F) - plastic piping is left out,
+// which is conservative for the tank
+const PIPE_EXPANSION_COEFFICIENTS: Record<PipeMaterial, number> = {
+  copper_type_l: 9.5e-6,
+  copper_type_m: 9.5e-6,
+  steel_sch40: 6.5e-6,
+  steel_sch80: 6.5e-6,
+  pvc_sch40: 0,
+  pvc_sch80: 0,
+  pex: 0,
+  hdpe: 0,
+  ppr: 0,
+}
+const EQUIPMENT_EXPANSION_COEFFICIENT = 6.5e-6 // steel vessels
+
+// Nominal diaphragm / bladder tank volumes (gal), full acceptance
+const STANDARD_TANK_SIZES_GAL = [2, 4.4, 8, 14, 20, 26, 34, 44, 53, 62, 86, 119, 132, 158, 211, 264, 317, 422, 528]
+
+// Representative tangential air separator capacities by connection size
+const AIR_SEPARATOR_SIZES: { size: string; maxGpm: number }[] = [
+  { size: '1', maxGpm: 12 },
+  { size: '1-1/4', maxGpm: 20 },
+  { size: '1-1/2', maxGpm: 30 },
+  { size: '2', maxGpm: 56 },
+  { size: '2-1/2', maxGpm: 90 },
+  { size: '3', maxGpm: 130 },
+  { size: '4', maxGpm: 300 },
+  { size: '5', maxGpm: 500 },
+  { size: '6', maxGpm: 700 },
+  { size: '8', maxGpm: 1300 },
+  { size: '10', maxGpm: 2000 },
+  { size: '12', maxGpm: 3000 },
+]
+
+// Inhibited glycol concentrate ($/gal)
+const GLYCOL_COST_PER_GAL = {
+  propylene_glycol: 28,
+  ethylene_glycol: 20,
+}
+
+export function calculateHydronicAccessories(
+  system: HydronicSystem,
+  sections: HydronicPipeSection[],
+  result: HydronicCalculationResult
+): HydronicAccessorySizing {
+  const warnings: string[] = []
+
+  // ---- System volume and temperature range ----
+  const equipmentVolumeGal = system.equipmentVolumeGal ?? DEFAULT_ACCESSORY_PARAMS.equipmentVolumeGal
+  const systemVolumeGal = result.totalSystemVolumeGal + equipmentVolumeGal
+  const fillTempF = system.fillTempF ?? Math.min(system.fluidTempF, HEATING_FILL_TEMP_F)
+  const maxTempF = system.maxTempF ?? Math.max(system.fluidTempF, CHILLED_IDLE_TEMP_F)
+  const deltaT = Math.max(maxTempF - fillTempF, 0)
+
+  // ---- Expansion tank ----
+  const fluidExpansion = Math.max(
+    getFluidExpansionFactor(system.fluidType, system.glycolConcentration, fillTempF, maxTempF),
+    0
+  )
+  // 3αΔT per gallon of each piping material, plus equipment vessels
+  const pipeExpansionGal = sections.reduce(
+    (sum, s) => sum + getPipeVolume(s.pipeMaterial, s.pipeSizeNominal, s.lengthFt) * 3 * (PIPE_EXPANSION_COEFFICIENTS[s.pipeMaterial] ?? 0) * deltaT,
+    equipmentVolumeGal * 3 * EQUIPMENT_EXPANSION_COEFFICIENT * deltaT
+  )
+  const expansionVolumeGal = Math.max(systemVolumeGal * fluidExpansion - pipeExpansionGal, 0)
+
+  const fillPressurePsig = system.fillPressurePsig ?? DEFAULT_ACCESSORY_PARAMS.fillPressurePsig
+  const maxPressurePsig = system.maxPressurePsig ?? DEFAULT_ACCESSORY_PARAMS.maxPressurePsig
+  const acceptanceFactor = 1 - (fillPressurePsig + ATMOSPHERIC_PSI) / (maxPressurePsig + ATMOSPHERIC_PSI)
+  if (acceptanceFactor <= 0) {
+    warnings.push(`Max pressure (${maxPressurePsig} psig) must be above the fill pressure (${fillPressurePsig} psig)`)
+  }
+  const requiredTankGal = acceptanceFactor > 0 ? expansionVolumeGal / acceptanceFactor : 0
+
+  const largestTank = STANDARD_TANK_SIZES_GAL[STANDARD_TANK_SIZES_GAL.length - 1]
+  const tankCount = Math.max(1, Math.ceil(requiredTankGal / largestTank))
+  const tankSizeGal = STANDARD_TANK_SIZES_GAL.find(size => size >= requiredTankGal / tankCount) ?? largestTank
+
+  if (systemVolumeGal > 0 && equipmentVolumeGal === 0) {
+    warnings.push('Equipment volume not entered - add boiler, chiller, coil and buffer tank volumes for the expansion tank')
+  }
+  if (maxTempF > 240) {
+    warnings.push(`Max temperature ${maxTempF}°F exceeds the 240°F rating of standard diaphragm tanks`)
+  }
+
+  // ---- Air separator ----
+  const flowGpm = result.maxFlowGpm
+  const separator = AIR_SEPARATOR_SIZES.find(s => s.maxGpm >= flowGpm) ?? AIR_SEPARATOR_SIZES[AIR_SEPARATOR_SIZES.length - 1]
+  if (flowGpm > separator.maxGpm) {
+    warnings.push(`${flowGpm.toFixed(0)} GPM exceeds the largest standard air separator (${separator.maxGpm} GPM) - use parallel separators`)
+  }
+
+  // ---- Glycol fill ----
+  let glycolFill: HydronicAccessorySizing['glycolFill'] = null
+  if (system.fluidType !== 'water' && system.glycolConcentration > 0) {
+    const concentrateGal = systemVolumeGal * system.glycolConcentration / 100
+    const costPerGal = system.glycolCostPerGal ?? GLYCOL_COST_PER_GAL[system.fluidType]
+    glycolFill = {
+      fluidType: system.fluidType,
+      concentrationPct: system.glycolConcentration,
+      systemVolumeGal: Math.round(systemVolumeGal * 10) / 10,
+      concentrateGal: Math.ceil(concentrateGal),
+      waterGal: Math.ceil(systemVolumeGal - concentrateGal),
+      costPerGal,
+      cost: Math.round(Math.ceil(concentrateGal) * costPerGal),
+    }
+  }
+
+  return {
+    expansionTank: {
+      systemVolumeGal: Math.round(systemVolumeGal * 10) / 10,
+      fillTempF,
+      maxTempF,
+      fluidExpansionPct: Math.round(fluidExpansion * 10000) / 100,
+      pipeExpansionGal: Math.round(pipeExpansionGal * 100) / 100,
+      expansionVolumeGal: Math.round(expansionVolumeGal * 100) / 100,
+      fillPressurePsig,
+      maxPressurePsig,
+      acceptanceFactor: Math.round(acceptanceFactor * 1000) / 1000,
+      requiredTankGal: Math.round(requiredTankGal * 10) / 10,
+      tankCount,
+      tankSizeGal,
+    },
+    airSeparator: {
+      flowGpm,
+      connectionSize: separator.size,
+      ratedGpm: separator.maxGpm,
+    },
+    glycolFill,
+    warnings,
+  }
+}
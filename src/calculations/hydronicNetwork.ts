@@ -0,0 +1,270 @@
+// ===========================================
+// HYDRONIC NETWORK SOLVER
+// Sections connect through named nodes; the pump closes the loop from the
+// return node (suction) to the supply node (discharge).
+// Flow split across parallel branches: Hardy-Cross loop corrections
+// Pump head: index circuit - the supply-to-return path with the highest
+// head loss at design flows (other circuits are balanced down to it)
+// ===========================================
+
+import type {
+  HydronicPipeSection,
+  FluidProperties,
+  SectionCalculation,
+  HydronicCircuit,
+  HydronicNetworkResult,
+} from '../types/hydronic'
+import { calculateSection } from './hydronic'
+
+const MAX_ITERATIONS = 100
+const FLOW_TOLERANCE_GPM = 0.01
+const CONTINUITY_TOLERANCE = 0.01 // 1% of the pump flow
+const MAX_CIRCUITS = 200
+
+interface NetworkEdge {
+  section: HydronicPipeSection
+  from: string
+  to: string
+}
+
+interface LoopStep {
+  edge: number  // index into edges
+  sign: 1 | -1  // +1 when the loop traverses the edge from → to
+}
+
+export function isNetworkSystem(sections: HydronicPipeSection[]): boolean {
+  return sections.length > 0 && sections.every(s => s.fromNode?.trim() && s.toNode?.trim())
+}
+
+/**
+ * Head loss (ft) of a section at a flow other than its design flow
+ * Manual equipment dP is entered at design flow and scales with flow²
+ */
+function sectionHeadAt(section: HydronicPipeSection, flowGpm: number, fluid: FluidProperties): number {
+  if (flowGpm < 1e-6) return 0
+  const ratio = section.flowGpm > 0 ? flowGpm / section.flowGpm : 1
+  const fittings = section.fittings.map(f =>
+    f.dpOverrideFt !== undefined && f.dpOverrideFt > 0 ? { ...f, dpOverrideFt: f.dpOverrideFt * ratio * ratio } : f
+  )
+  return calculateSection({ ...section, flowGpm, fittings }, fluid).totalSectionLossFt
+}
+
+// Signed head drop in the edge's from → to direction
+function edgeHead(edge: NetworkEdge, flowGpm: number, fluid: FluidProperties): number {
+  return Math.sign(flowGpm) * sectionHeadAt(edge.section, Math.abs(flowGpm), fluid)
+}
+
+function edgeHeadDerivative(edge: NetworkEdge, flowGpm: number, fluid: FluidProperties): number {
+  const q = Math.abs(flowGpm)
+  const delta = Math.max(0.01, q * 0.01)
+  return (sectionHeadAt(edge.section, q + delta, fluid) - sectionHeadAt(edge.section, q, fluid)) / delta
+}
+
+// Directed supply-to-return paths (depth first, capped)
+function findCircuits(edges: NetworkEdge[], supplyNode: string, returnNode: string): number[][] {
+  const outgoing = new Map<string, number[]>()
+  edges.forEach((edge, i) => outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), i]))
+
+  const circuits: number[][] = []
+  const visit = (node: string, path: number[], visited: Set<string>) => {
+    if (circuits.length >= MAX_CIRCUITS) return
+    if (node === returnNode) {
+      circuits.push(path)
+      return
+    }
+    for (const i of outgoing.get(node) ?? []) {
+      const next = edges[i].to
+      if (visited.has(next)) continue
+      visit(next, [...path, i], new Set(visited).add(next))
+    }
+  }
+  visit(supplyNode, [], new Set([supplyNode]))
+  return circuits
+}
+
+export function solveHydronicNetwork(
+  sections: HydronicPipeSection[],
+  sectionResults: SectionCalculation[],
+  fluid: FluidProperties
+): { network?: HydronicNetworkResult; warnings: string[] } {
+  const warnings: string[] = []
+  const edges: NetworkEdge[] = sections.map(section => ({
+    section,
+    from: section.fromNode!.trim(),
+    to: section.toNode!.trim(),
+  }))
+
+  edges.filter(e => e.from === e.to).forEach(e => warnings.push(`${e.section.name}: starts and ends at node ${e.from}`))
+  if (warnings.length > 0) return { warnings }
+
+  // ---- Supply and return nodes ----
+  const nodes = [...new Set(edges.flatMap(e => [e.from, e.to]))]
+  const supplyNodes = nodes.filter(n => !edges.some(e => e.to === n))
+  const returnNodes = nodes.filter(n => !edges.some(e => e.from === n))
+  if (supplyNodes.length !== 1 || returnNodes.length !== 1) {
+    warnings.push(
+      `Network needs one supply node (no inflow) and one return node (no outflow) - found supply: ${supplyNodes.join(', ') || 'none'}; return: ${returnNodes.join(', ') || 'none'}`
+    )
+    return { warnings }
+  }
+  const [supplyNode] = supplyNodes
+  const [returnNode] = returnNodes
+  const pumpFlowGpm = edges.filter(e => e.from === supplyNode).reduce((sum, e) => sum + e.section.flowGpm, 0)
+
+  // ---- Spanning tree from the supply node (undirected) ----
+  const adjacency = new Map<string, number[]>()
+  edges.forEach((edge, i) => {
+    adjacency.set(edge.from, [...(adjacency.get(edge.from) ?? []), i])
+    adjacency.set(edge.to, [...(adjacency.get(edge.to) ?? []), i])
+  })
+  const parentEdge = new Map<string, number>()
+  const order = [supplyNode]
+  const treeEdges = new Set<number>()
+  for (let k = 0; k < order.length; k++) {
+    const node = order[k]
+    for (const i of adjacency.get(node) ?? []) {
+      const other = edges[i].from === node ? edges[i].to : edges[i].from
+      if (other === supplyNode || parentEdge.has(other)) continue
+      parentEdge.set(other, i)
+      treeEdges.add(i)
+      order.push(other)
+    }
+  }
+  const disconnected = nodes.filter(n => n !== supplyNode && !parentEdge.has(n))
+  if (disconnected.length > 0) {
+    warnings.push(`Nodes not connected to supply node ${supplyNode}: ${disconnected.join(', ')}`)
+    return { warnings }
+  }
+  const parentOf = (node: string) => {
+    const edge = edges[parentEdge.get(node)!]
+    return edge.from === node ? edge.to : edge.from
+  }
+
+  // ---- Design flow continuity at the branch nodes ----
+  for (const node of nodes) {
+    if (node === supplyNode || node === returnNode) continue
+    const inflow = edges.filter(e => e.to === node).reduce((sum, e) => sum + e.section.flowGpm, 0)
+    const outflow = edges.filter(e => e.from === node).reduce((sum, e) => sum + e.section.flowGpm, 0)
+    if (Math.abs(inflow - outflow) > Math.max(pumpFlowGpm * CONTINUITY_TOLERANCE, 0.1)) {
+      warnings.push(`Node ${node}: design flow in ${inflow.toFixed(1)} GPM ≠ out ${outflow.toFixed(1)} GPM`)
+    }
+  }
+
+  // ---- Initial flows: chords at design flow, tree edges balance each node ----
+  const flows = edges.map((edge, i) => (treeEdges.has(i) ? 0 : edge.section.flowGpm))
+  const excess = new Map<string, number>(nodes.map(n => [n, 0]))
+  excess.set(supplyNode, pumpFlowGpm)
+  excess.set(returnNode, -pumpFlowGpm)
+  edges.forEach((edge, i) => {
+    if (treeEdges.has(i)) return
+    excess.set(edge.from, excess.get(edge.from)! - flows[i])
+    excess.set(edge.to, excess.get(edge.to)! + flows[i])
+  })
+  // Leaves first: a node's remaining excess leaves through its tree edge to the parent
+  for (let k = order.length - 1; k > 0; k--) {
+    const node = order[k]
+    const i = parentEdge.get(node)!
+    const out = excess.get(node)!
+    flows[i] = edges[i].from === node ? out : -out
+    const parent = parentOf(node)
+    excess.set(parent, excess.get(parent)! + out)
+  }
+
+  // ---- Independent loops: each chord closed through the tree ----
+  const pathToRoot = (node: string) => {
+    const path = [node]
+    while (path[path.length - 1] !== supplyNode) path.push(parentOf(path[path.length - 1]))
+    return path
+  }
+  const treeStep = (a: string, b: string, i: number): LoopStep => ({ edge: i, sign: edges[i].from === a && edges[i].to === b ? 1 : -1 })
+  const loops: LoopStep[][] = []
+  edges.forEach((edge, c) => {
+    if (treeEdges.has(c)) return
+    const fromTo = pathToRoot(edge.to)
+    const fromFrom = pathToRoot(edge.from)
+    const common = fromTo.find(n => fromFrom.includes(n))!
+    const steps: LoopStep[] = [{ edge: c, sign: 1 }]
+    // chord to → up to the common ancestor → down to chord from
+    for (let k = 0; fromTo[k] !== common; k++) {
+      steps.push(treeStep(fromTo[k], fromTo[k + 1], parentEdge.get(fromTo[k])!))
+    }
+    const down = fromFrom.slice(0, fromFrom.indexOf(common) + 1).reverse()
+    for (let k = 0; k < down.length - 1; k++) {
+      steps.push(treeStep(down[k], down[k + 1], parentEdge.get(down[k + 1])!))
+    }
+    loops.push(steps)
+  })
+
+  // ---- Hardy-Cross iterations ----
+  let iterations = 0
+  let converged = loops.length === 0
+  while (!converged && iterations < MAX_ITERATIONS) {
+    iterations++
+    let maxCorrection = 0
+    for (const loop of loops) {
+      const headSum = loop.reduce((sum, step) => sum + step.sign * edgeHead(edges[step.edge], flows[step.edge], fluid), 0)
+      const derivativeSum = loop.reduce((sum, step) => sum + edgeHeadDerivative(edges[step.edge], flows[step.edge], fluid), 0)
+      if (derivativeSum <= 0) continue
+      const correction = -headSum / derivativeSum
+      loop.forEach(step => { flows[step.edge] += step.sign * correction })
+      maxCorrection = Math.max(maxCorrection, Math.abs(correction))
+    }
+    converged = maxCorrection < FLOW_TOLERANCE_GPM
+  }
+  if (!converged) {
+    warnings.push(`Network flow did not converge in ${MAX_ITERATIONS} iterations - check for branches with no fittings or length`)
+  }
+
+  // Supply-to-return head through the tree with the solved flows
+  const returnPath = pathToRoot(returnNode).reverse()
+  let solvedHeadFt = 0
+  for (let k = 0; k < returnPath.length - 1; k++) {
+    const i = parentEdge.get(returnPath[k + 1])!
+    const head = edgeHead(edges[i], flows[i], fluid)
+    solvedHeadFt += edges[i].from === returnPath[k] ? head : -head
+  }
+
+  // ---- Circuits at design flow - the index circuit sets the pump head ----
+  const resultById = new Map(sectionResults.map(r => [r.sectionId, r]))
+  const circuitPaths = findCircuits(edges, supplyNode, returnNode)
+  if (circuitPaths.length === 0) {
+    warnings.push(`No path follows the section directions from ${supplyNode} to ${returnNode}`)
+    return { warnings }
+  }
+  if (circuitPaths.length >= MAX_CIRCUITS) {
+    warnings.push(`Only the first ${MAX_CIRCUITS} circuits were checked for the index circuit`)
+  }
+  const circuits: HydronicCircuit[] = circuitPaths
+    .map(path => {
+      const results = path.map(i => resultById.get(edges[i].section.id))
+      const pipeFrictionFt = results.reduce((sum, r) => sum + (r?.pipeFrictionLossFt ?? 0), 0)
+      const fittingsLossFt = results.reduce((sum, r) => sum + (r?.fittingsLossFt ?? 0), 0)
+      return {
+        sectionIds: path.map(i => edges[i].section.id),
+        nodes: [supplyNode, ...path.map(i => edges[i].to)],
+        designHeadFt: pipeFrictionFt + fittingsLossFt,
+        pipeFrictionFt,
+        fittingsLossFt,
+        excessHeadFt: 0,
+      }
+    })
+    .sort((a, b) => b.designHeadFt - a.designHeadFt)
+  const indexCircuit = circuits[0]
+  circuits.forEach(circuit => { circuit.excessHeadFt = indexCircuit.designHeadFt - circuit.designHeadFt })
+
+  return {
+    network: {
+      supplyNode,
+      returnNode,
+      pumpFlowGpm,
+      converged,
+      iterations,
+      loopCount: loops.length,
+      solvedFlows: Object.fromEntries(edges.map((edge, i) => [edge.section.id, Math.round(flows[i] * 100) / 100])),
+      solvedHeadFt,
+      circuits,
+      indexCircuit,
+    } satisfies HydronicNetworkResult,
+    warnings,
+  }
+}
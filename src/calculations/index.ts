@@ -1,6 +1,20 @@
 ﻿export * from './electrical'
+export * from './nec220'
+export * from './panelSchedule'
+export * from './conductorSizing'
+export * from './faultCurrent'
+export * from './generator'
+export * from './lightingCompliance'
+export * from './evCharging'
 export * from './hvac'
+export * from './envelopeLoads'
+export * from './rts'
 export * from './gas'
 export * from './dhw'
 export * from './plumbing'
 export * from './ventilation'
+export * from './residentialVentilation'
+export * from './energy'
+export * from './ll97'
+export * from './electrification'
+export * from './projectCalculations'
@@ -0,0 +1,79 @@
+// ===========================================
+// LIGHTING POWER DENSITY COMPLIANCE
+// ASHRAE 90.1 Section 9.6 space-by-space method
+// Each zone is mapped to a Table 9.6.1 space type through its ASHRAE 62.1
+// space type when linked, otherwise through its zone type
+// ===========================================
+
+import type { Zone } from '../types'
+import type { LPDCodeEdition, LPDComplianceResult, ZoneLPDCheck } from '../types/electrical'
+import {
+  LPD_SPACE_TYPES,
+  ZONE_LPD_SPACE_TYPE,
+  ASHRAE62_LPD_SPACE_TYPE,
+} from '../data/lightingPowerDensity'
+
+export const DEFAULT_LPD_CODE: LPDCodeEdition = '90.1-2019'
+
+export function getZoneLPDSpaceType(zone: Zone): { id: string; mappedFrom: ZoneLPDCheck['mappedFrom'] } {
+  const fromVentilation = zone.ventilationSpaceType ? ASHRAE62_LPD_SPACE_TYPE[zone.ventilationSpaceType] : undefined
+  if (fromVentilation) return { id: fromVentilation, mappedFrom: 'ventilation' }
+  return { id: ZONE_LPD_SPACE_TYPE[zone.type] ?? ZONE_LPD_SPACE_TYPE.custom, mappedFrom: 'zone_type' }
+}
+
+export function getZoneAllowedLPD(zone: Zone, code: LPDCodeEdition = DEFAULT_LPD_CODE): number | null {
+  const { id } = getZoneLPDSpaceType(zone)
+  return LPD_SPACE_TYPES[id]?.allowance[code] ?? null
+}
+
+export function checkLightingCompliance(
+  zones: Zone[],
+  code: LPDCodeEdition = DEFAULT_LPD_CODE
+): LPDComplianceResult {
+  const checks: ZoneLPDCheck[] = zones.map(zone => {
+    const { id, mappedFrom } = getZoneLPDSpaceType(zone)
+    const spaceType = LPD_SPACE_TYPES[id]
+    const allowedLPD = spaceType?.allowance[code] ?? null
+    const designLPD = zone.rates.lighting_w_sf
+    return {
+      zoneId: zone.id,
+      zoneName: zone.name,
+      sf: zone.sf,
+      spaceTypeId: id,
+      spaceTypeName: spaceType?.name ?? id,
+      mappedFrom,
+      designLPD,
+      allowedLPD,
+      designW: zone.sf * designLPD,
+      allowedW: allowedLPD === null ? 0 : zone.sf * allowedLPD,
+      pass: allowedLPD === null || designLPD <= allowedLPD,
+    }
+  })
+
+  const regulated = checks.filter(c => c.allowedLPD !== null)
+  const designW = regulated.reduce((sum, c) => sum + c.designW, 0)
+  const allowedW = regulated.reduce((sum, c) => sum + c.allowedW, 0)
+
+  return {
+    code,
+    zones: checks,
+    designW,
+    allowedW,
+    exemptSF: checks.filter(c => c.allowedLPD === null).reduce((sum, c) => sum + c.sf, 0),
+    failingZones: checks.filter(c => !c.pass).length,
+    buildingPass: designW <= allowedW,
+  }
+}
+
+// "Set lighting to code maximum" - zone updates with lighting_w_sf at the allowance
+// Exempt zones keep their rate
+export function getCodeMaximumLightingUpdates(
+  zones: Zone[],
+  code: LPDCodeEdition = DEFAULT_LPD_CODE
+): { zoneId: string; rates: Zone['rates'] }[] {
+  return zones.flatMap(zone => {
+    const allowed = getZoneAllowedLPD(zone, code)
+    if (allowed === null || allowed === zone.rates.lighting_w_sf) return []
+    return [{ zoneId: zone.id, rates: { ...zone.rates, lighting_w_sf: allowed } }]
+  })
+}
@@ -0,0 +1,144 @@
+// ===========================================
+// NYC LOCAL LAW 97 COMPLIANCE PROJECTION
+// Limit = Σ gross SF × occupancy limit; emissions = kWh × electric
+// coefficient + kBtu gas × gas coefficient; penalty = $268 × excess tCO2e
+// ===========================================
+
+import type { EnergyModelSettings, Zone } from '../types'
+import type {
+  LL97OccupancyArea,
+  LL97OccupancyGroup,
+  LL97PeriodResult,
+  LL97Result,
+  LL97Scenario,
+  LL97Settings,
+} from '../types/emissions'
+import { HVAC_SYSTEM_CONFIGS } from '../data/defaults'
+import { isResidentialZoneType } from '../data/ashrae622'
+import {
+  LL97_PERIODS,
+  LL97_CARBON_COEFFICIENTS,
+  LL97_EMISSIONS_LIMITS,
+  LL97_PENALTY_PER_TCO2E,
+  LL97_COVERED_MIN_SF,
+  LL97_ZONE_OCCUPANCY,
+  LL97_EXCLUDED_ZONE_TYPES,
+  KBTU_PER_THERM,
+} from '../data/ll97'
+import { calculateAnnualEnergy, type AnnualEnergyInputs } from './energy'
+
+export const DEFAULT_LL97_SETTINGS: LL97Settings = {
+  energySource: 'estimate',
+  manualKwh: 0,
+  manualTherms: 0,
+  primaryOccupancy: 'A',
+}
+
+// Zone override, then the zone type default, then the project's primary occupancy
+export function getZoneOccupancyGroup(zone: Zone, primary: LL97OccupancyGroup): LL97OccupancyGroup | null {
+  if (zone.occupancyGroup) return zone.occupancyGroup
+  if (LL97_EXCLUDED_ZONE_TYPES.includes(zone.type)) return null
+  if (isResidentialZoneType(zone.type)) return 'R-2'
+  return LL97_ZONE_OCCUPANCY[zone.type] ?? primary
+}
+
+export function getOccupancyAreas(zones: Zone[], primary: LL97OccupancyGroup): LL97OccupancyArea[] {
+  const byGroup = new Map<LL97OccupancyGroup, number>()
+  for (const zone of zones) {
+    const group = getZoneOccupancyGroup(zone, primary)
+    if (group) byGroup.set(group, (byGroup.get(group) ?? 0) + zone.sf)
+  }
+  return Array.from(byGroup.entries())
+    .map(([group, sf]) => ({ group, sf }))
+    .sort((a, b) => b.sf - a.sf)
+}
+
+export function calculateLL97Periods(
+  areas: LL97OccupancyArea[],
+  kwh: number,
+  therms: number,
+  covered: boolean = true
+): LL97PeriodResult[] {
+  return LL97_PERIODS.map(({ id, label }) => {
+    const coefficients = LL97_CARBON_COEFFICIENTS[id]
+    const limit = areas.reduce((sum, a) => sum + a.sf * LL97_EMISSIONS_LIMITS[id][a.group], 0)
+    const electric = kwh * coefficients.electricityPerKwh
+    const gas = therms * KBTU_PER_THERM * coefficients.gasPerKbtu
+    const excess = Math.max(0, electric + gas - limit)
+    return {
+      period: id,
+      label,
+      limitTco2e: Math.round(limit * 10) / 10,
+      electricTco2e: Math.round(electric * 10) / 10,
+      gasTco2e: Math.round(gas * 10) / 10,
+      emissionsTco2e: Math.round((electric + gas) * 10) / 10,
+      excessTco2e: Math.round(excess * 10) / 10,
+      penalty: covered ? Math.round(excess * LL97_PENALTY_PER_TCO2E) : 0,
+    }
+  })
+}
+
+const FUEL_LABELS = { electric: 'Electric', gas: 'Gas' } as const
+
+export function calculateLL97(
+  zones: Zone[],
+  settings: LL97Settings,
+  energy: {
+    inputs: AnnualEnergyInputs
+    locationId: string | undefined
+    settings: EnergyModelSettings
+  }
+): LL97Result | undefined {
+  const areas = getOccupancyAreas(zones, settings.primaryOccupancy)
+  if (areas.length === 0) return undefined
+  const coveredSf = areas.reduce((sum, a) => sum + a.sf, 0)
+  const covered = coveredSf > LL97_COVERED_MIN_SF
+
+  const { mechanical, dhwSettings } = energy.inputs
+  const supportsGasHeat = HVAC_SYSTEM_CONFIGS[mechanical.hvacSystemType || 'vrf_erv'].supportsGasHeat
+  const currentHeating = mechanical.heatingFuelType === 'gas' && supportsGasHeat ? 'gas' : 'electric'
+
+  // Each heating / DHW fuel pairing through the energy model
+  const scenarios: LL97Scenario[] = []
+  for (const heatingFuelType of ['electric', 'gas'] as const) {
+    if (heatingFuelType === 'gas' && !supportsGasHeat) continue
+    for (const dhwHeaterType of ['electric', 'gas'] as const) {
+      const result = calculateAnnualEnergy(
+        {
+          ...energy.inputs,
+          mechanical: { ...mechanical, heatingFuelType },
+          dhwSettings: { ...dhwSettings, heaterType: dhwHeaterType },
+        },
+        energy.locationId,
+        energy.settings
+      )
+      if (!result) continue
+      scenarios.push({
+        id: `${heatingFuelType}_${dhwHeaterType}`,
+        name: `${FUEL_LABELS[heatingFuelType]} heat / ${FUEL_LABELS[dhwHeaterType]} DHW`,
+        heatingFuelType,
+        dhwHeaterType,
+        current: heatingFuelType === currentHeating && dhwHeaterType === dhwSettings.heaterType,
+        kwh: result.totalKwh,
+        therms: result.totalTherms,
+        annualCost: result.totalCost,
+        periods: calculateLL97Periods(areas, result.totalKwh, result.totalTherms, covered),
+      })
+    }
+  }
+
+  const current = scenarios.find(s => s.current)
+  const kwh = settings.energySource === 'manual' ? settings.manualKwh : current?.kwh ?? 0
+  const therms = settings.energySource === 'manual' ? settings.manualTherms : current?.therms ?? 0
+
+  return {
+    settings,
+    areas,
+    coveredSf,
+    covered,
+    kwh,
+    therms,
+    periods: calculateLL97Periods(areas, kwh, therms, covered),
+    scenarios,
+  }
+}
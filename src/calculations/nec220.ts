@@ -0,0 +1,327 @@
+// ===========================================
+// NEC ARTICLE 220 SERVICE LOAD CALCULATION
+// Commercial (Part III) method for feeders and services
+// Reference: NFPA 70-2020
+// ===========================================
+
+import type { Zone, LineItem } from '../types'
+import type {
+  EVChargingResult,
+  NEC220LoadItem,
+  NEC220CalcLine,
+  NEC220Options,
+  NEC220Result,
+  NECLoadCategory,
+  MechanicalLoadItem,
+  MechanicalLoadId,
+} from '../types/electrical'
+import {
+  NEC_TABLE_220_12,
+  NEC_TABLE_220_42_DWELLING,
+  NEC_OFFICE_RECEPTACLE_MIN_VA_SF,
+  NEC_RECEPTACLE_FIRST_VA,
+  NEC_RECEPTACLE_REMAINDER_FACTOR,
+  NEC_CONTINUOUS_FACTOR,
+  NEC_LARGEST_MOTOR_ADDER,
+  NEC_240_6_STANDARD_RATINGS,
+  CONTINUOUS_PROCESS_ZONE_TYPES,
+  COMMERCIAL_KITCHEN_ZONE_TYPES,
+  MOTOR_NAME_PATTERN,
+  getNECOccupancy,
+  getKitchenDemandFactor,
+  getMotorVA,
+  getStandardOCPDRating,
+  applySteppedDemand,
+} from '../data/necTables'
+import { EVSE_CONTINUOUS_FACTOR } from '../data/evChargerTables'
+import { getEVChargingLoadItem } from './evCharging'
+
+// How each mechanical load from calculateMechanicalKVA is treated
+const MECHANICAL_NEC_CATEGORY: Record<MechanicalLoadId, NECLoadCategory> = {
+  cooling: 'cooling',
+  heating: 'heating',
+  pool_chiller: 'motor',
+  dehumid: 'motor',
+  dhw: 'continuous',     // 422.13 storage water heaters are continuous loads
+  fans: 'motor',
+  ahu_fans: 'motor',
+  doas: 'cooling',       // DX compressors - noncoincident with heating (220.60)
+}
+
+// Mechanical loads that are one unit (eligible as the "largest motor")
+const SINGLE_UNIT_MECHANICAL: MechanicalLoadId[] = ['pool_chiller', 'dehumid']
+
+// ===========================================
+// LINE ITEM CLASSIFICATION
+// Electrical line items (kW / W / HP) mapped to an NEC load category
+// ===========================================
+export function getLineItemUnitVA(li: LineItem): number {
+  const unit = li.unit?.toLowerCase() || ''
+  if (unit === 'kw') return li.value * 1000
+  if (unit === 'w') return li.value
+  if (unit === 'hp') return getMotorVA(li.value)
+  return 0
+}
+
+export function classifyLineItem(zone: Zone, li: LineItem): NECLoadCategory {
+  const unit = li.unit?.toLowerCase() || ''
+  if (li.category === 'heating') return 'heating'
+  if (li.category === 'cooling' || li.category === 'pool_chiller') return 'cooling'
+  if (li.category === 'lighting') return 'continuous'
+  if (unit === 'hp' || MOTOR_NAME_PATTERN.test(li.name)) return 'motor'
+  if (COMMERCIAL_KITCHEN_ZONE_TYPES.includes(zone.type)) return 'kitchen'
+  if (CONTINUOUS_PROCESS_ZONE_TYPES.includes(zone.type)) return 'continuous'
+  return 'noncontinuous'
+}
+
+// ===========================================
+// LOAD INVENTORY
+// Builds the list of loads from zones, line items, mechanical equipment and EV charging
+// ===========================================
+export function collectNEC220Loads(
+  zones: Zone[],
+  mechanicalLoads: MechanicalLoadItem[] = [],
+  useEnergyCodeLighting: boolean = false,
+  evCharging?: EVChargingResult
+): NEC220LoadItem[] {
+  const items: NEC220LoadItem[] = []
+
+  zones.forEach(zone => {
+    const occupancy = getNECOccupancy(zone.type)
+    const unitLoad = NEC_TABLE_220_12[occupancy]
+    const designLightingVA = zone.sf * zone.rates.lighting_w_sf * NEC_CONTINUOUS_FACTOR
+
+    // General lighting: Table 220.12 minimum unless 220.12(B) energy code values are used
+    const lightingVA = useEnergyCodeLighting
+      ? designLightingVA
+      : Math.max(zone.sf * unitLoad.vaPerSF, designLightingVA)
+    if (lightingVA > 0) {
+      items.push({
+        source: zone.name,
+        zoneId: zone.id,
+        description: useEnergyCodeLighting
+          ? `${zone.sf.toLocaleString()} SF @ ${zone.rates.lighting_w_sf} W/SF × 125% (220.12(B))`
+          : `${zone.sf.toLocaleString()} SF ${unitLoad.name} @ ${unitLoad.vaPerSF} VA/SF`,
+        category: 'general_lighting',
+        connectedVA: lightingVA,
+        quantity: 1,
+        unitVA: lightingVA,
+      })
+    }
+
+    // Receptacles - dwelling unit general-use receptacles are covered by 220.14(J)
+    if (occupancy !== 'dwelling_unit') {
+      const minVaSf = occupancy === 'office' ? NEC_OFFICE_RECEPTACLE_MIN_VA_SF : 0
+      const vaSf = Math.max(zone.rates.receptacle_va_sf, minVaSf)
+      const receptacleVA = zone.sf * vaSf
+      if (receptacleVA > 0) {
+        items.push({
+          source: zone.name,
+          zoneId: zone.id,
+          description: `${zone.sf.toLocaleString()} SF @ ${vaSf} VA/SF`,
+          category: 'receptacle',
+          connectedVA: receptacleVA,
+          quantity: 1,
+          unitVA: receptacleVA,
+        })
+      }
+    }
+
+    // Equipment line items
+    ;(zone.lineItems || []).forEach(li => {
+      const unitVA = getLineItemUnitVA(li)
+      if (unitVA <= 0 || li.quantity <= 0) return
+      items.push({
+        source: zone.name,
+        zoneId: zone.id,
+        description: `${li.quantity} × ${li.name} (${li.value} ${li.unit})`,
+        category: classifyLineItem(zone, li),
+        connectedVA: unitVA * li.quantity,
+        quantity: li.quantity,
+        unitVA,
+      })
+    })
+  })
+
+  // Central plant / mechanical equipment
+  mechanicalLoads.forEach(mech => {
+    if (mech.kva <= 0) return
+    const va = mech.kva * 1000
+    const singleUnit = SINGLE_UNIT_MECHANICAL.includes(mech.id)
+    items.push({
+      source: 'Mechanical',
+      description: mech.name,
+      category: MECHANICAL_NEC_CATEGORY[mech.id],
+      connectedVA: va,
+      quantity: 1,
+      unitVA: singleUnit ? va : 0,
+    })
+  })
+
+  // EV charging - separate category so it stays visible in the calculation
+  const evItem = evCharging ? getEVChargingLoadItem(evCharging) : null
+  if (evItem) items.push(evItem)
+
+  return items
+}
+
+// ===========================================
+// DEMAND FACTORS
+// Applies Article 220 demand factors to a load inventory (service, feeder or panel)
+// ===========================================
+export function applyNEC220DemandFactors(
+  items: NEC220LoadItem[],
+  options: { dwellingZoneIds?: Set<string>; useEnergyCodeLighting?: boolean } = {}
+): Pick<NEC220Result, 'lines' | 'connectedVA' | 'demandVA' | 'noncoincidentLoad' | 'largestMotorVA'> {
+  const lines: NEC220CalcLine[] = []
+  const sumVA = (filter: (item: NEC220LoadItem) => boolean) =>
+    items.filter(filter).reduce((sum, item) => sum + item.connectedVA, 0)
+
+  const addLine = (article: string, description: string, connectedVA: number, demandVA: number) => {
+    if (connectedVA <= 0) return
+    lines.push({
+      article,
+      description,
+      connectedVA,
+      demandFactor: demandVA / connectedVA,
+      demandVA,
+    })
+  }
+
+  const dwellingZoneIds = options.dwellingZoneIds ?? new Set<string>()
+  const isDwelling = (i: NEC220LoadItem) => i.zoneId !== undefined && dwellingZoneIds.has(i.zoneId)
+
+  // 220.12 - General lighting (Table 220.12 includes the 125% continuous factor)
+  const lightingVA = sumVA(i => i.category === 'general_lighting' && !isDwelling(i))
+  addLine(
+    options.useEnergyCodeLighting ? '220.12(B)' : '220.12',
+    'General lighting',
+    lightingVA,
+    lightingVA
+  )
+
+  // 220.14(J) / Table 220.42 - Dwelling unit lighting and general-use receptacles
+  const dwellingVA = sumVA(i => i.category === 'general_lighting' && isDwelling(i))
+  addLine('220.42', 'Dwelling unit lighting & receptacles', dwellingVA, applySteppedDemand(dwellingVA, NEC_TABLE_220_42_DWELLING))
+
+  // 220.44 - Receptacles: first 10 kVA at 100%, remainder at 50%
+  const receptacleVA = sumVA(i => i.category === 'receptacle')
+  const receptacleDemand = Math.min(receptacleVA, NEC_RECEPTACLE_FIRST_VA)
+    + Math.max(0, receptacleVA - NEC_RECEPTACLE_FIRST_VA) * NEC_RECEPTACLE_REMAINDER_FACTOR
+  addLine('220.44', 'Receptacles (10 kVA @ 100% + remainder @ 50%)', receptacleVA, receptacleDemand)
+
+  // 215.2(A)(1) / 230.42(A)(1) - Continuous loads at 125%
+  const continuousVA = sumVA(i => i.category === 'continuous')
+  addLine('230.42(A)(1)', 'Continuous loads @ 125%', continuousVA, continuousVA * NEC_CONTINUOUS_FACTOR)
+
+  // Noncontinuous equipment at 100%
+  const noncontinuousVA = sumVA(i => i.category === 'noncontinuous')
+  addLine('220.14(A)', 'Noncontinuous equipment @ 100%', noncontinuousVA, noncontinuousVA)
+
+  // 625.41 / 625.42 - EV charging at 125% (EMS setpoint where managed)
+  const evVA = sumVA(i => i.category === 'ev_charging')
+  addLine('625.42', 'EV charging @ 125%', evVA, evVA * EVSE_CONTINUOUS_FACTOR)
+
+  // 220.56 - Commercial kitchen equipment demand factor (not less than two largest units)
+  const kitchenItems = items.filter(i => i.category === 'kitchen')
+  const kitchenVA = kitchenItems.reduce((sum, i) => sum + i.connectedVA, 0)
+  if (kitchenVA > 0) {
+    const kitchenUnits = kitchenItems.reduce((sum, i) => sum + i.quantity, 0)
+    const unitSizes = kitchenItems.flatMap(i => Array<number>(Math.max(1, Math.round(i.quantity))).fill(i.unitVA))
+    const twoLargest = unitSizes.sort((a, b) => b - a).slice(0, 2).reduce((sum, va) => sum + va, 0)
+    const factor = getKitchenDemandFactor(kitchenUnits)
+    addLine(
+      '220.56',
+      `Kitchen equipment (${kitchenUnits} units @ ${Math.round(factor * 100)}%)`,
+      kitchenVA,
+      Math.max(kitchenVA * factor, Math.min(twoLargest, kitchenVA))
+    )
+  }
+
+  // 220.50 - Motors at 100%
+  const motorItems = items.filter(i => i.category === 'motor')
+  const motorVA = motorItems.reduce((sum, i) => sum + i.connectedVA, 0)
+  addLine('220.50', 'Motors @ 100%', motorVA, motorVA)
+
+  // 220.60 - Noncoincident loads: larger of heating or cooling
+  const heatingVA = sumVA(i => i.category === 'heating')
+  const coolingVA = sumVA(i => i.category === 'cooling')
+  let noncoincidentLoad: NEC220Result['noncoincidentLoad'] = 'none'
+  if (heatingVA > 0 || coolingVA > 0) {
+    noncoincidentLoad = coolingVA >= heatingVA ? 'cooling' : 'heating'
+    addLine(
+      '220.60',
+      noncoincidentLoad === 'cooling'
+        ? `Cooling (heating ${Math.round(heatingVA / 1000)} kVA omitted as noncoincident)`
+        : `Fixed electric heating (cooling ${Math.round(coolingVA / 1000)} kVA omitted as noncoincident)`,
+      heatingVA + coolingVA,
+      Math.max(heatingVA, coolingVA)
+    )
+  }
+
+  // 430.24 - Add 25% of the largest motor
+  const largestMotorVA = motorItems.reduce((max, i) => Math.max(max, i.unitVA), 0)
+  if (largestMotorVA > 0) {
+    lines.push({
+      article: '430.24',
+      description: 'Largest motor @ 25%',
+      connectedVA: 0,
+      demandFactor: NEC_LARGEST_MOTOR_ADDER,
+      demandVA: largestMotorVA * NEC_LARGEST_MOTOR_ADDER,
+    })
+  }
+
+  const connectedVA = items.reduce((sum, i) => sum + i.connectedVA, 0)
+  const demandVA = lines.reduce((sum, l) => sum + l.demandVA, 0)
+
+  return { lines, connectedVA, demandVA, noncoincidentLoad, largestMotorVA }
+}
+
+// ===========================================
+// SERVICE LOAD CALCULATION
+// Applies Article 220 demand factors, then sizes the service OCPD per 240.6(A)
+// ===========================================
+export function calculateNEC220Load(
+  zones: Zone[],
+  mechanicalLoads: MechanicalLoadItem[],
+  options: NEC220Options
+): NEC220Result {
+  const items = collectNEC220Loads(zones, mechanicalLoads, options.useEnergyCodeLighting, options.evCharging)
+  const dwellingZoneIds = new Set(
+    zones.filter(z => getNECOccupancy(z.type) === 'dwelling_unit').map(z => z.id)
+  )
+  const { lines, connectedVA, demandVA, noncoincidentLoad, largestMotorVA } = applyNEC220DemandFactors(items, {
+    dwellingZoneIds,
+    useEnergyCodeLighting: options.useEnergyCodeLighting,
+  })
+  const designVA = demandVA * (1 + options.spareCapacity)
+
+  // Service current
+  const phaseMultiplier = options.phase === 3 ? Math.sqrt(3) : 1
+  const calculatedAmps = options.voltage > 0 ? designVA / (options.voltage * phaseMultiplier) : 0
+  const serviceRatingAmps = getStandardOCPDRating(calculatedAmps)
+  const maxRating = NEC_240_6_STANDARD_RATINGS[NEC_240_6_STANDARD_RATINGS.length - 1]
+  const exceedsMaxRating = calculatedAmps > maxRating
+
+  const phaseStr = options.phase === 3 ? '3PH' : '1PH'
+  const wireStr = options.phase === 3 ? '4W' : '3W'
+  const recommendedService = exceedsMaxRating
+    ? `${serviceRatingAmps}A+ @ ${options.voltage}V/${phaseStr} (EXCEEDS STANDARD - consider parallel services)`
+    : `${serviceRatingAmps}A @ ${options.voltage}V/${phaseStr}, ${wireStr}`
+
+  return {
+    items,
+    lines,
+    connectedVA,
+    demandVA,
+    noncoincidentLoad,
+    largestMotorVA,
+    designVA,
+    calculatedAmps,
+    serviceRatingAmps,
+    exceedsMaxRating,
+    voltage: options.voltage,
+    phase: options.phase,
+    recommendedService,
+  }
+}
@@ -0,0 +1,493 @@
+// ===========================================
+// PANEL SCHEDULE GENERATOR
+// Branch circuits from zone rates and line items, phase-balanced panelboards,
+// rolled up to the main distribution panel (MDP)
+// Reference: NFPA 70-2020 Articles 210, 215, 220, 408, 450
+// ===========================================
+
+import type { Zone } from '../types'
+import type {
+  NECLoadCategory,
+  NEC220LoadItem,
+  MechanicalLoadItem,
+  PanelPhase,
+  PanelCircuit,
+  PanelSchedule,
+  PanelScheduleOptions,
+  PanelScheduleResult,
+  SwitchboardFeeder,
+} from '../types/electrical'
+import {
+  NEC_BRANCH_CIRCUIT_MAX_LOADING,
+  NEC_RECEPTACLE_VA_PER_OUTLET,
+  NEC_CONTINUOUS_FACTOR,
+  RECEPTACLES_PER_CIRCUIT,
+  BRANCH_CIRCUIT_MIN_AMPS,
+  STANDARD_PANEL_BUS_RATINGS,
+  STANDARD_PANEL_SPACES,
+  getStandardOCPDRating,
+  getStandardPanelBus,
+  getStandardTransformerKVA,
+} from '../data/necTables'
+import { EVSE_CONTINUOUS_FACTOR } from '../data/evChargerTables'
+import { getLineItemUnitVA, classifyLineItem, collectNEC220Loads, applyNEC220DemandFactors } from './nec220'
+
+const PANEL_SPARE_FRACTION = 0.2      // Leave ~20% of spaces for spares
+const MAX_BRANCH_BREAKER_AMPS = 100   // Larger equipment is fed directly from the MDP
+const MAX_BRANCH_PANEL_AMPS = 400     // Start a new panel above this connected load
+const THREE_POLE_MIN_VA = 6000        // Equipment above this goes 3-pole on 3-phase systems
+const IMBALANCE_WARNING_PERCENT = 15
+
+// Breakers for these loads are sized at 125% (continuous duty / motor circuits)
+const CONTINUOUS_CATEGORIES: NECLoadCategory[] = ['general_lighting', 'continuous', 'motor', 'heating', 'cooling']
+
+type PanelBus = 'high' | 'low'
+
+interface PanelVoltage {
+  prefix: string
+  voltageLL: number
+  voltageLN: number
+}
+
+interface DraftCircuit {
+  source: string
+  description: string
+  category: NECLoadCategory
+  loadVA: number
+  poles: 1 | 2 | 3
+  voltage: number
+  amps: number
+  breakerAmps: number
+  bus: PanelBus
+}
+
+// Panelboard voltage systems for the service
+// 480V services get 480Y/277 "HP" panels plus 208Y/120 "LP" panels through step-down transformers
+function getPanelVoltages(voltage: number, phase: 1 | 3): Partial<Record<PanelBus, PanelVoltage>> & { low: PanelVoltage } {
+  if (voltage === 480) {
+    return {
+      high: { prefix: 'HP', voltageLL: 480, voltageLN: 277 },
+      low: { prefix: 'LP', voltageLL: 208, voltageLN: 120 },
+    }
+  }
+  if (phase === 1) {
+    return { low: { prefix: 'LP', voltageLL: 240, voltageLN: 120 } }
+  }
+  return { low: { prefix: 'LP', voltageLL: voltage === 120 ? 208 : voltage, voltageLN: 120 } }
+}
+
+function getCircuitAmps(loadVA: number, poles: 1 | 2 | 3, system: PanelVoltage): { voltage: number; amps: number } {
+  if (poles === 1) return { voltage: system.voltageLN, amps: loadVA / system.voltageLN }
+  if (poles === 3) return { voltage: system.voltageLL, amps: loadVA / (system.voltageLL * Math.sqrt(3)) }
+  return { voltage: system.voltageLL, amps: loadVA / system.voltageLL }
+}
+
+function makeCircuit(
+  source: string,
+  description: string,
+  category: NECLoadCategory,
+  loadVA: number,
+  poles: 1 | 2 | 3,
+  system: PanelVoltage,
+  bus: PanelBus
+): DraftCircuit {
+  const { voltage, amps } = getCircuitAmps(loadVA, poles, system)
+  const factor = CONTINUOUS_CATEGORIES.includes(category) ? NEC_CONTINUOUS_FACTOR : 1
+  return {
+    source,
+    description,
+    category,
+    loadVA,
+    poles,
+    voltage,
+    amps,
+    breakerAmps: Math.max(BRANCH_CIRCUIT_MIN_AMPS, getStandardOCPDRating(amps * factor)),
+    bus,
+  }
+}
+
+// ===========================================
+// BRANCH CIRCUITS
+// Lighting and receptacles on 20A circuits at 80% loading (210.19/210.20),
+// line items one circuit per unit (small 120V loads grouped)
+// ===========================================
+function generateZoneCircuits(zone: Zone, voltage: number, phase: 1 | 3): DraftCircuit[] {
+  const systems = getPanelVoltages(voltage, phase)
+  const lightingBus: PanelBus = systems.high ? 'high' : 'low'
+  const lightingSystem = systems[lightingBus] ?? systems.low
+  const circuits: DraftCircuit[] = []
+
+  const splitCircuits = (totalVA: number, maxVA: number, label: string, category: NECLoadCategory, system: PanelVoltage, bus: PanelBus) => {
+    if (totalVA <= 0) return
+    const count = Math.ceil(totalVA / maxVA)
+    for (let i = 0; i < count; i++) {
+      circuits.push(makeCircuit(
+        zone.name,
+        count > 1 ? `${label} ${i + 1}` : label,
+        category,
+        totalVA / count,
+        1,
+        system,
+        bus
+      ))
+    }
+  }
+
+  // Lighting at design W/SF
+  const lightingMaxVA = lightingSystem.voltageLN * BRANCH_CIRCUIT_MIN_AMPS * NEC_BRANCH_CIRCUIT_MAX_LOADING
+  splitCircuits(zone.sf * zone.rates.lighting_w_sf, lightingMaxVA, 'Lighting', 'general_lighting', lightingSystem, lightingBus)
+
+  // Receptacles at 180 VA per outlet
+  const receptacleMaxVA = NEC_RECEPTACLE_VA_PER_OUTLET * RECEPTACLES_PER_CIRCUIT
+  splitCircuits(zone.sf * zone.rates.receptacle_va_sf, receptacleMaxVA, 'Receptacles', 'receptacle', systems.low, 'low')
+
+  // Equipment line items
+  const singlePoleMaxVA = systems.low.voltageLN * BRANCH_CIRCUIT_MIN_AMPS * NEC_BRANCH_CIRCUIT_MAX_LOADING
+  ;(zone.lineItems || []).forEach(li => {
+    const unitVA = getLineItemUnitVA(li)
+    const quantity = Math.ceil(li.quantity)
+    if (unitVA <= 0 || quantity <= 0) return
+    const category = classifyLineItem(zone, li)
+
+    if (unitVA <= singlePoleMaxVA) {
+      // Small 120V loads share 20A circuits
+      const unitsPerCircuit = Math.max(1, Math.floor(singlePoleMaxVA / unitVA))
+      let remaining = quantity
+      while (remaining > 0) {
+        const units = Math.min(unitsPerCircuit, remaining)
+        circuits.push(makeCircuit(
+          zone.name,
+          units > 1 ? `${li.name} (${units})` : li.name,
+          category,
+          unitVA * units,
+          1,
+          systems.low,
+          'low'
+        ))
+        remaining -= units
+      }
+      return
+    }
+
+    const isMotor = li.unit?.toLowerCase() === 'hp'
+    const poles: 2 | 3 = phase === 1 ? 2 : (unitVA > THREE_POLE_MIN_VA || isMotor ? 3 : 2)
+    // On 480V services only 3-pole equipment runs at 480V; 2-pole loads stay on 208V
+    const bus: PanelBus = systems.high && poles === 3 ? 'high' : 'low'
+    const system = systems[bus] ?? systems.low
+    for (let i = 0; i < quantity; i++) {
+      circuits.push(makeCircuit(
+        zone.name,
+        quantity > 1 ? `${li.name} ${i + 1}` : li.name,
+        category,
+        unitVA,
+        poles,
+        system,
+        bus
+      ))
+    }
+  })
+
+  return circuits
+}
+
+// Panel voltage label, e.g. "208Y/120V 3PH" or "120/240V 1PH"
+export function formatPanelVoltage(voltageLL: number, voltageLN: number, phase: 1 | 3): string {
+  return phase === 3 ? `${voltageLL}Y/${voltageLN}V 3PH` : `${voltageLN}/${voltageLL}V 1PH`
+}
+
+// Phase of a panel position per standard numbering: rows 1-2 = A, 3-4 = B, 5-6 = C, ...
+export function getPositionPhase(position: number, phase: 1 | 3): PanelPhase {
+  const phaseList: PanelPhase[] = phase === 3 ? ['A', 'B', 'C'] : ['A', 'B']
+  return phaseList[Math.floor((position - 1) / 2) % phaseList.length]
+}
+
+// Circuit occupying each pole position (multi-pole circuits appear at every position)
+export function getPanelPositionMap(panel: PanelSchedule): Map<number, PanelCircuit> {
+  const map = new Map<number, PanelCircuit>()
+  panel.circuits.forEach(c => c.positions.forEach(p => map.set(p, c)))
+  return map
+}
+
+// ===========================================
+// PHASE BALANCING
+// Largest circuits first, each placed in the open position that minimizes
+// the heaviest phase
+// ===========================================
+function balancePanelPhases(
+  drafts: DraftCircuit[],
+  spaces: number,
+  phase: 1 | 3
+): { circuits: PanelCircuit[]; phaseVA: Record<PanelPhase, number>; unplaced: DraftCircuit[] } {
+  const phaseList: PanelPhase[] = phase === 3 ? ['A', 'B', 'C'] : ['A', 'B']
+  const phaseAt = (position: number) => getPositionPhase(position, phase)
+  const phaseVA: Record<PanelPhase, number> = { A: 0, B: 0, C: 0 }
+  const occupied = new Set<number>()
+  const circuits: PanelCircuit[] = []
+  const unplaced: DraftCircuit[] = []
+
+  const sorted = [...drafts].sort((a, b) => b.loadVA - a.loadVA)
+  sorted.forEach(draft => {
+    let best: { positions: number[]; score: number } | null = null
+    for (let start = 1; start <= spaces; start++) {
+      const positions = Array.from({ length: draft.poles }, (_, i) => start + i * 2)
+      if (positions[positions.length - 1] > spaces || positions.some(p => occupied.has(p))) continue
+      const trial = { ...phaseVA }
+      positions.forEach(p => { trial[phaseAt(p)] += draft.loadVA / draft.poles })
+      const score = Math.max(...phaseList.map(ph => trial[ph]))
+      if (!best || score < best.score - 0.5) best = { positions, score }
+    }
+
+    if (!best) {
+      unplaced.push(draft)
+      return
+    }
+
+    best.positions.forEach(p => {
+      occupied.add(p)
+      phaseVA[phaseAt(p)] += draft.loadVA / draft.poles
+    })
+    circuits.push({
+      number: best.positions[0],
+      positions: best.positions,
+      source: draft.source,
+      description: draft.description,
+      category: draft.category,
+      loadVA: draft.loadVA,
+      poles: draft.poles,
+      voltage: draft.voltage,
+      amps: draft.amps,
+      breakerAmps: draft.breakerAmps,
+      phases: best.positions.map(phaseAt),
+    })
+  })
+
+  circuits.sort((a, b) => a.number - b.number)
+  return { circuits, phaseVA, unplaced }
+}
+
+// Circuits as NEC 220 load items (design lighting is continuous at 125%)
+function circuitsToLoadItems(circuits: { source: string; description: string; category: NECLoadCategory; loadVA: number }[]): NEC220LoadItem[] {
+  return circuits.map(c => ({
+    source: c.source,
+    description: c.description,
+    category: c.category === 'general_lighting' ? 'continuous' : c.category,
+    connectedVA: c.loadVA,
+    quantity: 1,
+    unitVA: c.loadVA,
+  }))
+}
+
+function getFeederAmps(va: number, voltageLL: number, phase: 1 | 3): number {
+  return phase === 3 ? va / (voltageLL * Math.sqrt(3)) : va / voltageLL
+}
+
+// ===========================================
+// PANEL SCHEDULES + MDP ROLL-UP
+// ===========================================
+export function generatePanelSchedules(
+  zones: Zone[],
+  mechanicalLoads: MechanicalLoadItem[],
+  options: PanelScheduleOptions
+): PanelScheduleResult {
+  const spaces = options.panelSpaces ?? STANDARD_PANEL_SPACES
+  const usableSpaces = Math.floor(spaces * (1 - PANEL_SPARE_FRACTION))
+  const systems = getPanelVoltages(options.voltage, options.phase)
+  const warnings: string[] = []
+
+  const zoneCircuits = zones.map(zone => generateZoneCircuits(zone, options.voltage, options.phase))
+  const allDrafts = zoneCircuits.flat()
+
+  // Large equipment goes straight to the MDP (low-bus loads on a 480V service through a transformer)
+  const directFeeds = allDrafts.filter(c => c.breakerAmps > MAX_BRANCH_BREAKER_AMPS)
+
+  const panels: PanelSchedule[] = []
+  const buses: PanelBus[] = systems.high ? ['high', 'low'] : ['low']
+
+  buses.forEach(bus => {
+    const system = systems[bus] ?? systems.low
+    const panelPhase: 1 | 3 = bus === 'high' ? 3 : options.phase
+    let current: { zones: string[]; drafts: DraftCircuit[]; poles: number; va: number } = { zones: [], drafts: [], poles: 0, va: 0 }
+
+    const fits = (poles: number, va: number) =>
+      current.poles + poles <= usableSpaces
+      && getFeederAmps(current.va + va, system.voltageLL, panelPhase) <= MAX_BRANCH_PANEL_AMPS
+
+    const closePanel = () => {
+      if (current.drafts.length === 0) return
+      const name = `${system.prefix}-${panels.filter(p => p.name.startsWith(system.prefix)).length + 1}`
+      const { circuits, phaseVA, unplaced } = balancePanelPhases(current.drafts, spaces, panelPhase)
+      unplaced.forEach(c => warnings.push(`${name}: no space for ${c.source} - ${c.description}`))
+
+      const connectedVA = circuits.reduce((sum, c) => sum + c.loadVA, 0)
+      const { demandVA } = applyNEC220DemandFactors(circuitsToLoadItems(circuits))
+      const demandAmps = getFeederAmps(demandVA, system.voltageLL, panelPhase)
+      const mainBreakerAmps = Math.max(STANDARD_PANEL_BUS_RATINGS[0], getStandardOCPDRating(demandAmps))
+      const activePhases: PanelPhase[] = panelPhase === 3 ? ['A', 'B', 'C'] : ['A', 'B']
+      const phaseLoads = activePhases.map(ph => phaseVA[ph])
+      const averagePhase = phaseLoads.reduce((sum, v) => sum + v, 0) / activePhases.length
+      const imbalancePercent = averagePhase > 0
+        ? (Math.max(...phaseLoads) - Math.min(...phaseLoads)) / averagePhase * 100
+        : 0
+      if (imbalancePercent > IMBALANCE_WARNING_PERCENT) {
+        warnings.push(`${name}: phase imbalance ${imbalancePercent.toFixed(0)}% - review large single-phase loads`)
+      }
+
+      // LP panels on a 480V service are fed through a step-down transformer
+      const needsTransformer = bus === 'low' && !!systems.high
+      panels.push({
+        name,
+        voltageLL: system.voltageLL,
+        voltageLN: system.voltageLN,
+        phase: panelPhase,
+        spaces,
+        fedFrom: needsTransformer ? `T-${name}` : 'MDP',
+        transformerKVA: needsTransformer ? getStandardTransformerKVA(demandVA / 1000) : undefined,
+        zones: current.zones,
+        circuits,
+        phaseVA,
+        connectedVA,
+        demandVA,
+        demandAmps,
+        mainBreakerAmps,
+        busAmps: getStandardPanelBus(mainBreakerAmps),
+        imbalancePercent,
+      })
+      current = { zones: [], drafts: [], poles: 0, va: 0 }
+    }
+
+    const addDraft = (draft: DraftCircuit) => {
+      if (current.drafts.length > 0 && !fits(draft.poles, draft.loadVA)) closePanel()
+      if (!current.zones.includes(draft.source)) current.zones.push(draft.source)
+      current.drafts.push(draft)
+      current.poles += draft.poles
+      current.va += draft.loadVA
+    }
+
+    // Keep each zone's circuits on one panel where they fit
+    zoneCircuits.forEach(circuits => {
+      const group = circuits.filter(c => c.bus === bus && c.breakerAmps <= MAX_BRANCH_BREAKER_AMPS)
+      if (group.length === 0) return
+      const groupPoles = group.reduce((sum, c) => sum + c.poles, 0)
+      const groupVA = group.reduce((sum, c) => sum + c.loadVA, 0)
+      if (current.drafts.length > 0 && !fits(groupPoles, groupVA)) closePanel()
+      group.forEach(addDraft)
+    })
+    closePanel()
+  })
+
+  // ===========================================
+  // MDP feeders: panels, direct equipment, central plant
+  // ===========================================
+  const serviceLL = systems.high ? systems.high.voltageLL : systems.low.voltageLL
+  const feederPoles: 2 | 3 = options.phase === 3 ? 3 : 2
+  const feeders: SwitchboardFeeder[] = []
+
+  panels.forEach(panel => {
+    if (panel.transformerKVA) {
+      // 450.3(B): primary protection at 125% of transformer primary current
+      const primaryAmps = panel.transformerKVA * 1000 / (serviceLL * Math.sqrt(3))
+      feeders.push({
+        description: `Transformer ${panel.fedFrom} (${panel.transformerKVA} kVA) → ${panel.name}`,
+        load: panel.fedFrom,
+        connectedVA: panel.connectedVA,
+        demandVA: panel.demandVA,
+        poles: 3,
+        breakerAmps: getStandardOCPDRating(primaryAmps * NEC_CONTINUOUS_FACTOR),
+      })
+    } else {
+      feeders.push({
+        description: `Panel ${panel.name} (${panel.zones.join(', ')})`,
+        load: panel.name,
+        connectedVA: panel.connectedVA,
+        demandVA: panel.demandVA,
+        poles: panel.phase === 3 ? 3 : 2,
+        breakerAmps: panel.mainBreakerAmps,
+      })
+    }
+  })
+
+  let directTransformers = 0
+  directFeeds.forEach(c => {
+    // Low-bus equipment on a 480V service gets its own step-down transformer - its breaker is on the secondary
+    if (c.bus === 'low' && systems.high) {
+      const name = `T-EQ-${++directTransformers}`
+      const transformerKVA = getStandardTransformerKVA(c.loadVA / 1000)
+      if (c.loadVA / 1000 > transformerKVA) {
+        warnings.push(`${name}: ${c.source} - ${c.description} exceeds the largest standard transformer - split the load`)
+      }
+      const primaryAmps = transformerKVA * 1000 / (serviceLL * Math.sqrt(3))
+      feeders.push({
+        description: `Transformer ${name} (${transformerKVA} kVA) → ${c.source} - ${c.description} (${c.breakerAmps}A @ ${systems.low.voltageLL}V)`,
+        load: name,
+        connectedVA: c.loadVA,
+        demandVA: c.loadVA,
+        poles: 3,
+        breakerAmps: getStandardOCPDRating(primaryAmps * NEC_CONTINUOUS_FACTOR),
+      })
+      return
+    }
+    feeders.push({
+      description: `${c.source} - ${c.description}`,
+      load: c.description,
+      connectedVA: c.loadVA,
+      demandVA: c.loadVA,
+      poles: c.poles,
+      breakerAmps: c.breakerAmps,
+    })
+  })
+
+  const mechanicalItems = collectNEC220Loads([], mechanicalLoads)
+  mechanicalItems.forEach(item => {
+    const amps = getFeederAmps(item.connectedVA, serviceLL, options.phase)
+    feeders.push({
+      description: `${item.description} (central plant)`,
+      load: item.description,
+      connectedVA: item.connectedVA,
+      demandVA: item.connectedVA,
+      poles: feederPoles,
+      breakerAmps: Math.max(BRANCH_CIRCUIT_MIN_AMPS, getStandardOCPDRating(amps * NEC_CONTINUOUS_FACTOR)),
+    })
+  })
+
+  // EV charging fed as one MDP feeder sized at 125% of the EMS setpoint / nameplate
+  const evItems = collectNEC220Loads([], [], false, options.evCharging)
+  evItems.forEach(item => {
+    const amps = getFeederAmps(item.connectedVA, serviceLL, options.phase)
+    feeders.push({
+      description: `EV charging - ${item.description}`,
+      load: 'EV Charging',
+      connectedVA: item.connectedVA,
+      demandVA: item.connectedVA,
+      poles: feederPoles,
+      breakerAmps: Math.max(BRANCH_CIRCUIT_MIN_AMPS, getStandardOCPDRating(amps * EVSE_CONTINUOUS_FACTOR)),
+    })
+  })
+
+  // MDP demand re-applies Article 220 across every downstream load
+  const mdpItems = [
+    ...panels.flatMap(p => circuitsToLoadItems(p.circuits)),
+    ...circuitsToLoadItems(directFeeds),
+    ...mechanicalItems,
+    ...evItems,
+  ]
+  const mdpDemand = applyNEC220DemandFactors(mdpItems)
+  const mdpDemandAmps = getFeederAmps(mdpDemand.demandVA, serviceLL, options.phase)
+  const mdpMain = Math.max(getStandardOCPDRating(mdpDemandAmps), options.serviceRatingAmps ?? 0)
+
+  return {
+    panels,
+    mdp: {
+      name: 'MDP',
+      voltageLL: serviceLL,
+      voltageLN: systems.high ? systems.high.voltageLN : systems.low.voltageLN,
+      phase: options.phase,
+      feeders,
+      connectedVA: mdpDemand.connectedVA,
+      demandVA: mdpDemand.demandVA,
+      demandAmps: mdpDemandAmps,
+      mainBreakerAmps: mdpMain,
+      busAmps: getStandardPanelBus(mdpMain),
+    },
+    warnings,
+  }
+}
@@ -0,0 +1,272 @@
+// ===========================================
+// PIPE HEAT LOSS & INSULATION
+// Series resistances per foot of pipe (h·ft·°F/Btu):
+//   R = ln(r_o / r_i) / 2πk_wall + ln(r_s / r_o) / 2πk_ins + 1 / (h_s × 2πr_s)
+// Fluid temperature along the run:
+//   T_out = T_amb + (T_in − T_amb) × e^(−L / (ṁ·cp·R))
+// ASHRAE 90.1 Table 6.8.3 thickness for a conductivity above the table range:
+//   T = r × [(1 + t / r)^(K / k) − 1]
+// ===========================================
+
+import type {
+  HydronicSystem,
+  HydronicPipeSection,
+  HydronicCalculationResult,
+  InsulationType,
+  PipeDimension,
+  PipeMaterial,
+  PipeHeatLossResult,
+  SectionHeatLoss,
+} from '../types/hydronic'
+import type { ASHRAELocation } from '../data/ashraeClimate'
+import { formatLocationDisplay } from '../data/ashraeClimate'
+import { getPipeDimension } from '../data/pipeData'
+import {
+  STANDARD_INSULATION_THICKNESSES,
+  getInsulationConductivity,
+  getInsulationDisplayName,
+  getInsulationMaterial,
+  getInsulationRequirement,
+  getRequirementThickness,
+} from '../data/pipeInsulation'
+
+const GAL_PER_FT3 = 7.4805
+
+export const DEFAULT_HEAT_LOSS_PARAMS = {
+  ambientTempF: 75,            // conditioned space
+  dewPointF: 55,               // 75°F / 50% RH
+}
+
+// Still-air surface coefficients (convection + radiation, Btu/h·ft²·°F)
+const INSULATED_SURFACE_COEFFICIENT = 1.65  // jacketed / elastomeric, ε ≈ 0.9
+const BARE_SURFACE_COEFFICIENT = 2.0
+
+// Insulation recommended for uninsulated cold piping
+const CONDENSATION_INSULATION: InsulationType = 'elastomeric'
+
+// Wall conductivities (Btu·in/h·ft²·°F) - only plastics add meaningful resistance
+const PIPE_WALL_CONDUCTIVITIES: Record<PipeMaterial, number> = {
+  copper_type_l: 2700,
+  copper_type_m: 2700,
+  steel_sch40: 310,
+  steel_sch80: 310,
+  pvc_sch40: 1.2,
+  pvc_sch80: 1.2,
+  pex: 2.8,
+  hdpe: 3.1,
+  ppr: 1.5,
+}
+
+interface PipeResistance {
+  totalR: number   // h·ft·°F/Btu per foot of pipe
+  surfaceR: number
+}
+
+function pipeResistance(
+  dim: PipeDimension,
+  pipeMaterial: PipeMaterial,
+  insulationType: InsulationType,
+  thicknessIn: number,
+  meanTempF: number
+): PipeResistance {
+  const innerRadiusIn = dim.innerDiameterIn / 2
+  const outerRadiusIn = dim.outerDiameterIn / 2
+  const insulated = insulationType !== 'none' && thicknessIn > 0
+  const surfaceRadiusIn = insulated ? outerRadiusIn + thicknessIn : outerRadiusIn
+
+  // k in Btu·in/h·ft²·°F → Btu/h·ft·°F is k / 12
+  const wallR = Math.log(outerRadiusIn / innerRadiusIn) / (2 * Math.PI * PIPE_WALL_CONDUCTIVITIES[pipeMaterial] / 12)
+  const insulationR = insulated
+    ? Math.log(surfaceRadiusIn / outerRadiusIn) / (2 * Math.PI * getInsulationConductivity(insulationType, meanTempF) / 12)
+    : 0
+  const surfaceCoefficient = insulated ? INSULATED_SURFACE_COEFFICIENT : BARE_SURFACE_COEFFICIENT
+  const surfaceR = 1 / (surfaceCoefficient * 2 * Math.PI * surfaceRadiusIn / 12)
+
+  return { totalR: wallR + insulationR + surfaceR, surfaceR }
+}
+
+function surfaceTempAt(fluidTempF: number, ambientTempF: number, resistance: PipeResistance): number {
+  return ambientTempF + (fluidTempF - ambientTempF) * resistance.surfaceR / resistance.totalR
+}
+
+/**
+ * Table 6.8.3 minimum thickness for the installed material
+ * @returns null when the fluid temperature has no requirement
+ */
+export function getAshraeMinThickness(
+  dim: PipeDimension,
+  nominalSize: string,
+  insulationType: InsulationType,
+  fluidTempF: number
+): number | null {
+  const requirement = getInsulationRequirement(fluidTempF)
+  if (!requirement) return null
+  const tableThicknessIn = getRequirementThickness(requirement, nominalSize)
+  if (insulationType === 'none') return tableThicknessIn
+
+  const conductivity = getInsulationConductivity(insulationType, requirement.meanRatingTempF)
+  if (conductivity <= requirement.maxConductivity) return tableThicknessIn
+  const radiusIn = dim.outerDiameterIn / 2
+  const adjusted = radiusIn * (Math.pow(1 + tableThicknessIn / radiusIn, conductivity / requirement.maxConductivity) - 1)
+  return Math.round(adjusted * 100) / 100
+}
+
+/**
+ * Thinnest standard thickness that keeps a cold pipe's surface above the dew point
+ * @returns 0 when bare pipe stays dry, null if even the thickest standard size condenses
+ */
+function getCondensationThickness(
+  dim: PipeDimension,
+  pipeMaterial: PipeMaterial,
+  insulationType: InsulationType,
+  fluidTempF: number,
+  ambientTempF: number,
+  dewPointF: number
+): number | null {
+  const meanTempF = (fluidTempF + ambientTempF) / 2
+  const bare = pipeResistance(dim, pipeMaterial, 'none', 0, meanTempF)
+  if (surfaceTempAt(fluidTempF, ambientTempF, bare) >= dewPointF) return 0
+  return STANDARD_INSULATION_THICKNESSES.find(thicknessIn =>
+    surfaceTempAt(fluidTempF, ambientTempF, pipeResistance(dim, pipeMaterial, insulationType, thicknessIn, meanTempF)) >= dewPointF
+  ) ?? null
+}
+
+/**
+ * Ambient and dew point for the heat loss check
+ * Cold loops default to the project's 0.4% summer design (piping through
+ * unconditioned space), hot loops to a conditioned space
+ */
+export function getHeatLossAmbient(
+  system: HydronicSystem,
+  location?: ASHRAELocation
+): { ambientTempF: number; dewPointF: number; climateLocation: string | null } {
+  const isCold = system.fluidTempF < DEFAULT_HEAT_LOSS_PARAMS.ambientTempF
+  const ambientTempF = system.ambientTempF
+    ?? (isCold && location ? location.cooling_04_db : DEFAULT_HEAT_LOSS_PARAMS.ambientTempF)
+  const dewPointF = system.ambientDewPointF ?? location?.summer_dp_04 ?? DEFAULT_HEAT_LOSS_PARAMS.dewPointF
+  const usesClimate = location && (system.ambientDewPointF == null || (isCold && system.ambientTempF == null))
+  return {
+    ambientTempF,
+    dewPointF,
+    climateLocation: usesClimate ? formatLocationDisplay(location) : null,
+  }
+}
+
+export function calculateSectionHeatLoss(
+  section: HydronicPipeSection,
+  system: HydronicSystem,
+  result: HydronicCalculationResult,
+  ambientTempF: number,
+  dewPointF: number
+): SectionHeatLoss | null {
+  const dim = getPipeDimension(section.pipeMaterial, section.pipeSizeNominal)
+  if (!dim) return null
+
+  const warnings: string[] = []
+  const insulationType = section.insulationType ?? 'none'
+  const insulationThicknessIn = insulationType === 'none' ? 0 : section.insulationThicknessIn ?? 0
+  const inletTempF = system.fluidTempF
+  const resistance = pipeResistance(dim, section.pipeMaterial, insulationType, insulationThicknessIn, (inletTempF + ambientTempF) / 2)
+
+  // ṁ·cp in Btu/h·°F
+  const { densityLbFt3, specificHeatBtuLbF } = result.fluidProperties
+  const capacityRate = section.flowGpm * 60 / GAL_PER_FT3 * densityLbFt3 * specificHeatBtuLbF
+  const conductance = section.lengthFt / resistance.totalR
+  const outletTempF = capacityRate > 0
+    ? ambientTempF + (inletTempF - ambientTempF) * Math.exp(-conductance / capacityRate)
+    : ambientTempF
+  const heatLossBtuh = capacityRate > 0
+    ? capacityRate * (inletTempF - outletTempF)
+    : conductance * (inletTempF - ambientTempF)
+
+  // Condensation - the cold inlet end is the worst case
+  const surfaceTempF = surfaceTempAt(inletTempF, ambientTempF, resistance)
+  const isCold = inletTempF < ambientTempF
+  const condensation = isCold && surfaceTempF < dewPointF
+  const condensationThicknessIn = isCold
+    ? getCondensationThickness(
+        dim,
+        section.pipeMaterial,
+        insulationType === 'none' ? CONDENSATION_INSULATION : insulationType,
+        inletTempF,
+        ambientTempF,
+        dewPointF
+      )
+    : null
+  if (condensation) {
+    warnings.push(
+      condensationThicknessIn !== null
+        ? `Surface ${surfaceTempF.toFixed(1)}°F is below the ${dewPointF}°F dew point - condensation; use ${condensationThicknessIn}" ${getInsulationDisplayName(insulationType === 'none' ? CONDENSATION_INSULATION : insulationType)} with a vapor retarder`
+        : `Surface ${surfaceTempF.toFixed(1)}°F is below the ${dewPointF}°F dew point - condensation even with ${STANDARD_INSULATION_THICKNESSES[STANDARD_INSULATION_THICKNESSES.length - 1]}" insulation`
+    )
+  }
+
+  // ASHRAE 90.1 minimum
+  const ashraeMinThicknessIn = getAshraeMinThickness(dim, section.pipeSizeNominal, insulationType, inletTempF)
+  const meetsAshrae = ashraeMinThicknessIn === null
+    || (insulationType !== 'none' && insulationThicknessIn >= ashraeMinThicknessIn - 0.005)
+  if (!meetsAshrae) {
+    warnings.push(
+      insulationType === 'none'
+        ? `Uninsulated - ASHRAE 90.1 requires ${ashraeMinThicknessIn}" at ${inletTempF}°F`
+        : `${insulationThicknessIn}" is below the ASHRAE 90.1 minimum of ${ashraeMinThicknessIn}" ${getInsulationDisplayName(insulationType)}`
+    )
+  }
+
+  const material = getInsulationMaterial(insulationType)
+  if (inletTempF > material.maxServiceTempF) {
+    warnings.push(`${material.displayName} is rated to ${material.maxServiceTempF}°F - fluid is ${inletTempF}°F`)
+  }
+
+  return {
+    sectionId: section.id,
+    sectionName: section.name,
+    insulationType,
+    insulationThicknessIn,
+    inletTempF,
+    outletTempF: Math.round(outletTempF * 100) / 100,
+    tempChangeF: Math.round((outletTempF - inletTempF) * 100) / 100,
+    heatLossBtuh: Math.round(heatLossBtuh),
+    heatLossBtuhPerFt: section.lengthFt > 0 ? Math.round(heatLossBtuh / section.lengthFt * 10) / 10 : 0,
+    surfaceTempF: Math.round(surfaceTempF * 10) / 10,
+    condensation,
+    condensationThicknessIn,
+    ashraeMinThicknessIn,
+    meetsAshrae,
+    warnings,
+  }
+}
+
+export function calculatePipeHeatLoss(
+  system: HydronicSystem,
+  sections: HydronicPipeSection[],
+  result: HydronicCalculationResult,
+  location?: ASHRAELocation
+): PipeHeatLossResult {
+  const warnings: string[] = []
+  const ambient = getHeatLossAmbient(system, location)
+  const { ambientTempF } = ambient
+  let { dewPointF } = ambient
+
+  // Air cannot hold a dew point above its dry bulb
+  if (dewPointF > ambientTempF) {
+    if (system.fluidTempF < ambientTempF) {
+      warnings.push(`Dew point ${dewPointF}°F is above the ${ambientTempF}°F ambient - checking condensation against saturated air`)
+    }
+    dewPointF = ambientTempF
+  }
+
+  const sectionResults = sections
+    .map(section => calculateSectionHeatLoss(section, system, result, ambientTempF, dewPointF))
+    .filter((s): s is SectionHeatLoss => s !== null)
+  sectionResults.forEach(s => s.warnings.forEach(w => warnings.push(`${s.sectionName}: ${w}`)))
+
+  return {
+    ambientTempF,
+    dewPointF,
+    climateLocation: ambient.climateLocation,
+    sections: sectionResults,
+    totalHeatLossBtuh: sectionResults.reduce((sum, s) => sum + s.heatLossBtuh, 0),
+    warnings,
+  }
+}
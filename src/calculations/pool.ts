@@ -20,6 +20,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 76, max: 82, default: 79 },
     airTempRange: { min: 75, max: 85, default: 80 },
     activityFactor: 1.0,
+    depthFt: 6,
     description: 'Olympic/competitive swimming'
   },
   recreational: {
@@ -27,6 +28,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 80, max: 84, default: 82 },
     airTempRange: { min: 82, max: 85, default: 84 },
     activityFactor: 1.0,
+    depthFt: 4.5,
     description: 'Public/municipal pool'
   },
   hotel: {
@@ -34,6 +36,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 82, max: 86, default: 84 },
     airTempRange: { min: 82, max: 85, default: 84 },
     activityFactor: 0.8,
+    depthFt: 4,
     description: 'Hotel/resort pool'
   },
   therapy: {
@@ -41,6 +44,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 90, max: 95, default: 92 },
     airTempRange: { min: 80, max: 85, default: 84 },
     activityFactor: 1.0,
+    depthFt: 4,
     description: 'Physical therapy pool'
   },
   whirlpool: {
@@ -48,6 +52,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 102, max: 104, default: 103 },
     airTempRange: { min: 80, max: 85, default: 82 },
     activityFactor: 1.0,
+    depthFt: 3,
     description: 'Hot tub/spa'
   },
   dive: {
@@ -55,6 +60,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 84, max: 88, default: 86 },
     airTempRange: { min: 80, max: 85, default: 82 },
     activityFactor: 1.0,
+    depthFt: 13,
     description: 'Diving pool'
   },
   lap: {
@@ -62,6 +68,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 78, max: 82, default: 80 },
     airTempRange: { min: 80, max: 85, default: 82 },
     activityFactor: 0.8,
+    depthFt: 4.5,
     description: 'Lap swimming'
   },
   elderly: {
@@ -69,6 +76,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 85, max: 90, default: 88 },
     airTempRange: { min: 84, max: 85, default: 85 },
     activityFactor: 0.65,
+    depthFt: 4,
     description: 'Senior swimming programs'
   },
   kids: {
@@ -76,6 +84,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 88, max: 92, default: 90 },
     airTempRange: { min: 86, max: 92, default: 88 },
     activityFactor: 1.0,
+    depthFt: 3.5,
     description: 'Children swim lessons'
   },
   waterpark: {
@@ -83,6 +92,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 82, max: 86, default: 84 },
     airTempRange: { min: 82, max: 85, default: 84 },
     activityFactor: 1.5,
+    depthFt: 3.5,
     description: 'Wave pool, water features'
   },
   residential: {
@@ -90,6 +100,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 78, max: 84, default: 80 },
     airTempRange: { min: 78, max: 82, default: 80 },
     activityFactor: 0.5,
+    depthFt: 5,
     description: 'Home pool'
   },
   cold_plunge: {
@@ -97,6 +108,7 @@ export const POOL_TYPE_PRESETS = {
     waterTempRange: { min: 38, max: 60, default: 50 },
     airTempRange: { min: 75, max: 85, default: 80 },
     activityFactor: 0.5,  // Still water, minimal splashing
+    depthFt: 4,
     description: 'Cold plunge pool (absorbs humidity)'
   },
 } as const
@@ -110,8 +122,16 @@ export interface PoolConfig {
   waterTempF: number
   activityFactor: number  // 0.5 to 1.5
   poolType: PoolType
+  avgDepthFt?: number         // average water depth (ft) - defaults to the pool type's
+  heaterType?: PoolHeaterType // defaults to gas
+  heaterOutputMbh?: number    // selected heater output (MBH) - defaults to the recommended size
+  turnoverHours?: number      // recirculation turnover - defaults to the code value for the pool type
+  filterType?: PoolFilterType // defaults to high-rate sand
 }
 
+export type PoolHeaterType = 'gas' | 'heat_pump'
+export type PoolFilterType = 'high_rate_sand' | 'cartridge' | 'diatomaceous_earth' | 'regenerative_media'
+
 export interface PoolRoomParams {
   roomSF: number            // room floor area (SF)
   ceilingHeightFt: number   // ceiling height (ft), typically 15-25 for natatoriums
@@ -123,6 +143,16 @@ export interface PoolRoomParams {
   airChangesPerHour: number // 4-6 recommended for natatoriums
   // ASHRAE location for outdoor air moisture calculation
   ashraeLocationId?: string // Location ID from ashraeClimate.ts
+  // Pool heater sizing - defaults from DEFAULT_POOL_HEATER_PARAMS
+  makeupWaterTempF?: number     // fill / make-up water temperature (°F)
+  groundTempF?: number          // soil temperature around the pool shell (°F)
+  heatUpTargetHours?: number    // initial heat-up time the heater is sized for
+  gasHeaterEfficiency?: number  // gas pool heater thermal efficiency
+  heatPumpCOP?: number          // pool heat pump COP
+  // Filtration sizing - defaults from DEFAULT_POOL_FILTRATION_PARAMS
+  filtrationPipeRunFt?: number      // pool to equipment room piping, one way (ft)
+  filtrationStaticHeadFt?: number   // surge tank water level to return inlets (ft)
+  filtrationPumpEfficiency?: number // filtration pump efficiency
 }
 
 export interface PoolRoomResults {
@@ -526,6 +556,200 @@ export function calculatePoolRoomLoads(
   }
 }
 
+// =============================================
+// POOL HEATER SIZING
+// Steady-state heat loss of each pool plus the initial heat-up
+// =============================================
+
+export const DEFAULT_POOL_HEATER_PARAMS = {
+  makeupWaterTempF: 55,
+  groundTempF: 55,
+  heatUpTargetHours: 48,      // 24-48 hr typical for commercial pools
+  gasHeaterEfficiency: 0.84,  // non-condensing pool heater
+  heatPumpCOP: 5,
+}
+
+// Smallest heat-up time, gas efficiency and COP the heater sizing divides by
+export const MIN_POOL_HEATER_PARAMS = {
+  heatUpTargetHours: 1,
+  gasHeaterEfficiency: 0.5,
+  heatPumpCOP: 1,
+}
+
+const LATENT_HEAT_BTU_PER_LB = 1050         // heat of vaporization at pool temperatures
+const CONVECTION_BTUH_SF_F = 0.6            // still indoor air over a water surface
+const WATER_EMISSIVITY = 0.95
+const STEFAN_BOLTZMANN = 0.1714e-8          // BTU/hr·ft²·°R⁴
+const POOL_SHELL_U_VALUE = 0.1              // BTU/hr·ft²·°F - concrete shell in soil
+const POOL_LENGTH_TO_WIDTH = 2              // plan proportion for the shell perimeter
+const DAILY_MAKEUP_FRACTION = 0.01          // splash-out, carry-out and backwash per day
+const HEATER_SAFETY_FACTOR = 1.1            // margin on the steady-state loss
+const GAL_PER_CF = 7.48
+const WATER_LB_PER_GAL = 8.33
+const BTU_PER_KWH = 3412
+
+export interface PoolHeatLoss {
+  evaporationBtuh: number
+  convectionBtuh: number    // negative when the room air is warmer than the water
+  radiationBtuh: number     // to room surfaces, taken at air temperature
+  conductionBtuh: number    // through the shell to the ground
+  makeupWaterBtuh: number   // heating the water that replaces evaporation and splash-out
+  totalBtuh: number
+}
+
+export interface PoolHeaterResult {
+  id: string
+  name: string
+  volumeGal: number
+  heatLoss: PoolHeatLoss
+  steadyStateMbh: number    // design heat loss with safety factor
+  heatUpMbh: number         // output to reach temperature in the target heat-up time
+  recommendedMbh: number    // heater output - larger of the two
+  selectedMbh: number       // user-selected output, else the recommendation
+  heatUpHours: number | null // for the selected output - null if it cannot overcome the losses
+  heaterType: PoolHeaterType
+  gasInputMbh: number       // gas heater input (≈ CFH)
+  heatPumpKw: number        // heat pump electrical input
+}
+
+// Saved pool rooms predate the heater fields
+function getHeaterParams(params: PoolRoomParams): typeof DEFAULT_POOL_HEATER_PARAMS {
+  return {
+    makeupWaterTempF: params.makeupWaterTempF ?? DEFAULT_POOL_HEATER_PARAMS.makeupWaterTempF,
+    groundTempF: params.groundTempF ?? DEFAULT_POOL_HEATER_PARAMS.groundTempF,
+    heatUpTargetHours: Math.max(
+      params.heatUpTargetHours ?? DEFAULT_POOL_HEATER_PARAMS.heatUpTargetHours,
+      MIN_POOL_HEATER_PARAMS.heatUpTargetHours
+    ),
+    gasHeaterEfficiency: Math.max(
+      params.gasHeaterEfficiency ?? DEFAULT_POOL_HEATER_PARAMS.gasHeaterEfficiency,
+      MIN_POOL_HEATER_PARAMS.gasHeaterEfficiency
+    ),
+    heatPumpCOP: Math.max(params.heatPumpCOP ?? DEFAULT_POOL_HEATER_PARAMS.heatPumpCOP, MIN_POOL_HEATER_PARAMS.heatPumpCOP),
+  }
+}
+
+function getPoolDepthFt(pool: PoolConfig): number {
+  return pool.avgDepthFt ?? POOL_TYPE_PRESETS[pool.poolType]?.depthFt ?? 4
+}
+
+/**
+ * Calculate pool water volume in gallons from surface area and average depth
+ */
+export function calculatePoolVolumeGal(pool: PoolConfig): number {
+  return pool.surfaceAreaSF * getPoolDepthFt(pool) * GAL_PER_CF
+}
+
+/**
+ * Calculate the heat loss of a pool at its water temperature
+ *
+ * Evaporation: lb/hr (ASHRAE, as calculatePoolEvaporation) × 1,050 BTU/lb
+ * Convection:  h × A × (Tw - Ta)
+ * Radiation:   ε × σ × A × (Tw⁴ - Ta⁴) in °R
+ * Conduction:  U × (floor + wall area) × (Tw - Tground)
+ * Make-up:     (evaporation + daily splash-out) lb/hr × (Tw - Tmakeup)
+ */
+export function calculatePoolHeatLoss(pool: PoolConfig, params: PoolRoomParams): PoolHeatLoss {
+  const { makeupWaterTempF, groundTempF } = getHeaterParams(params)
+  const area = pool.surfaceAreaSF
+  const waterTemp = pool.waterTempF
+
+  const evaporationLbHr = calculatePoolEvaporation(pool, params.airTempF, params.relativeHumidity)
+  const evaporationBtuh = evaporationLbHr * LATENT_HEAT_BTU_PER_LB
+
+  const convectionBtuh = CONVECTION_BTUH_SF_F * area * (waterTemp - params.airTempF)
+
+  const waterR = waterTemp + 459.67
+  const surfaceR = params.airTempF + 459.67
+  const radiationBtuh = WATER_EMISSIVITY * STEFAN_BOLTZMANN * area * (waterR ** 4 - surfaceR ** 4)
+
+  // Shell = floor + walls of a rectangular pool
+  const width = Math.sqrt(area / POOL_LENGTH_TO_WIDTH)
+  const perimeter = 2 * (width + width * POOL_LENGTH_TO_WIDTH)
+  const shellAreaSF = area + perimeter * getPoolDepthFt(pool)
+  const conductionBtuh = POOL_SHELL_U_VALUE * shellAreaSF * (waterTemp - groundTempF)
+
+  const splashOutLbHr = (calculatePoolVolumeGal(pool) * WATER_LB_PER_GAL * DAILY_MAKEUP_FRACTION) / 24
+  const makeupLbHr = Math.max(0, evaporationLbHr) + splashOutLbHr
+  const makeupWaterBtuh = makeupLbHr * (waterTemp - makeupWaterTempF)
+
+  return {
+    evaporationBtuh: Math.round(evaporationBtuh),
+    convectionBtuh: Math.round(convectionBtuh),
+    radiationBtuh: Math.round(radiationBtuh),
+    conductionBtuh: Math.round(conductionBtuh),
+    makeupWaterBtuh: Math.round(makeupWaterBtuh),
+    totalBtuh: Math.round(evaporationBtuh + convectionBtuh + radiationBtuh + conductionBtuh + makeupWaterBtuh),
+  }
+}
+
+/**
+ * Calculate hours to bring a freshly filled pool to temperature
+ * Losses are taken at the midpoint water temperature of the heat-up
+ *
+ * @returns Hours, or null if the heater cannot overcome the losses
+ */
+export function calculatePoolHeatUpHours(
+  pool: PoolConfig,
+  params: PoolRoomParams,
+  heaterOutputMbh: number
+): number | null {
+  const { makeupWaterTempF } = getHeaterParams(params)
+  const riseF = pool.waterTempF - makeupWaterTempF
+  if (riseF <= 0) return 0
+
+  const averageLossBtuh = getAverageHeatUpLossBtuh(pool, params)
+  const netBtuh = heaterOutputMbh * 1000 - averageLossBtuh
+  if (netBtuh <= 0) return null
+
+  const waterLb = calculatePoolVolumeGal(pool) * WATER_LB_PER_GAL
+  return Math.round((waterLb * riseF / netBtuh) * 10) / 10
+}
+
+function getAverageHeatUpLossBtuh(pool: PoolConfig, params: PoolRoomParams): number {
+  const { makeupWaterTempF } = getHeaterParams(params)
+  const midpointTempF = (pool.waterTempF + makeupWaterTempF) / 2
+  return Math.max(0, calculatePoolHeatLoss({ ...pool, waterTempF: midpointTempF }, params).totalBtuh)
+}
+
+/**
+ * Size a heater for each pool: the larger of the steady-state loss (with
+ * safety factor) and the output that reaches temperature in the target
+ * heat-up time. Pools held below the room and fill temperatures need none.
+ */
+export function calculatePoolHeaters(pools: PoolConfig[], params: PoolRoomParams): PoolHeaterResult[] {
+  const settings = getHeaterParams(params)
+
+  return pools.map(pool => {
+    const heatLoss = calculatePoolHeatLoss(pool, params)
+    const volumeGal = calculatePoolVolumeGal(pool)
+    const riseF = Math.max(0, pool.waterTempF - settings.makeupWaterTempF)
+
+    const steadyStateMbh = Math.max(0, heatLoss.totalBtuh * HEATER_SAFETY_FACTOR / 1000)
+    const heatUpMbh = riseF > 0
+      ? (volumeGal * WATER_LB_PER_GAL * riseF / settings.heatUpTargetHours + getAverageHeatUpLossBtuh(pool, params)) / 1000
+      : 0
+    const recommendedMbh = Math.ceil(Math.max(steadyStateMbh, heatUpMbh) / 10) * 10
+    const selectedMbh = pool.heaterOutputMbh ?? recommendedMbh
+    const heaterType = pool.heaterType ?? 'gas'
+
+    return {
+      id: pool.id,
+      name: pool.name,
+      volumeGal: Math.round(volumeGal),
+      heatLoss,
+      steadyStateMbh: Math.round(steadyStateMbh * 10) / 10,
+      heatUpMbh: Math.round(heatUpMbh * 10) / 10,
+      recommendedMbh,
+      selectedMbh,
+      heatUpHours: selectedMbh > 0 ? calculatePoolHeatUpHours(pool, params, selectedMbh) : null,
+      heaterType,
+      gasInputMbh: Math.ceil(selectedMbh / settings.gasHeaterEfficiency),
+      heatPumpKw: Math.round((selectedMbh * 1000 / BTU_PER_KWH / settings.heatPumpCOP) * 10) / 10,
+    }
+  })
+}
+
 /**
  * Get default parameters for a new pool room
  * @param roomSF - Room square footage
@@ -542,6 +766,7 @@ export function getDefaultPoolRoomParams(roomSF: number, ashraeLocationId?: stri
     swimmerCount: 0,            // Active swimmers in pools
     airChangesPerHour: 5,       // Middle of 4-6 range
     ashraeLocationId,           // From project settings
+    ...DEFAULT_POOL_HEATER_PARAMS,
   }
 }
 
@@ -561,5 +786,6 @@ export function createDefaultPool(
     waterTempF: preset.waterTempRange.default,
     activityFactor: preset.activityFactor,
     poolType,
+    avgDepthFt: preset.depthFt,
   }
 }
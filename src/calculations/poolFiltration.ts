@@ -0,0 +1,230 @@
+/**
+ * Pool Filtration / Recirculation Sizing
+ * Turnover per the Model Aquatic Health Code (MAHC) and ISPSC
+ *
+ * Recirculation GPM = pool volume ÷ turnover time
+ * Filter area = GPM ÷ filter design rate
+ * Surge tank = gutter water in transit + bather displacement + backwash
+ * Pump TDH = suction + return piping (Darcy-Weisbach) + filter + static lift
+ */
+
+import type { HydronicCalculationResult, HydronicFitting, HydronicPipeSection, HydronicSystem } from '../types/hydronic'
+import { calculateHydronicSystem, calculatePumpBhp, calculateVelocity } from './hydronic'
+import { calculatePoolVolumeGal, type PoolConfig, type PoolFilterType, type PoolRoomParams, type PoolType } from './pool'
+import { getAvailableSizes, getInnerDiameter } from '../data/pipeData'
+
+// Code turnover time by pool type (hours)
+export const POOL_TURNOVER_HOURS: Record<PoolType, number> = {
+  competition: 6,
+  recreational: 6,
+  hotel: 6,
+  therapy: 1,
+  whirlpool: 0.5,
+  dive: 8,
+  lap: 6,
+  elderly: 6,
+  kids: 2,
+  waterpark: 2,
+  residential: 8,
+  cold_plunge: 0.5,
+}
+
+export const POOL_FILTER_TYPES: Record<PoolFilterType, {
+  name: string
+  rateGpmSf: number       // maximum design filtration rate
+  dirtyDpFt: number       // filter dP at the end of a run
+  backwashGpmSf: number   // 0 = not backwashed (cartridges are cleaned by hand)
+}> = {
+  high_rate_sand: { name: 'High-Rate Sand', rateGpmSf: 15, dirtyDpFt: 35, backwashGpmSf: 15 },
+  cartridge: { name: 'Cartridge', rateGpmSf: 0.375, dirtyDpFt: 23, backwashGpmSf: 0 },
+  diatomaceous_earth: { name: 'Diatomaceous Earth (DE)', rateGpmSf: 1.5, dirtyDpFt: 35, backwashGpmSf: 2 },
+  regenerative_media: { name: 'Regenerative Media', rateGpmSf: 1.5, dirtyDpFt: 28, backwashGpmSf: 2 },
+}
+
+export const DEFAULT_POOL_FILTRATION_PARAMS = {
+  filtrationPipeRunFt: 75,      // pool to equipment room, one way
+  filtrationStaticHeadFt: 5,    // lift from surge tank water level to the return inlets
+  filtrationPumpEfficiency: 0.65,
+}
+
+// Smallest turnover and pump efficiency the sizing divides by
+export const MIN_POOL_TURNOVER_HOURS = 0.25
+export const MIN_FILTRATION_PUMP_EFFICIENCY = 0.3
+
+const SUCTION_MAX_FPS = 6             // MAHC suction velocity limit
+const RETURN_MAX_FPS = 8              // MAHC return velocity limit
+const RETURN_LENGTH_FACTOR = 1.5      // return header runs around the pool to the inlets
+const GUTTER_TRANSIT_MINUTES = 1      // recirculation flow in transit in the gutter
+const SURGE_GAL_PER_SF = 1            // bather displacement - 1 bather per 20 SF × 20 gal
+const BACKWASH_MINUTES = 3
+const HAIR_LINT_STRAINER_DP_FT = 2
+const HEAD_SAFETY_FACTOR = 0.1
+const STANDARD_MOTOR_HP = [0.5, 0.75, 1, 1.5, 2, 3, 5, 7.5, 10, 15, 20, 25, 30, 40, 50, 60, 75, 100]
+const PIPE_MATERIAL = 'pvc_sch40' as const
+
+export interface PoolFiltrationResult {
+  id: string
+  name: string
+  volumeGal: number
+  turnoverHours: number
+  recirculationGpm: number
+  filterType: PoolFilterType
+  filterRateGpmSf: number
+  filterAreaSF: number
+  surgeTankGal: number
+  suctionPipeSize: string
+  returnPipeSize: string
+  hydraulics: HydronicCalculationResult
+  pumpHeadFt: number
+  pumpBhp: number
+  motorHp: number
+  pumpKw: number       // motor nameplate kW for the electrical load
+  warnings: string[]
+}
+
+// Smallest PVC size under the velocity limit - the largest size if none is
+function selectPipeSize(flowGpm: number, maxVelocityFps: number): string {
+  const sizes = getAvailableSizes(PIPE_MATERIAL)
+  return sizes.find(size => calculateVelocity(flowGpm, getInnerDiameter(PIPE_MATERIAL, size)) <= maxVelocityFps)
+    ?? sizes[sizes.length - 1]
+}
+
+function createFitting(sectionId: string, fittingType: string, quantity: number, dpOverrideFt?: number): HydronicFitting {
+  return {
+    id: `${sectionId}-${fittingType}`,
+    sectionId,
+    fittingType,
+    quantity,
+    dpOverrideFt,
+    createdAt: new Date(),
+  }
+}
+
+// Open recirculation loop: main drain / surge tank → pump → filter → return inlets
+function calculateFiltrationHydraulics(
+  pool: PoolConfig,
+  flowGpm: number,
+  filterDpFt: number,
+  pipeRunFt: number,
+  staticHeadFt: number
+): HydronicCalculationResult {
+  const system: HydronicSystem = {
+    id: `pool-filtration-${pool.id}`,
+    projectId: null,
+    personalCalcId: null,
+    name: `${pool.name} Filtration`,
+    systemType: 'open',
+    fluidType: 'water',
+    glycolConcentration: 0,
+    fluidTempF: pool.waterTempF,
+    staticHeadFt,
+    safetyFactor: HEAD_SAFETY_FACTOR,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  const suctionId = `${system.id}-suction`
+  const returnId = `${system.id}-return`
+  const sections: HydronicPipeSection[] = [
+    {
+      id: suctionId,
+      systemId: system.id,
+      name: 'Suction',
+      flowGpm,
+      pipeMaterial: PIPE_MATERIAL,
+      pipeSizeNominal: selectPipeSize(flowGpm, SUCTION_MAX_FPS),
+      lengthFt: pipeRunFt,
+      sortOrder: 0,
+      fittings: [
+        createFitting(suctionId, 'pipe_entrance_sharp', 1),
+        createFitting(suctionId, 'elbow_90_standard', 4),
+        createFitting(suctionId, 'gate_valve_full_open', 1),
+        createFitting(suctionId, 'strainer_basket', 1, HAIR_LINT_STRAINER_DP_FT),
+      ],
+      createdAt: new Date(),
+    },
+    {
+      id: returnId,
+      systemId: system.id,
+      name: 'Return',
+      flowGpm,
+      pipeMaterial: PIPE_MATERIAL,
+      pipeSizeNominal: selectPipeSize(flowGpm, RETURN_MAX_FPS),
+      lengthFt: pipeRunFt * RETURN_LENGTH_FACTOR,
+      sortOrder: 1,
+      fittings: [
+        createFitting(returnId, 'check_valve_swing', 1),
+        createFitting(returnId, 'butterfly_valve_full_open', 2),
+        createFitting(returnId, 'pool_filter', 1, filterDpFt),
+        createFitting(returnId, 'tee_branch_flow', 1), // heater bypass
+        createFitting(returnId, 'elbow_90_standard', 8),
+        createFitting(returnId, 'pipe_exit', 1),
+      ],
+      createdAt: new Date(),
+    },
+  ]
+
+  return calculateHydronicSystem(system, sections)
+}
+
+/**
+ * Size recirculation, filters, surge tank and filtration pump for each pool
+ */
+export function calculatePoolFiltration(pools: PoolConfig[], params: PoolRoomParams): PoolFiltrationResult[] {
+  const pipeRunFt = params.filtrationPipeRunFt ?? DEFAULT_POOL_FILTRATION_PARAMS.filtrationPipeRunFt
+  const staticHeadFt = params.filtrationStaticHeadFt ?? DEFAULT_POOL_FILTRATION_PARAMS.filtrationStaticHeadFt
+  const pumpEfficiency = Math.max(
+    params.filtrationPumpEfficiency ?? DEFAULT_POOL_FILTRATION_PARAMS.filtrationPumpEfficiency,
+    MIN_FILTRATION_PUMP_EFFICIENCY
+  )
+
+  return pools.map(pool => {
+    const volumeGal = calculatePoolVolumeGal(pool)
+    const turnoverHours = Math.max(pool.turnoverHours ?? POOL_TURNOVER_HOURS[pool.poolType] ?? 6, MIN_POOL_TURNOVER_HOURS)
+    const recirculationGpm = Math.ceil(volumeGal / (turnoverHours * 60))
+
+    const filterType = pool.filterType ?? 'high_rate_sand'
+    const filter = POOL_FILTER_TYPES[filterType]
+    const filterAreaSF = Math.ceil((recirculationGpm / filter.rateGpmSf) * 10) / 10
+
+    const surgeTankGal = Math.ceil(
+      recirculationGpm * GUTTER_TRANSIT_MINUTES
+      + pool.surfaceAreaSF * SURGE_GAL_PER_SF
+      + filterAreaSF * filter.backwashGpmSf * BACKWASH_MINUTES
+    )
+
+    const hydraulics = calculateFiltrationHydraulics(pool, recirculationGpm, filter.dirtyDpFt, pipeRunFt, staticHeadFt)
+    const pumpHeadFt = Math.round(hydraulics.totalPumpHeadFt * 10) / 10
+    const pumpBhp = calculatePumpBhp(recirculationGpm, pumpHeadFt, hydraulics.fluidProperties.specificGravity, pumpEfficiency)
+    const motorHp = STANDARD_MOTOR_HP.find(hp => hp >= pumpBhp) ?? Math.ceil(pumpBhp)
+
+    const [suction, returnLine] = hydraulics.sections
+    const warnings = [...hydraulics.warnings]
+    if (suction.velocityFps > SUCTION_MAX_FPS) {
+      warnings.push(`Suction ${suction.velocityFps.toFixed(1)} fps exceeds ${SUCTION_MAX_FPS} fps - split into parallel suction lines`)
+    }
+    if (returnLine.velocityFps > RETURN_MAX_FPS) {
+      warnings.push(`Return ${returnLine.velocityFps.toFixed(1)} fps exceeds ${RETURN_MAX_FPS} fps - split into parallel return lines`)
+    }
+
+    return {
+      id: pool.id,
+      name: pool.name,
+      volumeGal: Math.round(volumeGal),
+      turnoverHours,
+      recirculationGpm,
+      filterType,
+      filterRateGpmSf: filter.rateGpmSf,
+      filterAreaSF,
+      surgeTankGal,
+      suctionPipeSize: suction.pipeSize,
+      returnPipeSize: returnLine.pipeSize,
+      hydraulics,
+      pumpHeadFt,
+      pumpBhp: Math.round(pumpBhp * 100) / 100,
+      motorHp,
+      pumpKw: Math.round(motorHp * 0.746 * 10) / 10,
+      warnings,
+    }
+  })
+}
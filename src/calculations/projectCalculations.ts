@@ -0,0 +1,252 @@
+// ===========================================
+// PROJECT CALCULATION PIPELINE
+// Runs every calculation for a project and its zones - shared by the
+// useCalculations hook and the electrification scenario comparison
+// ===========================================
+
+import { calculateElectrical, getElectricalBreakdown, recalculateServiceWithMechanical, calculateMechanicalKVA } from './electrical'
+import { calculateNEC220Load } from './nec220'
+import { generatePanelSchedules } from './panelSchedule'
+import { calculateFaultCurrent, DEFAULT_FAULT_CURRENT_SETTINGS } from './faultCurrent'
+import { DEFAULT_FEEDER_SIZING_SETTINGS } from './conductorSizing'
+import { calculateGeneratorSizing, DEFAULT_GENERATOR_SIZING_SETTINGS } from './generator'
+import { checkLightingCompliance } from './lightingCompliance'
+import { calculateEVCharging, DEFAULT_EV_CHARGING_SETTINGS } from './evCharging'
+import { calculateHVAC, getHVACBreakdown } from './hvac'
+import { getEnvelopeDesignConditions } from './envelopeLoads'
+import { calculateResidentialVentilation, DEFAULT_RESIDENTIAL_VENTILATION_SETTINGS } from './residentialVentilation'
+import { selectConceptEquipment } from './equipmentSelection'
+import { calculateGas } from './gas'
+import { calculateDHW } from './dhw'
+import { calculatePlumbing } from './plumbing'
+import { calculateAnnualEnergy, DEFAULT_ENERGY_MODEL_SETTINGS } from './energy'
+import { calculateLL97, DEFAULT_LL97_SETTINGS } from './ll97'
+import { calculateCostEstimate } from './costEstimate'
+import { getDefaultMechanicalSettings } from '../data/defaults'
+import { mergeEquipmentCatalog } from '../data/equipmentCatalog'
+import { mergeFixtures } from '../data/fixtureUtils'
+import { mergeUnitCosts, DEFAULT_COST_ESTIMATE_SETTINGS } from '../data/costLibrary'
+import type { ElectricalSettings, PlumbingSettings } from '../store/useSettingsStore'
+import type { EquipmentCatalogItem } from '../types/equipment'
+import type { CalculationResults, Project, Zone, ZoneFixtures } from '../types'
+
+// Global (user-level) settings the pipeline reads alongside the project
+export interface ProjectCalculationSettings {
+  electrical: ElectricalSettings
+  plumbing: PlumbingSettings
+  customEquipment: Record<string, EquipmentCatalogItem>
+  customUnitCosts: Record<string, number>
+}
+
+export interface ProjectCalculations {
+  results: CalculationResults
+  aggregatedFixtures: ZoneFixtures
+  electricalBreakdown: ReturnType<typeof getElectricalBreakdown>
+  hvacBreakdown: ReturnType<typeof getHVACBreakdown>
+  mechanicalKVA: ReturnType<typeof calculateMechanicalKVA>
+  totalSF: number
+}
+
+export function calculateProject(
+  project: Project,
+  zones: Zone[],
+  { electrical: electricalSettings, plumbing: plumbingSettings, customEquipment, customUnitCosts }: ProjectCalculationSettings
+): ProjectCalculations {
+  const contingency = project.contingency
+  const climate = project.climate
+  const aggregatedFixtures = mergeFixtures(...zones.map(z => z.fixtures))
+  const totalSF = zones.reduce((sum, z) => sum + z.sf, 0)
+
+  // Check if there are commercial laundry zones (for plumbing calcs)
+  const hasCommercialLaundry = zones.some(z => z.type === 'laundry_commercial')
+
+  // Merge global settings with project-level overrides for electrical
+  const projectElectrical = project.electricalSettings
+  const mergedElectricalSettings = {
+    ...electricalSettings,
+    voltage_primary: projectElectrical.voltage,
+    voltage_secondary: projectElectrical.voltage === 208 ? 480 : 208,
+    power_factor: projectElectrical.powerFactor,
+    spare_capacity: projectElectrical.spareCapacity,
+    demand_factor: projectElectrical.demandFactor,
+  }
+
+  // Get fixture overrides from project
+  const fixtureOverrides = project.fixtureOverrides
+
+  // NEC 625 EV charging - carried as its own load category through the service calculation
+  const evCharging = projectElectrical.evCharging
+    ? calculateEVCharging({ ...DEFAULT_EV_CHARGING_SETTINGS, ...projectElectrical.evCharging })
+    : undefined
+
+  // Run all calculations with merged settings
+  const electrical = calculateElectrical(zones, contingency, {
+    settings: mergedElectricalSettings,
+    phase: projectElectrical.phase,
+    useEnergyCodeLighting: projectElectrical.useEnergyCodeLighting,
+    evCharging,
+  })
+  // Envelope loads need the project's ASHRAE location - without one the rules of thumb apply
+  const hvacLoadOptions = {
+    method: project.mechanicalSettings?.hvacLoadMethod,
+    design: getEnvelopeDesignConditions(project.ashraeLocationId),
+  }
+  const hvac = calculateHVAC(zones, climate, contingency, hvacLoadOptions)
+  // ASHRAE 62.2 dwelling-unit ventilation for res_* zones
+  hvac.residentialVentilation = calculateResidentialVentilation(zones, {
+    ...DEFAULT_RESIDENTIAL_VENTILATION_SETTINGS,
+    ...project.mechanicalSettings?.residentialVentilation,
+  })
+  const gas = calculateGas(zones, contingency)
+  const dhw = calculateDHW(aggregatedFixtures, project.dhwSettings, contingency, fixtureOverrides)
+  const plumbing = calculatePlumbing(aggregatedFixtures, { 
+    useCommercialLaundry: hasCommercialLaundry,
+    coldWaterVelocityFPS: plumbingSettings.cold_water_velocity_fps,
+    hotWaterVelocityFPS: plumbingSettings.hot_water_velocity_fps,
+    hotWaterFlowRatio: plumbingSettings.hot_water_flow_ratio,
+    useCalculatedHWRatio: plumbingSettings.use_calculated_hw_ratio ?? true,
+    fixtureOverrides,
+  })
+
+  // Add DHW gas load to total gas if using gas heaters
+  if (project.dhwSettings.heaterType === 'gas') {
+    gas.totalCFH += dhw.gasCFH
+    gas.totalMBH += Math.round(dhw.grossBTU / 1000)
+    gas.equipmentBreakdown.unshift({
+      name: 'Domestic Hot Water - Tankless Heaters',
+      mbh: Math.round(dhw.grossBTU / 1000),
+      cfh: dhw.gasCFH,
+    })
+  }
+
+  // Get detailed breakdowns
+  const electricalBreakdown = getElectricalBreakdown(zones, evCharging)
+  const hvacBreakdown = getHVACBreakdown(zones, climate, hvacLoadOptions)
+
+  // Calculate mechanical equipment electrical loads
+  const mechanicalSettings = project.mechanicalSettings || getDefaultMechanicalSettings()
+
+  // Catalog units for the system type - replaces the tons / 12 RTU estimate
+  hvac.equipmentSchedule = selectConceptEquipment(
+    hvac,
+    mechanicalSettings,
+    mergeEquipmentCatalog(customEquipment),
+    projectElectrical.voltage,
+    projectElectrical.phase
+  )
+  if (hvac.equipmentSchedule.primaryUnitCount > 0) {
+    hvac.rtuCount = hvac.equipmentSchedule.primaryUnitCount
+  }
+  const mechanicalKVA = calculateMechanicalKVA(
+    hvac,
+    dhw,
+    mechanicalSettings,
+    project.dhwSettings.heaterType,
+    projectElectrical.powerFactor,
+    project.electricPrimary
+  )
+  
+  // Add gas heating load to gas totals if using gas heating (RTU/Boiler)
+  if (mechanicalKVA.gasHeating.isGasHeating && mechanicalKVA.gasHeating.consumedMBH > 0) {
+    gas.totalCFH += mechanicalKVA.gasHeating.consumedCFH
+    gas.totalMBH += mechanicalKVA.gasHeating.consumedMBH
+    gas.equipmentBreakdown.unshift({
+      name: `Central Heating (Gas RTU/Boiler @ ${Math.round(mechanicalKVA.gasHeating.efficiency * 100)}% eff.)`,
+      mbh: mechanicalKVA.gasHeating.consumedMBH,
+      cfh: mechanicalKVA.gasHeating.consumedCFH,
+    })
+  }
+  
+  // NEC Article 220 service calculation with mechanical equipment included
+  const nec220 = calculateNEC220Load(zones, mechanicalKVA.breakdown, {
+    voltage: projectElectrical.voltage,
+    phase: projectElectrical.phase,
+    spareCapacity: projectElectrical.spareCapacity,
+    useEnergyCodeLighting: projectElectrical.useEnergyCodeLighting,
+    evCharging,
+  })
+  
+  // Recalculate electrical with mechanical loads included
+  // Pass demand factor and spare capacity so mechanical loads are treated the same as building loads
+  const electricalWithMechanical = recalculateServiceWithMechanical(
+    electrical,
+    mechanicalKVA.total,
+    projectElectrical.voltage,
+    projectElectrical.demandFactor,
+    projectElectrical.spareCapacity,
+    nec220
+  )
+  
+  // Panel schedules replace the rough panel count estimate
+  const panelSchedule = generatePanelSchedules(zones, mechanicalKVA.breakdown, {
+    voltage: projectElectrical.voltage,
+    phase: projectElectrical.phase,
+    serviceRatingAmps: nec220.serviceRatingAmps,
+    evCharging,
+  })
+  electricalWithMechanical.panelSchedule = panelSchedule
+  electricalWithMechanical.panelCount = panelSchedule.panels.length
+  electricalWithMechanical.evCharging = evCharging
+
+  // Short-circuit study down the same feeder tree the feeder schedule sizes
+  electricalWithMechanical.faultCurrent = calculateFaultCurrent(
+    electricalWithMechanical,
+    { ...DEFAULT_FAULT_CURRENT_SETTINGS, ...projectElectrical.faultCurrent },
+    { ...DEFAULT_FEEDER_SIZING_SETTINGS, ...projectElectrical.feederSizing }
+  )
+
+  // Emergency / standby generator from zone flags and life-safety line items
+  electricalWithMechanical.generator = calculateGeneratorSizing(
+    zones,
+    { ...DEFAULT_GENERATOR_SIZING_SETTINGS, ...projectElectrical.generator },
+    projectElectrical.powerFactor
+  )
+
+  // ASHRAE 90.1 lighting power density check on the zone lighting rates
+  electricalWithMechanical.lightingCompliance = checkLightingCompliance(zones, projectElectrical.lpdCode)
+  
+  const results: CalculationResults = {
+    electrical: electricalWithMechanical,
+    hvac,
+    gas,
+    dhw,
+    plumbing,
+  }
+
+  // Bin-hour annual energy and utility cost - needs the project's ASHRAE location for bins
+  const energyInputs = {
+    hvac,
+    dhw,
+    dhwSettings: project.dhwSettings,
+    mechanical: mechanicalSettings,
+    zones,
+    buildingKW: electrical.totalKW,
+    powerFactor: projectElectrical.powerFactor,
+    totalSF,
+  }
+  const energyModelSettings = { ...DEFAULT_ENERGY_MODEL_SETTINGS, ...mechanicalSettings.energyModel }
+  results.energy = calculateAnnualEnergy(energyInputs, project.ashraeLocationId, energyModelSettings)
+
+  // NYC LL97 limits by occupancy, with the heating / DHW fuel options side by side
+  results.emissions = calculateLL97(
+    zones,
+    { ...DEFAULT_LL97_SETTINGS, ...mechanicalSettings.ll97 },
+    { inputs: energyInputs, locationId: project.ashraeLocationId, settings: energyModelSettings }
+  )
+
+  // Conceptual budget from the firm's unit-cost library
+  results.costEstimate = calculateCostEstimate(
+    { results, fixtures: aggregatedFixtures, mechanical: mechanicalSettings, totalSF },
+    mergeUnitCosts(customUnitCosts),
+    { ...DEFAULT_COST_ESTIMATE_SETTINGS, ...project.resultAdjustments?.costEstimate }
+  )
+
+  return {
+    results,
+    aggregatedFixtures,
+    electricalBreakdown,
+    hvacBreakdown,
+    mechanicalKVA,
+    totalSF,
+  }
+}
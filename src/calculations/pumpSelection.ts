@@ -0,0 +1,234 @@
+// ===========================================
+// PUMP CURVE SELECTION
+// Operating point = pump curve ∩ system curve
+// Parallel pumps: combined flow = duty pumps × single-pump flow at equal head
+// Affinity laws (VFD): Q ∝ N, H ∝ N², efficiency unchanged, NPSHr ∝ N²
+// ===========================================
+
+import type { HydronicCalculationResult, HydronicSystem } from '../types/hydronic'
+import type { PumpArrangement, PumpCurve, PumpCurvePoint, PumpOperatingPoint, PumpSelection, SystemCurve } from '../types/pumpCurve'
+import { calculatePumpBhp } from './hydronic'
+
+const MIN_SPEED_RATIO = 0.3           // VFD minimum speed (~18 Hz)
+const BISECTION_ITERATIONS = 60
+const POR_MIN_BEP_RATIO = 0.7         // Preferred operating region, fraction of BEP flow
+const POR_MAX_BEP_RATIO = 1.2
+const OVERFLOW_WARNING_RATIO = 1.1    // Constant speed flow above design worth balancing
+
+/**
+ * Full-speed curve values at a single-pump flow (linear between published points)
+ * @returns null beyond the end of the published curve
+ */
+export function interpolatePumpCurve(curve: PumpCurve, gpm: number): PumpCurvePoint | null {
+  const points = [...curve.points].sort((a, b) => a.gpm - b.gpm)
+  if (points.length < 2 || gpm < 0 || gpm > points[points.length - 1].gpm) return null
+  const upper = points.findIndex(p => p.gpm >= gpm)
+  if (upper <= 0) return { ...points[0], gpm }
+  const a = points[upper - 1]
+  const b = points[upper]
+  const t = (gpm - a.gpm) / (b.gpm - a.gpm)
+  return {
+    gpm,
+    headFt: a.headFt + t * (b.headFt - a.headFt),
+    efficiency: a.efficiency + t * (b.efficiency - a.efficiency),
+    npshrFt: a.npshrFt + t * (b.npshrFt - a.npshrFt),
+  }
+}
+
+export function getBestEfficiencyGpm(curve: PumpCurve): number {
+  return curve.points.reduce((best, p) => (p.efficiency > best.efficiency ? p : best), curve.points[0]).gpm
+}
+
+export function getRunoutGpm(curve: PumpCurve): number {
+  return Math.max(...curve.points.map(p => p.gpm), 0)
+}
+
+/**
+ * Head of the duty pumps in parallel at a total flow and speed ratio
+ * H(Q, N) = N² × H₁(Q / duty / N)
+ */
+export function pumpHeadAt(curve: PumpCurve, totalGpm: number, dutyPumps: number, speedRatio: number): number | null {
+  const point = interpolatePumpCurve(curve, totalGpm / dutyPumps / speedRatio)
+  return point ? point.headFt * speedRatio * speedRatio : null
+}
+
+export function systemHeadAt(systemCurve: SystemCurve, gpm: number): number {
+  if (systemCurve.designFlowGpm <= 0) return systemCurve.controlHeadFt
+  const ratio = gpm / systemCurve.designFlowGpm
+  return systemCurve.controlHeadFt + (systemCurve.designHeadFt - systemCurve.controlHeadFt) * ratio * ratio
+}
+
+/**
+ * System curve through the design point
+ * Control head defaults to the static head (0 for closed systems)
+ */
+export function buildSystemCurve(result: HydronicCalculationResult, controlHeadFt?: number | null): SystemCurve {
+  return {
+    designFlowGpm: result.maxFlowGpm,
+    designHeadFt: result.totalPumpHeadFt,
+    controlHeadFt: Math.min(Math.max(controlHeadFt ?? result.staticHeadFt, 0), result.totalPumpHeadFt),
+  }
+}
+
+function operatingPointAt(
+  curve: PumpCurve,
+  totalGpm: number,
+  dutyPumps: number,
+  speedRatio: number,
+  specificGravity: number
+): PumpOperatingPoint | null {
+  const point = interpolatePumpCurve(curve, totalGpm / dutyPumps / speedRatio)
+  if (!point) return null
+  const headFt = point.headFt * speedRatio * speedRatio
+  return {
+    gpm: totalGpm,
+    headFt,
+    speedRatio,
+    efficiency: point.efficiency,
+    bhp: point.efficiency > 0 ? calculatePumpBhp(totalGpm / dutyPumps, headFt, specificGravity, point.efficiency) : 0,
+    npshrFt: point.npshrFt * speedRatio * speedRatio,
+  }
+}
+
+/**
+ * Intersection of the pump and system curves at a fixed speed
+ * @returns null if the pump cannot lift the control head or runs off the end of its curve
+ */
+export function findOperatingPoint(
+  curve: PumpCurve,
+  systemCurve: SystemCurve,
+  dutyPumps: number,
+  speedRatio: number,
+  specificGravity: number = 1
+): PumpOperatingPoint | null {
+  const excessHead = (gpm: number) => (pumpHeadAt(curve, gpm, dutyPumps, speedRatio) ?? -Infinity) - systemHeadAt(systemCurve, gpm)
+  let lo = 0
+  let hi = getRunoutGpm(curve) * dutyPumps * speedRatio
+  if (excessHead(lo) < 0 || excessHead(hi) > 0) return null
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2
+    if (excessHead(mid) >= 0) lo = mid
+    else hi = mid
+  }
+  return operatingPointAt(curve, lo, dutyPumps, speedRatio, specificGravity)
+}
+
+// VFD speed that delivers the design flow at the design head
+function findDesignSpeedRatio(curve: PumpCurve, systemCurve: SystemCurve, dutyPumps: number): number {
+  const excessHead = (speedRatio: number) =>
+    (pumpHeadAt(curve, systemCurve.designFlowGpm, dutyPumps, speedRatio) ?? -Infinity) - systemCurve.designHeadFt
+  if (excessHead(MIN_SPEED_RATIO) >= 0) return MIN_SPEED_RATIO
+  let lo = MIN_SPEED_RATIO
+  let hi = 1
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2
+    if (excessHead(mid) >= 0) hi = mid
+    else lo = mid
+  }
+  return hi
+}
+
+export function selectPump(
+  curve: PumpCurve,
+  systemCurve: SystemCurve,
+  arrangement: PumpArrangement,
+  specificGravity: number = 1
+): PumpSelection {
+  const warnings: string[] = []
+  const dutyPumps = Math.max(1, Math.round(arrangement.dutyPumps))
+  const { designFlowGpm, designHeadFt } = systemCurve
+
+  const fullSpeedPoint = findOperatingPoint(curve, systemCurve, dutyPumps, 1, specificGravity)
+  const designPumpHead = pumpHeadAt(curve, designFlowGpm, dutyPumps, 1)
+  const meetsDesign = designFlowGpm > 0 && designPumpHead !== null && designPumpHead >= designHeadFt
+
+  let operatingPoint = fullSpeedPoint
+  if (!meetsDesign) {
+    warnings.push(`Cannot deliver ${designFlowGpm.toFixed(0)} GPM at ${designHeadFt.toFixed(1)} ft`)
+  } else if (arrangement.vfd) {
+    const speedRatio = findDesignSpeedRatio(curve, systemCurve, dutyPumps)
+    operatingPoint = operatingPointAt(curve, designFlowGpm, dutyPumps, speedRatio, specificGravity)
+    if (speedRatio <= MIN_SPEED_RATIO) {
+      warnings.push(`Design point is below the ${(MIN_SPEED_RATIO * 100).toFixed(0)}% minimum VFD speed - select a smaller pump`)
+    }
+  } else if (fullSpeedPoint && fullSpeedPoint.gpm > designFlowGpm * OVERFLOW_WARNING_RATIO) {
+    warnings.push(
+      `Full speed delivers ${fullSpeedPoint.gpm.toFixed(0)} GPM (${((fullSpeedPoint.gpm / designFlowGpm - 1) * 100).toFixed(0)}% over design) - trim the impeller, throttle the balancing valve or add a VFD`
+    )
+  }
+  if (!fullSpeedPoint) {
+    warnings.push('Full speed runs off the end of the published curve')
+  }
+
+  if (operatingPoint) {
+    const bepRatio = operatingPoint.gpm / dutyPumps / operatingPoint.speedRatio / getBestEfficiencyGpm(curve)
+    if (bepRatio < POR_MIN_BEP_RATIO || bepRatio > POR_MAX_BEP_RATIO) {
+      warnings.push(`Operating at ${(bepRatio * 100).toFixed(0)}% of BEP flow - outside the preferred operating region`)
+    }
+    if (operatingPoint.bhp > curve.motorHp) {
+      warnings.push(`${operatingPoint.bhp.toFixed(1)} BHP overloads the ${curve.motorHp} HP motor`)
+    }
+  }
+
+  // A failed duty pump without standby leaves the others to run out on their curves
+  if (dutyPumps > 1 && arrangement.standbyPumps < 1) {
+    const reduced = findOperatingPoint(curve, systemCurve, dutyPumps - 1, 1, specificGravity)
+    if (reduced) {
+      warnings.push(`With one pump down, ${dutyPumps - 1} pump${dutyPumps > 2 ? 's deliver' : ' delivers'} ${reduced.gpm.toFixed(0)} GPM (${((reduced.gpm / designFlowGpm) * 100).toFixed(0)}% of design)`)
+    }
+  }
+
+  return {
+    curve,
+    arrangement: { ...arrangement, dutyPumps },
+    systemCurve,
+    fullSpeedPoint,
+    operatingPoint,
+    meetsDesign,
+    totalBhp: operatingPoint ? operatingPoint.bhp * dutyPumps : 0,
+    warnings,
+  }
+}
+
+/**
+ * Curves that meet the design point, highest operating efficiency first
+ */
+export function rankPumpSelections(
+  curves: PumpCurve[],
+  systemCurve: SystemCurve,
+  arrangement: PumpArrangement,
+  specificGravity: number = 1
+): PumpSelection[] {
+  return curves
+    .filter(curve => !curve.disabled)
+    .map(curve => selectPump(curve, systemCurve, arrangement, specificGravity))
+    .filter(selection => selection.meetsDesign && selection.operatingPoint)
+    .sort((a, b) =>
+      (b.operatingPoint!.efficiency - a.operatingPoint!.efficiency) || (a.curve.motorHp - b.curve.motorHp)
+    )
+}
+
+export function getPumpArrangement(system: HydronicSystem): PumpArrangement {
+  return {
+    dutyPumps: system.dutyPumps ?? 1,
+    standbyPumps: system.standbyPumps ?? 0,
+    vfd: system.pumpVfd ?? false,
+  }
+}
+
+/**
+ * Pump for a hydronic system - the chosen curve, or the most efficient one that meets the design point
+ */
+export function selectSystemPump(
+  system: HydronicSystem,
+  result: HydronicCalculationResult,
+  curves: PumpCurve[]
+): { selection: PumpSelection | null; candidates: PumpSelection[] } {
+  const systemCurve = buildSystemCurve(result, system.pumpControlHeadFt)
+  const arrangement = getPumpArrangement(system)
+  const specificGravity = result.fluidProperties.specificGravity
+  const candidates = rankPumpSelections(curves, systemCurve, arrangement, specificGravity)
+  const chosen = system.pumpCurveId ? curves.find(c => c.id === system.pumpCurveId) : undefined
+  const selection = chosen ? selectPump(chosen, systemCurve, arrangement, specificGravity) : candidates[0] ?? null
+  return { selection, candidates }
+}
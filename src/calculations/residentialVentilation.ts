@@ -0,0 +1,157 @@
+// ===========================================
+// ASHRAE 62.2 RESIDENTIAL VENTILATION
+// res_* zones grouped into dwelling units, each sized for:
+// Whole-dwelling: Qtot = 0.03 × Afloor + 7.5 × (Nbr + 1)
+// Infiltration credit: Qfan = Qtot - Φ × Qinf × Aext (Φ = 1 balanced, Qinf / Qtot unbalanced)
+// Local exhaust: kitchen / bath demand-controlled or continuous rates (Table 5.1 / 5.2)
+// ===========================================
+
+import type {
+  DwellingVentilationResult,
+  ResidentialLocalExhaust,
+  ResidentialVentilationResult,
+  ResidentialVentilationSettings,
+  Zone,
+} from '../types'
+import { getZoneDefaults } from '../data/zoneDefaults'
+import {
+  WHOLE_DWELLING_CFM_PER_SF,
+  WHOLE_DWELLING_CFM_PER_PERSON,
+  INFILTRATION_COEFFICIENT,
+  INFILTRATION_REFERENCE_HEIGHT_FT,
+  INFILTRATION_HEIGHT_EXPONENT,
+  DEFAULT_WEATHER_SHIELDING_FACTOR,
+  DEFAULT_ACH50,
+  KITCHEN_CONTINUOUS_ACH,
+  DEFAULT_RESIDENTIAL_CEILING_FT,
+  BEDROOM_ZONE_TYPES,
+  KITCHEN_ZONE_TYPES,
+  STANDARD_ERV_CFM,
+  getStandardErvCfm,
+  isResidentialZoneType,
+} from '../data/ashrae622'
+
+export const DEFAULT_RESIDENTIAL_VENTILATION_SETTINGS: ResidentialVentilationSettings = {
+  ach50: DEFAULT_ACH50,
+  weatherShieldingFactor: DEFAULT_WEATHER_SHIELDING_FACTOR,
+  infiltrationCredit: true,
+  balanced: true,
+  exteriorEnvelopeFraction: 1,
+}
+
+// Zones without a dwelling unit are treated as one residence
+export const DEFAULT_DWELLING_UNIT = 'Residence'
+
+export function getDwellingUnitName(zone: Zone): string {
+  return zone.dwellingUnit?.trim() || DEFAULT_DWELLING_UNIT
+}
+
+function zoneCeilingFt(zone: Zone): number {
+  return zone.ceilingHeightFt || DEFAULT_RESIDENTIAL_CEILING_FT
+}
+
+// ===========================================
+// LOCAL EXHAUST
+// ===========================================
+export function calculateLocalExhaust(zone: Zone): ResidentialLocalExhaust | null {
+  const defaults = getZoneDefaults(zone.type)
+  if (defaults.exhaust_cfm_intermittent === undefined) return null
+
+  const mode = zone.residentialVentilationMode ?? defaults.ventilation_mode ?? 'intermittent'
+  let cfm = mode === 'intermittent'
+    ? defaults.exhaust_cfm_intermittent
+    : defaults.exhaust_cfm_continuous ?? 0
+
+  // Continuous kitchen exhaust is the greater of the listed rate and 5 ACH
+  if (mode === 'continuous' && KITCHEN_ZONE_TYPES.includes(zone.type)) {
+    cfm = Math.max(cfm, KITCHEN_CONTINUOUS_ACH * zone.sf * zoneCeilingFt(zone) / 60)
+  }
+
+  return { zoneId: zone.id, zoneName: zone.name, mode, cfm: Math.round(cfm) }
+}
+
+// ===========================================
+// WHOLE-DWELLING VENTILATION
+// ===========================================
+export function calculateDwellingVentilation(
+  name: string,
+  zones: Zone[],
+  settings: ResidentialVentilationSettings = DEFAULT_RESIDENTIAL_VENTILATION_SETTINGS
+): DwellingVentilationResult {
+  const floorAreaSf = zones.reduce((sum, z) => sum + z.sf, 0)
+  const bedrooms = zones.filter(z => BEDROOM_ZONE_TYPES.includes(z.type)).length
+  const volumeCf = zones.reduce((sum, z) => sum + z.sf * zoneCeilingFt(z), 0)
+
+  // H - stories within the pressure boundary × average ceiling height
+  const stories = new Set(zones.map(z => z.floor ?? '')).size
+  const avgCeilingFt = floorAreaSf > 0 ? volumeCf / floorAreaSf : DEFAULT_RESIDENTIAL_CEILING_FT
+  const heightFt = stories * avgCeilingFt
+
+  const qtotCfm = WHOLE_DWELLING_CFM_PER_SF * floorAreaSf + WHOLE_DWELLING_CFM_PER_PERSON * (bedrooms + 1)
+
+  const q50Cfm = settings.ach50 * volumeCf / 60
+  const qinfCfm = INFILTRATION_COEFFICIENT * q50Cfm * settings.weatherShieldingFactor
+    * Math.pow(heightFt / INFILTRATION_REFERENCE_HEIGHT_FT, INFILTRATION_HEIGHT_EXPONENT)
+
+  let infiltrationCreditCfm = 0
+  if (settings.infiltrationCredit && qtotCfm > 0) {
+    const phi = settings.balanced ? 1 : qinfCfm / qtotCfm
+    infiltrationCreditCfm = Math.min(qtotCfm, phi * qinfCfm * settings.exteriorEnvelopeFraction)
+  }
+  const qfanCfm = qtotCfm - infiltrationCreditCfm
+
+  const localExhaust = zones
+    .map(calculateLocalExhaust)
+    .filter((e): e is ResidentialLocalExhaust => e !== null)
+  const intermittentExhaustCfm = localExhaust.filter(e => e.mode === 'intermittent').reduce((sum, e) => sum + e.cfm, 0)
+  const continuousExhaustCfm = localExhaust.filter(e => e.mode === 'continuous').reduce((sum, e) => sum + e.cfm, 0)
+
+  // ERV supplies Qfan and picks up the continuous local exhaust
+  const ervDesignCfm = Math.max(qfanCfm, continuousExhaustCfm)
+  const maxErvCfm = STANDARD_ERV_CFM[STANDARD_ERV_CFM.length - 1]
+  const ervCount = Math.max(1, Math.ceil(ervDesignCfm / maxErvCfm))
+
+  return {
+    name,
+    zoneIds: zones.map(z => z.id),
+    floorAreaSf,
+    bedrooms,
+    heightFt: Math.round(heightFt * 10) / 10,
+    qtotCfm: Math.round(qtotCfm),
+    q50Cfm: Math.round(q50Cfm),
+    qinfCfm: Math.round(qinfCfm),
+    infiltrationCreditCfm: Math.round(infiltrationCreditCfm),
+    qfanCfm: Math.round(qfanCfm),
+    localExhaust,
+    intermittentExhaustCfm,
+    continuousExhaustCfm,
+    ervCfm: getStandardErvCfm(ervDesignCfm / ervCount),
+    ervCount,
+  }
+}
+
+export function calculateResidentialVentilation(
+  zones: Zone[],
+  settings: ResidentialVentilationSettings = DEFAULT_RESIDENTIAL_VENTILATION_SETTINGS
+): ResidentialVentilationResult | undefined {
+  const residentialZones = zones.filter(z => isResidentialZoneType(z.type))
+  if (residentialZones.length === 0) return undefined
+
+  const byDwelling = new Map<string, Zone[]>()
+  for (const zone of residentialZones) {
+    const name = getDwellingUnitName(zone)
+    byDwelling.set(name, [...(byDwelling.get(name) ?? []), zone])
+  }
+
+  const dwellings = Array.from(byDwelling.entries()).map(([name, dwellingZones]) =>
+    calculateDwellingVentilation(name, dwellingZones, settings)
+  )
+
+  return {
+    settings,
+    dwellings,
+    totalQfanCfm: dwellings.reduce((sum, d) => sum + d.qfanCfm, 0),
+    totalIntermittentExhaustCfm: dwellings.reduce((sum, d) => sum + d.intermittentExhaustCfm, 0),
+    totalContinuousExhaustCfm: dwellings.reduce((sum, d) => sum + d.continuousExhaustCfm, 0),
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Radiant Time Series (RTS) Cooling Loads
+ *
+ * ASHRAE Fundamentals Ch. 18 - hourly space cooling loads on a clear-sky
+ * design day for each month. Each heat gain is split into convective and
+ * radiant parts; convective gain is load immediately, radiant gain is spread
+ * over the next 24 hours by the RTS. Space profiles are summed hour-by-hour
+ * into zone and system block loads, so a block peak reflects coincidence
+ * instead of the sum of space peaks.
+ *
+ * Space loads only - outdoor air loads are in the ventilation results.
+ */
+
+import type { HVACSpace, HVACZone, HVACSystem, HVACProjectSettings } from '../store/useHVACStore'
+import { getLocationById } from '../data/ashraeClimate'
+import { calculateDefaultOccupancy } from '../data/ashrae62'
+import { LPD_SPACE_TYPES, ASHRAE62_LPD_SPACE_TYPE } from '../data/lightingPowerDensity'
+import {
+  PEOPLE_GAINS,
+  ATHLETIC_SPACE_TYPES,
+  WATTS_TO_BTUH,
+  AIR_SENSIBLE_FACTOR,
+  DEFAULT_DAILY_RANGE_F,
+  DEFAULT_EQUIPMENT_W_SF,
+  DEFAULT_INFILTRATION_ACH,
+} from '../data/envelopeLoads'
+import {
+  NONSOLAR_RTS,
+  SOLAR_RTS,
+  WALL_CTS,
+  ROOF_CTS,
+  RADIANT_FRACTION,
+  DAILY_RANGE_FRACTION,
+  MONTHLY_DB_OFFSET,
+  CLEAR_SKY,
+  GROUND_REFLECTANCE,
+  SOL_AIR_ABSORPTANCE_RATIO,
+  ROOF_LONGWAVE_CORRECTION_F,
+  ORIENTATION_AZIMUTH,
+  OCCUPANCY_SCHEDULE,
+  LIGHTING_SCHEDULE,
+  EQUIPMENT_SCHEDULE,
+  DEFAULT_LATITUDE,
+  DEFAULT_LIGHTING_W_SF,
+} from '../data/rtsTables'
+
+// ============================================
+// Result Types
+// ============================================
+
+export type RTSComponent = 'envelope' | 'solar' | 'people' | 'lighting' | 'equipment' | 'infiltration'
+
+export interface RTSPeak {
+  month: number        // 0 = January
+  hour: number         // 0-23, hour ending hour + 1
+  btuh: number
+}
+
+export interface RTSDesignConditions {
+  locationName: string
+  latitude: number
+  coolingDb: number
+  dailyRange: number
+}
+
+export interface SpaceRTSResult {
+  spaceId: string
+  spaceName: string
+  zoneId?: string | null
+  profile: number[][]  // [month][hour] total cooling load (BTU/hr)
+  peak: RTSPeak
+  peakComponents: Record<RTSComponent, number>  // Load by component at the space peak
+}
+
+export interface ZoneRTSResult {
+  zoneId: string
+  zoneName: string
+  systemId?: string
+  profile: number[][]
+  peak: RTSPeak                 // Block (coincident) peak
+  sumOfSpacePeaksBtuh: number   // Non-coincident sum
+  spaces: SpaceRTSResult[]
+}
+
+export interface SystemRTSResult {
+  systemId: string
+  systemName: string
+  profile: number[][]
+  peak: RTSPeak
+  sumOfSpacePeaksBtuh: number
+  zones: ZoneRTSResult[]
+}
+
+export interface ProjectRTSResult {
+  design: RTSDesignConditions
+  profile: number[][]           // Whole building
+  peak: RTSPeak
+  sumOfSpacePeaksBtuh: number
+  systems: SystemRTSResult[]
+  unassignedZones: ZoneRTSResult[]    // Zones not on a system
+  unassignedSpaces: SpaceRTSResult[]  // Spaces not in a zone
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const HOURS = 24
+const MONTHS = 12
+
+function zeros(): number[] {
+  return new Array(HOURS).fill(0)
+}
+
+function emptyProfile(): number[][] {
+  return Array.from({ length: MONTHS }, zeros)
+}
+
+// Periodic convolution of a 24-hour input with a time series (in %)
+function convolve(input: number[], series: number[]): number[] {
+  return input.map((_, h) =>
+    series.reduce((sum, pct, j) => sum + (pct / 100) * input[(h - j + HOURS) % HOURS], 0)
+  )
+}
+
+function sumProfiles(profiles: number[][][]): number[][] {
+  const total = emptyProfile()
+  for (const profile of profiles) {
+    for (let m = 0; m < MONTHS; m++) {
+      for (let h = 0; h < HOURS; h++) total[m][h] += profile[m][h]
+    }
+  }
+  return total
+}
+
+export function findPeak(profile: number[][]): RTSPeak {
+  let peak: RTSPeak = { month: 0, hour: 0, btuh: 0 }
+  profile.forEach((day, month) => day.forEach((btuh, hour) => {
+    if (btuh > peak.btuh) peak = { month, hour, btuh }
+  }))
+  return { ...peak, btuh: Math.round(peak.btuh) }
+}
+
+// ============================================
+// Climate
+// ============================================
+
+export function getRTSDesignConditions(settings: HVACProjectSettings): RTSDesignConditions {
+  const location = settings.locationId ? getLocationById(settings.locationId) : null
+  const customLoc = settings.customLocation
+
+  let coolingDb = customLoc?.cooling_04_db ?? location?.cooling_04_db ?? 95
+  if (settings.coolingDesignCondition === '1%' && location) {
+    coolingDb = location.cooling_1_db
+  }
+
+  return {
+    locationName: customLoc?.name ??
+      (location ? `${location.name}, ${location.state || location.country}` : 'Not specified'),
+    latitude: location?.lat ?? DEFAULT_LATITUDE,
+    coolingDb,
+    dailyRange: DEFAULT_DAILY_RANGE_F,
+  }
+}
+
+// Outdoor DB for each hour of a month's design day
+function getHourlyOutdoorDb(design: RTSDesignConditions, month: number): number[] {
+  // Southern hemisphere: shift the monthly offsets by six months
+  const offsetMonth = design.latitude < 0 ? (month + 6) % MONTHS : month
+  const peakDb = design.coolingDb + MONTHLY_DB_OFFSET[offsetMonth]
+  return DAILY_RANGE_FRACTION.map(f => peakDb - f * design.dailyRange)
+}
+
+/**
+ * Clear-sky irradiance on a surface (BTU/hr·SF) for each hour of a month's design day
+ * azimuth: surface azimuth from south (west positive), null = horizontal
+ * Solar time = local time (no longitude / DST correction at this level)
+ */
+export function getHourlySolar(latitude: number, month: number, azimuth: number | null): number[] {
+  const { A, B, C, declination } = CLEAR_SKY[month]
+  const L = latitude * Math.PI / 180
+  const d = declination * Math.PI / 180
+
+  return Array.from({ length: HOURS }, (_, h) => {
+    const H = 15 * (h + 0.5 - 12) * Math.PI / 180  // Mid-hour
+    const sinBeta = Math.cos(L) * Math.cos(d) * Math.cos(H) + Math.sin(L) * Math.sin(d)
+    if (sinBeta <= 0) return 0
+
+    const cosBeta = Math.sqrt(1 - sinBeta * sinBeta)
+    const direct = A / Math.exp(B / sinBeta)
+
+    if (azimuth === null) {
+      return direct * sinBeta + C * direct
+    }
+
+    // Solar azimuth from south, west positive
+    const sinPhi = Math.cos(d) * Math.sin(H) / cosBeta
+    const cosPhi = (sinBeta * Math.sin(L) - Math.sin(d)) / (cosBeta * Math.cos(L))
+    const phi = Math.atan2(sinPhi, cosPhi)
+    const cosTheta = cosBeta * Math.cos(phi - azimuth * Math.PI / 180)
+
+    const beam = direct * Math.max(cosTheta, 0)
+    const sky = C * direct * 0.5
+    const ground = direct * (C + sinBeta) * GROUND_REFLECTANCE * 0.5
+    return beam + sky + ground
+  })
+}
+
+// ============================================
+// Space Calculation
+// ============================================
+
+export function getSpaceLightingWsf(space: Pick<HVACSpace, 'lightingWsf' | 'spaceType' | 'ashraeSpaceType'>): number {
+  if (typeof space.lightingWsf === 'number') return space.lightingWsf
+  const spaceTypeId = space.ashraeSpaceType || space.spaceType || 'office'
+  const lpdType = ASHRAE62_LPD_SPACE_TYPE[spaceTypeId]
+  return (lpdType ? LPD_SPACE_TYPES[lpdType]?.allowance['90.1-2019'] : null) ?? DEFAULT_LIGHTING_W_SF
+}
+
+interface GainComponent {
+  convective: number[]
+  radiant: number[]
+  solar?: boolean   // Radiant part uses the solar RTS
+  latent?: number[] // Instantaneous
+}
+
+function splitGain(gain: number[], radiantFraction: number): GainComponent {
+  return {
+    convective: gain.map(q => q * (1 - radiantFraction)),
+    radiant: gain.map(q => q * radiantFraction),
+  }
+}
+
+function toCoolingLoad(component: GainComponent): number[] {
+  const radiantLoad = convolve(component.radiant, component.solar ? SOLAR_RTS : NONSOLAR_RTS)
+  return component.convective.map((q, h) => q + radiantLoad[h] + (component.latent?.[h] ?? 0))
+}
+
+export function calculateSpaceRTS(
+  space: HVACSpace,
+  zone: HVACZone | undefined,
+  design: RTSDesignConditions,
+  settings: HVACProjectSettings
+): SpaceRTSResult {
+  const env = space.envelope
+  const indoorDb = zone?.coolingSetpoint ?? settings.summerIndoorDb
+  const spaceTypeId = space.ashraeSpaceType || space.spaceType || 'office'
+
+  const occupancy = space.occupancyOverride ?? calculateDefaultOccupancy(spaceTypeId, space.areaSf)
+  const gains = ATHLETIC_SPACE_TYPES.includes(spaceTypeId) ? PEOPLE_GAINS.athletic : PEOPLE_GAINS.moderate
+  const lightingW = space.areaSf * getSpaceLightingWsf(space)
+  const equipmentW = space.areaSf * (env?.equipmentWSF ?? DEFAULT_EQUIPMENT_W_SF)
+  const infiltrationCfm = (env?.infiltrationACH ?? DEFAULT_INFILTRATION_ACH) * space.areaSf * space.ceilingHeightFt / 60
+
+  const profile = emptyProfile()
+  const componentProfiles: Record<RTSComponent, number[][]> = {
+    envelope: emptyProfile(),
+    solar: emptyProfile(),
+    people: emptyProfile(),
+    lighting: emptyProfile(),
+    equipment: emptyProfile(),
+    infiltration: emptyProfile(),
+  }
+
+  for (let month = 0; month < MONTHS; month++) {
+    const outdoorDb = getHourlyOutdoorDb(design, month)
+    const envelope: GainComponent = { convective: zeros(), radiant: zeros() }
+    const solar: GainComponent = { convective: zeros(), radiant: zeros(), solar: true }
+
+    // Opaque walls - sol-air temperature through the CTS
+    for (const wall of env?.walls ?? []) {
+      if (wall.areaSF <= 0) continue
+      const irradiance = getHourlySolar(design.latitude, month, ORIENTATION_AZIMUTH[wall.orientation])
+      const solAirDelta = outdoorDb.map((t, h) => t + SOL_AIR_ABSORPTANCE_RATIO * irradiance[h] - indoorDb)
+      const gain = convolve(solAirDelta, WALL_CTS).map(dt => wall.uValue * wall.areaSF * dt)
+      const split = splitGain(gain, RADIANT_FRACTION.wall)
+      split.convective.forEach((q, h) => { envelope.convective[h] += q; envelope.radiant[h] += split.radiant[h] })
+    }
+
+    // Roof
+    if (env && env.roofAreaSF > 0) {
+      const irradiance = getHourlySolar(design.latitude, month, null)
+      const solAirDelta = outdoorDb.map((t, h) =>
+        t + SOL_AIR_ABSORPTANCE_RATIO * irradiance[h] - ROOF_LONGWAVE_CORRECTION_F - indoorDb
+      )
+      const gain = convolve(solAirDelta, ROOF_CTS).map(dt => env.roofU * env.roofAreaSF * dt)
+      const split = splitGain(gain, RADIANT_FRACTION.roof)
+      split.convective.forEach((q, h) => { envelope.convective[h] += q; envelope.radiant[h] += split.radiant[h] })
+    }
+
+    // Glazing - conduction (instant) and transmitted solar (solar RTS)
+    for (const glass of env?.glazing ?? []) {
+      if (glass.areaSF <= 0) continue
+      const conduction = splitGain(outdoorDb.map(t => glass.uValue * glass.areaSF * (t - indoorDb)), RADIANT_FRACTION.glazingConduction)
+      conduction.convective.forEach((q, h) => { envelope.convective[h] += q; envelope.radiant[h] += conduction.radiant[h] })
+
+      const irradiance = getHourlySolar(design.latitude, month, ORIENTATION_AZIMUTH[glass.orientation])
+      irradiance.forEach((it, h) => { solar.radiant[h] += glass.shgc * glass.areaSF * it * RADIANT_FRACTION.solar })
+    }
+
+    // Internal gains
+    const people: GainComponent = {
+      ...splitGain(OCCUPANCY_SCHEDULE.map(f => f * occupancy * gains.sensible), RADIANT_FRACTION.people),
+      latent: OCCUPANCY_SCHEDULE.map(f => f * occupancy * gains.latent),
+    }
+    const lighting = splitGain(LIGHTING_SCHEDULE.map(f => f * lightingW * WATTS_TO_BTUH), RADIANT_FRACTION.lighting)
+    const equipment = splitGain(EQUIPMENT_SCHEDULE.map(f => f * equipmentW * WATTS_TO_BTUH), RADIANT_FRACTION.equipment)
+
+    // Infiltration - all convective
+    const infiltration: GainComponent = {
+      convective: outdoorDb.map(t => AIR_SENSIBLE_FACTOR * infiltrationCfm * (t - indoorDb)),
+      radiant: zeros(),
+    }
+
+    const loads: Record<RTSComponent, number[]> = {
+      envelope: toCoolingLoad(envelope),
+      solar: toCoolingLoad(solar),
+      people: toCoolingLoad(people),
+      lighting: toCoolingLoad(lighting),
+      equipment: toCoolingLoad(equipment),
+      infiltration: toCoolingLoad(infiltration),
+    }
+
+    for (const key of Object.keys(loads) as RTSComponent[]) {
+      componentProfiles[key][month] = loads[key]
+    }
+    for (let h = 0; h < HOURS; h++) {
+      // Net heat loss at night is not a cooling load
+      profile[month][h] = Math.max(0, Object.values(loads).reduce((sum, l) => sum + l[h], 0))
+    }
+  }
+
+  const peak = findPeak(profile)
+  const peakComponents = Object.fromEntries(
+    (Object.keys(componentProfiles) as RTSComponent[]).map(key =>
+      [key, Math.round(componentProfiles[key][peak.month][peak.hour])]
+    )
+  ) as Record<RTSComponent, number>
+
+  return {
+    spaceId: space.id,
+    spaceName: space.name,
+    zoneId: space.zoneId,
+    profile,
+    peak,
+    peakComponents,
+  }
+}
+
+// ============================================
+// Zone / System / Project Roll-up
+// ============================================
+
+export function calculateZoneRTS(
+  zone: HVACZone,
+  spaces: HVACSpace[],
+  design: RTSDesignConditions,
+  settings: HVACProjectSettings
+): ZoneRTSResult {
+  const spaceResults = spaces
+    .filter(s => s.zoneId === zone.id)
+    .map(space => calculateSpaceRTS(space, zone, design, settings))
+  const profile = sumProfiles(spaceResults.map(s => s.profile))
+
+  return {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    systemId: zone.systemId,
+    profile,
+    peak: findPeak(profile),
+    sumOfSpacePeaksBtuh: spaceResults.reduce((sum, s) => sum + s.peak.btuh, 0),
+    spaces: spaceResults,
+  }
+}
+
+export function calculateProjectRTS(
+  spaces: HVACSpace[],
+  zones: HVACZone[],
+  systems: HVACSystem[],
+  settings: HVACProjectSettings
+): ProjectRTSResult {
+  const design = getRTSDesignConditions(settings)
+  const zoneResults = zones.map(zone => calculateZoneRTS(zone, spaces, design, settings))
+
+  const systemResults: SystemRTSResult[] = systems.map(system => {
+    const systemZones = zoneResults.filter(z => z.systemId === system.id)
+    const profile = sumProfiles(systemZones.map(z => z.profile))
+    return {
+      systemId: system.id,
+      systemName: system.name,
+      profile,
+      peak: findPeak(profile),
+      sumOfSpacePeaksBtuh: systemZones.reduce((sum, z) => sum + z.sumOfSpacePeaksBtuh, 0),
+      zones: systemZones,
+    }
+  })
+
+  const systemIds = new Set(systems.map(s => s.id))
+  const unassignedZones = zoneResults.filter(z => !z.systemId || !systemIds.has(z.systemId))
+
+  const zoneIds = new Set(zones.map(z => z.id))
+  const unassignedSpaces = spaces
+    .filter(s => !s.zoneId || !zoneIds.has(s.zoneId))
+    .map(space => calculateSpaceRTS(space, undefined, design, settings))
+
+  const profile = sumProfiles([
+    ...zoneResults.map(z => z.profile),
+    ...unassignedSpaces.map(s => s.profile),
+  ])
+
+  return {
+    design,
+    profile,
+    peak: findPeak(profile),
+    sumOfSpacePeaksBtuh: zoneResults.reduce((sum, z) => sum + z.sumOfSpacePeaksBtuh, 0) +
+      unassignedSpaces.reduce((sum, s) => sum + s.peak.btuh, 0),
+    systems: systemResults,
+    unassignedZones,
+    unassignedSpaces,
+  }
+}
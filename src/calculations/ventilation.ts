@@ -2,21 +2,44 @@
  * ASHRAE 62.1 Ventilation Calculations
  * 
  * Implements the Ventilation Rate Procedure from ASHRAE Standard 62.1-2022
- * Including multi-zone system calculations and ERV pre-treatment
+ * Including multi-zone system calculations (Appendix A system ventilation
+ * efficiency) and ERV pre-treatment. Spaces with an ASHRAE 170 space type
+ * use healthcare total / outdoor ACH and pressure relationships instead.
  */
 
 import type { HVACSpace, HVACZone, HVACSystem, HVACProjectSettings } from '../store/useHVACStore'
-import { getSpaceType, calculateDefaultOccupancy } from '../data/ashrae62'
+import { getSpaceType, getAshrae170Space, calculateDefaultOccupancy } from '../data/ashrae62'
+import type { ASHRAE170Pressure } from '../data/ashrae62'
 import { getLocationById, getAltitudeCorrectionFactor } from '../data/ashraeClimate'
+import { getAtmosphericConditions, stateFromDbWb, stateFromDbRh, stateFromDbW } from './psychrometric'
+import { CP_AIR, CP_VAPOR } from '../data/psychrometricConstants'
+import type { StatePointResult } from '../types/psychrometric'
 
 // ============================================
 // Result Types
 // ============================================
 
+export interface HealthcareVentilationResult {
+  minTotalAch: number
+  minOaAch: number
+  totalAch: number        // Supply air changes delivered
+  oaAch: number           // Outdoor air changes delivered
+  pressureRelationship: ASHRAE170Pressure
+  returnExhaustCfm: number  // Air leaving the room (return + exhaust)
+  pressureOffsetCfm: number // Supply - air leaving (+ positive, - negative)
+  allAirExhaust: boolean
+  recirculated: boolean     // Room air may be recirculated by room units
+  rhMin?: number
+  rhMax?: number
+  tempMinF?: number
+  tempMaxF?: number
+}
+
 export interface SpaceVentilationResult {
   spaceId: string
   spaceName: string
   spaceType: string
+  standard: 'ashrae62' | 'ashrae170'
   areaSf: number
   occupancy: number
   // ASHRAE 62.1 values
@@ -33,6 +56,8 @@ export interface SpaceVentilationResult {
   ventilationAchUsed?: number
   exhaustAchUsed?: number
   supplyAchUsed?: number
+  // ASHRAE 170 healthcare (pressure relationship, ACH minimums)
+  healthcare?: HealthcareVentilationResult
   // Load contributions
   coolingLoadBtuh: number
   heatingLoadBtuh: number
@@ -51,7 +76,13 @@ export interface ZoneVentilationResult {
   totalExhaustCfm: number
   // Primary zone values
   primaryVoz: number   // Highest Voz in zone (for VAV)
-  Zp: number           // Primary OA fraction (Voz / Vpz)
+  Vpz: number          // Design primary airflow (CFM)
+  VpzMin: number       // Minimum expected primary airflow (CFM)
+  Zp: number           // Primary OA fraction (Voz / Vpz-min)
+  Ep: number           // Primary air fraction of discharge airflow
+  Er: number           // Secondary recirculation fraction
+  Evz: number          // Zone ventilation efficiency (Appendix A, 1.0 outside multi-zone systems)
+  primaryAirflowAssumed: boolean  // No Vpz / Vpz-min entered - area-based defaults used
   // Loads
   coolingLoadBtuh: number
   heatingLoadBtuh: number
@@ -68,8 +99,13 @@ export interface SystemVentilationResult {
   totalOccupancy: number
   // Ventilation
   Vou: number          // Uncorrected outdoor air intake
+  Vps: number          // System primary airflow (multi-zone)
+  Xs: number           // Average outdoor air fraction (Vou / Vps)
   Ev: number           // System ventilation efficiency
   Vot: number          // Total outdoor air (corrected)
+  // Critical zone - lowest Evz, drives Vot on multi-zone systems
+  criticalZoneId?: string
+  criticalZoneName?: string
   // Diversity applied
   diversityFactor: number
   diversifiedOccupancy: number
@@ -83,7 +119,11 @@ export interface SystemVentilationResult {
   heatingLoadBtuh: number
   coolingLoadTons: number
   heatingLoadMbh: number
+  sensibleCoolingBtuh: number
   latentCoolingBtuh: number
+  // Dehumidification (outdoor air to indoor humidity ratio, after ERV)
+  moistureRemovalGrains: number  // ΔW (gr/lb dry air)
+  moistureRemovalLbHr: number    // Water removed (lb/hr)
   // Child zones
   zones: ZoneVentilationResult[]
 }
@@ -97,6 +137,10 @@ export interface ProjectVentilationResult {
   indoorSummerDb: number
   indoorWinterDb: number
   altitudeCorrection: number
+  // Psychrometric states at site pressure
+  barometricPressurePsia: number
+  outdoorHumidityRatioGrains: number
+  indoorHumidityRatioGrains: number
   // Totals
   totalAreaSf: number
   totalOccupancy: number
@@ -107,47 +151,110 @@ export interface ProjectVentilationResult {
   totalHeatingBtuh: number
   totalCoolingTons: number
   totalHeatingMbh: number
+  totalLatentCoolingBtuh: number
   // Systems
   systems: SystemVentilationResult[]
   // Unassigned spaces (not in any zone)
   unassignedSpaces: SpaceVentilationResult[]
 }
 
+// ============================================
+// Design Conditions
+// ============================================
+
+interface VentilationDesignConditions {
+  locationName: string
+  coolingDb: number
+  coolingWb: number
+  heatingDb: number
+  altitudeCorrection: number       // Density ratio, 1.0 when not applied
+  barometricPressurePsia: number
+  outdoorCooling: StatePointResult
+  indoorSummer: StatePointResult
+  indoorWinter: StatePointResult
+}
+
+/**
+ * Outdoor design state from the ASHRAE location and indoor states from the
+ * project setpoints, all at site pressure. The altitude correction toggle only
+ * scales the Vot CFM - mass flow and enthalpy already follow site pressure
+ */
+function getVentilationDesignConditions(settings: HVACProjectSettings): VentilationDesignConditions {
+  const location = settings.locationId ? getLocationById(settings.locationId) : null
+  const customLoc = settings.customLocation
+  
+  let coolingDb = customLoc?.cooling_04_db ?? location?.cooling_04_db ?? 95
+  let coolingWb = customLoc?.cooling_04_mcwb ?? location?.cooling_04_mcwb ?? 75
+  let heatingDb = customLoc?.heating_99_db ?? location?.heating_99_db ?? 10
+  const elevation = customLoc?.elevation_ft ?? location?.elevation_ft ?? 0
+  
+  // Use 1% / 99.6% conditions if specified
+  if (settings.coolingDesignCondition === '1%' && location) {
+    coolingDb = location.cooling_1_db
+    coolingWb = location.cooling_1_mcwb
+  }
+  if (settings.heatingDesignCondition === '99.6%' && location) {
+    heatingDb = location.heating_996_db
+  }
+  
+  const locationName = customLoc?.name ?? 
+    (location ? `${location.name}, ${location.state || location.country}` : 'Not specified')
+  
+  const altitudeApplied = settings.altitudeCorrection && elevation > 2000
+  const altitudeCorrection = altitudeApplied ? getAltitudeCorrectionFactor(elevation) : 1.0
+  const pressure = getAtmosphericConditions(elevation).barometricPressurePsia
+  
+  return {
+    locationName,
+    coolingDb,
+    coolingWb,
+    heatingDb,
+    altitudeCorrection,
+    barometricPressurePsia: pressure,
+    outdoorCooling: stateFromDbWb(coolingDb, coolingWb, pressure),
+    indoorSummer: stateFromDbRh(settings.summerIndoorDb, settings.summerIndoorRh, pressure),
+    indoorWinter: stateFromDbRh(settings.winterIndoorDb, settings.winterIndoorRh, pressure),
+  }
+}
+
 // ============================================
 // Constants
 // ============================================
 
-// Air properties (at sea level, standard conditions)
-const SENSIBLE_FACTOR = 1.08      // BTU/(hr·CFM·°F)
-const TOTAL_FACTOR = 4.5          // BTU/(hr·CFM·Δh) where Δh is BTU/lb
+// Zones without VAV box inputs - typical cooling design primary airflow
+// and a 30% minimum turndown
+const DEFAULT_PRIMARY_CFM_SF = 1.0
+const DEFAULT_MIN_PRIMARY_FRACTION = 0.3
+
+// Appendix A gives Evz <= 0 when a zone minimum cannot carry its Voz;
+// floor Ev so Vot stays finite and the critical zone is flagged instead
+const MIN_SYSTEM_EV = 0.1
 
-// Default indoor humidity conditions for enthalpy calculation
-const INDOOR_SUMMER_HR = 0.009    // Humidity ratio (lb water / lb dry air) at ~50% RH, 75°F
-// const INDOOR_WINTER_HR = 0.004    // Humidity ratio at ~30% RH, 70°F (reserved for future use)
+// Appendix A primary air fraction - Ep = 0 leaves Evz undefined
+export const MIN_PRIMARY_AIR_FRACTION = 0.1
+
+// ASHRAE 170 pressurization - airflow offset between supply and air leaving
+// the room, the greater of 10% of supply or 50 CFM
+const PRESSURE_OFFSET_FRACTION = 0.1
+const MIN_PRESSURE_OFFSET_CFM = 50
 
 // ============================================
 // Psychrometric Helpers
 // ============================================
 
 /**
- * Estimate humidity ratio from dry bulb and wet bulb temperatures
- * Simplified calculation - for full accuracy use psychrometric library
+ * Dry air mass flow (lb/hr) for an airflow at a given state
  */
-function estimateHumidityRatio(_db: number, wb: number): number {
-  // Simplified psychrometric calculation
-  // More accurate would use saturation pressure equations
-  const dewPointApprox = wb - ((100 - 80) / 5) // Rough estimate
-  const satPressure = Math.exp(17.67 * dewPointApprox / (dewPointApprox + 243.5))
-  return 0.622 * satPressure / (14.696 - satPressure)
+function massFlowLbHr(cfm: number, state: StatePointResult): number {
+  return 60 * cfm / state.specificVolumeFt3Lb
 }
 
 /**
- * Calculate specific enthalpy of moist air
- * h = 0.24 * T + W * (1061 + 0.444 * T)
- * where T is °F and W is humidity ratio (lb/lb)
+ * Sensible heat of moist air (BTU/hr)
+ * Qs = m × (0.240 + 0.444 W) × ΔT
  */
-function calculateEnthalpy(db: number, humidityRatio: number): number {
-  return 0.24 * db + humidityRatio * (1061 + 0.444 * db)
+function sensibleHeatBtuh(massFlow: number, humidityRatioLb: number, deltaT: number): number {
+  return massFlow * (CP_AIR + CP_VAPOR * humidityRatioLb) * deltaT
 }
 
 // ============================================
@@ -161,6 +268,7 @@ function calculateEnthalpy(db: number, humidityRatio: number): number {
  * - ASHRAE 62.1 Rp/Ra rates (default)
  * - Manual Rp/Ra overrides
  * - ACH-based ventilation (ventilationAch, exhaustAch, supplyAch)
+ * - ASHRAE 170 healthcare spaces (total / OA ACH, pressure, all-air exhaust)
  * - Uses MAX of calculated CFM vs ACH-derived CFM
  */
 export function calculateSpaceVentilation(
@@ -171,6 +279,7 @@ export function calculateSpaceVentilation(
   // Get space type - check both field names for compatibility
   const spaceTypeId = space.ashraeSpaceType || space.spaceType || 'office_space'
   const spaceType = getSpaceType(spaceTypeId)
+  const healthcareType = spaceType ? undefined : getAshrae170Space(spaceTypeId)
   
   // Calculate room volume for ACH conversions
   const volumeCf = space.areaSf * space.ceilingHeightFt
@@ -185,8 +294,9 @@ export function calculateSpaceVentilation(
     (spaceType.ventilationAch || spaceType.exhaustAch)
   
   // Get ventilation rates - use overrides if set, otherwise ASHRAE defaults
-  const Rp = space.rpOverride ?? spaceType?.Rp ?? 5
-  const Ra = space.raOverride ?? spaceType?.Ra ?? 0.06
+  // (healthcare spaces are ventilated by ACH, no 62.1 rates unless overridden)
+  const Rp = space.rpOverride ?? spaceType?.Rp ?? (healthcareType ? 0 : 5)
+  const Ra = space.raOverride ?? spaceType?.Ra ?? (healthcareType ? 0 : 0.06)
   
   // Occupancy - use override or calculate default
   const occupancy = space.occupancyOverride ?? 
@@ -207,8 +317,11 @@ export function calculateSpaceVentilation(
     ? (ventilationAchToUse * volumeCf) / 60 
     : 0
   
+  // ASHRAE 170 minimum outdoor air changes
+  const Vbz_170 = healthcareType ? (healthcareType.minOAach * volumeCf) / 60 : 0
+  
   // Use MAX of ASHRAE calculated vs ACH-derived
-  const Vbz = Math.max(Vbz_ashrae, Vbz_ach)
+  const Vbz = Math.max(Vbz_ashrae, Vbz_ach, Vbz_170)
   
   // Zone outdoor airflow: Voz = Vbz / Ez
   const Voz = Vbz / ez
@@ -256,23 +369,61 @@ export function calculateSpaceVentilation(
   
   // Supply air is typically the greater of ventilation or exhaust makeup
   // Unless supplyAch is explicitly set, in which case use that
-  const supplyCfm = supplyCfm_ach > 0 
-    ? supplyCfm_ach 
-    : Math.max(Voz, exhaustCfm)
+  // Healthcare spaces never drop below the 170 total air changes
+  const supplyCfm_170 = healthcareType ? (healthcareType.minTotalACH * volumeCf) / 60 : 0
+  const supplyCfm = Math.max(
+    supplyCfm_ach > 0 ? supplyCfm_ach : Math.max(Voz, exhaustCfm),
+    supplyCfm_170
+  )
+  
+  // ============================================
+  // ASHRAE 170 Pressure Relationship
+  // ============================================
+  
+  let healthcare: HealthcareVentilationResult | undefined
+  let finalExhaustCfm = exhaustCfm
+  
+  if (healthcareType) {
+    const offset = Math.max(supplyCfm * PRESSURE_OFFSET_FRACTION, MIN_PRESSURE_OFFSET_CFM)
+    const pressureOffsetCfm = healthcareType.pressureRelationship === 'positive' ? offset
+      : healthcareType.pressureRelationship === 'negative' ? -offset
+      : 0
+    const returnExhaustCfm = Math.max(supplyCfm - pressureOffsetCfm, exhaustCfm)
+    
+    // All room air exhausted directly outdoors - no return
+    if (healthcareType.allAirExhaust) finalExhaustCfm = returnExhaustCfm
+    
+    healthcare = {
+      minTotalAch: healthcareType.minTotalACH,
+      minOaAch: healthcareType.minOAach,
+      totalAch: volumeCf > 0 ? Math.round(supplyCfm * 60 / volumeCf * 10) / 10 : 0,
+      oaAch: volumeCf > 0 ? Math.round(Vbz * 60 / volumeCf * 10) / 10 : 0,
+      pressureRelationship: healthcareType.pressureRelationship,
+      returnExhaustCfm: Math.round(returnExhaustCfm),
+      pressureOffsetCfm: Math.round(supplyCfm - returnExhaustCfm),
+      allAirExhaust: healthcareType.allAirExhaust,
+      recirculated: healthcareType.recirculated,
+      rhMin: healthcareType.rhMin,
+      rhMax: healthcareType.rhMax,
+      tempMinF: healthcareType.tempMinF,
+      tempMaxF: healthcareType.tempMaxF,
+    }
+  }
   
   // Load calculations will be done at system level with ERV
   return {
     spaceId: space.id,
     spaceName: space.name,
     spaceType: spaceTypeId,
+    standard: healthcareType ? 'ashrae170' : 'ashrae62',
     areaSf: space.areaSf,
     occupancy,
     Rp,
     Ra,
     Vbz: Math.round(Vbz),
     Voz: Math.round(Voz),
-    exhaustRequired: exhaustCfm > 0,
-    exhaustCfm: Math.round(exhaustCfm),
+    exhaustRequired: finalExhaustCfm > 0,
+    exhaustCfm: Math.round(finalExhaustCfm),
     coolingLoadBtuh: 0, // Calculated at system level
     heatingLoadBtuh: 0,
     // Extended results for ACH tracking (shows which ACH was actually used)
@@ -280,6 +431,7 @@ export function calculateSpaceVentilation(
     ventilationAchUsed,  // From space override or database
     exhaustAchUsed,      // From space override or database
     supplyAchUsed: space.supplyAch,
+    healthcare,
   } as SpaceVentilationResult
 }
 
@@ -313,9 +465,13 @@ export function calculateZoneVentilation(
   // Find primary (critical) zone - highest Voz
   const primaryVoz = Math.max(...spaceResults.map(s => s.Voz), 0)
   
-  // Zp = Voz / Vpz (primary OA fraction)
-  // For now, assume Vpz = Voz (100% outdoor air at zone level)
-  const Zp = primaryVoz > 0 ? 1.0 : 0
+  // Primary airflow - VAV box inputs or area-based defaults
+  const primaryAirflowAssumed = zone.primaryCfm === undefined && zone.minPrimaryCfm === undefined
+  const Vpz = zone.primaryCfm ?? totalAreaSf * DEFAULT_PRIMARY_CFM_SF
+  const VpzMin = zone.minPrimaryCfm ?? Vpz * DEFAULT_MIN_PRIMARY_FRACTION
+  
+  // Zpz = Voz / Vpz-min (primary OA fraction at minimum primary airflow)
+  const Zp = VpzMin > 0 ? totalVoz / VpzMin : 0
   
   return {
     zoneId: zone.id,
@@ -328,7 +484,13 @@ export function calculateZoneVentilation(
     totalVoz,
     totalExhaustCfm,
     primaryVoz,
-    Zp,
+    Vpz: Math.round(Vpz),
+    VpzMin: Math.round(VpzMin),
+    Zp: Math.round(Zp * 1000) / 1000,
+    Ep: Math.min(Math.max(zone.primaryAirFraction ?? 1.0, MIN_PRIMARY_AIR_FRACTION), 1),
+    Er: Math.min(Math.max(zone.secondaryRecircFraction ?? 0, 0), 1),
+    Evz: 1.0,
+    primaryAirflowAssumed,
     coolingLoadBtuh: 0,
     heatingLoadBtuh: 0,
     spaces: spaceResults,
@@ -339,6 +501,30 @@ export function calculateZoneVentilation(
 // System Calculations
 // ============================================
 
+/**
+ * Zone ventilation efficiency, ASHRAE 62.1-2022 Appendix A
+ * 
+ * Fa = Ep + (1 - Ep) × Er
+ * Fb = Ep
+ * Fc = 1 - (1 - Ez) × (1 - Er) × (1 - Ep)
+ * Evz = (Fa + Xs × Fb - Zd × Ep × Fc) / Fa
+ * 
+ * Zd = Voz / Vdz with discharge airflow Vdz = Vpz-min / Ep.
+ * Single-duct VAV (Ep = 1, Er = 0) reduces to Evz = 1 + Xs - Zpz.
+ */
+export function calculateZoneVentilationEfficiency(zone: ZoneVentilationResult, Xs: number): number {
+  const { Ep, Er, ez } = zone
+  const Vdz = zone.VpzMin / Ep
+  const Zd = Vdz > 0 ? zone.totalVoz / Vdz : 0
+  
+  const Fa = Ep + (1 - Ep) * Er
+  const Fb = Ep
+  const Fc = 1 - (1 - ez) * (1 - Er) * (1 - Ep)
+  if (Fa <= 0) return MIN_SYSTEM_EV
+  
+  return Math.round((Fa + Xs * Fb - Zd * Ep * Fc) / Fa * 1000) / 1000
+}
+
 /**
  * Calculate ventilation for a system (collection of zones)
  */
@@ -352,7 +538,7 @@ export function calculateSystemVentilation(
   const systemZones = zones.filter(z => z.systemId === system.id)
   
   // Calculate each zone
-  const zoneResults = systemZones.map(zone =>
+  let zoneResults = systemZones.map(zone =>
     calculateZoneVentilation(zone, spaces, settings)
   )
   
@@ -366,25 +552,31 @@ export function calculateSystemVentilation(
   
   // Sum of people-related and area-related components
   const sumRpPz = zoneResults.reduce((sum, z) => 
-    sum + z.spaces.reduce((s, sp) => s + sp.Rp * sp.occupancy, 0), 0
+    sum + z.spaces.reduce((s, sp) => s + (sp.healthcare ? 0 : sp.Rp * sp.occupancy), 0), 0
   )
   const sumRaAz = zoneResults.reduce((sum, z) => 
-    sum + z.spaces.reduce((s, sp) => s + sp.Ra * sp.areaSf, 0), 0
+    sum + z.spaces.reduce((s, sp) => s + (sp.healthcare ? 0 : sp.Ra * sp.areaSf), 0), 0
+  )
+  
+  // ASHRAE 170 outdoor air is a fixed minimum - no occupant diversity
+  const sumHealthcareOa = zoneResults.reduce((sum, z) => 
+    sum + z.spaces.reduce((s, sp) => s + (sp.healthcare ? sp.Vbz : 0), 0), 0
   )
   
-  // Vou = D × Σ(Rp × Pz) + Σ(Ra × Az)
-  const Vou = (system.occupancyDiversity * sumRpPz) + sumRaAz
+  // Vou = D × Σ(Rp × Pz) + Σ(Ra × Az) + Σ(170 OA)
+  const Vou = (system.occupancyDiversity * sumRpPz) + sumRaAz + sumHealthcareOa
   
   // System ventilation efficiency (Ev)
   let Ev = 1.0
+  const Vps = zoneResults.reduce((sum, z) => sum + z.Vpz, 0)
+  const Xs = Vps > 0 ? Vou / Vps : 0
+  let criticalZone: ZoneVentilationResult | undefined
   
   if (system.systemType === 'vav_multi_zone' && zoneResults.length > 0) {
-    // For VAV: Ev = minimum(Voz/Vpz) for all zones
-    // Simplified: use the zone with highest OA fraction
-    const maxZp = Math.max(...zoneResults.map(z => z.Zp), 0.5)
-    // Ev = 0.75 is a common default for multi-zone VAV
-    Ev = Math.min(1 / maxZp, 1.0) * 0.85 // Conservative factor
-    Ev = Math.max(Ev, 0.6) // Floor at 60%
+    // Appendix A: Ev = min(Evz) over all zones
+    zoneResults = zoneResults.map(z => ({ ...z, Evz: calculateZoneVentilationEfficiency(z, Xs) }))
+    criticalZone = zoneResults.reduce((min, z) => (z.Evz < min.Evz ? z : min))
+    Ev = Math.max(criticalZone.Evz, MIN_SYSTEM_EV)
   } else if (system.systemType === 'doas_100_oa') {
     Ev = 1.0 // 100% OA systems have Ev = 1.0
   }
@@ -392,38 +584,18 @@ export function calculateSystemVentilation(
   // Vot = Vou / Ev
   let Vot = Vou / Ev
   
-  // Get design temperatures
-  const location = settings.locationId ? getLocationById(settings.locationId) : null
-  const customLoc = settings.customLocation
-  
-  let coolingDb = customLoc?.cooling_04_db ?? location?.cooling_04_db ?? 95
-  let coolingWb = customLoc?.cooling_04_mcwb ?? location?.cooling_04_mcwb ?? 75
-  let heatingDb = customLoc?.heating_99_db ?? location?.heating_99_db ?? 10
-  const elevation = customLoc?.elevation_ft ?? location?.elevation_ft ?? 0
-  
-  // Use 1% conditions if specified
-  if (settings.coolingDesignCondition === '1%' && location) {
-    coolingDb = location.cooling_1_db
-    coolingWb = location.cooling_1_mcwb
-  }
-  if (settings.heatingDesignCondition === '99.6%' && location) {
-    heatingDb = location.heating_996_db
-  }
-  
+  // Design conditions
+  const design = getVentilationDesignConditions(settings)
+  const { coolingDb, heatingDb, outdoorCooling, indoorSummer, indoorWinter } = design
   const indoorSummerDb = settings.summerIndoorDb
   const indoorWinterDb = settings.winterIndoorDb
   
-  // Altitude correction
-  let altitudeCorrection = 1.0
-  if (settings.altitudeCorrection && elevation > 2000) {
-    altitudeCorrection = getAltitudeCorrectionFactor(elevation)
-    // Adjust Vot for altitude (more CFM needed at altitude)
-    Vot = Vot / altitudeCorrection
-  }
+  // Altitude correction (more CFM needed at altitude)
+  Vot = Vot / design.altitudeCorrection
   
   // ERV pre-treatment
   let coolingDbEffective = coolingDb
-  let coolingWbEffective = coolingWb
+  let coolingWEffective = outdoorCooling.humidityRatioGrains
   let heatingDbEffective = heatingDb
   let ervSavings = 0
   
@@ -433,9 +605,9 @@ export function calculateSystemVentilation(
     coolingDbEffective = coolingDb - system.ervSensibleEfficiency * (coolingDb - indoorSummerDb)
     heatingDbEffective = heatingDb + system.ervSensibleEfficiency * (indoorWinterDb - heatingDb)
     
-    // Approximate wet bulb reduction (latent)
-    const wbReduction = system.ervLatentEfficiency * (coolingWb - 65) // 65°F is approx indoor WB
-    coolingWbEffective = coolingWb - wbReduction
+    // Latent: W_leaving = W_outdoor - El × (W_outdoor - W_indoor)
+    coolingWEffective = outdoorCooling.humidityRatioGrains -
+      system.ervLatentEfficiency * (outdoorCooling.humidityRatioGrains - indoorSummer.humidityRatioGrains)
     
     // Calculate CFM equivalent savings (rough approximation)
     const sensibleSavingsCooling = Vot * (coolingDb - coolingDbEffective) / (coolingDb - indoorSummerDb)
@@ -443,23 +615,28 @@ export function calculateSystemVentilation(
     ervSavings = Math.round(Math.max(sensibleSavingsCooling, sensibleSavingsHeating))
   }
   
-  // Calculate loads
-  // Sensible: Q = 1.08 × CFM × ΔT
+  // Outdoor air entering the coil (after ERV)
+  const enteringState = stateFromDbW(coolingDbEffective, coolingWEffective, design.barometricPressurePsia)
+  
+  // Calculate loads from dry air mass flow at the outdoor intake state
   const deltaTcooling = coolingDbEffective - indoorSummerDb
   const deltaTHeating = indoorWinterDb - heatingDbEffective
   
-  const sensibleCoolingBtuh = SENSIBLE_FACTOR * Vot * Math.max(deltaTcooling, 0)
-  const sensibleHeatingBtuh = SENSIBLE_FACTOR * Vot * Math.max(deltaTHeating, 0)
+  const coolingMassFlow = massFlowLbHr(Vot, enteringState)
+  const heatingMassFlow = massFlowLbHr(Vot, indoorWinter)
   
-  // Total cooling (using enthalpy difference)
-  const outdoorHR = estimateHumidityRatio(coolingDbEffective, coolingWbEffective)
-  const outdoorEnthalpy = calculateEnthalpy(coolingDbEffective, outdoorHR)
-  const indoorEnthalpy = calculateEnthalpy(indoorSummerDb, INDOOR_SUMMER_HR)
-  const deltaEnthalpy = Math.max(outdoorEnthalpy - indoorEnthalpy, 0)
+  const sensibleCoolingBtuh = sensibleHeatBtuh(coolingMassFlow, indoorSummer.humidityRatioLb, Math.max(deltaTcooling, 0))
+  const sensibleHeatingBtuh = sensibleHeatBtuh(heatingMassFlow, indoorWinter.humidityRatioLb, Math.max(deltaTHeating, 0))
   
-  const totalCoolingBtuh = TOTAL_FACTOR * Vot * deltaEnthalpy
+  // Total cooling (using enthalpy difference)
+  const deltaEnthalpy = Math.max(enteringState.enthalpyBtuLb - indoorSummer.enthalpyBtuLb, 0)
+  const totalCoolingBtuh = coolingMassFlow * deltaEnthalpy
   const latentCoolingBtuh = totalCoolingBtuh - sensibleCoolingBtuh
   
+  // Moisture removed bringing outdoor air down to the indoor humidity ratio
+  const moistureRemovalGrains = Math.max(enteringState.humidityRatioGrains - indoorSummer.humidityRatioGrains, 0)
+  const moistureRemovalLbHr = coolingMassFlow * Math.max(enteringState.humidityRatioLb - indoorSummer.humidityRatioLb, 0)
+  
   return {
     systemId: system.id,
     systemName: system.name,
@@ -467,8 +644,12 @@ export function calculateSystemVentilation(
     totalAreaSf,
     totalOccupancy,
     Vou: Math.round(Vou),
+    Vps: Math.round(Vps),
+    Xs: Math.round(Xs * 1000) / 1000,
     Ev: Math.round(Ev * 100) / 100,
     Vot: Math.round(Vot),
+    criticalZoneId: criticalZone?.zoneId,
+    criticalZoneName: criticalZone?.zoneName,
     diversityFactor: system.occupancyDiversity,
     diversifiedOccupancy,
     ervEnabled: system.ervEnabled,
@@ -478,7 +659,10 @@ export function calculateSystemVentilation(
     heatingLoadBtuh: Math.round(sensibleHeatingBtuh),
     coolingLoadTons: Math.round(totalCoolingBtuh / 12000 * 10) / 10,
     heatingLoadMbh: Math.round(sensibleHeatingBtuh / 1000 * 10) / 10,
+    sensibleCoolingBtuh: Math.round(sensibleCoolingBtuh),
     latentCoolingBtuh: Math.round(Math.max(latentCoolingBtuh, 0)),
+    moistureRemovalGrains: Math.round(moistureRemovalGrains * 10) / 10,
+    moistureRemovalLbHr: Math.round(moistureRemovalLbHr * 10) / 10,
     zones: zoneResults,
   }
 }
@@ -497,30 +681,7 @@ export function calculateProjectVentilation(
   settings: HVACProjectSettings
 ): ProjectVentilationResult {
   // Get design conditions
-  const location = settings.locationId ? getLocationById(settings.locationId) : null
-  const customLoc = settings.customLocation
-  
-  let coolingDb = customLoc?.cooling_04_db ?? location?.cooling_04_db ?? 95
-  let coolingWb = customLoc?.cooling_04_mcwb ?? location?.cooling_04_mcwb ?? 75
-  let heatingDb = customLoc?.heating_99_db ?? location?.heating_99_db ?? 10
-  const elevation = customLoc?.elevation_ft ?? location?.elevation_ft ?? 0
-  
-  if (settings.coolingDesignCondition === '1%' && location) {
-    coolingDb = location.cooling_1_db
-    coolingWb = location.cooling_1_mcwb
-  }
-  if (settings.heatingDesignCondition === '99.6%' && location) {
-    heatingDb = location.heating_996_db
-  }
-  
-  const locationName = customLoc?.name ?? 
-    (location ? `${location.name}, ${location.state || location.country}` : 'Not specified')
-  
-  // Calculate altitude correction
-  let altitudeCorrection = 1.0
-  if (settings.altitudeCorrection && elevation > 2000) {
-    altitudeCorrection = getAltitudeCorrectionFactor(elevation)
-  }
+  const design = getVentilationDesignConditions(settings)
   
   // Calculate each system
   const systemResults = systems.map(system =>
@@ -547,15 +708,19 @@ export function calculateProjectVentilation(
   
   const totalCoolingBtuh = systemResults.reduce((sum, s) => sum + s.coolingLoadBtuh, 0)
   const totalHeatingBtuh = systemResults.reduce((sum, s) => sum + s.heatingLoadBtuh, 0)
+  const totalLatentCoolingBtuh = systemResults.reduce((sum, s) => sum + s.latentCoolingBtuh, 0)
   
   return {
-    locationName,
-    coolingDb,
-    coolingWb,
-    heatingDb,
+    locationName: design.locationName,
+    coolingDb: design.coolingDb,
+    coolingWb: design.coolingWb,
+    heatingDb: design.heatingDb,
     indoorSummerDb: settings.summerIndoorDb,
     indoorWinterDb: settings.winterIndoorDb,
-    altitudeCorrection: Math.round(altitudeCorrection * 1000) / 1000,
+    altitudeCorrection: Math.round(design.altitudeCorrection * 1000) / 1000,
+    barometricPressurePsia: Math.round(design.barometricPressurePsia * 1000) / 1000,
+    outdoorHumidityRatioGrains: Math.round(design.outdoorCooling.humidityRatioGrains * 10) / 10,
+    indoorHumidityRatioGrains: Math.round(design.indoorSummer.humidityRatioGrains * 10) / 10,
     totalAreaSf,
     totalOccupancy,
     totalVot: Math.round(totalVot),
@@ -564,6 +729,7 @@ export function calculateProjectVentilation(
     totalHeatingBtuh: Math.round(totalHeatingBtuh),
     totalCoolingTons: Math.round(totalCoolingBtuh / 12000 * 10) / 10,
     totalHeatingMbh: Math.round(totalHeatingBtuh / 1000 * 10) / 10,
+    totalLatentCoolingBtuh: Math.round(totalLatentCoolingBtuh),
     systems: systemResults,
     unassignedSpaces,
   }
@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
 import UserMenu from './auth/UserMenu'
 import ZoneCanvas from './builder/ZoneCanvas'
 import PoolRoomTab from './pool-design/PoolRoomTab'
 import CentralPlantTab from './central-plant/CentralPlantTab'
 import ResultsTab from './results/ResultsTab'
+import ElectricalTab from './electrical/ElectricalTab'
 import ProjectInfoTab from './project-info/ProjectInfoTab'
 import { Logo } from './shared/Logo'
 import { useProjectStore } from '../store/useProjectStore'
@@ -12,13 +13,20 @@ import { supabase, isSupabaseConfigured } from '../lib/supabase'
 import { useCalculations } from '../hooks/useCalculations'
 import { getDefaultDHWSettings, getDefaultElectricalSettings, getDefaultResultAdjustments, getDefaultMechanicalSettings } from '../data/defaults'
 
-type TabType = 'info' | 'builder' | 'pool' | 'central' | 'results'
+type TabType = 'info' | 'builder' | 'pool' | 'central' | 'electrical' | 'results'
+
+const TAB_IDS: TabType[] = ['info', 'builder', 'pool', 'central', 'electrical', 'results']
 
 export default function ProjectWorkspace() {
   const { projectId } = useParams()
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const { currentProject, zones, setCurrentProject, setZones } = useProjectStore()
-  const [activeTab, setActiveTab] = useState<TabType>('builder')
+  // Other modules (e.g. Electrical) can deep-link to a tab with ?tab=
+  const requestedTab = searchParams.get('tab') as TabType | null
+  const [activeTab, setActiveTab] = useState<TabType>(
+    requestedTab && TAB_IDS.includes(requestedTab) ? requestedTab : 'builder'
+  )
   const [saving, setSaving] = useState(false)
   const [synced, setSynced] = useState(true)
   const [otherUserEditing, setOtherUserEditing] = useState(false)
@@ -160,6 +168,10 @@ export default function ProjectWorkspace() {
               exhaustOverride: z.exhaust_override as boolean | undefined,
               ventilationCfm: z.ventilation_cfm as number | undefined,
               exhaustCfm: z.exhaust_cfm as number | undefined,
+              envelope: z.envelope as import('../types').ZoneEnvelope | undefined,
+              dwellingUnit: z.dwelling_unit as string | undefined,
+              residentialVentilationMode: z.residential_ventilation_mode as import('../types').ResidentialVentilationMode | undefined,
+              occupancyGroup: z.occupancy_group as import('../types/emissions').LL97OccupancyGroup | undefined,
             } as import('../types').Zone
           })
           
@@ -342,6 +354,10 @@ export default function ProjectWorkspace() {
               exhaustOverride: z.exhaust_override as boolean | undefined,
               ventilationCfm: z.ventilation_cfm as number | undefined,
               exhaustCfm: z.exhaust_cfm as number | undefined,
+              envelope: z.envelope as import('../types').ZoneEnvelope | undefined,
+              dwellingUnit: z.dwelling_unit as string | undefined,
+              residentialVentilationMode: z.residential_ventilation_mode as import('../types').ResidentialVentilationMode | undefined,
+              occupancyGroup: z.occupancy_group as import('../types/emissions').LL97OccupancyGroup | undefined,
             } as import('../types').Zone
             
             // Update or add the zone - need to get current zones from store
@@ -472,6 +488,10 @@ export default function ProjectWorkspace() {
             exhaust_override: zone.exhaustOverride,
             ventilation_cfm: zone.ventilationCfm,
             exhaust_cfm: zone.exhaustCfm,
+            envelope: zone.envelope as unknown as Record<string, unknown>,
+            dwelling_unit: zone.dwellingUnit,
+            residential_ventilation_mode: zone.residentialVentilationMode,
+            occupancy_group: zone.occupancyGroup,
           } as unknown as never)
         }
         
@@ -562,6 +582,7 @@ export default function ProjectWorkspace() {
                 { id: 'builder', label: 'Zone Builder' },
                 { id: 'pool', label: '🏊 Pool Room' },
                 { id: 'central', label: 'Central Plant' },
+                { id: 'electrical', label: '⚡ Electrical' },
                 { id: 'results', label: 'Results' },
               ].map(tab => (
                 <button
@@ -633,6 +654,9 @@ export default function ProjectWorkspace() {
         {activeTab === 'central' && (
           <CentralPlantTab calculations={calculations} />
         )}
+        {activeTab === 'electrical' && (
+          <ElectricalTab calculations={calculations} />
+        )}
         {activeTab === 'results' && (
           <ResultsTab 
             calculations={calculations} 
@@ -0,0 +1,65 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import {
+  calculateZoneEnvelopeLoad,
+  getEnvelopeDesignConditions,
+  hasEnvelopeInputs,
+  DEFAULT_ZONE_ENVELOPE,
+} from '../../calculations/envelopeLoads'
+import EnvelopeInputs from '../shared/EnvelopeInputs'
+import type { Zone, ZoneEnvelope } from '../../types'
+
+interface EnvelopeSectionProps {
+  zone: Zone
+  onUpdate: (updates: Partial<Zone>) => void
+}
+
+export default function EnvelopeSection({ zone, onUpdate }: EnvelopeSectionProps) {
+  const { currentProject } = useProjectStore()
+
+  const envelope: ZoneEnvelope = { ...DEFAULT_ZONE_ENVELOPE, ...zone.envelope }
+  const design = getEnvelopeDesignConditions(currentProject?.ashraeLocationId)
+  const load = design && hasEnvelopeInputs(zone) ? calculateZoneEnvelopeLoad(zone, design) : null
+
+  const handleUpdate = (updates: Partial<ZoneEnvelope>) => {
+    onUpdate({ envelope: { ...envelope, ...updates } })
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4 bg-surface-800/50 border-surface-700">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-surface-300">🧱 Envelope Loads (CLTD/SCL/CLF)</h4>
+        {design ? (
+          <span className="text-xs text-surface-400">
+            {design.locationName}: {design.coolingDb}°F / {design.heatingDb}°F
+          </span>
+        ) : (
+          <span className="text-xs px-2 py-0.5 rounded bg-amber-500/20 text-amber-400">
+            Set project location
+          </span>
+        )}
+      </div>
+
+      <EnvelopeInputs envelope={envelope} onChange={handleUpdate} />
+
+      <p className="text-xs text-surface-500">
+        People from zone occupancy, lighting from the Lighting W/SF rate below.
+      </p>
+
+      {/* Zone Load */}
+      {load ? (
+        <div className="bg-surface-900/50 rounded p-3 grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+          <div className="flex justify-between text-surface-400"><span>Walls + Roof:</span><span className="font-mono">{((load.wallsBtuh + load.roofBtuh) / 1000).toFixed(1)} MBH</span></div>
+          <div className="flex justify-between text-surface-400"><span>Glass:</span><span className="font-mono">{((load.glazingConductionBtuh + load.glazingSolarBtuh) / 1000).toFixed(1)} MBH</span></div>
+          <div className="flex justify-between text-surface-400"><span>People:</span><span className="font-mono">{((load.peopleSensibleBtuh + load.peopleLatentBtuh) / 1000).toFixed(1)} MBH</span></div>
+          <div className="flex justify-between text-surface-400"><span>Lights + Equip:</span><span className="font-mono">{((load.lightingBtuh + load.equipmentBtuh) / 1000).toFixed(1)} MBH</span></div>
+          <div className="flex justify-between text-cyan-400 border-t border-surface-700 pt-1 mt-1"><span>Cooling:</span><span className="font-mono">{(load.coolingBtuh / 12000).toFixed(2)} Tons</span></div>
+          <div className="flex justify-between text-orange-400 border-t border-surface-700 pt-1 mt-1"><span>Heating:</span><span className="font-mono">{(load.heatingBtuh / 1000).toFixed(1)} MBH</span></div>
+        </div>
+      ) : (
+        <p className="text-xs text-surface-500 italic">
+          {design ? 'No envelope entered - this zone is sized by SF/Ton and BTU/SF.' : 'No ASHRAE location on the project - rules of thumb apply.'}
+        </p>
+      )}
+    </div>
+  )
+}
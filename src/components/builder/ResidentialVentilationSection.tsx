@@ -0,0 +1,106 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import {
+  calculateDwellingVentilation,
+  calculateLocalExhaust,
+  getDwellingUnitName,
+  DEFAULT_DWELLING_UNIT,
+  DEFAULT_RESIDENTIAL_VENTILATION_SETTINGS,
+} from '../../calculations/residentialVentilation'
+import { isResidentialZoneType } from '../../data/ashrae622'
+import type { Zone, ResidentialVentilationMode } from '../../types'
+
+interface ResidentialVentilationSectionProps {
+  zone: Zone
+  onUpdate: (updates: Partial<Zone>) => void
+}
+
+export default function ResidentialVentilationSection({ zone, onUpdate }: ResidentialVentilationSectionProps) {
+  const { currentProject, zones } = useProjectStore()
+
+  const settings = {
+    ...DEFAULT_RESIDENTIAL_VENTILATION_SETTINGS,
+    ...currentProject?.mechanicalSettings?.residentialVentilation,
+  }
+
+  // Use the zone being edited in place of its stored copy
+  const residentialZones = zones
+    .map(z => (z.id === zone.id ? zone : z))
+    .filter(z => isResidentialZoneType(z.type))
+  const dwellingName = getDwellingUnitName(zone)
+  const dwellingNames = Array.from(new Set(residentialZones.map(getDwellingUnitName)))
+  const dwelling = calculateDwellingVentilation(
+    dwellingName,
+    residentialZones.filter(z => getDwellingUnitName(z) === dwellingName),
+    settings
+  )
+  const localExhaust = calculateLocalExhaust(zone)
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4 bg-surface-800/50 border-surface-700">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-surface-300">🏠 Dwelling Ventilation (ASHRAE 62.2)</h4>
+        <span className="text-xs text-surface-400">{dwelling.zoneIds.length} zone(s) in unit</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-surface-400 mb-1">Dwelling Unit</label>
+          <input
+            type="text"
+            list="dwelling-units"
+            value={zone.dwellingUnit ?? ''}
+            placeholder={dwellingName}
+            onChange={(e) => onUpdate({ dwellingUnit: e.target.value || undefined })}
+            className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-sm text-white"
+          />
+          <datalist id="dwelling-units">
+            {dwellingNames.map(name => <option key={name} value={name} />)}
+          </datalist>
+          {!zone.dwellingUnit?.trim() && (
+            <p className="text-xs text-surface-500 mt-1">
+              Unassigned residential zones share one "{DEFAULT_DWELLING_UNIT}" unit - name each apartment so its area and bedrooms
+              are counted separately
+            </p>
+          )}
+        </div>
+        {localExhaust && (
+          <div>
+            <label className="block text-xs text-surface-400 mb-1">Local Exhaust</label>
+            <div className="flex gap-2">
+              {(['intermittent', 'continuous'] as ResidentialVentilationMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onUpdate({ residentialVentilationMode: mode })}
+                  className={`flex-1 px-2 py-2 rounded-lg text-xs transition-colors ${
+                    localExhaust.mode === mode
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                  }`}
+                >
+                  {mode === 'intermittent' ? 'Demand' : 'Continuous'}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-surface-500 mt-1">{localExhaust.cfm} CFM {localExhaust.mode}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Dwelling Summary */}
+      <div className="bg-surface-900/50 rounded p-3 grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        <div className="flex justify-between text-surface-400"><span>Floor Area:</span><span className="font-mono">{dwelling.floorAreaSf.toLocaleString()} SF</span></div>
+        <div className="flex justify-between text-surface-400"><span>Bedrooms:</span><span className="font-mono">{dwelling.bedrooms}</span></div>
+        <div className="flex justify-between text-surface-400"><span>Qtot:</span><span className="font-mono">{dwelling.qtotCfm} CFM</span></div>
+        <div className="flex justify-between text-surface-400"><span>Infiltration Credit:</span><span className="font-mono">-{dwelling.infiltrationCreditCfm} CFM</span></div>
+        <div className="flex justify-between text-cyan-400 border-t border-surface-700 pt-1 mt-1"><span>Qfan (continuous):</span><span className="font-mono">{dwelling.qfanCfm} CFM</span></div>
+        <div className="flex justify-between text-emerald-400 border-t border-surface-700 pt-1 mt-1">
+          <span>ERV:</span>
+          <span className="font-mono">{dwelling.ervCount > 1 ? `${dwelling.ervCount} × ` : ''}{dwelling.ervCfm} CFM</span>
+        </div>
+      </div>
+      <p className="text-xs text-surface-500">
+        Qtot = 0.03 × {dwelling.floorAreaSf.toLocaleString()} SF + 7.5 × ({dwelling.bedrooms} + 1). Infiltration inputs are on the Central Plant HVAC card.
+      </p>
+    </div>
+  )
+}
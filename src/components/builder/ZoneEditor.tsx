@@ -2,13 +2,19 @@ import { useState, useEffect, useMemo } from 'react'
 import LineItemsEditor from './LineItemsEditor'
 import { AddFixtureModal } from './AddFixtureModal'
 import VentilationSection from './VentilationSection'
+import EnvelopeSection from './EnvelopeSection'
+import ResidentialVentilationSection from './ResidentialVentilationSection'
 import { useProjectStore, calculateProcessLoads } from '../../store/useProjectStore'
 import { useSettingsStore } from '../../store/useSettingsStore'
 import { getZoneCategories, getZoneTypesByCategory, calculateLaundryLoads, type CustomLaundryEquipment } from '../../data/zoneDefaults'
 import { getFixtureById, LEGACY_FIXTURE_MAPPING } from '../../data/nycFixtures'
 import { COMMON_FLOORS, parseFloorFromName, getFloorColor } from '../../data/floorUtils'
+import { isResidentialZoneType } from '../../data/ashrae622'
+import { LL97_OCCUPANCY_NAMES } from '../../data/ll97'
+import { getZoneOccupancyGroup, DEFAULT_LL97_SETTINGS } from '../../calculations/ll97'
 // ASHRAE calculations are now handled ONLY in VentilationSection - no duplicates!
 import type { Zone, ZoneType, ZoneProcessLoads } from '../../types'
+import type { LL97OccupancyGroup } from '../../types/emissions'
 
 interface ZoneEditorProps {
   zone: Zone
@@ -39,7 +45,7 @@ function getWasherCount(fixtures: Record<string, number>): number {
 }
 
 export default function ZoneEditor({ zone, onClose }: ZoneEditorProps) {
-  const { updateZone, deleteZone } = useProjectStore()
+  const { currentProject, updateZone, deleteZone } = useProjectStore()
   const { getZoneDefaults, customZoneTypes } = useSettingsStore()
   const [localZone, setLocalZone] = useState<Zone>({
     ...zone,
@@ -323,9 +329,43 @@ export default function ZoneEditor({ zone, onClose }: ZoneEditorProps) {
             </div>
           )}
 
+          {/* LL97 Occupancy Group */}
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">
+              LL97 Occupancy
+              <span className="text-surface-500 font-normal ml-2">(emissions limit)</span>
+            </label>
+            <select
+              value={localZone.occupancyGroup || ''}
+              onChange={(e) => handleUpdate({ occupancyGroup: (e.target.value || undefined) as LL97OccupancyGroup | undefined })}
+              className="w-full px-4 py-2.5 bg-surface-900 border border-surface-600 rounded-lg text-white"
+            >
+              <option value="">
+                {(() => {
+                  const primary = currentProject?.mechanicalSettings?.ll97?.primaryOccupancy ?? DEFAULT_LL97_SETTINGS.primaryOccupancy
+                  const group = getZoneOccupancyGroup({ ...localZone, occupancyGroup: undefined }, primary)
+                  return `Default (${group ? LL97_OCCUPANCY_NAMES[group] : 'excluded - outdoor'})`
+                })()}
+              </option>
+              {(Object.keys(LL97_OCCUPANCY_NAMES) as LL97OccupancyGroup[]).map(group => (
+                <option key={group} value={group}>{LL97_OCCUPANCY_NAMES[group]}</option>
+              ))}
+            </select>
+          </div>
+
           {/* ASHRAE Ventilation Section */}
           <VentilationSection zone={localZone} onUpdate={handleUpdate} />
 
+          {/* ASHRAE 62.2 Dwelling Unit - residential zones only */}
+          {isResidentialZoneType(localZone.type) && (
+            <ResidentialVentilationSection zone={localZone} onUpdate={handleUpdate} />
+          )}
+
+          {/* Envelope Loads - only used by the envelope load method */}
+          {currentProject?.mechanicalSettings?.hvacLoadMethod === 'envelope' && (
+            <EnvelopeSection zone={localZone} onUpdate={handleUpdate} />
+          )}
+
           {/* Rate-Based Loads (per SF) - Electrical & HVAC only (Ventilation moved to ASHRAE section) */}
           <div>
             <h4 className="text-sm font-medium text-surface-300 mb-3">📐 Rate-Based Loads (per SF)</h4>
@@ -0,0 +1,190 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import { DEFAULT_ENERGY_MODEL_SETTINGS } from '../../calculations/energy'
+import type { CalculationResults, EnergyModelSettings } from '../../types'
+
+interface AnnualEnergyProps {
+  results: CalculationResults
+}
+
+const INPUTS: { key: keyof EnergyModelSettings; label: string; unit: string; step: number }[] = [
+  { key: 'electricRatePerKwh', label: 'Electric Rate', unit: '$/kWh', step: 0.01 },
+  { key: 'demandRatePerKw', label: 'Demand Charge', unit: '$/kW-mo', step: 1 },
+  { key: 'gasRatePerTherm', label: 'Gas Rate', unit: '$/therm', step: 0.05 },
+  { key: 'occupiedHoursPerDay', label: 'Occupied Hours', unit: 'hr/day', step: 1 },
+  { key: 'occupiedDaysPerWeek', label: 'Occupied Days', unit: 'day/wk', step: 1 },
+  { key: 'coolingBalancePointF', label: 'Cooling Balance Pt', unit: '°F', step: 1 },
+  { key: 'heatingBalancePointF', label: 'Heating Balance Pt', unit: '°F', step: 1 },
+  { key: 'ervSensibleEffectiveness', label: 'ERV Sensible Eff.', unit: '', step: 0.05 },
+  { key: 'ervLatentEffectiveness', label: 'ERV Latent Eff.', unit: '', step: 0.05 },
+  { key: 'dhwPeakHoursPerDay', label: 'DHW Use', unit: 'peak hr/day', step: 0.5 },
+  { key: 'poolEvaporationFactor', label: 'Pool Evap. Factor', unit: '× design', step: 0.05 },
+  { key: 'occupiedLoadFactor', label: 'Bldg Load (Occ.)', unit: '× conn.', step: 0.05 },
+  { key: 'unoccupiedLoadFactor', label: 'Bldg Load (Unocc.)', unit: '× conn.', step: 0.05 },
+]
+
+function formatCurrency(value: number): string {
+  return `$${value.toLocaleString()}`
+}
+
+export default function AnnualEnergy({ results }: AnnualEnergyProps) {
+  const { currentProject, updateMechanicalSettings } = useProjectStore()
+
+  if (!currentProject) return null
+
+  const energy = results.energy
+  const settings: EnergyModelSettings = {
+    ...DEFAULT_ENERGY_MODEL_SETTINGS,
+    ...currentProject.mechanicalSettings.energyModel,
+  }
+
+  const handleUpdate = (updates: Partial<EnergyModelSettings>) => {
+    updateMechanicalSettings({ energyModel: { ...settings, ...updates } })
+  }
+
+  const maxBinKw = energy ? Math.max(...energy.bins.map(b => b.kw), 1) : 1
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="text-amber-400">⚡</span> Annual Energy & Utility Cost
+        </h3>
+        <p className="text-sm text-surface-400 mt-1">
+          Bin-hour estimate from the design loads, system efficiencies, DHW and pool evaporation
+          {energy && ` • ${energy.locationName}`}
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Inputs */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+          {INPUTS.map(input => (
+            <div key={input.key}>
+              <label className="block text-xs text-surface-400 mb-1">{input.label}</label>
+              <div className="relative">
+                <input
+                  type="number"
+                  min="0"
+                  step={input.step}
+                  value={settings[input.key]}
+                  onChange={(e) => handleUpdate({ [input.key]: Number(e.target.value) })}
+                  className="w-full px-2 py-1.5 bg-surface-900 border border-surface-600 rounded text-white pr-16"
+                />
+                {input.unit && (
+                  <span className="absolute right-2 top-1/2 -translate-y-1/2 text-surface-400 text-xs">{input.unit}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {!energy ? (
+          <p className="text-sm text-amber-400">
+            ⚠️ Select an ASHRAE climate location on the Project Info tab to generate temperature bins.
+          </p>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              <div className="p-3 bg-surface-900 rounded-lg">
+                <div className="text-surface-500">Electricity</div>
+                <div className="text-xl font-bold text-cyan-400 font-mono">{energy.totalKwh.toLocaleString()}</div>
+                <div className="text-xs text-surface-400">kWh/yr</div>
+              </div>
+              <div className="p-3 bg-surface-900 rounded-lg">
+                <div className="text-surface-500">Natural Gas</div>
+                <div className="text-xl font-bold text-orange-400 font-mono">{energy.totalTherms.toLocaleString()}</div>
+                <div className="text-xs text-surface-400">therms/yr</div>
+              </div>
+              <div className="p-3 bg-surface-900 rounded-lg">
+                <div className="text-surface-500">Peak Demand</div>
+                <div className="text-xl font-bold text-white font-mono">{energy.peakDemandKw.toLocaleString()}</div>
+                <div className="text-xs text-surface-400">kW</div>
+              </div>
+              <div className="p-3 bg-surface-900 rounded-lg">
+                <div className="text-surface-500">Annual Cost</div>
+                <div className="text-xl font-bold text-emerald-400 font-mono">{formatCurrency(energy.totalCost)}</div>
+                <div className="text-xs text-surface-400">${energy.costPerSf.toFixed(2)}/SF</div>
+              </div>
+              <div className="p-3 bg-surface-900 rounded-lg">
+                <div className="text-surface-500">Site EUI</div>
+                <div className="text-xl font-bold text-white font-mono">{energy.euiKbtuSf}</div>
+                <div className="text-xs text-surface-400">kBtu/SF-yr</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* End Uses */}
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-surface-700">
+                      <th className="text-left py-2 px-2 text-surface-400 font-medium">End Use</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">kWh</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Therms</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Peak kW</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {energy.endUses.map(e => (
+                      <tr key={e.id} className="border-b border-surface-700/50">
+                        <td className="py-2 px-2 text-white">{e.name}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{e.kwh.toLocaleString()}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{e.therms ? e.therms.toLocaleString() : '-'}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{e.peakKw || '-'}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{formatCurrency(e.cost)}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-b border-surface-700/50">
+                      <td className="py-2 px-2 text-surface-400" colSpan={4}>
+                        Demand charges ({energy.peakDemandKw} kW × ${settings.demandRatePerKw} × 12)
+                      </td>
+                      <td className="py-2 px-2 text-right font-mono text-surface-300">{formatCurrency(energy.demandCost)}</td>
+                    </tr>
+                    <tr>
+                      <td className="py-2 px-2 text-white font-semibold">Total</td>
+                      <td className="py-2 px-2 text-right font-mono text-white font-semibold">{energy.totalKwh.toLocaleString()}</td>
+                      <td className="py-2 px-2 text-right font-mono text-white font-semibold">{energy.totalTherms.toLocaleString()}</td>
+                      <td className="py-2 px-2 text-right font-mono text-white font-semibold">{energy.peakDemandKw}</td>
+                      <td className="py-2 px-2 text-right font-mono text-emerald-400 font-semibold">{formatCurrency(energy.totalCost)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Temperature Bins */}
+              <div>
+                <div className="flex justify-between text-xs text-surface-400 mb-2">
+                  <span>Outdoor bin (°F) • hours</span>
+                  <span>Occupied kW</span>
+                </div>
+                <div className="space-y-1">
+                  {energy.bins.filter(b => b.hours > 0).map(b => (
+                    <div key={b.tempF} className="flex items-center gap-2 text-xs">
+                      <span className="w-12 text-right font-mono text-surface-300">{b.tempF}</span>
+                      <span className="w-12 text-right font-mono text-surface-500">{b.hours}</span>
+                      <div className="flex-1 h-3 bg-surface-900 rounded">
+                        <div
+                          className={`h-3 rounded ${b.therms > 0 ? 'bg-orange-500/70' : 'bg-cyan-500/70'}`}
+                          style={{ width: `${(b.kw / maxBinKw) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-14 text-right font-mono text-surface-300">{Math.round(b.kw)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <p className="text-xs text-surface-500">
+              Bins are 5°F with hours from a normal distribution between the 99.6% heating and 0.4% cooling design points.
+              Cooling / heating scale linearly from the balance points to the design loads; outdoor air is conditioned during
+              occupied hours less ERV recovery. Demand is billed on the annual peak every month.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
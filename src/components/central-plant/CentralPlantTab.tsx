@@ -4,6 +4,11 @@ import PlumbingCalcs from './PlumbingCalcs'
 import SystemSizing from './SystemSizing'
 import ElectricalServiceSettings from './ElectricalServiceSettings'
 import MechanicalLoads from './MechanicalLoads'
+import EquipmentSchedule from './EquipmentSchedule'
+import AnnualEnergy from './AnnualEnergy'
+import LocalLaw97 from './LocalLaw97'
+import ElectrificationComparison from './ElectrificationComparison'
+import CostEstimate from './CostEstimate'
 import MEPNarrativesEditor from './MEPNarrativesEditor'
 import type { CalculationResults, ZoneFixtures } from '../../types'
 
@@ -43,6 +48,9 @@ export default function CentralPlantTab({ calculations }: CentralPlantTabProps)
         {/* Mechanical Equipment Loads */}
         <MechanicalLoads results={results} />
 
+        {/* Mechanical Equipment Schedule */}
+        <EquipmentSchedule results={results} />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* DHW System */}
           <DHWCalculator results={results} fixtures={aggregatedFixtures} />
@@ -54,6 +62,18 @@ export default function CentralPlantTab({ calculations }: CentralPlantTabProps)
         {/* System Sizing */}
         <SystemSizing results={results} />
 
+        {/* Annual Energy & Utility Cost */}
+        <AnnualEnergy results={results} />
+
+        {/* NYC Local Law 97 */}
+        <LocalLaw97 results={results} />
+
+        {/* Gas vs All-Electric Scenarios */}
+        <ElectrificationComparison />
+
+        {/* Conceptual Cost Estimate */}
+        <CostEstimate results={results} />
+
         {/* MEP Report Narratives */}
         <MEPNarrativesEditor results={results} />
 
@@ -0,0 +1,196 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import { COST_TRADE_NAMES, DEFAULT_COST_ESTIMATE_SETTINGS, REGIONAL_COST_MULTIPLIERS } from '../../data/costLibrary'
+import type { CalculationResults } from '../../types'
+import type { CostAdjustment, CostEstimateSettings, CostTrade } from '../../types/costEstimate'
+
+interface CostEstimateProps {
+  results: CalculationResults
+}
+
+function formatCurrency(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`
+}
+
+export default function CostEstimate({ results }: CostEstimateProps) {
+  const { currentProject, updateResultAdjustments } = useProjectStore()
+
+  if (!currentProject || !results.costEstimate) return null
+
+  const estimate = results.costEstimate
+  const settings: CostEstimateSettings = {
+    ...DEFAULT_COST_ESTIMATE_SETTINGS,
+    ...currentProject.resultAdjustments?.costEstimate,
+  }
+
+  const handleUpdate = (updates: Partial<CostEstimateSettings>) => {
+    updateResultAdjustments({ costEstimate: { ...settings, ...updates } })
+  }
+
+  const handleOverride = (id: string, value: number | undefined) => {
+    const { [id]: _, ...rest } = settings.overrides
+    handleUpdate({ overrides: value === undefined ? rest : { ...rest, [id]: value } })
+  }
+
+  const handleAdjustment = (id: string, updates: Partial<CostAdjustment>) => {
+    handleUpdate({ adjustments: settings.adjustments.map(a => (a.id === id ? { ...a, ...updates } : a)) })
+  }
+
+  const handleAddAdjustment = (trade: CostTrade) => {
+    handleUpdate({
+      adjustments: [...settings.adjustments, { id: `adj_${Date.now()}`, trade, description: 'Adjustment', amount: 0 }],
+    })
+  }
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="text-emerald-400">💲</span> Conceptual Cost Estimate
+        </h3>
+        <p className="text-sm text-surface-400 mt-1">
+          Trade budget from the calculated quantities and the Settings cost library
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Region */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+          <div>
+            <label className="block text-xs text-surface-400 mb-1">Region</label>
+            <select
+              value={settings.region}
+              onChange={(e) => {
+                const preset = REGIONAL_COST_MULTIPLIERS.find(r => r.id === e.target.value)
+                handleUpdate({ region: e.target.value, ...(preset && { regionalMultiplier: preset.multiplier }) })
+              }}
+              className="w-full px-2 py-1.5 bg-surface-900 border border-surface-600 rounded text-white"
+            >
+              {REGIONAL_COST_MULTIPLIERS.map(r => (
+                <option key={r.id} value={r.id}>{r.name} ({r.multiplier.toFixed(2)})</option>
+              ))}
+              <option value="custom">Custom</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-surface-400 mb-1">Regional Multiplier</label>
+            <input
+              type="number"
+              min="0"
+              step={0.01}
+              value={settings.regionalMultiplier}
+              onChange={(e) => handleUpdate({ region: 'custom', regionalMultiplier: Number(e.target.value) })}
+              className="w-full px-2 py-1.5 bg-surface-900 border border-surface-600 rounded text-white"
+            />
+          </div>
+          <div className="p-2 bg-surface-900 rounded-lg">
+            <div className="text-xs text-surface-500">Total MEP</div>
+            <div className="text-lg font-bold text-emerald-400 font-mono">{formatCurrency(estimate.total)}</div>
+          </div>
+          <div className="p-2 bg-surface-900 rounded-lg">
+            <div className="text-xs text-surface-500">Cost / SF</div>
+            <div className="text-lg font-bold text-white font-mono">${estimate.costPerSf.toFixed(2)}</div>
+          </div>
+        </div>
+
+        {/* Trades */}
+        {estimate.trades.map(trade => (
+          <div key={trade.trade} className="overflow-x-auto">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-white">{trade.name}</h4>
+              <button
+                onClick={() => handleAddAdjustment(trade.trade)}
+                className="text-xs text-primary-400 hover:text-primary-300"
+              >
+                + Add line
+              </button>
+            </div>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-surface-700">
+                  <th className="text-left py-2 px-2 text-surface-400 font-medium">Item</th>
+                  <th className="text-right py-2 px-2 text-surface-400 font-medium">Qty</th>
+                  <th className="text-right py-2 px-2 text-surface-400 font-medium">Unit Cost</th>
+                  <th className="text-right py-2 px-2 text-surface-400 font-medium">Calculated</th>
+                  <th className="text-right py-2 px-2 text-surface-400 font-medium">Budget</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {estimate.lines.filter(line => line.trade === trade.trade).map(line => {
+                  const adjustment = settings.adjustments.find(a => a.id === line.id)
+                  return (
+                    <tr key={line.id} className="border-b border-surface-700/50">
+                      <td className="py-1.5 px-2 text-white">
+                        {adjustment ? (
+                          <input
+                            type="text"
+                            value={adjustment.description}
+                            onChange={(e) => handleAdjustment(line.id, { description: e.target.value })}
+                            className="w-full px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white"
+                          />
+                        ) : line.description}
+                      </td>
+                      <td className="py-1.5 px-2 text-right font-mono text-surface-300">
+                        {line.manual ? '-' : `${line.quantity.toLocaleString()} ${line.unit}`}
+                      </td>
+                      <td className="py-1.5 px-2 text-right font-mono text-surface-300">
+                        {line.manual ? '-' : `$${line.rate.toLocaleString()}`}
+                      </td>
+                      <td className="py-1.5 px-2 text-right font-mono text-surface-500">
+                        {line.manual ? '-' : formatCurrency(line.calculatedCost)}
+                      </td>
+                      <td className="py-1.5 px-2 text-right">
+                        <input
+                          type="number"
+                          step={1000}
+                          value={line.cost}
+                          onChange={(e) => adjustment
+                            ? handleAdjustment(line.id, { amount: Number(e.target.value) })
+                            : handleOverride(line.id, Number(e.target.value))}
+                          className={`w-28 px-2 py-1 bg-surface-900 border rounded text-white text-right font-mono ${
+                            line.overridden ? 'border-amber-500' : 'border-surface-600'
+                          }`}
+                        />
+                      </td>
+                      <td className="py-1.5 px-2 text-right whitespace-nowrap">
+                        {line.overridden && (
+                          <button
+                            onClick={() => handleOverride(line.id, undefined)}
+                            className="text-xs text-amber-400 hover:text-amber-300"
+                          >
+                            Reset
+                          </button>
+                        )}
+                        {adjustment && (
+                          <button
+                            onClick={() => handleUpdate({ adjustments: settings.adjustments.filter(a => a.id !== line.id) })}
+                            className="text-xs text-red-400 hover:text-red-300"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+                <tr>
+                  <td className="py-2 px-2 text-white font-semibold" colSpan={4}>
+                    {COST_TRADE_NAMES[trade.trade]} Subtotal
+                    <span className="text-surface-500 font-normal ml-2">${trade.costPerSf.toFixed(2)}/SF</span>
+                  </td>
+                  <td className="py-2 px-2 text-right font-mono text-white font-semibold">{formatCurrency(trade.cost)}</td>
+                  <td></td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        <p className="text-xs text-surface-500">
+          Budget = quantity × library unit cost × regional multiplier. Edited budgets (amber) replace the calculated cost; added
+          lines are in final dollars. Excludes general conditions, GC fee, escalation and design contingency.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,12 @@
 import { useProjectStore } from '../../store/useProjectStore'
 import { useSettingsStore } from '../../store/useSettingsStore'
-import { standardServiceSizes, getDefaultMechanicalSettings } from '../../data/defaults'
-import { calculateMechanicalKVA } from './MechanicalLoads'
+import { getDefaultMechanicalSettings } from '../../data/defaults'
+import { NEC_240_6_STANDARD_RATINGS } from '../../data/necTables'
+import { UTILITY_TRANSFORMER_KVA, STANDARD_AIC_RATINGS_KA } from '../../data/shortCircuitTables'
+import { DEFAULT_FAULT_CURRENT_SETTINGS } from '../../calculations/faultCurrent'
+import { calculateMechanicalKVA } from '../../calculations/electrical'
 import type { CalculationResults } from '../../types'
+import type { FaultCurrentSettings } from '../../types/electrical'
 
 interface ElectricalServiceSettingsProps {
   results: CalculationResults
@@ -27,6 +31,20 @@ export default function ElectricalServiceSettings({ results, mechanicalKVA: mech
     })
   }
 
+  const faultSettings: FaultCurrentSettings = {
+    ...DEFAULT_FAULT_CURRENT_SETTINGS,
+    ...settings.faultCurrent,
+  }
+
+  const handleFaultUpdate = (updates: Partial<FaultCurrentSettings>) => {
+    updateProject({
+      electricalSettings: {
+        ...settings,
+        faultCurrent: { ...faultSettings, ...updates },
+      }
+    })
+  }
+
   // Get mechanical breakdown for display (same calculation as useCalculations)
   const mechanical = calculateMechanicalKVA(
     results.hvac,
@@ -56,7 +74,10 @@ export default function ElectricalServiceSettings({ results, mechanicalKVA: mech
   const standardAmps = electrical.standardServiceAmps || 0
   const exceedsMax = electrical.exceedsMaxService || false
   
-  const availableSizes = standardServiceSizes[settings.voltage] || standardServiceSizes[208]
+  const necDesignKVA = electrical.nec220 ? electrical.nec220.designVA / 1000 : 0
+  const faultCurrent = electrical.faultCurrent
+  // Service-size ratings from 240.6(A) (100A and up)
+  const availableSizes = NEC_240_6_STANDARD_RATINGS.filter(size => size >= 100)
 
   return (
     <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
@@ -230,8 +251,14 @@ export default function ElectricalServiceSettings({ results, mechanicalKVA: mech
               <span className="text-emerald-400 font-mono font-bold">{finalKVA.toLocaleString()} kVA</span>
             </div>
             
-            {/* Calculated vs Standard Service Size */}
+            {/* Calculated vs Standard Service Size (NEC Article 220) */}
             <div className="border-t border-surface-700 pt-3 mt-3 space-y-2">
+              {electrical.nec220 && (
+                <div className="flex justify-between">
+                  <span className="text-surface-400">NEC 220 Load + Spare:</span>
+                  <span className="text-white font-mono">{Math.round(necDesignKVA).toLocaleString()} kVA</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-surface-400">Calculated Amps:</span>
                 <span className="text-white font-mono">{Math.round(calculatedAmps).toLocaleString()}A</span>
@@ -254,7 +281,7 @@ export default function ElectricalServiceSettings({ results, mechanicalKVA: mech
               </div>
               {exceedsMax && (
                 <div className="mt-2 p-2 bg-red-500/10 border border-red-500/30 rounded text-xs text-red-400">
-                  ⚠️ Exceeds max standard service size for {settings.voltage}V. Consider parallel services or higher voltage.
+                  ⚠️ Exceeds the largest standard rating in NEC 240.6(A) at {settings.voltage}V. Consider parallel services or higher voltage.
                 </div>
               )}
             </div>
@@ -263,7 +290,7 @@ export default function ElectricalServiceSettings({ results, mechanicalKVA: mech
         
         {/* Available Standard Sizes Reference */}
         <div className="text-xs text-surface-500">
-          <span className="font-medium">Standard sizes @ {settings.voltage}V: </span>
+          <span className="font-medium">Standard ratings per NEC 240.6(A): </span>
           {availableSizes.map((size, i) => (
             <span key={size} className={size === standardAmps ? 'text-emerald-400 font-medium' : ''}>
               {size}A{i < availableSizes.length - 1 ? ', ' : ''}
@@ -271,6 +298,147 @@ export default function ElectricalServiceSettings({ results, mechanicalKVA: mech
           ))}
         </div>
         
+        {/* Short-Circuit Study (Point-to-Point) */}
+        {faultCurrent && (
+          <div className="bg-surface-900 rounded-lg p-4 space-y-4">
+            <div>
+              <h4 className="text-sm font-medium text-surface-400">Available Fault Current</h4>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Point-to-point method from the utility transformer through the feeder schedule (NEC 110.9 / 110.24)
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {/* Utility Transformer */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Utility Transformer</label>
+                <select
+                  value={faultSettings.utilityTransformerKVA ?? ''}
+                  onChange={(e) => handleFaultUpdate({
+                    utilityTransformerKVA: e.target.value ? Number(e.target.value) : undefined,
+                  })}
+                  className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white"
+                >
+                  <option value="">Auto ({faultCurrent.utilityTransformerKVA} kVA)</option>
+                  {UTILITY_TRANSFORMER_KVA.map(kva => (
+                    <option key={kva} value={kva}>{kva} kVA</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Utility %Z */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Transformer Impedance</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="1"
+                    max="10"
+                    value={faultSettings.utilityImpedancePercent}
+                    onChange={(e) => handleFaultUpdate({ utilityImpedancePercent: Number(e.target.value) })}
+                    className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white pr-10"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-sm">%Z</span>
+                </div>
+              </div>
+
+              {/* Raceway */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Raceway</label>
+                <select
+                  value={faultSettings.racewayType}
+                  onChange={(e) => handleFaultUpdate({ racewayType: e.target.value as FaultCurrentSettings['racewayType'] })}
+                  className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white"
+                >
+                  <option value="steel">Steel (EMT / RMC)</option>
+                  <option value="nonmagnetic">Non-magnetic (PVC / Al)</option>
+                </select>
+              </div>
+
+              {/* Step-down %Z */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Step-Down Impedance</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="1"
+                    max="10"
+                    value={faultSettings.stepDownImpedancePercent}
+                    onChange={(e) => handleFaultUpdate({ stepDownImpedancePercent: Number(e.target.value) })}
+                    className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white pr-10"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-sm">%Z</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-between text-sm">
+              <span className="text-surface-400">
+                Transformer secondary ({Math.round(faultCurrent.secondaryFLA).toLocaleString()}A FLA, infinite primary):
+              </span>
+              <span className="text-white font-mono">{(faultCurrent.transformerFaultA / 1000).toFixed(1)} kA</span>
+            </div>
+
+            {/* Per-bus results */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-surface-700">
+                    <th className="text-left py-2 px-3 text-surface-400 font-medium">Bus</th>
+                    <th className="text-left py-2 px-3 text-surface-400 font-medium">Fed From</th>
+                    <th className="text-right py-2 px-3 text-surface-400 font-medium">f</th>
+                    <th className="text-right py-2 px-3 text-surface-400 font-medium">Isc</th>
+                    <th className="text-right py-2 px-3 text-surface-400 font-medium">Rating</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {faultCurrent.buses.map(bus => (
+                    <tr key={bus.name} className="border-b border-surface-700/50 align-top">
+                      <td className="py-2 px-3">
+                        <div className="text-white">{bus.name}</div>
+                        <div className="text-xs text-surface-500">{bus.voltage}V {bus.phase}Ø</div>
+                      </td>
+                      <td className="py-2 px-3">
+                        <div className="text-surface-300">{bus.fedFrom}</div>
+                        <div className="text-xs text-surface-500 font-mono">{bus.conductor}{bus.lengthFt > 0 ? ` × ${bus.lengthFt} ft` : ''}</div>
+                      </td>
+                      <td className="py-2 px-3 text-right text-surface-400 font-mono">{bus.fFactor.toFixed(3)}</td>
+                      <td className={`py-2 px-3 text-right font-mono ${bus.adequate ? 'text-emerald-400' : 'text-red-400'}`}>
+                        {(bus.faultCurrentA / 1000).toFixed(1)} kA
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        <select
+                          value={bus.aicRatingKA}
+                          onChange={(e) => handleFaultUpdate({
+                            aicRatingsKA: { ...faultSettings.aicRatingsKA, [bus.name]: Number(e.target.value) },
+                          })}
+                          className={`px-2 py-1 bg-surface-800 border rounded text-white font-mono ${
+                            bus.adequate ? 'border-surface-600' : 'border-red-500/50'
+                          }`}
+                        >
+                          {STANDARD_AIC_RATINGS_KA.map(rating => (
+                            <option key={rating} value={rating}>{rating} kA</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {faultCurrent.warnings.length > 0 && (
+              <div className="p-2 bg-red-500/10 border border-red-500/30 rounded text-xs text-red-400 space-y-1">
+                {faultCurrent.warnings.map((w, i) => (
+                  <div key={i}>⚠️ {w}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Reset to Global Defaults */}
         <div className="flex justify-end">
           <button
@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react'
+import { useProjectStore } from '../../store/useProjectStore'
+import { useSettingsStore } from '../../store/useSettingsStore'
+import { compareElectrificationScenarios } from '../../calculations/electrification'
+import { HVAC_SYSTEM_CONFIGS } from '../../data/defaults'
+import type { ElectrificationScenarioResult } from '../../types/electrification'
+
+function formatCurrency(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString()}`
+}
+
+function formatDelta(value: number | null): string {
+  if (value === null) return '-'
+  if (value === 0) return '—'
+  return `${value > 0 ? '+' : ''}${formatCurrency(value)}`
+}
+
+const ROWS: { label: string; value: (s: ElectrificationScenarioResult) => string }[] = [
+  { label: 'HVAC System', value: s => HVAC_SYSTEM_CONFIGS[s.hvacSystemType].name },
+  { label: 'Heating', value: s => (s.heatingFuelType === 'gas' ? '🔥 Gas' : '⚡ Heat pump') },
+  { label: 'DHW', value: s => (s.dhwHeaterType === 'gas' ? '🔥 Gas' : s.dhwHeatPump ? '⚡ Heat pump' : '⚡ Resistance') },
+  { label: 'Service', value: s => `${s.serviceAmps.toLocaleString()}A @ ${s.serviceVoltage}V` },
+  { label: 'Service kVA', value: s => s.serviceKva.toLocaleString() },
+  { label: 'Gas Load (CFH)', value: s => (s.gasCFH > 0 ? s.gasCFH.toLocaleString() : 'No gas service') },
+  { label: 'Plant Tons', value: s => s.plantTons.toLocaleString() },
+  { label: 'Electricity (kWh/yr)', value: s => s.kwh?.toLocaleString() ?? '-' },
+  { label: 'Gas (therms/yr)', value: s => s.therms?.toLocaleString() ?? '-' },
+  { label: 'Energy Cost ($/yr)', value: s => (s.annualEnergyCost !== null ? formatCurrency(s.annualEnergyCost) : '-') },
+  { label: 'Carbon 2024 (tCO2e)', value: s => s.carbonTco2e?.toLocaleString() ?? '-' },
+  { label: 'Carbon 2030 (tCO2e)', value: s => s.carbonTco2e2030?.toLocaleString() ?? '-' },
+  { label: 'LL97 Penalty 2030 ($/yr)', value: s => (s.ll97Penalty2030 !== null ? formatCurrency(s.ll97Penalty2030) : '-') },
+  { label: 'Plant First Cost', value: s => formatCurrency(s.firstCost) },
+]
+
+export default function ElectrificationComparison() {
+  const { currentProject, zones } = useProjectStore()
+  const { electrical, plumbing, customEquipment, customUnitCosts } = useSettingsStore()
+  const [showCosts, setShowCosts] = useState(false)
+
+  const scenarios = useMemo(
+    () => (currentProject
+      ? compareElectrificationScenarios(currentProject, zones, { electrical, plumbing, customEquipment, customUnitCosts })
+      : []),
+    [currentProject, zones, electrical, plumbing, customEquipment, customUnitCosts]
+  )
+
+  if (!currentProject || scenarios.length === 0) return null
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <span className="text-cyan-400">🔌</span> Electrification Comparison
+          </h3>
+          <p className="text-sm text-surface-400 mt-1">
+            Full calculation run for each plant fuel option - service, gas, plant, energy, carbon and first cost
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCosts(!showCosts)}
+          className="px-3 py-1.5 bg-surface-700 hover:bg-surface-600 text-surface-300 rounded-lg text-xs"
+        >
+          {showCosts ? 'Hide' : 'Show'} cost breakdown
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-surface-700">
+                <th className="text-left py-2 px-2 text-surface-400 font-medium"></th>
+                {scenarios.map(s => (
+                  <th
+                    key={s.id}
+                    className={`text-right py-2 px-2 font-medium ${s.id === 'current' ? 'text-primary-400' : 'text-white'}`}
+                    title={s.description}
+                  >
+                    {s.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map(row => (
+                <tr key={row.label} className="border-b border-surface-700/50">
+                  <td className="py-2 px-2 text-surface-400">{row.label}</td>
+                  {scenarios.map(s => (
+                    <td key={s.id} className="py-2 px-2 text-right font-mono text-surface-300">{row.value(s)}</td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="border-b border-surface-700/50">
+                <td className="py-2 px-2 text-white font-semibold">First Cost Δ</td>
+                {scenarios.map(s => (
+                  <td
+                    key={s.id}
+                    className={`py-2 px-2 text-right font-mono font-semibold ${
+                      s.firstCostDelta > 0 ? 'text-red-400' : s.firstCostDelta < 0 ? 'text-emerald-400' : 'text-surface-300'
+                    }`}
+                  >
+                    {formatDelta(s.firstCostDelta)}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className="py-2 px-2 text-white font-semibold">Energy Cost Δ ($/yr)</td>
+                {scenarios.map(s => (
+                  <td
+                    key={s.id}
+                    className={`py-2 px-2 text-right font-mono font-semibold ${
+                      (s.annualCostDelta ?? 0) > 0 ? 'text-red-400' : (s.annualCostDelta ?? 0) < 0 ? 'text-emerald-400' : 'text-surface-300'
+                    }`}
+                  >
+                    {formatDelta(s.annualCostDelta)}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {showCosts && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {scenarios.map(s => (
+              <div key={s.id} className="p-3 bg-surface-900 rounded-lg text-xs">
+                <div className="text-white font-medium mb-2">{s.name}</div>
+                {s.costItems.map(item => (
+                  <div key={item.id} className="flex justify-between gap-2 py-0.5">
+                    <span className="text-surface-400">{item.name}</span>
+                    <span className="font-mono text-surface-300">{formatCurrency(item.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-surface-500">
+          Heat pump scenarios switch resistance-heat systems to VRF; gas heat switches heat-pump-only systems to RTUs. All-electric
+          scenarios convert gas line items to electric equipment (pool heaters as heat pumps). Energy and carbon need an ASHRAE location;
+          carbon uses the LL97 coefficients. First costs are each scenario's conceptual cost estimate from the unit-cost library and
+          regional multiplier - compare the deltas, not the totals.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import { HVAC_SYSTEM_CONFIGS } from '../../data/defaults'
+import EquipmentScheduleTable from '../shared/EquipmentScheduleTable'
+import type { CalculationResults } from '../../types'
+
+interface EquipmentScheduleProps {
+  results: CalculationResults
+}
+
+export default function EquipmentSchedule({ results }: EquipmentScheduleProps) {
+  const { currentProject, updateMechanicalSettings } = useProjectStore()
+  const schedule = results.hvac.equipmentSchedule
+
+  if (!currentProject || !schedule) return null
+
+  const settings = currentProject.mechanicalSettings
+  const systemName = HVAC_SYSTEM_CONFIGS[settings.hvacSystemType || 'vrf_erv'].name
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <span className="text-cyan-400">🧰</span> Mechanical Equipment Schedule
+          </h3>
+          <p className="text-sm text-surface-400 mt-1">
+            {systemName} - units auto-selected from the equipment catalog (Settings → Equipment Catalog)
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-surface-300 mt-1">
+          <input
+            type="checkbox"
+            checked={settings.equipmentScheduleLoads ?? true}
+            onChange={(e) => updateMechanicalSettings({ equipmentScheduleLoads: e.target.checked })}
+            className="w-4 h-4 rounded accent-cyan-500"
+          />
+          Electrical from schedule MCA
+        </label>
+      </div>
+
+      <div className="p-6 space-y-3">
+        <EquipmentScheduleTable schedule={schedule} />
+        {schedule.warnings.map((w, i) => (
+          <div key={i} className="text-xs text-amber-400">⚠️ {w}</div>
+        ))}
+        <p className="text-xs text-surface-500">
+          Connected kVA is on nameplate MCA. With the schedule on, it replaces the kVA/ton, kVA/(lb/hr) and outdoor air fan
+          factors in Mechanical Equipment Loads for the units it covers.
+        </p>
+      </div>
+    </div>
+  )
+}
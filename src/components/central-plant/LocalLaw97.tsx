@@ -0,0 +1,228 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import { DEFAULT_LL97_SETTINGS } from '../../calculations/ll97'
+import { LL97_OCCUPANCY_NAMES, LL97_PENALTY_PER_TCO2E, LL97_COVERED_MIN_SF } from '../../data/ll97'
+import type { CalculationResults } from '../../types'
+import type { LL97OccupancyGroup, LL97Settings } from '../../types/emissions'
+
+interface LocalLaw97Props {
+  results: CalculationResults
+}
+
+function formatCurrency(value: number): string {
+  return `$${value.toLocaleString()}`
+}
+
+export default function LocalLaw97({ results }: LocalLaw97Props) {
+  const { currentProject, updateMechanicalSettings } = useProjectStore()
+
+  if (!currentProject) return null
+
+  const emissions = results.emissions
+  const settings: LL97Settings = {
+    ...DEFAULT_LL97_SETTINGS,
+    ...currentProject.mechanicalSettings.ll97,
+  }
+
+  const handleUpdate = (updates: Partial<LL97Settings>) => {
+    updateMechanicalSettings({ ll97: { ...settings, ...updates } })
+  }
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="text-emerald-400">🏙️</span> NYC Local Law 97 Emissions
+        </h3>
+        <p className="text-sm text-surface-400 mt-1">
+          Carbon emissions vs. occupancy-weighted limits with projected penalties at ${LL97_PENALTY_PER_TCO2E}/tCO2e
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Inputs */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+          <div>
+            <label className="block text-xs text-surface-400 mb-1">Energy Source</label>
+            <div className="grid grid-cols-2 gap-1">
+              {(['estimate', 'manual'] as const).map(source => (
+                <button
+                  key={source}
+                  onClick={() => handleUpdate({ energySource: source })}
+                  className={`py-1.5 px-2 rounded text-xs font-medium transition-colors ${
+                    settings.energySource === source
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                  }`}
+                >
+                  {source === 'estimate' ? 'Estimate' : 'Utility Data'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-surface-400 mb-1">Annual Electricity</label>
+            <div className="relative">
+              <input
+                type="number"
+                min="0"
+                step={1000}
+                value={settings.energySource === 'manual' ? settings.manualKwh : emissions?.kwh ?? 0}
+                disabled={settings.energySource !== 'manual'}
+                onChange={(e) => handleUpdate({ manualKwh: Number(e.target.value) })}
+                className="w-full px-2 py-1.5 bg-surface-900 border border-surface-600 rounded text-white pr-12 disabled:text-surface-400"
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-surface-400 text-xs">kWh</span>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-surface-400 mb-1">Annual Natural Gas</label>
+            <div className="relative">
+              <input
+                type="number"
+                min="0"
+                step={100}
+                value={settings.energySource === 'manual' ? settings.manualTherms : emissions?.therms ?? 0}
+                disabled={settings.energySource !== 'manual'}
+                onChange={(e) => handleUpdate({ manualTherms: Number(e.target.value) })}
+                className="w-full px-2 py-1.5 bg-surface-900 border border-surface-600 rounded text-white pr-14 disabled:text-surface-400"
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-surface-400 text-xs">therms</span>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-surface-400 mb-1">Primary Occupancy</label>
+            <select
+              value={settings.primaryOccupancy}
+              onChange={(e) => handleUpdate({ primaryOccupancy: e.target.value as LL97OccupancyGroup })}
+              className="w-full px-2 py-1.5 bg-surface-900 border border-surface-600 rounded text-white"
+            >
+              {(Object.keys(LL97_OCCUPANCY_NAMES) as LL97OccupancyGroup[]).map(group => (
+                <option key={group} value={group}>{LL97_OCCUPANCY_NAMES[group]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {!emissions ? (
+          <p className="text-sm text-amber-400">⚠️ No covered floor area - add indoor zones to project emissions limits.</p>
+        ) : (
+          <>
+            {!emissions.covered && (
+              <p className="text-sm text-amber-400">
+                ⚠️ {emissions.coveredSf.toLocaleString()} SF is at or below the {LL97_COVERED_MIN_SF.toLocaleString()} SF threshold (§28-320.1) -
+                the building is not covered by LL97 and no penalties apply.
+              </p>
+            )}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Occupancy Areas */}
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-surface-700">
+                      <th className="text-left py-2 px-2 text-surface-400 font-medium">Occupancy</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Gross SF</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {emissions.areas.map(a => (
+                      <tr key={a.group} className="border-b border-surface-700/50">
+                        <td className="py-2 px-2 text-white">{LL97_OCCUPANCY_NAMES[a.group]}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{a.sf.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="py-2 px-2 text-white font-semibold">Covered Area</td>
+                      <td className="py-2 px-2 text-right font-mono text-white font-semibold">{emissions.coveredSf.toLocaleString()}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Compliance Periods */}
+              <div className="overflow-x-auto lg:col-span-2">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-surface-700">
+                      <th className="text-left py-2 px-2 text-surface-400 font-medium">Period</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Limit (tCO2e)</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Electric</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Gas</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Emissions</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Excess</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Penalty/yr</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {emissions.periods.map(p => (
+                      <tr key={p.period} className="border-b border-surface-700/50">
+                        <td className="py-2 px-2 text-white">{p.label}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{p.limitTco2e.toLocaleString()}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{p.electricTco2e.toLocaleString()}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{p.gasTco2e.toLocaleString()}</td>
+                        <td className="py-2 px-2 text-right font-mono text-white">{p.emissionsTco2e.toLocaleString()}</td>
+                        <td className={`py-2 px-2 text-right font-mono ${p.excessTco2e > 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                          {p.excessTco2e > 0 ? p.excessTco2e.toLocaleString() : '✓'}
+                        </td>
+                        <td className={`py-2 px-2 text-right font-mono ${p.penalty > 0 ? 'text-red-400' : 'text-surface-300'}`}>
+                          {formatCurrency(p.penalty)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Fuel Scenarios */}
+            {emissions.scenarios.length > 0 && (
+              <div className="overflow-x-auto">
+                <h4 className="text-sm font-medium text-surface-300 mb-2">Fuel Scenarios (energy estimate)</h4>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-surface-700">
+                      <th className="text-left py-2 px-2 text-surface-400 font-medium">Scenario</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">kWh</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Therms</th>
+                      <th className="text-right py-2 px-2 text-surface-400 font-medium">Utility Cost</th>
+                      {emissions.periods.map(p => (
+                        <th key={p.period} className="text-right py-2 px-2 text-surface-400 font-medium">
+                          Penalty {p.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {emissions.scenarios.map(s => (
+                      <tr key={s.id} className={`border-b border-surface-700/50 ${s.current ? 'bg-primary-600/10' : ''}`}>
+                        <td className="py-2 px-2 text-white">
+                          {s.name}
+                          {s.current && <span className="ml-2 text-primary-400">(current)</span>}
+                        </td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{s.kwh.toLocaleString()}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{s.therms.toLocaleString()}</td>
+                        <td className="py-2 px-2 text-right font-mono text-surface-300">{formatCurrency(s.annualCost)}</td>
+                        {s.periods.map(p => (
+                          <td
+                            key={p.period}
+                            className={`py-2 px-2 text-right font-mono ${p.penalty > 0 ? 'text-red-400' : 'text-emerald-400'}`}
+                          >
+                            {formatCurrency(p.penalty)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <p className="text-xs text-surface-500">
+              Limits are the sum of gross SF × occupancy group limit; outdoor pool and terrace zones are excluded. 2030+ electricity
+              uses the reduced grid coefficient. 2035+ limits are not yet set by rule and are projected at 40% of the 2030–2034 limits.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
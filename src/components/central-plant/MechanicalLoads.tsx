@@ -1,6 +1,7 @@
 import { useProjectStore } from '../../store/useProjectStore'
 import type { CalculationResults, MechanicalElectricalSettings, HVACSystemType } from '../../types'
 import { gasHeatingEfficiencyPresets, HVAC_SYSTEM_CONFIGS, getHVACSystemConfig } from '../../data/defaults'
+import { getScheduleElectricalLoads } from '../../calculations/equipmentSelection'
 
 interface MechanicalLoadsProps {
   results: CalculationResults
@@ -33,11 +34,14 @@ export default function MechanicalLoads({ results }: MechanicalLoadsProps) {
   const isGasHeating = heatingFuelType === 'gas'
   const gasHeatingEfficiency = settings.gasHeatingEfficiency ?? 0.90
   
+  // Equipment schedule units replace the cooling / dehumid / outdoor air fan factors
+  const scheduleLoads = getScheduleElectricalLoads(hvac, settings)
+  
   // Calculate kVA for each load type
   // For cooling, subtract pool chiller from total (tracked separately)
   const spaceCoolingTons = hvac.totalTons - hvac.poolChillerTons
   const coolingKVA = settings.includeChiller 
-    ? spaceCoolingTons * settings.coolingKvaPerTon 
+    ? (scheduleLoads.coolingKVA ?? spaceCoolingTons * settings.coolingKvaPerTon) + scheduleLoads.ahuFanKVA
     : 0
     
   // For heating, apply the electric heating percentage (most heating via heat pumps/energy recovery)
@@ -59,7 +63,7 @@ export default function MechanicalLoads({ results }: MechanicalLoadsProps) {
     
   // Dehumidification - from line items (summed in hvac calculation)
   const dehumidKVA = settings.includeDehumid
-    ? hvac.dehumidLbHr * settings.dehumidKvaPerLbHr
+    ? scheduleLoads.dehumidKVA ?? hvac.dehumidLbHr * settings.dehumidKvaPerLbHr
     : 0
     
   // DHW electric (only if DHW is electric)
@@ -68,10 +72,10 @@ export default function MechanicalLoads({ results }: MechanicalLoadsProps) {
     : 0
   
   // Fan power for ventilation and exhaust
-  const totalCFM = hvac.totalVentCFM + hvac.totalExhaustCFM
+  const totalCFM = scheduleLoads.fanCFM
   const fanHpPer1000Cfm = settings.fanHpPer1000Cfm ?? 0.6
   const fanHP = (totalCFM / 1000) * fanHpPer1000Cfm
-  const fanKVA = fanHP * 0.746 / currentProject.electricalSettings.powerFactor // HP to kW to kVA
+  const fanKVA = fanHP * 0.746 / currentProject.electricalSettings.powerFactor + scheduleLoads.doasKVA // HP to kW to kVA
   const fanKVAIncluded = (settings.includeFans ?? true) ? fanKVA : 0
     
   // Total mechanical kVA
@@ -194,7 +198,16 @@ export default function MechanicalLoads({ results }: MechanicalLoadsProps) {
                     className="w-4 h-4 rounded accent-cyan-500"
                   />
                 </td>
-                <td className="py-3 px-2 text-white">Space Cooling (Chiller)</td>
+                <td className="py-3 px-2">
+                  <div className="text-white">Space Cooling (Chiller)</div>
+                  {(scheduleLoads.coolingKVA !== null || scheduleLoads.ahuFanKVA > 0) && (
+                    <div className="text-xs text-surface-500 mt-0.5">
+                      {scheduleLoads.coolingKVA !== null
+                        ? `RTUs from equipment schedule: ${scheduleLoads.coolingKVA.toFixed(1)} kVA`
+                        : `+ AHU fans from equipment schedule: ${scheduleLoads.ahuFanKVA.toFixed(1)} kVA`}
+                    </div>
+                  )}
+                </td>
                 <td className="py-3 px-2 text-right text-surface-300 font-mono">
                   {spaceCoolingTons.toFixed(1)} tons
                 </td>
@@ -377,7 +390,12 @@ export default function MechanicalLoads({ results }: MechanicalLoadsProps) {
                     className="w-4 h-4 rounded accent-cyan-500"
                   />
                 </td>
-                <td className="py-3 px-2 text-white">Dehumidification</td>
+                <td className="py-3 px-2">
+                  <div className="text-white">Dehumidification</div>
+                  {scheduleLoads.dehumidKVA !== null && (
+                    <div className="text-xs text-surface-500 mt-0.5">From equipment schedule</div>
+                  )}
+                </td>
                 <td className="py-3 px-2 text-right text-surface-300 font-mono">
                   {hvac.dehumidLbHr.toFixed(0)} lb/hr
                 </td>
@@ -445,7 +463,10 @@ export default function MechanicalLoads({ results }: MechanicalLoadsProps) {
                 <td className="py-3 px-2">
                   <div className="text-white">Fan Power (Ventilation + Exhaust)</div>
                   <div className="text-xs text-surface-500 mt-0.5">
-                    {hvac.totalVentCFM.toLocaleString()} + {hvac.totalExhaustCFM.toLocaleString()} = {totalCFM.toLocaleString()} CFM
+                    {scheduleLoads.schedule?.coversVentilation
+                      ? `${hvac.totalExhaustCFM.toLocaleString()} CFM exhaust (outdoor air in scheduled units)`
+                      : `${hvac.totalVentCFM.toLocaleString()} + ${hvac.totalExhaustCFM.toLocaleString()} = ${totalCFM.toLocaleString()} CFM`}
+                    {scheduleLoads.doasKVA > 0 && ` + DOAS ${scheduleLoads.doasKVA.toFixed(1)} kVA`}
                   </div>
                 </td>
                 <td className="py-3 px-2 text-right text-surface-300 font-mono">
@@ -592,87 +613,3 @@ export default function MechanicalLoads({ results }: MechanicalLoadsProps) {
     </div>
   )
 }
-
-// Gas heating result for adding to gas totals
-export interface GasHeatingResult {
-  isGasHeating: boolean
-  inputMBH: number        // Heating load in MBH
-  consumedMBH: number     // Gas consumed (input / efficiency)
-  consumedCFH: number     // Gas consumed in CFH (≈ MBH for natural gas)
-  efficiency: number
-}
-
-// Export the calculation function so ElectricalServiceSettings can use it
-export function calculateMechanicalKVA(
-  hvac: CalculationResults['hvac'],
-  dhw: CalculationResults['dhw'],
-  settings: MechanicalElectricalSettings,
-  dhwHeaterType: 'electric' | 'gas',
-  powerFactor: number,
-  _electricPrimary: boolean // Prefixed with _ to indicate intentionally unused
-): { total: number; breakdown: { name: string; kva: number }[]; gasHeating: GasHeatingResult } {
-  const breakdown: { name: string; kva: number }[] = []
-  
-  // Determine if using gas heating
-  const heatingFuelType = settings.heatingFuelType ?? 'electric'
-  const isGasHeating = heatingFuelType === 'gas'
-  const gasHeatingEfficiency = settings.gasHeatingEfficiency ?? 0.90
-  
-  // Space cooling (total minus pool chiller)
-  if (settings.includeChiller) {
-    const spaceCoolingTons = hvac.totalTons - (hvac.poolChillerTons || 0)
-    const kva = spaceCoolingTons * settings.coolingKvaPerTon
-    breakdown.push({ name: 'Space Cooling', kva })
-  }
-  
-  // Supplemental electric heating (percentage of total heating) - ONLY if electric
-  if (settings.includeHeating && !isGasHeating) {
-    const heatingElectricPercent = settings.heatingElectricPercent ?? 0.15
-    const heatingElectricMBH = hvac.totalMBH * heatingElectricPercent
-    const kva = heatingElectricMBH * settings.heatingKvaPerMbh
-    breakdown.push({ name: `Electric Heating (${Math.round(heatingElectricPercent * 100)}%)`, kva })
-  }
-  
-  // Pool chiller (tracked separately from space cooling)
-  if (settings.includePoolChiller && hvac.poolChillerTons > 0) {
-    const kva = hvac.poolChillerTons * settings.poolChillerKvaPerTon
-    breakdown.push({ name: 'Pool Chiller', kva })
-  }
-  
-  if (settings.includeDehumid && hvac.dehumidLbHr > 0) {
-    const kva = hvac.dehumidLbHr * settings.dehumidKvaPerLbHr
-    breakdown.push({ name: 'Dehumidification', kva })
-  }
-  
-  if (settings.includeDhw && dhwHeaterType === 'electric') {
-    const kva = dhw.electricKW / powerFactor
-    breakdown.push({ name: 'DHW Electric', kva })
-  }
-  
-  // Fan power for ventilation and exhaust
-  if (settings.includeFans ?? true) {
-    const totalCFM = hvac.totalVentCFM + hvac.totalExhaustCFM
-    const fanHpPer1000Cfm = settings.fanHpPer1000Cfm ?? 0.6
-    const fanHP = (totalCFM / 1000) * fanHpPer1000Cfm
-    const kva = fanHP * 0.746 / powerFactor // HP to kW to kVA
-    if (kva > 0) {
-      breakdown.push({ name: 'Fan Power', kva })
-    }
-  }
-
-  const total = breakdown.reduce((sum, item) => sum + item.kva, 0)
-  
-  // Calculate gas heating consumption
-  const gasHeatingInputMBH = isGasHeating ? hvac.totalMBH : 0
-  const gasHeatingConsumedMBH = isGasHeating ? Math.round(gasHeatingInputMBH / gasHeatingEfficiency) : 0
-  
-  const gasHeating: GasHeatingResult = {
-    isGasHeating,
-    inputMBH: gasHeatingInputMBH,
-    consumedMBH: gasHeatingConsumedMBH,
-    consumedCFH: gasHeatingConsumedMBH, // For natural gas, CFH ≈ MBH
-    efficiency: gasHeatingEfficiency,
-  }
-  
-  return { total, breakdown, gasHeating }
-}
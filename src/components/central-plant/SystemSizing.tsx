@@ -1,5 +1,9 @@
-import type { CalculationResults } from '../../types'
+import type { CalculationResults, HVACLoadMethod, ResidentialVentilationSettings } from '../../types'
+import type { GeneratorSizingSettings } from '../../types/electrical'
 import { useProjectStore } from '../../store/useProjectStore'
+import { DEFAULT_GENERATOR_SIZING_SETTINGS } from '../../calculations/generator'
+import { DEFAULT_RESIDENTIAL_VENTILATION_SETTINGS } from '../../calculations/residentialVentilation'
+import { GENERATOR_LOAD_CLASSES, MOTOR_STARTING_FACTORS } from '../../data/generatorTables'
 
 interface SystemSizingProps {
   results: CalculationResults
@@ -12,6 +16,36 @@ export default function SystemSizing({ results }: SystemSizingProps) {
 
   const { electrical, hvac, gas, plumbing } = results
   const totalSF = zones.reduce((sum, z) => sum + z.sf, 0)
+  const generator = electrical.generator
+  const residentialVentilation = hvac.residentialVentilation
+
+  const generatorSettings: GeneratorSizingSettings = {
+    ...DEFAULT_GENERATOR_SIZING_SETTINGS,
+    ...currentProject.electricalSettings.generator,
+  }
+
+  const handleGeneratorUpdate = (updates: Partial<GeneratorSizingSettings>) => {
+    updateProject({
+      electricalSettings: {
+        ...currentProject.electricalSettings,
+        generator: { ...generatorSettings, ...updates },
+      }
+    })
+  }
+
+  const residentialSettings: ResidentialVentilationSettings = {
+    ...DEFAULT_RESIDENTIAL_VENTILATION_SETTINGS,
+    ...currentProject.mechanicalSettings.residentialVentilation,
+  }
+
+  const handleResidentialUpdate = (updates: Partial<ResidentialVentilationSettings>) => {
+    updateProject({
+      mechanicalSettings: {
+        ...currentProject.mechanicalSettings,
+        residentialVentilation: { ...residentialSettings, ...updates },
+      }
+    })
+  }
 
   return (
     <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
@@ -85,6 +119,28 @@ export default function SystemSizing({ results }: SystemSizingProps) {
               </div>
               <h4 className="font-medium text-white">HVAC</h4>
             </div>
+            <select
+              value={currentProject.mechanicalSettings.hvacLoadMethod ?? 'rule_of_thumb'}
+              onChange={(e) => updateProject({
+                mechanicalSettings: {
+                  ...currentProject.mechanicalSettings,
+                  hvacLoadMethod: e.target.value as HVACLoadMethod,
+                }
+              })}
+              className="w-full mb-3 px-2 py-1 bg-surface-800 border border-surface-600 rounded text-white text-xs"
+            >
+              <option value="rule_of_thumb">Rule of thumb (SF/Ton, BTU/SF)</option>
+              <option value="envelope">Envelope (CLTD/SCL/CLF)</option>
+            </select>
+            {hvac.envelope && (
+              <p className="text-xs text-surface-500 mb-3">
+                {hvac.envelope.design.locationName} {hvac.envelope.design.coolingDb}°F / {hvac.envelope.design.heatingDb}°F
+                {hvac.envelope.ruleOfThumbZones > 0 && ` - ${hvac.envelope.ruleOfThumbZones} zone(s) without envelope on SF/Ton`}
+              </p>
+            )}
+            {currentProject.mechanicalSettings.hvacLoadMethod === 'envelope' && !hvac.envelope && (
+              <p className="text-xs text-amber-400 mb-3">No ASHRAE location on the project - using rules of thumb</p>
+            )}
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span className="text-surface-400">Space Cooling:</span>
@@ -195,6 +251,295 @@ export default function SystemSizing({ results }: SystemSizingProps) {
             </div>
           </div>
         </div>
+
+        {/* Emergency / Standby Generator */}
+        {generator && (
+          <div className="mt-4 bg-surface-900 rounded-lg p-4 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-8 rounded-lg bg-red-500/10 flex items-center justify-center">
+                  <svg className="w-4 h-4 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />
+                  </svg>
+                </div>
+                <div>
+                  <h4 className="font-medium text-white">Emergency / Standby Generator</h4>
+                  <p className="text-xs text-surface-500">NEC 700 / 701 / 702 loads from zones flagged for standby power and life-safety line items</p>
+                </div>
+              </div>
+              <div className="text-right">
+                {generator.recommendedKW > 0 ? (
+                  <>
+                    <div className="text-xl font-bold text-red-400 font-mono">{generator.recommendedKW} kW</div>
+                    <div className="text-xs text-surface-500">
+                      {Math.round(generator.recommendedKVA)} kVA @ 0.8 PF • sized by {generator.sizedBy === 'starting' ? 'motor starting' : 'running load'}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-sm text-surface-400">No standby loads</div>
+                )}
+              </div>
+            </div>
+
+            {/* Options */}
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3 text-sm">
+              <div>
+                <label className="block text-xs text-surface-400 mb-1">Fuel</label>
+                <select
+                  value={generatorSettings.fuelType}
+                  onChange={(e) => handleGeneratorUpdate({ fuelType: e.target.value as GeneratorSizingSettings['fuelType'] })}
+                  className="w-full px-2 py-1.5 bg-surface-800 border border-surface-600 rounded text-white"
+                >
+                  <option value="diesel">Diesel</option>
+                  <option value="natural_gas">Natural Gas</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-surface-400 mb-1">Target Runtime</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min="2"
+                    step="1"
+                    value={generatorSettings.targetRuntimeHours}
+                    disabled={generatorSettings.fuelType !== 'diesel'}
+                    onChange={(e) => handleGeneratorUpdate({ targetRuntimeHours: Number(e.target.value) })}
+                    className="w-full px-2 py-1.5 bg-surface-800 border border-surface-600 rounded text-white pr-8 disabled:opacity-50"
+                  />
+                  <span className="absolute right-2 top-1/2 -translate-y-1/2 text-surface-400 text-xs">hr</span>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-surface-400 mb-1">Motor Starting</label>
+                <select
+                  value={generatorSettings.motorStarting}
+                  onChange={(e) => handleGeneratorUpdate({ motorStarting: e.target.value as GeneratorSizingSettings['motorStarting'] })}
+                  className="w-full px-2 py-1.5 bg-surface-800 border border-surface-600 rounded text-white"
+                >
+                  {(Object.keys(MOTOR_STARTING_FACTORS) as GeneratorSizingSettings['motorStarting'][]).map(method => (
+                    <option key={method} value={method}>{MOTOR_STARTING_FACTORS[method].name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-surface-400 mb-1">Max Voltage Dip</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min="10"
+                    max="40"
+                    step="5"
+                    value={generatorSettings.maxVoltageDipPercent}
+                    onChange={(e) => handleGeneratorUpdate({ maxVoltageDipPercent: Number(e.target.value) })}
+                    className="w-full px-2 py-1.5 bg-surface-800 border border-surface-600 rounded text-white pr-7"
+                  />
+                  <span className="absolute right-2 top-1/2 -translate-y-1/2 text-surface-400 text-xs">%</span>
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-surface-300 mt-5">
+                <input
+                  type="checkbox"
+                  checked={generatorSettings.includeOptionalStandby}
+                  onChange={(e) => handleGeneratorUpdate({ includeOptionalStandby: e.target.checked })}
+                  className="accent-red-500"
+                />
+                Include optional standby
+              </label>
+              <label className="flex items-center gap-2 text-xs text-surface-300 mt-5">
+                <input
+                  type="checkbox"
+                  checked={generatorSettings.egressOnGenerator}
+                  onChange={(e) => handleGeneratorUpdate({ egressOnGenerator: e.target.checked })}
+                  className="accent-red-500"
+                />
+                Egress & fire alarm on generator
+              </label>
+            </div>
+
+            {/* Load summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              {(Object.keys(GENERATOR_LOAD_CLASSES) as (keyof typeof GENERATOR_LOAD_CLASSES)[]).map(loadClass => (
+                <div key={loadClass} className="flex justify-between">
+                  <span className="text-surface-400">{GENERATOR_LOAD_CLASSES[loadClass].name}:</span>
+                  <span className="text-surface-300 font-mono">{generator.kwByClass[loadClass].toFixed(1)} kW</span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span className="text-surface-400">Fuel:</span>
+                <span className="text-surface-300 font-mono">
+                  {generator.fuelType === 'diesel'
+                    ? `${generator.fuelPerHour.toFixed(1)} gal/hr`
+                    : `${Math.round(generator.fuelPerHour).toLocaleString()} CFH`}
+                </span>
+              </div>
+              {generator.tankGallons !== null && generator.runtimeHours !== null && (
+                <div className="flex justify-between">
+                  <span className="text-surface-400">Tank:</span>
+                  <span className="text-surface-300 font-mono">
+                    {generator.tankGallons.toLocaleString()} gal ({generator.runtimeHours.toFixed(1)} hr)
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {/* Step loading */}
+            {generator.steps.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-surface-700">
+                      <th className="text-left py-1.5 px-2 text-surface-400 font-medium">Step</th>
+                      <th className="text-left py-1.5 px-2 text-surface-400 font-medium">Loads</th>
+                      <th className="text-right py-1.5 px-2 text-surface-400 font-medium">Running</th>
+                      <th className="text-right py-1.5 px-2 text-surface-400 font-medium">Starting</th>
+                      <th className="text-right py-1.5 px-2 text-surface-400 font-medium">Cumulative</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {generator.steps.map(step => (
+                      <tr key={step.step} className="border-b border-surface-700/50">
+                        <td className="py-1.5 px-2 text-surface-300 font-mono">{step.step}</td>
+                        <td className="py-1.5 px-2 text-surface-300">{step.description}</td>
+                        <td className="py-1.5 px-2 text-right text-surface-300 font-mono">{step.loadKW.toFixed(1)} kW</td>
+                        <td className={`py-1.5 px-2 text-right font-mono ${
+                          step.startingKVA === generator.largestStepKVA ? 'text-red-400' : 'text-surface-300'
+                        }`}>
+                          {step.startingKVA.toFixed(1)} kVA
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-surface-300 font-mono">{step.cumulativeKW.toFixed(1)} kW</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {generator.warnings.map((w, i) => (
+              <div key={i} className="text-xs text-amber-400">⚠️ {w}</div>
+            ))}
+          </div>
+        )}
+
+        {/* ASHRAE 62.2 Residential Ventilation */}
+        {residentialVentilation && (
+          <div className="mt-4 bg-surface-900 rounded-lg p-4 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-8 rounded-lg bg-emerald-500/10 flex items-center justify-center">
+                  <svg className="w-4 h-4 text-emerald-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+                  </svg>
+                </div>
+                <div>
+                  <h4 className="font-medium text-white">Residential Ventilation (ASHRAE 62.2)</h4>
+                  <p className="text-xs text-surface-500">Whole-dwelling Qtot = 0.03 × CFA + 7.5 × (Nbr + 1) less infiltration credit, plus kitchen / bath local exhaust</p>
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-xl font-bold text-emerald-400 font-mono">{residentialVentilation.totalQfanCfm.toLocaleString()} CFM</div>
+                <div className="text-xs text-surface-500">
+                  continuous whole-dwelling • {residentialVentilation.dwellings.length} unit(s)
+                </div>
+              </div>
+            </div>
+
+            {/* Options */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+              <div>
+                <label className="block text-xs text-surface-400 mb-1">Envelope Leakage</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={residentialSettings.ach50}
+                    onChange={(e) => handleResidentialUpdate({ ach50: Number(e.target.value) })}
+                    className="w-full px-2 py-1.5 bg-surface-800 border border-surface-600 rounded text-white pr-14"
+                  />
+                  <span className="absolute right-2 top-1/2 -translate-y-1/2 text-surface-400 text-xs">ACH50</span>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-surface-400 mb-1">Weather / Shielding (wsf)</label>
+                <input
+                  type="number"
+                  min="0.1"
+                  max="1"
+                  step="0.05"
+                  value={residentialSettings.weatherShieldingFactor}
+                  onChange={(e) => handleResidentialUpdate({ weatherShieldingFactor: Number(e.target.value) })}
+                  className="w-full px-2 py-1.5 bg-surface-800 border border-surface-600 rounded text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-surface-400 mb-1">Exterior Envelope (Aext)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={residentialSettings.exteriorEnvelopeFraction}
+                  onChange={(e) => handleResidentialUpdate({ exteriorEnvelopeFraction: Number(e.target.value) })}
+                  className="w-full px-2 py-1.5 bg-surface-800 border border-surface-600 rounded text-white"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-xs text-surface-300 mt-5">
+                <input
+                  type="checkbox"
+                  checked={residentialSettings.infiltrationCredit}
+                  onChange={(e) => handleResidentialUpdate({ infiltrationCredit: e.target.checked })}
+                  className="accent-emerald-500"
+                />
+                Infiltration credit
+              </label>
+              <label className="flex items-center gap-2 text-xs text-surface-300 mt-5">
+                <input
+                  type="checkbox"
+                  checked={residentialSettings.balanced}
+                  onChange={(e) => handleResidentialUpdate({ balanced: e.target.checked })}
+                  className="accent-emerald-500"
+                />
+                Balanced (ERV / HRV)
+              </label>
+            </div>
+
+            {/* Dwelling units */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-surface-700">
+                    <th className="text-left py-1.5 px-2 text-surface-400 font-medium">Dwelling Unit</th>
+                    <th className="text-right py-1.5 px-2 text-surface-400 font-medium">CFA</th>
+                    <th className="text-right py-1.5 px-2 text-surface-400 font-medium">Bedrooms</th>
+                    <th className="text-right py-1.5 px-2 text-surface-400 font-medium">Qtot</th>
+                    <th className="text-right py-1.5 px-2 text-surface-400 font-medium">Qinf Credit</th>
+                    <th className="text-right py-1.5 px-2 text-surface-400 font-medium">Qfan</th>
+                    <th className="text-right py-1.5 px-2 text-surface-400 font-medium">Demand Exhaust</th>
+                    <th className="text-right py-1.5 px-2 text-surface-400 font-medium">Continuous Exhaust</th>
+                    <th className="text-right py-1.5 px-2 text-surface-400 font-medium">ERV</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {residentialVentilation.dwellings.map(d => (
+                    <tr key={d.name} className="border-b border-surface-700/50">
+                      <td className="py-1.5 px-2 text-surface-300">{d.name}</td>
+                      <td className="py-1.5 px-2 text-right text-surface-300 font-mono">{d.floorAreaSf.toLocaleString()} SF</td>
+                      <td className="py-1.5 px-2 text-right text-surface-300 font-mono">{d.bedrooms}</td>
+                      <td className="py-1.5 px-2 text-right text-surface-300 font-mono">{d.qtotCfm} CFM</td>
+                      <td className="py-1.5 px-2 text-right text-surface-400 font-mono">-{d.infiltrationCreditCfm} CFM</td>
+                      <td className="py-1.5 px-2 text-right text-emerald-400 font-mono">{d.qfanCfm} CFM</td>
+                      <td className="py-1.5 px-2 text-right text-surface-300 font-mono">{d.intermittentExhaustCfm} CFM</td>
+                      <td className="py-1.5 px-2 text-right text-surface-300 font-mono">{d.continuousExhaustCfm} CFM</td>
+                      <td className="py-1.5 px-2 text-right text-white font-mono">
+                        {d.ervCount > 1 ? `${d.ervCount} × ` : ''}{d.ervCfm} CFM
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,142 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import { calculateEVCharging, DEFAULT_EV_CHARGING_SETTINGS } from '../../calculations/evCharging'
+import { EV_CHARGER_LEVELS } from '../../data/evChargerTables'
+import type { EVChargerLevel, EVChargingSettings } from '../../types/electrical'
+
+export default function EVCharging() {
+  const { currentProject, updateProject } = useProjectStore()
+
+  if (!currentProject) return null
+
+  const settings: EVChargingSettings = {
+    ...DEFAULT_EV_CHARGING_SETTINGS,
+    ...currentProject.electricalSettings.evCharging,
+  }
+  const result = calculateEVCharging(settings)
+
+  const handleUpdate = (updates: Partial<EVChargingSettings>) => {
+    updateProject({
+      electricalSettings: {
+        ...currentProject.electricalSettings,
+        evCharging: { ...settings, ...updates },
+      }
+    })
+  }
+
+  const handleCharger = (level: EVChargerLevel, field: 'count' | 'kwPerPort', value: number) => {
+    handleUpdate({
+      chargers: { ...settings.chargers, [level]: { ...settings.chargers[level], [field]: value } },
+    })
+  }
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="text-amber-400">🚗</span> EV Charging
+        </h3>
+        <p className="text-sm text-surface-400 mt-1">
+          NEC 625 continuous load at 125%, capped by an energy management system per 625.42 / 750.30
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Chargers by Level */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-surface-700">
+                <th className="text-left py-2 px-3 text-surface-400 font-medium">Charger</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">Ports</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">kW / Port</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">Connected</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(EV_CHARGER_LEVELS) as EVChargerLevel[]).map(level => {
+                const charger = settings.chargers[level]
+                return (
+                  <tr key={level} className="border-b border-surface-700/50">
+                    <td className="py-2 px-3 text-white">{EV_CHARGER_LEVELS[level].name}</td>
+                    <td className="py-2 px-3 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={charger.count}
+                        onChange={(e) => handleCharger(level, 'count', Number(e.target.value))}
+                        className="w-20 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-right font-mono"
+                      />
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={charger.kwPerPort}
+                        onChange={(e) => handleCharger(level, 'kwPerPort', Number(e.target.value))}
+                        className="w-20 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-right font-mono"
+                      />
+                    </td>
+                    <td className="py-2 px-3 text-right text-surface-300 font-mono">
+                      {(charger.count * charger.kwPerPort).toFixed(1)} kW
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Energy Management System */}
+        <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-4 flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-amber-400 font-medium cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.emsEnabled}
+              onChange={(e) => handleUpdate({ emsEnabled: e.target.checked })}
+              className="accent-amber-500"
+            />
+            Energy management system (EMS)
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              min="0"
+              step="5"
+              value={settings.emsLimitKW}
+              disabled={!settings.emsEnabled}
+              onChange={(e) => handleUpdate({ emsLimitKW: Number(e.target.value) })}
+              className="w-32 px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white pr-10 disabled:opacity-50"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-sm">kW</span>
+          </div>
+          <span className="text-xs text-surface-400">Setpoint becomes the service load for the chargers</span>
+        </div>
+
+        {/* Result */}
+        {result.ports > 0 && (
+          <div className="bg-surface-900 rounded-lg p-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-surface-400">Connected ({result.ports} ports):</span>
+              <span className="text-white font-mono">{result.connectedKW.toFixed(1)} kW</span>
+            </div>
+            {result.emsLimitKW !== null && (
+              <div className="flex justify-between">
+                <span className="text-surface-400">EMS managed ({result.managedKWPerPort.toFixed(1)} kW / port):</span>
+                <span className="text-cyan-400 font-mono">{result.serviceKW.toFixed(1)} kW</span>
+              </div>
+            )}
+            <div className="flex justify-between border-t border-surface-700 pt-2 mt-2">
+              <span className="text-surface-300 font-medium">Service load @ 125% (625.41):</span>
+              <span className="text-amber-400 font-mono font-semibold">{result.designKW.toFixed(1)} kW</span>
+            </div>
+            {result.warnings.map((w, i) => (
+              <div key={i} className="text-xs text-amber-400">⚠️ {w}</div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,80 +1,155 @@
+import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Logo } from '../shared/Logo'
+import UserMenu from '../auth/UserMenu'
+import { useAuthStore } from '../../store/useAuthStore'
+import { useProjectStore } from '../../store/useProjectStore'
+import { supabase, isSupabaseConfigured } from '../../lib/supabase'
+
+interface ElectricalProjectSummary {
+  id: string
+  name: string
+  targetSF: number
+  updatedAt: string
+}
 
 export default function ElectricalHome() {
   const navigate = useNavigate()
-  
+  const { user } = useAuthStore()
+  const { setCurrentProject, setZones } = useProjectStore()
+  const [projects, setProjects] = useState<ElectricalProjectSummary[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadProjects()
+  }, [user])
+
+  // Electrical calcs run on Concept MEP projects (zones + central plant)
+  const loadProjects = async () => {
+    setLoading(true)
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, target_sf, updated_at')
+        .order('updated_at', { ascending: false })
+
+      if (error) {
+        console.error('Error loading projects:', error)
+      } else if (data) {
+        setProjects((data as Record<string, unknown>[]).map(p => ({
+          id: p.id as string,
+          name: (p.name as string) || 'Untitled',
+          targetSF: (p.target_sf as number) || 0,
+          updatedAt: p.updated_at as string,
+        })))
+      }
+    } else {
+      // Development: load from localStorage
+      const stored = localStorage.getItem('mep_projects')
+      if (stored) {
+        const parsed = JSON.parse(stored) as { id: string; name: string; targetSF: number; updatedAt: string }[]
+        setProjects(parsed.map(p => ({
+          id: p.id,
+          name: p.name,
+          targetSF: p.targetSF,
+          updatedAt: p.updatedAt,
+        })))
+      }
+    }
+
+    setLoading(false)
+  }
+
+  const handleOpenProject = (projectId: string) => {
+    // Clear the store so the workspace loads this project fresh
+    setCurrentProject(null)
+    setZones([])
+    navigate(`/concept-mep/project/${projectId}?tab=electrical`)
+  }
+
   return (
     <div className="min-h-screen bg-surface-900">
       {/* Header */}
-      <header className="border-b border-surface-700 bg-surface-800/50 backdrop-blur-sm">
+      <header className="border-b border-surface-700 bg-surface-800/50 backdrop-blur-sm sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
-          <button onClick={() => navigate('/')} className="hover:opacity-80 transition-opacity">
-            <Logo size="sm" />
-          </button>
-          <div className="flex items-center gap-2">
-            <span className="text-2xl">⚡</span>
-            <h1 className="text-xl font-bold text-white">Electrical Calculations</h1>
+          <div className="flex items-center gap-4">
+            <button onClick={() => navigate('/')} className="hover:opacity-80 transition-opacity">
+              <Logo size="sm" />
+            </button>
+            <div className="flex items-center gap-2">
+              <span className="text-2xl">⚡</span>
+              <h1 className="text-xl font-bold text-white">Electrical Calculations</h1>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate('/')}
+              className="px-4 py-2 text-sm text-surface-300 hover:text-white hover:bg-surface-700 rounded-lg transition-colors"
+            >
+              ← Back to Hub
+            </button>
+            {user && <UserMenu />}
           </div>
-          <button
-            onClick={() => navigate('/')}
-            className="px-4 py-2 text-sm text-surface-300 hover:text-white hover:bg-surface-700 rounded-lg transition-colors"
-          >
-            ← Back to Hub
-          </button>
         </div>
       </header>
 
       {/* Main Content */}
-      <main className="max-w-4xl mx-auto px-6 py-24 text-center">
-        <div className="text-8xl mb-8">⚡🐐</div>
-        <h2 className="text-4xl font-bold text-white mb-4">
-          Electrical Module Coming Soon!
-        </h2>
-        <p className="text-xl text-surface-400 mb-8">
-          Our GOATs are getting amped up to bring you shocking calculations.
-        </p>
-        
-        <div className="bg-surface-800 rounded-2xl border border-surface-700 p-8 mb-8">
-          <h3 className="text-lg font-semibold text-white mb-4">What's Coming:</h3>
-          <ul className="text-left text-surface-300 space-y-3 max-w-md mx-auto">
-            <li className="flex items-center gap-3">
-              <span className="text-yellow-400">💡</span>
-              <span>Lighting Load Calculations</span>
-            </li>
-            <li className="flex items-center gap-3">
-              <span className="text-blue-400">🔌</span>
-              <span>Receptacle Load Analysis</span>
-            </li>
-            <li className="flex items-center gap-3">
-              <span className="text-red-400">🔋</span>
-              <span>Panel Schedule Generation</span>
-            </li>
-            <li className="flex items-center gap-3">
-              <span className="text-green-400">📐</span>
-              <span>Conductor Sizing</span>
-            </li>
-            <li className="flex items-center gap-3">
-              <span className="text-purple-400">⚙️</span>
-              <span>Service Entrance Sizing</span>
-            </li>
-            <li className="flex items-center gap-3">
-              <span className="text-orange-400">🛡️</span>
-              <span>Short Circuit Calculations</span>
-            </li>
-          </ul>
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {/* Title Row */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Project Electrical ⚡🐐</h2>
+            <p className="text-surface-400 mt-1">NEC Article 220 service calculations from your Concept MEP projects</p>
+          </div>
+          <button
+            onClick={() => navigate('/electrical/calculators')}
+            className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg font-medium transition-colors"
+          >
+            🧮 Calculators
+          </button>
         </div>
 
-        <p className="text-surface-500 text-sm">
-          🐐 This module is currently re-charging 🐐
-        </p>
-        
-        <button
-          onClick={() => navigate('/')}
-          className="mt-8 px-6 py-3 bg-blue-500 hover:bg-blue-400 text-white font-semibold rounded-lg transition-colors"
-        >
-          Back to the Herd 🐐
-        </button>
+        {/* Projects Grid */}
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="text-center">
+              <div className="text-4xl mb-4 animate-bounce">⚡🐐</div>
+              <p className="text-surface-400">Loading projects... the GOAT is re-charging!</p>
+            </div>
+          </div>
+        ) : projects.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="text-6xl mb-4">🐐🔌</div>
+            <h3 className="text-lg font-medium text-white mb-2">No projects to power up yet</h3>
+            <p className="text-surface-400 mb-6">Create a Concept MEP project and its electrical service will show up here</p>
+            <button
+              onClick={() => navigate('/concept-mep')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg font-medium transition-colors"
+            >
+              Go to Concept MEP
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {projects.map(project => (
+              <div
+                key={project.id}
+                className="bg-surface-800 border border-surface-700 rounded-xl p-6 hover:border-amber-500/50 transition-colors cursor-pointer"
+                onClick={() => handleOpenProject(project.id)}
+              >
+                <div className="w-14 h-14 rounded-xl bg-amber-500/20 flex items-center justify-center mb-4">
+                  <span className="text-2xl">⚡</span>
+                </div>
+                <h3 className="text-lg font-semibold text-white mb-2">{project.name}</h3>
+                <p className="text-sm text-surface-400">
+                  {project.targetSF.toLocaleString()} SF
+                  {project.updatedAt && ` • Updated ${new Date(project.updatedAt).toLocaleDateString()}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
       </main>
     </div>
   )
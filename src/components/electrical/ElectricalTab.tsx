@@ -0,0 +1,64 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import ElectricalServiceSettings from '../central-plant/ElectricalServiceSettings'
+import NEC220LoadCalc from './NEC220LoadCalc'
+import PanelSchedules from './PanelSchedules'
+import FeederSchedule from './FeederSchedule'
+import LightingCompliance from './LightingCompliance'
+import EVCharging from './EVCharging'
+import type { CalculationResults } from '../../types'
+
+interface ElectricalTabProps {
+  calculations: {
+    results: CalculationResults | null
+    mechanicalKVA: { total: number; breakdown: { name: string; kva: number }[] }
+  }
+}
+
+export default function ElectricalTab({ calculations }: ElectricalTabProps) {
+  const { currentProject } = useProjectStore()
+  const { results, mechanicalKVA } = calculations
+
+  if (!currentProject || !results) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-surface-400">Add zones in the Zone Builder tab to see electrical calculations</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-[calc(100vh-4rem)] overflow-y-auto">
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        {/* Page Header */}
+        <div>
+          <h2 className="text-2xl font-bold text-white">Electrical</h2>
+          <p className="text-surface-400 mt-1">Service load calculation and electrical distribution</p>
+        </div>
+
+        {/* NEC 220 Service Load */}
+        {results.electrical.nec220 && (
+          <NEC220LoadCalc nec220={results.electrical.nec220} />
+        )}
+
+        {/* Lighting Power Density */}
+        {results.electrical.lightingCompliance && (
+          <LightingCompliance compliance={results.electrical.lightingCompliance} />
+        )}
+
+        {/* Service Settings */}
+        <ElectricalServiceSettings results={results} mechanicalKVA={mechanicalKVA} />
+
+        {/* EV Charging */}
+        <EVCharging />
+
+        {/* Panel Schedules */}
+        {results.electrical.panelSchedule && (
+          <PanelSchedules schedule={results.electrical.panelSchedule} projectName={currentProject.name} />
+        )}
+
+        {/* Feeder Sizing */}
+        <FeederSchedule electrical={results.electrical} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import { sizeDistributionFeeders, DEFAULT_FEEDER_SIZING_SETTINGS } from '../../calculations/conductorSizing'
+import { formatConductorSize } from '../../data/conductorTables'
+import type { ElectricalCalcResult } from '../../types'
+import type { FeederSizingSettings } from '../../types/electrical'
+
+interface FeederScheduleProps {
+  electrical: ElectricalCalcResult
+}
+
+export default function FeederSchedule({ electrical }: FeederScheduleProps) {
+  const { currentProject, updateProject } = useProjectStore()
+
+  if (!currentProject) return null
+
+  const settings: FeederSizingSettings = {
+    ...DEFAULT_FEEDER_SIZING_SETTINGS,
+    ...currentProject.electricalSettings.feederSizing,
+  }
+  const rows = sizeDistributionFeeders(electrical, settings)
+
+  const handleUpdate = (updates: Partial<FeederSizingSettings>) => {
+    updateProject({
+      electricalSettings: {
+        ...currentProject.electricalSettings,
+        feederSizing: { ...settings, ...updates },
+      }
+    })
+  }
+
+  const handleLength = (name: string, lengthFt: number) => {
+    handleUpdate({ lengthsFt: { ...settings.lengthsFt, [name]: lengthFt } })
+  }
+
+  if (rows.length === 0) return null
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="text-amber-400">🔌</span> Feeder Schedule
+        </h3>
+        <p className="text-sm text-surface-400 mt-1">
+          Service and MDP feeders sized per NEC 310.16 / 250.122, upsized for voltage drop
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Sizing Settings */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Material</label>
+            <select
+              value={settings.material}
+              onChange={(e) => handleUpdate({ material: e.target.value as FeederSizingSettings['material'] })}
+              className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+            >
+              <option value="copper">Copper</option>
+              <option value="aluminum">Aluminum</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Insulation Rating</label>
+            <select
+              value={settings.insulationRating}
+              onChange={(e) => handleUpdate({ insulationRating: Number(e.target.value) as FeederSizingSettings['insulationRating'] })}
+              className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+            >
+              <option value={60}>60°C</option>
+              <option value={75}>75°C</option>
+              <option value={90}>90°C</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Ambient</label>
+            <div className="relative">
+              <input
+                type="number"
+                step="1"
+                value={settings.ambientTempF}
+                onChange={(e) => handleUpdate({ ambientTempF: Number(e.target.value) })}
+                className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white pr-8"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-sm">°F</span>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Target Voltage Drop</label>
+            <div className="relative">
+              <input
+                type="number"
+                step="0.5"
+                min="0.5"
+                max="5"
+                value={settings.targetVoltageDropPercent}
+                onChange={(e) => handleUpdate({ targetVoltageDropPercent: Number(e.target.value) })}
+                className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white pr-8"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-sm">%</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Feeders */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-surface-700">
+                <th className="text-left py-2 px-3 text-surface-400 font-medium">Feeder</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">Load</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">OCPD</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">Length</th>
+                <th className="text-left py-2 px-3 text-surface-400 font-medium">Conductors</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">VD</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.name} className="border-b border-surface-700/50 align-top">
+                  <td className="py-2 px-3">
+                    <div className="text-white">{row.name}</div>
+                    <div className="text-xs text-surface-500">{row.voltage}V {row.phase}Ø</div>
+                  </td>
+                  <td className="py-2 px-3 text-right text-surface-300 font-mono">{Math.round(row.loadAmps).toLocaleString()}A</td>
+                  <td className="py-2 px-3 text-right text-amber-400 font-mono">{row.result.ocpdAmps.toLocaleString()}A</td>
+                  <td className="py-2 px-3 text-right">
+                    <input
+                      type="number"
+                      min="1"
+                      step="5"
+                      value={row.lengthFt}
+                      onChange={(e) => handleLength(row.name, Number(e.target.value))}
+                      className="w-20 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-right font-mono"
+                    />
+                    <span className="text-xs text-surface-500 ml-1">ft</span>
+                  </td>
+                  <td className="py-2 px-3">
+                    <div className="text-white font-mono text-xs">{row.result.description}</div>
+                    {row.result.upsizedForVoltageDrop && (
+                      <div className="text-xs text-cyan-400 mt-0.5">
+                        Upsized from {formatConductorSize(row.result.minimumSize)} for voltage drop
+                      </div>
+                    )}
+                    {row.result.warnings.map((w, i) => (
+                      <div key={i} className="text-xs text-amber-400 mt-0.5">⚠️ {w}</div>
+                    ))}
+                  </td>
+                  <td className={`py-2 px-3 text-right font-mono ${
+                    row.result.voltageDropPercent > settings.targetVoltageDropPercent ? 'text-amber-400' : 'text-emerald-400'
+                  }`}>
+                    {row.result.voltageDropPercent.toFixed(2)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-xs text-surface-500">
+          Service length defaults to 50 ft and feeders to 100 ft. Conduit sized as EMT at 40% fill with neutral and EGC per set; 75°C terminations assumed.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { useProjectStore } from '../../store/useProjectStore'
+import { getCodeMaximumLightingUpdates, DEFAULT_LPD_CODE } from '../../calculations/lightingCompliance'
+import { LPD_CODE_EDITIONS } from '../../data/lightingPowerDensity'
+import type { LPDCodeEdition, LPDComplianceResult } from '../../types/electrical'
+
+interface LightingComplianceProps {
+  compliance: LPDComplianceResult
+}
+
+export default function LightingCompliance({ compliance }: LightingComplianceProps) {
+  const { currentProject, zones, updateProject, updateZone } = useProjectStore()
+
+  if (!currentProject) return null
+
+  const settings = currentProject.electricalSettings
+  const code = settings.lpdCode ?? DEFAULT_LPD_CODE
+  const pendingUpdates = getCodeMaximumLightingUpdates(zones, code)
+
+  const handleSetCodeMaximum = () => {
+    if (!confirm(`Set lighting to the ${LPD_CODE_EDITIONS[code]} allowance in ${pendingUpdates.length} zone(s)? Exempt zones are left unchanged.`)) return
+    pendingUpdates.forEach(({ zoneId, rates }) => updateZone(zoneId, { rates }))
+  }
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <span className="text-amber-400">💡</span> Lighting Power Density
+          </h3>
+          <p className="text-sm text-surface-400 mt-1">
+            Space-by-space method, Table 9.6.1 - zones mapped by ASHRAE 62.1 space type or zone type
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={code}
+            onChange={(e) => updateProject({
+              electricalSettings: { ...settings, lpdCode: e.target.value as LPDCodeEdition }
+            })}
+            className="px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white text-sm"
+          >
+            {(Object.keys(LPD_CODE_EDITIONS) as LPDCodeEdition[]).map(edition => (
+              <option key={edition} value={edition}>{LPD_CODE_EDITIONS[edition]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSetCodeMaximum}
+            disabled={pendingUpdates.length === 0}
+            className="px-3 py-2 text-sm rounded-lg bg-amber-500 text-black font-medium hover:bg-amber-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Set Lighting to Code Maximum
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Building Result */}
+        <div className={`rounded-lg p-4 border ${compliance.buildingPass ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-red-500/10 border-red-500/30'}`}>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-surface-400">Design Lighting Power</div>
+              <div className="text-xl font-bold text-white font-mono">{(compliance.designW / 1000).toFixed(1)} kW</div>
+            </div>
+            <div>
+              <div className="text-surface-400">Interior Allowance</div>
+              <div className="text-xl font-bold text-white font-mono">{(compliance.allowedW / 1000).toFixed(1)} kW</div>
+            </div>
+            <div>
+              <div className="text-surface-400">Zones Over Allowance</div>
+              <div className={`text-xl font-bold font-mono ${compliance.failingZones > 0 ? 'text-amber-400' : 'text-white'}`}>
+                {compliance.failingZones}
+              </div>
+            </div>
+            <div>
+              <div className="text-surface-400">Whole Building</div>
+              <div className={`text-xl font-bold ${compliance.buildingPass ? 'text-emerald-400' : 'text-red-400'}`}>
+                {compliance.buildingPass ? 'PASS' : 'FAIL'}
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-surface-400 mt-3">
+            9.6.2: trade-offs between spaces are allowed, so the building passes when total design power is within the total allowance.
+            {compliance.exemptSF > 0 && ` ${compliance.exemptSF.toLocaleString()} SF of dwelling unit / exterior space is exempt.`}
+          </p>
+        </div>
+
+        {/* Zones */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-surface-700">
+                <th className="text-left py-2 px-3 text-surface-400 font-medium">Zone</th>
+                <th className="text-left py-2 px-3 text-surface-400 font-medium">90.1 Space Type</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">SF</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">Design</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">Allowed</th>
+                <th className="text-right py-2 px-3 text-surface-400 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {compliance.zones.map(zone => (
+                <tr key={zone.zoneId} className="border-b border-surface-700/50">
+                  <td className="py-2 px-3 text-white">{zone.zoneName}</td>
+                  <td className="py-2 px-3">
+                    <div className="text-surface-300">{zone.spaceTypeName}</div>
+                    <div className="text-xs text-surface-500">
+                      {zone.mappedFrom === 'ventilation' ? 'From ASHRAE 62.1 space type' : 'From zone type'}
+                    </div>
+                  </td>
+                  <td className="py-2 px-3 text-right text-surface-300 font-mono">{zone.sf.toLocaleString()}</td>
+                  <td className="py-2 px-3 text-right text-surface-300 font-mono">{zone.designLPD.toFixed(2)} W/SF</td>
+                  <td className="py-2 px-3 text-right text-surface-300 font-mono">
+                    {zone.allowedLPD === null ? '—' : `${zone.allowedLPD.toFixed(2)} W/SF`}
+                  </td>
+                  <td className={`py-2 px-3 text-right font-medium ${
+                    zone.allowedLPD === null ? 'text-surface-500' : zone.pass ? 'text-emerald-400' : 'text-red-400'
+                  }`}>
+                    {zone.allowedLPD === null ? 'Exempt' : zone.pass ? 'Pass' : 'Over'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
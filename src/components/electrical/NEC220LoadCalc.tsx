@@ -0,0 +1,152 @@
+import { useState } from 'react'
+import { useProjectStore } from '../../store/useProjectStore'
+import type { NEC220Result } from '../../types/electrical'
+
+interface NEC220LoadCalcProps {
+  nec220: NEC220Result
+}
+
+export default function NEC220LoadCalc({ nec220 }: NEC220LoadCalcProps) {
+  const { currentProject, updateProject } = useProjectStore()
+  const [showItems, setShowItems] = useState(false)
+
+  if (!currentProject) return null
+
+  const settings = currentProject.electricalSettings
+  const kva = (va: number) => (va / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <span className="text-amber-400">⚡</span> NEC Article 220 Service Load
+          </h3>
+          <p className="text-sm text-surface-400 mt-1">
+            Commercial calculation per NFPA 70-2020 Part III with mechanical equipment
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-surface-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.useEnergyCodeLighting ?? false}
+            onChange={(e) => updateProject({
+              electricalSettings: { ...settings, useEnergyCodeLighting: e.target.checked }
+            })}
+            className="accent-amber-500"
+          />
+          Energy code lighting (220.12(B))
+        </label>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Calculation Lines */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-surface-700">
+                <th className="text-left py-3 px-4 text-surface-400 font-medium">NEC</th>
+                <th className="text-left py-3 px-4 text-surface-400 font-medium">Load</th>
+                <th className="text-right py-3 px-4 text-surface-400 font-medium">Connected kVA</th>
+                <th className="text-right py-3 px-4 text-surface-400 font-medium">Factor</th>
+                <th className="text-right py-3 px-4 text-surface-400 font-medium">Demand kVA</th>
+              </tr>
+            </thead>
+            <tbody>
+              {nec220.lines.map((line, idx) => (
+                <tr key={idx} className="border-b border-surface-700/50">
+                  <td className="py-3 px-4 text-amber-400 font-mono">{line.article}</td>
+                  <td className="py-3 px-4 text-white">{line.description}</td>
+                  <td className="py-3 px-4 text-right text-surface-300 font-mono">
+                    {line.connectedVA > 0 ? kva(line.connectedVA) : '—'}
+                  </td>
+                  <td className="py-3 px-4 text-right text-surface-300 font-mono">
+                    {Math.round(line.demandFactor * 100)}%
+                  </td>
+                  <td className="py-3 px-4 text-right text-white font-mono">{kva(line.demandVA)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="bg-surface-900">
+                <td className="py-3 px-4 text-white font-semibold" colSpan={2}>NEC Calculated Load</td>
+                <td className="py-3 px-4 text-right text-surface-300 font-mono">{kva(nec220.connectedVA)}</td>
+                <td />
+                <td className="py-3 px-4 text-right text-amber-400 font-mono font-semibold">{kva(nec220.demandVA)}</td>
+              </tr>
+              <tr className="bg-surface-900">
+                <td className="py-3 px-4 text-surface-400" colSpan={4}>
+                  + Spare capacity ({(settings.spareCapacity * 100).toFixed(0)}%)
+                </td>
+                <td className="py-3 px-4 text-right text-emerald-400 font-mono font-semibold">{kva(nec220.designVA)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        {/* Service Result */}
+        <div className={`rounded-lg p-4 border ${nec220.exceedsMaxRating ? 'bg-red-500/10 border-red-500/30' : 'bg-amber-500/10 border-amber-500/30'}`}>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <div className="text-surface-400">Calculated Current</div>
+              <div className="text-xl font-bold text-white font-mono">
+                {Math.round(nec220.calculatedAmps).toLocaleString()}A
+              </div>
+            </div>
+            <div>
+              <div className="text-surface-400">Standard Rating (240.6(A))</div>
+              <div className="text-xl font-bold text-emerald-400 font-mono">
+                {nec220.serviceRatingAmps.toLocaleString()}A
+              </div>
+            </div>
+            <div>
+              <div className="text-surface-400">Recommended Service</div>
+              <div className={`text-lg font-bold font-mono ${nec220.exceedsMaxRating ? 'text-red-400' : 'text-amber-400'}`}>
+                {nec220.recommendedService}
+              </div>
+            </div>
+          </div>
+          {nec220.noncoincidentLoad !== 'none' && (
+            <p className="text-xs text-surface-400 mt-3">
+              220.60: {nec220.noncoincidentLoad === 'cooling' ? 'cooling' : 'heating'} load governs; the smaller noncoincident load is omitted.
+            </p>
+          )}
+        </div>
+
+        {/* Load Inventory */}
+        <div>
+          <button
+            onClick={() => setShowItems(!showItems)}
+            className="text-sm text-surface-400 hover:text-white transition-colors"
+          >
+            {showItems ? '▼' : '▶'} Load inventory ({nec220.items.length} items)
+          </button>
+          {showItems && (
+            <div className="overflow-x-auto mt-3">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-surface-700">
+                    <th className="text-left py-2 px-3 text-surface-400 font-medium">Source</th>
+                    <th className="text-left py-2 px-3 text-surface-400 font-medium">Description</th>
+                    <th className="text-left py-2 px-3 text-surface-400 font-medium">Category</th>
+                    <th className="text-right py-2 px-3 text-surface-400 font-medium">kVA</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {nec220.items.map((item, idx) => (
+                    <tr key={idx} className="border-b border-surface-700/50">
+                      <td className="py-2 px-3 text-white">{item.source}</td>
+                      <td className="py-2 px-3 text-surface-300">{item.description}</td>
+                      <td className="py-2 px-3 text-surface-400">{item.category.replace('_', ' ')}</td>
+                      <td className="py-2 px-3 text-right text-surface-300 font-mono">{kva(item.connectedVA)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+import { useState } from 'react'
+import { FileSpreadsheet, FileText } from 'lucide-react'
+import { getPanelPositionMap, getPositionPhase, formatPanelVoltage } from '../../calculations/panelSchedule'
+import { exportPanelSchedulesToExcel } from '../../export/panelScheduleExcel'
+import { exportPanelSchedulesToPdf } from '../../export/panelSchedulePdf'
+import type { PanelSchedule, PanelScheduleResult } from '../../types/electrical'
+
+interface PanelSchedulesProps {
+  schedule: PanelScheduleResult
+  projectName: string
+}
+
+const kva = (va: number) => (va / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })
+
+function PanelTable({ panel }: { panel: PanelSchedule }) {
+  const positionMap = getPanelPositionMap(panel)
+
+  const renderSide = (position: number, align: 'left' | 'right') => {
+    const circuit = positionMap.get(position)
+    const isFirstPole = circuit?.number === position
+    const cells = [
+      <td key="ckt" className="py-1.5 px-2 text-surface-500 font-mono text-center w-10">{position}</td>,
+      <td key="desc" className={`py-1.5 px-2 ${circuit ? 'text-white' : 'text-surface-600'} ${align === 'right' ? 'text-right' : ''}`}>
+        {!circuit ? 'Space' : isFirstPole ? `${circuit.source} - ${circuit.description}` : '↕'}
+      </td>,
+      <td key="va" className="py-1.5 px-2 text-surface-300 font-mono text-right w-16">
+        {circuit ? Math.round(circuit.loadVA / circuit.poles).toLocaleString() : ''}
+      </td>,
+      <td key="bkr" className="py-1.5 px-2 text-amber-400 font-mono text-center w-14">
+        {circuit && isFirstPole ? `${circuit.breakerAmps}/${circuit.poles}` : ''}
+      </td>,
+    ]
+    return align === 'left' ? cells : cells.reverse()
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-surface-700">
+            <th className="py-2 px-2 text-surface-400 font-medium">Ckt</th>
+            <th className="py-2 px-2 text-left text-surface-400 font-medium">Description</th>
+            <th className="py-2 px-2 text-right text-surface-400 font-medium">VA</th>
+            <th className="py-2 px-2 text-surface-400 font-medium">Bkr</th>
+            <th className="py-2 px-2 text-surface-400 font-medium">Ph</th>
+            <th className="py-2 px-2 text-surface-400 font-medium">Bkr</th>
+            <th className="py-2 px-2 text-right text-surface-400 font-medium">VA</th>
+            <th className="py-2 px-2 text-right text-surface-400 font-medium">Description</th>
+            <th className="py-2 px-2 text-surface-400 font-medium">Ckt</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from({ length: panel.spaces / 2 }, (_, row) => {
+            const left = row * 2 + 1
+            const right = row * 2 + 2
+            return (
+              <tr key={row} className="border-b border-surface-700/50">
+                {renderSide(left, 'left')}
+                <td className="py-1.5 px-2 text-center font-bold text-cyan-400">{getPositionPhase(left, panel.phase)}</td>
+                {renderSide(right, 'right')}
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default function PanelSchedules({ schedule, projectName }: PanelSchedulesProps) {
+  const [selectedPanel, setSelectedPanel] = useState(0)
+  const { mdp, panels, warnings } = schedule
+  const panel = panels[Math.min(selectedPanel, panels.length - 1)]
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-700 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <span className="text-amber-400">🔋</span> Panel Schedules
+          </h3>
+          <p className="text-sm text-surface-400 mt-1">
+            Circuits generated from zone rates and line items, phase-balanced and rolled up to the {mdp.name}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => exportPanelSchedulesToExcel(projectName, schedule)}
+            className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm transition-colors"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Excel
+          </button>
+          <button
+            onClick={() => exportPanelSchedulesToPdf(projectName, schedule)}
+            className="flex items-center gap-2 px-3 py-1.5 bg-surface-700 hover:bg-surface-600 text-white rounded-lg text-sm transition-colors"
+          >
+            <FileText className="w-4 h-4" />
+            PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* MDP Feeder Schedule */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-medium text-white">
+              {mdp.name} • {formatPanelVoltage(mdp.voltageLL, mdp.voltageLN, mdp.phase)}
+            </h4>
+            <span className="text-sm text-amber-400 font-mono">
+              {mdp.mainBreakerAmps}A main / {mdp.busAmps}A bus
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-surface-700">
+                  <th className="text-left py-2 px-4 text-surface-400 font-medium">Feeder</th>
+                  <th className="text-right py-2 px-4 text-surface-400 font-medium">Connected kVA</th>
+                  <th className="text-right py-2 px-4 text-surface-400 font-medium">Demand kVA</th>
+                  <th className="text-right py-2 px-4 text-surface-400 font-medium">Breaker</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mdp.feeders.map((feeder, idx) => (
+                  <tr key={idx} className="border-b border-surface-700/50">
+                    <td className="py-2 px-4 text-white">{feeder.description}</td>
+                    <td className="py-2 px-4 text-right text-surface-300 font-mono">{kva(feeder.connectedVA)}</td>
+                    <td className="py-2 px-4 text-right text-surface-300 font-mono">{kva(feeder.demandVA)}</td>
+                    <td className="py-2 px-4 text-right text-amber-400 font-mono">{feeder.breakerAmps}A/{feeder.poles}P</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="bg-surface-900">
+                  <td className="py-2 px-4 text-white font-semibold">Total (NEC 220 demand)</td>
+                  <td className="py-2 px-4 text-right text-surface-300 font-mono">{kva(mdp.connectedVA)}</td>
+                  <td className="py-2 px-4 text-right text-amber-400 font-mono font-semibold">{kva(mdp.demandVA)}</td>
+                  <td className="py-2 px-4 text-right text-surface-300 font-mono">{Math.round(mdp.demandAmps).toLocaleString()}A</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+
+        {/* Warnings */}
+        {warnings.length > 0 && (
+          <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-400 space-y-1">
+            {warnings.map((w, i) => <div key={i}>⚠️ {w}</div>)}
+          </div>
+        )}
+
+        {/* Branch Panels */}
+        {panel && (
+          <div>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {panels.map((p, idx) => (
+                <button
+                  key={p.name}
+                  onClick={() => setSelectedPanel(idx)}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                    p.name === panel.name
+                      ? 'bg-amber-600 text-white'
+                      : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                  }`}
+                >
+                  {p.name}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+              <div className="bg-surface-900 rounded-lg p-3">
+                <div className="text-surface-400 text-xs">Voltage</div>
+                <div className="text-white font-mono">{formatPanelVoltage(panel.voltageLL, panel.voltageLN, panel.phase)}</div>
+              </div>
+              <div className="bg-surface-900 rounded-lg p-3">
+                <div className="text-surface-400 text-xs">Main / Bus</div>
+                <div className="text-amber-400 font-mono">{panel.mainBreakerAmps}A / {panel.busAmps}A</div>
+              </div>
+              <div className="bg-surface-900 rounded-lg p-3">
+                <div className="text-surface-400 text-xs">Fed From</div>
+                <div className="text-white font-mono">
+                  {panel.fedFrom}{panel.transformerKVA ? ` (${panel.transformerKVA} kVA)` : ''}
+                </div>
+              </div>
+              <div className="bg-surface-900 rounded-lg p-3">
+                <div className="text-surface-400 text-xs">Phase Loads (kVA)</div>
+                <div className={`font-mono ${panel.imbalancePercent > 15 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                  {kva(panel.phaseVA.A)} / {kva(panel.phaseVA.B)}{panel.phase === 3 ? ` / ${kva(panel.phaseVA.C)}` : ''}
+                </div>
+              </div>
+            </div>
+
+            <PanelTable panel={panel} />
+
+            <p className="text-xs text-surface-500 mt-3">
+              Serves: {panel.zones.join(', ')} • Connected {kva(panel.connectedVA)} kVA • Demand {kva(panel.demandVA)} kVA ({Math.round(panel.demandAmps)}A) • Imbalance {panel.imbalancePercent.toFixed(1)}%
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+import { useState, useMemo } from 'react'
+import { sizeConductor } from '../../../calculations/conductorSizing'
+import { formatConductorSize } from '../../../data/conductorTables'
+import type { ConductorMaterial, InsulationTempRating } from '../../../types/electrical'
+
+/**
+ * Conductor & Voltage Drop Calculator
+ *
+ * Sizes phase conductors per NEC Table 310.16 with ambient (310.15(B)(1)) and
+ * conduit fill (310.15(C)(1)) adjustment, then upsizes until the voltage drop
+ * meets the target. EGC per 250.122 (increased per 250.122(B) when upsized)
+ * and EMT conduit at 40% fill.
+ */
+
+const VOLTAGE_OPTIONS = [
+  { voltage: 120, phase: 1 as const, label: '120V 1Ø' },
+  { voltage: 208, phase: 1 as const, label: '208V 1Ø' },
+  { voltage: 240, phase: 1 as const, label: '240V 1Ø' },
+  { voltage: 208, phase: 3 as const, label: '208V 3Ø' },
+  { voltage: 480, phase: 3 as const, label: '480V 3Ø' },
+]
+
+export default function ConductorSizingCalculator() {
+  const [loadAmps, setLoadAmps] = useState(100)
+  const [voltageIdx, setVoltageIdx] = useState(3)
+  const [lengthFt, setLengthFt] = useState(150)
+  const [material, setMaterial] = useState<ConductorMaterial>('copper')
+  const [insulationRating, setInsulationRating] = useState<InsulationTempRating>(75)
+  const [ambientTempF, setAmbientTempF] = useState(86)
+  const [currentCarrying, setCurrentCarrying] = useState(3)
+  const [continuous, setContinuous] = useState(true)
+  const [targetVoltageDrop, setTargetVoltageDrop] = useState(3)
+
+  const { voltage, phase } = VOLTAGE_OPTIONS[voltageIdx]
+
+  const result = useMemo(() => sizeConductor({
+    loadAmps,
+    voltage,
+    phase,
+    lengthFt,
+    material,
+    insulationRating,
+    ambientTempF,
+    currentCarryingConductors: currentCarrying,
+    continuous,
+    targetVoltageDropPercent: targetVoltageDrop,
+  }), [loadAmps, voltage, phase, lengthFt, material, insulationRating, ambientTempF, currentCarrying, continuous, targetVoltageDrop])
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+          🔌 Conductor Sizing <span className="text-surface-500 text-base font-normal">NEC 310.16 + voltage drop</span>
+        </h2>
+        <p className="text-surface-400">Ampacity with correction factors, auto-upsized to hit the voltage drop target</p>
+      </div>
+
+      {/* Inputs */}
+      <div className="bg-surface-800 rounded-xl border border-surface-700 p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm text-surface-400 mb-1">Load (A)</label>
+            <input
+              type="number"
+              min={1}
+              value={loadAmps}
+              onChange={(e) => setLoadAmps(Number(e.target.value))}
+              className="w-full px-4 py-3 bg-surface-900 border border-surface-600 rounded-lg text-white text-xl font-bold"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-surface-400 mb-1">System Voltage</label>
+            <select
+              value={voltageIdx}
+              onChange={(e) => setVoltageIdx(Number(e.target.value))}
+              className="w-full px-3 py-3 bg-surface-900 border border-surface-600 rounded-lg text-white"
+            >
+              {VOLTAGE_OPTIONS.map((opt, idx) => (
+                <option key={opt.label} value={idx}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm text-surface-400 mb-1">One-Way Length (ft)</label>
+            <input
+              type="number"
+              min={1}
+              value={lengthFt}
+              onChange={(e) => setLengthFt(Number(e.target.value))}
+              className="w-full px-4 py-3 bg-surface-900 border border-surface-600 rounded-lg text-white text-xl font-bold"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-surface-400 mb-1">Conductor Material</label>
+            <select
+              value={material}
+              onChange={(e) => setMaterial(e.target.value as ConductorMaterial)}
+              className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+            >
+              <option value="copper">Copper</option>
+              <option value="aluminum">Aluminum</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm text-surface-400 mb-1">Insulation Temperature Rating</label>
+            <select
+              value={insulationRating}
+              onChange={(e) => setInsulationRating(Number(e.target.value) as InsulationTempRating)}
+              className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+            >
+              <option value={60}>60°C (TW, UF)</option>
+              <option value={75}>75°C (THW, THWN, XHHW)</option>
+              <option value={90}>90°C (THHN, THWN-2, XHHW-2)</option>
+            </select>
+            <div className="text-xs text-surface-500 mt-1">Terminations limited to 75°C per 110.14(C)</div>
+          </div>
+          <div>
+            <label className="block text-sm text-surface-400 mb-1">Ambient Temperature (°F)</label>
+            <input
+              type="number"
+              value={ambientTempF}
+              onChange={(e) => setAmbientTempF(Number(e.target.value))}
+              className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-surface-400 mb-1">Current-Carrying Conductors in Raceway</label>
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={currentCarrying}
+              onChange={(e) => setCurrentCarrying(Number(e.target.value))}
+              className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+            />
+            <div className="text-xs text-surface-500 mt-1">More than 3 derates per 310.15(C)(1)</div>
+          </div>
+          <div>
+            <label className="block text-sm text-surface-400 mb-1">Target Voltage Drop (%)</label>
+            <input
+              type="number"
+              step={0.5}
+              min={0.5}
+              max={10}
+              value={targetVoltageDrop}
+              onChange={(e) => setTargetVoltageDrop(Number(e.target.value))}
+              className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+            />
+          </div>
+          <div className="flex items-end">
+            <label className="flex items-center gap-2 text-sm text-surface-300 pb-2">
+              <input
+                type="checkbox"
+                checked={continuous}
+                onChange={(e) => setContinuous(e.target.checked)}
+                className="accent-amber-500"
+              />
+              Continuous load (125%)
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Result */}
+      <div className="bg-gradient-to-r from-amber-900/30 to-surface-800 rounded-xl border border-amber-700/50 p-6 mb-6">
+        <div className="text-sm text-amber-400 mb-1">Recommended</div>
+        <div className="text-2xl font-bold text-white font-mono">{result.description}</div>
+        {result.upsizedForVoltageDrop && (
+          <div className="text-sm text-cyan-400 mt-2">
+            Upsized from {formatConductorSize(result.minimumSize)} (ampacity minimum) to meet {targetVoltageDrop}% voltage drop
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-surface-800 rounded-lg border border-surface-700 p-4">
+          <div className="text-xs text-surface-400">OCPD</div>
+          <div className="text-xl font-bold text-amber-400 font-mono">{result.ocpdAmps}A</div>
+          <div className="text-xs text-surface-500">Required {result.requiredAmps.toFixed(1)}A</div>
+        </div>
+        <div className="bg-surface-800 rounded-lg border border-surface-700 p-4">
+          <div className="text-xs text-surface-400">Adjusted Ampacity</div>
+          <div className="text-xl font-bold text-white font-mono">{Math.round(result.adjustedAmpacity)}A</div>
+          <div className="text-xs text-surface-500">
+            {result.baseAmpacity}A × {result.ambientFactor.toFixed(2)} × {result.fillFactor.toFixed(2)}{result.sets > 1 ? ` × ${result.sets}` : ''}
+          </div>
+        </div>
+        <div className="bg-surface-800 rounded-lg border border-surface-700 p-4">
+          <div className="text-xs text-surface-400">Voltage Drop</div>
+          <div className={`text-xl font-bold font-mono ${result.voltageDropPercent > targetVoltageDrop ? 'text-red-400' : 'text-emerald-400'}`}>
+            {result.voltageDropPercent.toFixed(2)}%
+          </div>
+          <div className="text-xs text-surface-500">{result.voltageDropV.toFixed(1)}V of {voltage}V</div>
+        </div>
+        <div className="bg-surface-800 rounded-lg border border-surface-700 p-4">
+          <div className="text-xs text-surface-400">Conduit (EMT)</div>
+          <div className="text-xl font-bold text-white font-mono">{result.conduitSize ? `${result.conduitSize}"` : '> 4"'}</div>
+          <div className="text-xs text-surface-500">
+            {result.conduitSize ? `${result.conduitFillPercent.toFixed(0)}% fill` : 'Exceeds table'} • EGC #{formatConductorSize(result.egcSize)}
+          </div>
+        </div>
+      </div>
+
+      {result.warnings.length > 0 && (
+        <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-400 space-y-1">
+          {result.warnings.map((w, i) => <div key={i}>⚠️ {w}</div>)}
+        </div>
+      )}
+    </div>
+  )
+}
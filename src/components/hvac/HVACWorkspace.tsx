@@ -11,6 +11,7 @@ import HVACResults from './results/HVACResults'
 import { useHVACStore, defaultHVACProjectSettings } from '../../store/useHVACStore'
 import { supabase, isSupabaseConfigured } from '../../lib/supabase'
 import type { HVACProject, HVACSpace, HVACZone, HVACSystem, HVACProjectSettings } from '../../store/useHVACStore'
+import type { ZoneEnvelope } from '../../types'
 
 type TabType = 'settings' | 'spaces' | 'organization' | 'ventilation' | 'calculators' | 'results'
 
@@ -277,6 +278,9 @@ function dbSpaceToSpace(db: Record<string, unknown>): HVACSpace {
     // Fan tags
     exhaustFanTag: db.exhaust_fan_tag as string | undefined,
     supplyFanTag: db.supply_fan_tag as string | undefined,
+    // Cooling load inputs
+    envelope: db.envelope as ZoneEnvelope | undefined,
+    lightingWsf: db.lighting_w_sf as number | undefined,
   }
 }
 
@@ -302,6 +306,9 @@ function spaceToDbSpace(space: HVACSpace): Record<string, unknown> {
     // Fan tags
     exhaust_fan_tag: space.exhaustFanTag,
     supply_fan_tag: space.supplyFanTag,
+    // Cooling load inputs
+    envelope: space.envelope,
+    lighting_w_sf: space.lightingWsf,
   }
 }
 
@@ -315,6 +322,11 @@ function dbZoneToZone(db: Record<string, unknown>): HVACZone {
     coolingSetpoint: (db.cooling_setpoint as number) || 75,
     systemId: db.system_id as string | undefined,
     sortOrder: (db.sort_order as number) || 0,
+    // VAV primary airflow
+    primaryCfm: db.primary_cfm as number | undefined,
+    minPrimaryCfm: db.min_primary_cfm as number | undefined,
+    primaryAirFraction: db.primary_air_fraction as number | undefined,
+    secondaryRecircFraction: db.secondary_recirc_fraction as number | undefined,
   }
 }
 
@@ -328,6 +340,11 @@ function zoneToDbZone(zone: HVACZone): Record<string, unknown> {
     cooling_setpoint: zone.coolingSetpoint,
     system_id: zone.systemId,
     sort_order: zone.sortOrder,
+    // VAV primary airflow
+    primary_cfm: zone.primaryCfm,
+    min_primary_cfm: zone.minPrimaryCfm,
+    primary_air_fraction: zone.primaryAirFraction,
+    secondary_recirc_fraction: zone.secondaryRecircFraction,
   }
 }
 
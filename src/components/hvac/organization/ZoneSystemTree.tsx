@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { useHVACStore } from '../../../store/useHVACStore'
 import { ZONE_EZ_VALUES } from '../../../data/ashrae62'
+import { MIN_PRIMARY_AIR_FRACTION } from '../../../calculations/ventilation'
 
 export default function ZoneSystemTree() {
   const { 
@@ -488,12 +489,26 @@ function EditZoneModal({ zoneId, onClose }: { zoneId: string; onClose: () => voi
     ez: zone?.ez || 1.0,
     heatingSetpoint: zone?.heatingSetpoint || 70,
     coolingSetpoint: zone?.coolingSetpoint || 75,
+    // VAV primary airflow
+    primaryCfm: zone?.primaryCfm,
+    minPrimaryCfm: zone?.minPrimaryCfm,
+    primaryAirFraction: zone?.primaryAirFraction,
+    secondaryRecircFraction: zone?.secondaryRecircFraction,
   })
   
   if (!zone) return null
   
   const handleSave = () => {
-    updateZone(zoneId, form)
+    // Ep = 0 makes the Appendix A zone efficiency undefined
+    updateZone(zoneId, {
+      ...form,
+      primaryAirFraction: form.primaryAirFraction !== undefined
+        ? Math.min(Math.max(form.primaryAirFraction, MIN_PRIMARY_AIR_FRACTION), 1)
+        : undefined,
+      secondaryRecircFraction: form.secondaryRecircFraction !== undefined
+        ? Math.min(Math.max(form.secondaryRecircFraction, 0), 1)
+        : undefined,
+    })
     onClose()
   }
   
@@ -550,6 +565,64 @@ function EditZoneModal({ zoneId, onClose }: { zoneId: string; onClose: () => voi
               />
             </div>
           </div>
+          
+          {/* VAV Primary Airflow (62.1 Appendix A) */}
+          <div className="pt-2 border-t border-surface-700">
+            <div className="text-sm font-medium text-surface-300 mb-1">VAV Primary Airflow</div>
+            <p className="text-xs text-surface-500 mb-3">
+              Used for multi-zone Ev (62.1 Appendix A). Blank uses 1.0 CFM/SF design with a 30% minimum.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-surface-400 mb-1">Design Vpz (CFM)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.primaryCfm ?? ''}
+                  onChange={(e) => setForm(f => ({ ...f, primaryCfm: e.target.value ? Number(e.target.value) : undefined }))}
+                  placeholder="Auto"
+                  className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-surface-400 mb-1">Minimum Vpz-min (CFM)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.minPrimaryCfm ?? ''}
+                  onChange={(e) => setForm(f => ({ ...f, minPrimaryCfm: e.target.value ? Number(e.target.value) : undefined }))}
+                  placeholder="Auto"
+                  className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-surface-400 mb-1">Primary Fraction Ep</label>
+                <input
+                  type="number"
+                  min={MIN_PRIMARY_AIR_FRACTION}
+                  max={1}
+                  step={0.05}
+                  value={form.primaryAirFraction ?? ''}
+                  onChange={(e) => setForm(f => ({ ...f, primaryAirFraction: e.target.value ? Number(e.target.value) : undefined }))}
+                  placeholder="1.0 (single duct)"
+                  className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-surface-400 mb-1">Secondary Recirc Er</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={form.secondaryRecircFraction ?? ''}
+                  onChange={(e) => setForm(f => ({ ...f, secondaryRecircFraction: e.target.value ? Number(e.target.value) : undefined }))}
+                  placeholder="0"
+                  className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+                />
+              </div>
+            </div>
+          </div>
         </div>
         
         <div className="p-4 border-t border-surface-700 flex justify-end gap-3">
@@ -0,0 +1,241 @@
+import { useMemo, useState } from 'react'
+import { useHVACStore } from '../../../store/useHVACStore'
+import { calculateProjectRTS, type RTSPeak, type RTSComponent } from '../../../calculations/rts'
+import { MONTH_LABELS } from '../../../data/rtsTables'
+
+const COMPONENT_LABELS: Record<RTSComponent, string> = {
+  envelope: 'Walls / Roof / Glass Cond.',
+  solar: 'Glass Solar',
+  people: 'People',
+  lighting: 'Lighting',
+  equipment: 'Equipment',
+  infiltration: 'Infiltration',
+}
+
+interface ProfileOption {
+  key: string
+  label: string
+  profile: number[][]
+  peak: RTSPeak
+  sumOfSpacePeaksBtuh: number
+}
+
+function formatHour(hour: number): string {
+  const ending = hour + 1
+  const h12 = ending % 12 === 0 ? 12 : ending % 12
+  return `${h12} ${ending < 12 || ending === 24 ? 'AM' : 'PM'}`
+}
+
+function formatPeak(peak: RTSPeak): string {
+  return `${MONTH_LABELS[peak.month]} ${formatHour(peak.hour)}`
+}
+
+function toTons(btuh: number): string {
+  return (btuh / 12000).toFixed(1)
+}
+
+export default function CoolingLoadProfile() {
+  const { currentProject, spaces, zones, systems } = useHVACStore()
+  const [selectedKey, setSelectedKey] = useState('building')
+
+  const results = useMemo(() => {
+    if (!currentProject?.settings) return null
+    return calculateProjectRTS(spaces, zones, systems, currentProject.settings)
+  }, [currentProject?.settings, spaces, zones, systems])
+
+  const options = useMemo<ProfileOption[]>(() => {
+    if (!results) return []
+    return [
+      { key: 'building', label: 'Whole Building', ...results },
+      ...results.systems.map(s => ({ key: `system:${s.systemId}`, label: `🌀 ${s.systemName}`, ...s })),
+      ...[...results.systems.flatMap(s => s.zones), ...results.unassignedZones].map(z => ({
+        key: `zone:${z.zoneId}`, label: `📦 ${z.zoneName}`, ...z,
+      })),
+    ]
+  }, [results])
+
+  if (!results) {
+    return (
+      <div className="p-6 text-center text-surface-400">
+        Configure project settings to see results
+      </div>
+    )
+  }
+
+  const selected = options.find(o => o.key === selectedKey) ?? options[0]
+  const day = selected.profile[selected.peak.month]
+  const maxBtuh = Math.max(...day, 1)
+  const diversity = selected.sumOfSpacePeaksBtuh > 0 ? selected.peak.btuh / selected.sumOfSpacePeaksBtuh : 1
+
+  const allSpaces = [
+    ...results.systems.flatMap(s => s.zones.flatMap(z => z.spaces)),
+    ...results.unassignedZones.flatMap(z => z.spaces),
+    ...results.unassignedSpaces,
+  ]
+
+  // Chart geometry
+  const width = 720
+  const height = 220
+  const padLeft = 48
+  const padBottom = 24
+  const barWidth = (width - padLeft) / 24
+
+  return (
+    <div className="space-y-6">
+      {/* Hourly Chart */}
+      <div className="bg-surface-800 rounded-xl border border-surface-700 p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white">📈 Hourly Cooling Load (RTS)</h3>
+            <p className="text-sm text-surface-400">
+              {results.design.locationName} • {results.design.coolingDb}°F design DB • {results.design.latitude.toFixed(1)}° latitude
+            </p>
+          </div>
+          <select
+            value={selected.key}
+            onChange={(e) => setSelectedKey(e.target.value)}
+            className="px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white text-sm"
+          >
+            {options.map(o => (
+              <option key={o.key} value={o.key}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+          <div className="p-3 bg-surface-900 rounded-lg">
+            <div className="text-surface-500">Block Peak</div>
+            <div className="text-xl font-bold text-cyan-400">{toTons(selected.peak.btuh)} Tons</div>
+            <div className="text-xs text-surface-400">{selected.peak.btuh.toLocaleString()} BTU/hr • {formatPeak(selected.peak)}</div>
+          </div>
+          <div className="p-3 bg-surface-900 rounded-lg">
+            <div className="text-surface-500">Sum of Space Peaks</div>
+            <div className="text-xl font-bold text-white">{toTons(selected.sumOfSpacePeaksBtuh)} Tons</div>
+            <div className="text-xs text-surface-400">{selected.sumOfSpacePeaksBtuh.toLocaleString()} BTU/hr</div>
+          </div>
+          <div className="p-3 bg-surface-900 rounded-lg">
+            <div className="text-surface-500">Diversity (Block / Sum)</div>
+            <div className="text-xl font-bold text-emerald-400">{(diversity * 100).toFixed(0)}%</div>
+            <div className="text-xs text-surface-400">Coincident vs non-coincident</div>
+          </div>
+        </div>
+
+        <svg viewBox={`0 0 ${width} ${height + padBottom}`} className="w-full h-64">
+          {[0.25, 0.5, 0.75, 1].map(f => (
+            <g key={f}>
+              <line
+                x1={padLeft} x2={width}
+                y1={height - f * height} y2={height - f * height}
+                className="stroke-surface-700" strokeDasharray="4 4"
+              />
+              <text x={padLeft - 6} y={height - f * height + 4} textAnchor="end" className="fill-surface-500 text-[10px]">
+                {Math.round(maxBtuh * f / 1000)}k
+              </text>
+            </g>
+          ))}
+          {day.map((btuh, hour) => {
+            const barHeight = (btuh / maxBtuh) * height
+            return (
+              <g key={hour}>
+                <rect
+                  x={padLeft + hour * barWidth + 2}
+                  y={height - barHeight}
+                  width={barWidth - 4}
+                  height={barHeight}
+                  className={hour === selected.peak.hour ? 'fill-cyan-400' : 'fill-cyan-700'}
+                >
+                  <title>{formatHour(hour)}: {Math.round(btuh).toLocaleString()} BTU/hr</title>
+                </rect>
+                {hour % 3 === 2 && (
+                  <text x={padLeft + (hour + 0.5) * barWidth} y={height + 16} textAnchor="middle" className="fill-surface-500 text-[10px]">
+                    {formatHour(hour)}
+                  </text>
+                )}
+              </g>
+            )
+          })}
+        </svg>
+        <p className="text-xs text-surface-500 mt-2">
+          {MONTH_LABELS[selected.peak.month]} design day (peak month). Bars are hour-ending loads.
+        </p>
+      </div>
+
+      {/* Block Loads */}
+      <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+        <div className="p-4 border-b border-surface-700">
+          <h3 className="text-lg font-semibold text-white">🌀 Block Loads</h3>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-surface-900 text-left text-surface-400">
+              <th className="px-4 py-3 font-medium">System / Zone</th>
+              <th className="px-4 py-3 font-medium text-right">Block Peak (Tons)</th>
+              <th className="px-4 py-3 font-medium text-center">Peak Month / Hour</th>
+              <th className="px-4 py-3 font-medium text-right">Sum of Peaks (Tons)</th>
+              <th className="px-4 py-3 font-medium text-right">Diversity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {options.map(o => (
+              <tr
+                key={o.key}
+                onClick={() => setSelectedKey(o.key)}
+                className={`border-b border-surface-700/50 cursor-pointer hover:bg-surface-700/50 ${
+                  o.key === selected.key ? 'bg-cyan-900/20' : ''
+                }`}
+              >
+                <td className={`px-4 py-2 ${o.key === 'building' ? 'text-white font-semibold' : 'text-white'}`}>{o.label}</td>
+                <td className="px-4 py-2 text-right text-cyan-400 font-mono">{toTons(o.peak.btuh)}</td>
+                <td className="px-4 py-2 text-center text-surface-300">{o.peak.btuh > 0 ? formatPeak(o.peak) : '-'}</td>
+                <td className="px-4 py-2 text-right text-surface-400 font-mono">{toTons(o.sumOfSpacePeaksBtuh)}</td>
+                <td className="px-4 py-2 text-right text-emerald-400">
+                  {o.sumOfSpacePeaksBtuh > 0 ? `${Math.round(o.peak.btuh / o.sumOfSpacePeaksBtuh * 100)}%` : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Space Peaks */}
+      <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+        <div className="p-4 border-b border-surface-700">
+          <h3 className="text-lg font-semibold text-white">🏠 Space Peaks</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-surface-900 text-left text-surface-400">
+                <th className="px-4 py-3 font-medium">Space</th>
+                <th className="px-4 py-3 font-medium text-right">Peak (BTU/hr)</th>
+                <th className="px-4 py-3 font-medium text-right">Tons</th>
+                <th className="px-4 py-3 font-medium text-center">Peak Month / Hour</th>
+                {(Object.keys(COMPONENT_LABELS) as RTSComponent[]).map(c => (
+                  <th key={c} className="px-4 py-3 font-medium text-right">{COMPONENT_LABELS[c]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {allSpaces.map((s, i) => (
+                <tr
+                  key={s.spaceId}
+                  className={`border-b border-surface-700/50 ${i % 2 === 0 ? 'bg-surface-800' : 'bg-surface-850'}`}
+                >
+                  <td className="px-4 py-2 text-white">{s.spaceName}</td>
+                  <td className="px-4 py-2 text-right text-cyan-400 font-mono">{s.peak.btuh.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-right text-surface-300 font-mono">{toTons(s.peak.btuh)}</td>
+                  <td className="px-4 py-2 text-center text-surface-300">{s.peak.btuh > 0 ? formatPeak(s.peak) : '-'}</td>
+                  {(Object.keys(COMPONENT_LABELS) as RTSComponent[]).map(c => (
+                    <td key={c} className="px-4 py-2 text-right text-surface-400 font-mono">
+                      {s.peakComponents[c].toLocaleString()}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
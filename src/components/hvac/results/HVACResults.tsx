@@ -1,7 +1,9 @@
 import { useMemo, useState } from 'react'
 import { useHVACStore, type HVACSpace } from '../../../store/useHVACStore'
 import { calculateProjectVentilation } from '../../../calculations/ventilation'
-import { ASHRAE62_SPACE_TYPES, calculateDefaultOccupancy } from '../../../data/ashrae62'
+import { ASHRAE62_SPACE_TYPES, ASHRAE170_SPACES, PRESSURE_RELATIONSHIP_LABELS, calculateDefaultOccupancy } from '../../../data/ashrae62'
+import CoolingLoadProfile from './CoolingLoadProfile'
+import SystemEquipment from './SystemEquipment'
 
 // Standalone fan aggregation
 interface StandaloneFanSummary {
@@ -57,7 +59,7 @@ function aggregateStandaloneFans(spaces: HVACSpace[]): StandaloneFanSummary[] {
 
 export default function HVACResults() {
   const { currentProject, spaces, zones, systems } = useHVACStore()
-  const [activeTab, setActiveTab] = useState<'summary' | 'spaces' | 'systems' | 'fans' | 'comparison'>('summary')
+  const [activeTab, setActiveTab] = useState<'summary' | 'spaces' | 'systems' | 'fans' | 'comparison' | 'pressure' | 'loads' | 'equipment'>('summary')
   
   const results = useMemo(() => {
     if (!currentProject?.settings) return null
@@ -67,6 +69,15 @@ export default function HVACResults() {
   // Aggregate standalone fans
   const standaloneFans = useMemo(() => aggregateStandaloneFans(spaces), [spaces])
   
+  // ASHRAE 170 healthcare spaces (pressure relationship table)
+  const healthcareSpaces = useMemo(() => {
+    if (!results) return []
+    return [
+      ...results.systems.flatMap(sys => sys.zones.flatMap(z => z.spaces)),
+      ...results.unassignedSpaces,
+    ].filter(s => s.healthcare)
+  }, [results])
+  
   if (!results) {
     return (
       <div className="p-6 text-center text-surface-400">
@@ -154,6 +165,9 @@ export default function HVACResults() {
           { id: 'systems', label: '🌀 Systems' },
           { id: 'fans', label: '💨 Standalone Fans' },
           { id: 'comparison', label: '⚖️ Code Comparison' },
+          { id: 'pressure', label: '🏥 Pressurization' },
+          { id: 'loads', label: '📈 Load Profile' },
+          { id: 'equipment', label: '🧰 Equipment' },
         ].map(tab => (
           <button
             key={tab.id}
@@ -168,6 +182,9 @@ export default function HVACResults() {
             {tab.id === 'fans' && standaloneFans.length > 0 && (
               <span className="ml-2 px-1.5 py-0.5 bg-purple-500/30 rounded text-xs">{standaloneFans.length}</span>
             )}
+            {tab.id === 'pressure' && healthcareSpaces.length > 0 && (
+              <span className="ml-2 px-1.5 py-0.5 bg-purple-500/30 rounded text-xs">{healthcareSpaces.length}</span>
+            )}
           </button>
         ))}
       </div>
@@ -426,6 +443,15 @@ export default function HVACResults() {
                     <div className="text-xs text-surface-500">Heating Load</div>
                     <div className="text-lg font-medium text-amber-400">{system.heatingLoadMbh} MBH</div>
                   </div>
+                  <div>
+                    <div className="text-xs text-surface-500">Latent Cooling</div>
+                    <div className="text-lg font-medium text-blue-400">{(system.latentCoolingBtuh / 12000).toFixed(1)} Tons</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-surface-500">Moisture Removal</div>
+                    <div className="text-lg font-medium text-blue-400">{system.moistureRemovalGrains} gr/lb</div>
+                    <div className="text-xs text-surface-500">{system.moistureRemovalLbHr} lb/hr</div>
+                  </div>
                 </div>
                 
                 {/* Zones in this system */}
@@ -660,6 +686,103 @@ export default function HVACResults() {
         </div>
       )}
       
+      {/* ASHRAE 170 Pressurization Tab */}
+      {activeTab === 'pressure' && (
+        <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-hidden">
+          <div className="p-4 border-b border-surface-700">
+            <h3 className="text-lg font-semibold text-white">🏥 ASHRAE 170 Pressure Relationships</h3>
+            <p className="text-sm text-surface-400 mt-1">
+              Healthcare spaces: total / outdoor air changes, room pressurization and design conditions
+            </p>
+          </div>
+          
+          {healthcareSpaces.length === 0 ? (
+            <div className="p-12 text-center">
+              <div className="text-5xl mb-4">🏥</div>
+              <p className="text-surface-400">No ASHRAE 170 spaces. Pick a healthcare space type in the space editor to include it here.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-surface-900 text-left text-surface-400">
+                    <th className="px-4 py-3 font-medium">Space</th>
+                    <th className="px-4 py-3 font-medium text-center">Pressure</th>
+                    <th className="px-4 py-3 font-medium text-right">Supply</th>
+                    <th className="px-4 py-3 font-medium text-right">Return / Exhaust</th>
+                    <th className="px-4 py-3 font-medium text-right">Offset</th>
+                    <th className="px-4 py-3 font-medium text-center">Total ACH</th>
+                    <th className="px-4 py-3 font-medium text-center">OA ACH</th>
+                    <th className="px-4 py-3 font-medium text-center">All Exhaust</th>
+                    <th className="px-4 py-3 font-medium text-center">Recirc</th>
+                    <th className="px-4 py-3 font-medium text-center">RH</th>
+                    <th className="px-4 py-3 font-medium text-center">Temp</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {healthcareSpaces.map((space, i) => {
+                    const hc = space.healthcare!
+                    const typeName = ASHRAE170_SPACES.find(st => st.id === space.spaceType)?.spaceType ?? space.spaceType
+                    return (
+                      <tr 
+                        key={space.spaceId} 
+                        className={`border-b border-surface-700/50 ${i % 2 === 0 ? 'bg-surface-800' : 'bg-surface-850'}`}
+                      >
+                        <td className="px-4 py-2">
+                          <div className="text-white font-medium">{space.spaceName}</div>
+                          <div className="text-xs text-purple-300">{typeName}</div>
+                        </td>
+                        <td className="px-4 py-2 text-center">
+                          <span className={`px-2 py-1 rounded text-xs ${
+                            hc.pressureRelationship === 'positive' ? 'bg-emerald-500/20 text-emerald-400'
+                              : hc.pressureRelationship === 'negative' ? 'bg-red-500/20 text-red-400'
+                              : 'bg-surface-600/50 text-surface-300'
+                          }`}>
+                            {hc.pressureRelationship === 'positive' ? '+ ' : hc.pressureRelationship === 'negative' ? '− ' : ''}
+                            {PRESSURE_RELATIONSHIP_LABELS[hc.pressureRelationship]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-right text-cyan-400">{(space.supplyCfm ?? 0).toLocaleString()}</td>
+                        <td className="px-4 py-2 text-right text-red-400">{hc.returnExhaustCfm.toLocaleString()}</td>
+                        <td className="px-4 py-2 text-right text-white">
+                          {hc.pressureOffsetCfm > 0 ? '+' : ''}{hc.pressureOffsetCfm} CFM
+                        </td>
+                        <td className="px-4 py-2 text-center">
+                          <span className="text-white">{hc.totalAch}</span>
+                          <span className="text-surface-500 text-xs"> / {hc.minTotalAch} min</span>
+                        </td>
+                        <td className="px-4 py-2 text-center">
+                          <span className="text-white">{hc.oaAch}</span>
+                          <span className="text-surface-500 text-xs"> / {hc.minOaAch} min</span>
+                        </td>
+                        <td className="px-4 py-2 text-center text-surface-300">{hc.allAirExhaust ? 'Yes' : '-'}</td>
+                        <td className="px-4 py-2 text-center text-surface-300">{hc.recirculated ? 'Yes' : 'No'}</td>
+                        <td className="px-4 py-2 text-center text-surface-300">
+                          {hc.rhMin === undefined && hc.rhMax === undefined ? 'NR' : `${hc.rhMin ?? '-'}–${hc.rhMax ?? '-'}%`}
+                        </td>
+                        <td className="px-4 py-2 text-center text-surface-300">
+                          {hc.tempMinF === undefined && hc.tempMaxF === undefined ? 'NR' : `${hc.tempMinF ?? '-'}–${hc.tempMaxF ?? '-'}°F`}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          
+          <div className="p-4 border-t border-surface-700 bg-surface-900 text-xs text-surface-500">
+            Offset is supply minus air leaving the room: the greater of 10% of supply or 50 CFM. NR = no requirement.
+          </div>
+        </div>
+      )}
+      
+      {/* Cooling Load Profile Tab */}
+      {activeTab === 'loads' && <CoolingLoadProfile />}
+
+      {/* Equipment Selection Tab */}
+      {activeTab === 'equipment' && <SystemEquipment />}
+      
       {/* Notes */}
       <div className="bg-surface-800 rounded-xl border border-surface-700 p-6">
         <h3 className="text-lg font-semibold text-white mb-3">📝 Notes</h3>
@@ -669,6 +792,8 @@ export default function HVACResults() {
           <li>• Voz = Vbz / Ez - Zone outdoor airflow</li>
           <li>• Vot = Vou / Ev - System outdoor air intake (multi-zone systems)</li>
           <li>• Ventilation loads are based on design conditions and do not include envelope or internal loads</li>
+          <li>• Outdoor air loads use psychrometric state points (ASHRAE location DB/MCWB to indoor DB/RH) at site pressure</li>
+          <li>• Space cooling loads use the ASHRAE Radiant Time Series method on clear-sky monthly design days</li>
           <li>• Standalone fans are tracked separately from main HVAC systems</li>
           {results.altitudeCorrection < 0.95 && (
             <li className="text-amber-400">• Altitude correction factor of {results.altitudeCorrection.toFixed(3)} applied</li>
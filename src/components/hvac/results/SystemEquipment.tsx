@@ -0,0 +1,65 @@
+import { useMemo } from 'react'
+import { useHVACStore } from '../../../store/useHVACStore'
+import { useSettingsStore } from '../../../store/useSettingsStore'
+import { calculateProjectRTS } from '../../../calculations/rts'
+import { calculateProjectVentilation } from '../../../calculations/ventilation'
+import { selectSystemEquipment, type SystemEquipmentLoad } from '../../../calculations/equipmentSelection'
+import { mergeEquipmentCatalog } from '../../../data/equipmentCatalog'
+import EquipmentScheduleTable from '../../shared/EquipmentScheduleTable'
+
+export default function SystemEquipment() {
+  const { currentProject, spaces, zones, systems } = useHVACStore()
+  const { customEquipment } = useSettingsStore()
+
+  const schedule = useMemo(() => {
+    if (!currentProject?.settings) return null
+    const rts = calculateProjectRTS(spaces, zones, systems, currentProject.settings)
+    const ventilation = calculateProjectVentilation(spaces, zones, systems, currentProject.settings)
+
+    // Block space load at the system peak + outdoor air load at design
+    const loads: SystemEquipmentLoad[] = systems.map(system => {
+      const spacePeakBtuh = rts.systems.find(s => s.systemId === system.id)?.peak.btuh ?? 0
+      const vent = ventilation.systems.find(s => s.systemId === system.id)
+      return {
+        system,
+        coolingTons: spacePeakBtuh / 12000 + (vent?.coolingLoadTons ?? 0),
+        outdoorAirCfm: vent?.Vot ?? 0,
+      }
+    })
+    return { loads, ...selectSystemEquipment(loads, mergeEquipmentCatalog(customEquipment)) }
+  }, [currentProject?.settings, spaces, zones, systems, customEquipment])
+
+  if (!schedule) {
+    return (
+      <div className="p-6 text-center text-surface-400">
+        Configure project settings to see results
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-surface-800 rounded-xl border border-surface-700 p-4 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">🧰 Equipment Selection</h3>
+        <p className="text-sm text-surface-400">
+          Single zone → RTU, VAV → AHU on block cooling tons; DOAS on Vot. Sizes from Settings → Equipment Catalog.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        {schedule.loads.map(({ system, coolingTons, outdoorAirCfm }) => (
+          <div key={system.id} className="p-3 bg-surface-900 rounded-lg">
+            <div className="text-surface-500">{system.name}</div>
+            <div className="text-lg font-bold text-cyan-400">{coolingTons.toFixed(1)} Tons</div>
+            <div className="text-xs text-surface-400">{outdoorAirCfm.toLocaleString()} CFM outdoor air</div>
+          </div>
+        ))}
+      </div>
+
+      <EquipmentScheduleTable schedule={schedule} />
+      {schedule.warnings.map((w, i) => (
+        <div key={i} className="text-xs text-amber-400">⚠️ {w}</div>
+      ))}
+    </div>
+  )
+}
@@ -47,6 +47,18 @@ export default function VentilationSummary() {
             <div className="text-sm text-surface-400">Altitude Factor</div>
             <div className="text-white font-medium">{results.altitudeCorrection}</div>
           </div>
+          <div>
+            <div className="text-sm text-surface-400">Outdoor W</div>
+            <div className="text-cyan-400 font-medium">{results.outdoorHumidityRatioGrains} gr/lb</div>
+          </div>
+          <div>
+            <div className="text-sm text-surface-400">Indoor W</div>
+            <div className="text-white font-medium">{results.indoorHumidityRatioGrains} gr/lb ({results.indoorSummerDb}°F)</div>
+          </div>
+          <div>
+            <div className="text-sm text-surface-400">Barometric Pressure</div>
+            <div className="text-white font-medium">{results.barometricPressurePsia} psia</div>
+          </div>
         </div>
       </div>
       
@@ -136,7 +148,7 @@ export default function VentilationSummary() {
               </div>
               
               {/* Loads */}
-              <div className="p-4 grid grid-cols-3 gap-4 text-sm border-b border-surface-700 bg-surface-900/50">
+              <div className="p-4 grid grid-cols-4 gap-4 text-sm border-b border-surface-700 bg-surface-900/50">
                 <div>
                   <div className="text-surface-400">Cooling Load</div>
                   <div className="text-cyan-400 font-medium">{system.coolingLoadTons} Tons</div>
@@ -152,8 +164,57 @@ export default function VentilationSummary() {
                   <div className="text-blue-400 font-medium">{(system.latentCoolingBtuh / 12000).toFixed(1)} Tons</div>
                   <div className="text-xs text-surface-500">({system.latentCoolingBtuh.toLocaleString()} BTU/hr)</div>
                 </div>
+                <div>
+                  <div className="text-surface-400">Moisture Removal</div>
+                  <div className="text-blue-400 font-medium">{system.moistureRemovalGrains} gr/lb</div>
+                  <div className="text-xs text-surface-500">({system.moistureRemovalLbHr} lb/hr)</div>
+                </div>
               </div>
               
+              {/* Critical Zone (62.1 Appendix A) */}
+              {system.systemType === 'vav_multi_zone' && system.criticalZoneId && (() => {
+                const critical = system.zones.find(z => z.zoneId === system.criticalZoneId)
+                if (!critical) return null
+                return (
+                  <div className={`p-4 text-sm border-b border-surface-700 ${critical.Evz < 0.6 ? 'bg-red-900/20' : 'bg-amber-900/10'}`}>
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="font-medium text-amber-400">
+                        🎯 Critical Zone: {critical.zoneName}
+                      </div>
+                      <div className="text-xs text-surface-400">
+                        Appendix A • Vps {system.Vps.toLocaleString()} CFM • Xs {system.Xs.toFixed(3)}
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-5 gap-4">
+                      <div>
+                        <div className="text-surface-400">Voz</div>
+                        <div className="text-white font-medium">{critical.totalVoz.toLocaleString()} CFM</div>
+                      </div>
+                      <div>
+                        <div className="text-surface-400">Vpz-min</div>
+                        <div className="text-white font-medium">{critical.VpzMin.toLocaleString()} CFM</div>
+                      </div>
+                      <div>
+                        <div className="text-surface-400">Zpz</div>
+                        <div className="text-white font-medium">{critical.Zp.toFixed(3)}</div>
+                      </div>
+                      <div>
+                        <div className="text-surface-400">Evz = Ev</div>
+                        <div className={`font-medium ${critical.Evz < 0.6 ? 'text-red-400' : 'text-white'}`}>{critical.Evz.toFixed(3)}</div>
+                      </div>
+                      <div>
+                        <div className="text-surface-400">Vot = Vou / Ev</div>
+                        <div className="text-cyan-400 font-medium">{system.Vot.toLocaleString()} CFM</div>
+                      </div>
+                    </div>
+                    <div className="text-xs text-surface-500 mt-2">
+                      Raise this zone's minimum primary airflow to increase Ev and reduce system outdoor air.
+                      {critical.primaryAirflowAssumed && ' Primary airflow not entered - area-based defaults used.'}
+                    </div>
+                  </div>
+                )
+              })()}
+              
               {/* Zones */}
               {system.zones.length > 0 && (
                 <div className="p-4">
@@ -168,6 +229,13 @@ export default function VentilationSummary() {
                         <th className="pb-2 text-right">Vbz</th>
                         <th className="pb-2 text-right">Voz</th>
                         <th className="pb-2 text-right">Exhaust</th>
+                        {system.systemType === 'vav_multi_zone' && (
+                          <>
+                            <th className="pb-2 text-right">Vpz-min</th>
+                            <th className="pb-2 text-right">Zpz</th>
+                            <th className="pb-2 text-right">Evz</th>
+                          </>
+                        )}
                       </tr>
                     </thead>
                     <tbody>
@@ -180,6 +248,15 @@ export default function VentilationSummary() {
                           <td className="py-2 text-right text-white">{zone.totalVbz}</td>
                           <td className="py-2 text-right text-cyan-400 font-medium">{zone.totalVoz}</td>
                           <td className="py-2 text-right text-red-400">{zone.totalExhaustCfm}</td>
+                          {system.systemType === 'vav_multi_zone' && (
+                            <>
+                              <td className={`py-2 text-right ${zone.primaryAirflowAssumed ? 'text-surface-500 italic' : 'text-white'}`}>{zone.VpzMin}</td>
+                              <td className="py-2 text-right text-white">{zone.Zp.toFixed(2)}</td>
+                              <td className={`py-2 text-right font-medium ${zone.zoneId === system.criticalZoneId ? 'text-amber-400' : 'text-white'}`}>
+                                {zone.Evz.toFixed(2)}
+                              </td>
+                            </>
+                          )}
                         </tr>
                       ))}
                     </tbody>
@@ -4,6 +4,9 @@ import { useScannerStore } from '../../../store/useScannerStore'
 import { ASHRAE62_SPACE_TYPES, ASHRAE170_SPACES, getCategories, getSpaceTypesByCategory, calculateDefaultOccupancy, matchSpaceNameToASHRAE, matchZoneTypeToASHRAE } from '../../../data/ashrae62'
 import { supabase, isSupabaseConfigured } from '../../../lib/supabase'
 import type { ASHRAE62SpaceType } from '../../../data/ashrae62'
+import { DEFAULT_ZONE_ENVELOPE } from '../../../calculations/envelopeLoads'
+import { getSpaceLightingWsf } from '../../../calculations/rts'
+import EnvelopeInputs from '../../shared/EnvelopeInputs'
 
 export default function HVACSpaceCanvas() {
   const { spaces, deleteSpace, zones, addSpace } = useHVACStore()
@@ -438,7 +441,7 @@ function AddSpaceModal({ onClose }: { onClose: () => void }) {
 function EditSpaceModal({ spaceId, onClose }: { spaceId: string; onClose: () => void }) {
   const { spaces, updateSpace, zones } = useHVACStore()
   const space = spaces.find(s => s.id === spaceId)
-  const [activeSection, setActiveSection] = useState<'basic' | 'ventilation' | 'fans'>('basic')
+  const [activeSection, setActiveSection] = useState<'basic' | 'ventilation' | 'fans' | 'loads'>('basic')
   const [showSpaceTypeDropdown, setShowSpaceTypeDropdown] = useState(false)
   const [spaceTypeSearch, setSpaceTypeSearch] = useState('')
   
@@ -460,6 +463,9 @@ function EditSpaceModal({ spaceId, onClose }: { spaceId: string; onClose: () =>
     // Fan tagging
     exhaustFanTag: space?.exhaustFanTag || '',
     supplyFanTag: space?.supplyFanTag || '',
+    // Cooling load inputs
+    envelope: space?.envelope,
+    lightingWsf: space?.lightingWsf,
   })
   
   if (!space) return null
@@ -519,6 +525,8 @@ function EditSpaceModal({ spaceId, onClose }: { spaceId: string; onClose: () =>
       supplyAch: form.supplyAch,
       exhaustFanTag: form.exhaustFanTag || undefined,
       supplyFanTag: form.supplyFanTag || undefined,
+      envelope: form.envelope,
+      lightingWsf: form.lightingWsf,
     })
     onClose()
   }
@@ -564,6 +572,14 @@ function EditSpaceModal({ spaceId, onClose }: { spaceId: string; onClose: () =>
           >
             🌀 Fan Tags
           </button>
+          <button
+            onClick={() => setActiveSection('loads')}
+            className={`px-3 py-2 text-sm font-medium rounded-t-lg transition-colors ${
+              activeSection === 'loads' ? 'bg-surface-700 text-white' : 'text-surface-400 hover:text-white'
+            }`}
+          >
+            🧱 Cooling Loads
+          </button>
         </div>
         
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
@@ -586,7 +602,7 @@ function EditSpaceModal({ spaceId, onClose }: { spaceId: string; onClose: () =>
                 </div>
                 <div className="text-xs text-surface-400 mt-0.5">
                   {isHealthcareSpace 
-                    ? `ASHRAE 170 | ${ashrae170SpaceType?.minTotalACH} ACH total, ${ashrae170SpaceType?.minOAach} ACH OA`
+                    ? `ASHRAE 170 | ${ashrae170SpaceType?.minTotalACH} ACH total, ${ashrae170SpaceType?.minOAach} ACH OA, ${ashrae170SpaceType?.pressureRelationship} pressure${ashrae170SpaceType?.rhMax ? `, ${ashrae170SpaceType.rhMin ?? 0}-${ashrae170SpaceType.rhMax}% RH` : ''}`
                     : `ASHRAE 62.1 | Rp: ${defaultRp} CFM/p, Ra: ${defaultRa} CFM/SF, ${spaceType?.defaultOccupancy || 5}/1000SF`}
                 </div>
               </div>
@@ -906,6 +922,32 @@ function EditSpaceModal({ spaceId, onClose }: { spaceId: string; onClose: () =>
               )}
             </>
           )}
+          
+          {activeSection === 'loads' && (
+            <>
+              <div className="p-3 bg-cyan-900/20 border border-cyan-600/30 rounded-lg text-sm text-cyan-300">
+                🧱 Exterior envelope and internal gains for the hourly (RTS) cooling load profile. Interior spaces only need lighting and equipment.
+              </div>
+              
+              <div>
+                <label className="block text-sm text-surface-400 mb-1">Lighting (W/SF)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={form.lightingWsf ?? ''}
+                  onChange={(e) => setForm(f => ({ ...f, lightingWsf: e.target.value ? Number(e.target.value) : undefined }))}
+                  placeholder={`${getSpaceLightingWsf({ spaceType: form.spaceType })} (90.1 allowance)`}
+                  className="w-full px-3 py-2 bg-surface-900 border border-surface-600 rounded-lg text-white"
+                />
+              </div>
+              
+              <EnvelopeInputs
+                envelope={{ ...DEFAULT_ZONE_ENVELOPE, ...form.envelope }}
+                onChange={(updates) => setForm(f => ({ ...f, envelope: { ...DEFAULT_ZONE_ENVELOPE, ...f.envelope, ...updates } }))}
+              />
+            </>
+          )}
         </div>
         
         <div className="p-4 border-t border-surface-700 flex justify-end gap-3">
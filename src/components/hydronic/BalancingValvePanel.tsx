@@ -0,0 +1,73 @@
+// ===========================================
+// BALANCING VALVE PANEL
+// Terminal branch valve settings to match the index circuit
+// ===========================================
+
+import { AlertTriangle } from 'lucide-react'
+import { useHydronicStore } from '../../store/useHydronicStore'
+import { BALANCING_VALVE_MODELS } from '../../data/balancingValves'
+import type { BalancingValveSchedule, HydronicSystem } from '../../types/hydronic'
+
+interface BalancingValvePanelProps {
+  system: HydronicSystem
+  schedule: BalancingValveSchedule
+}
+
+export function BalancingValvePanel({ system, schedule }: BalancingValvePanelProps) {
+  const { updateSystem } = useHydronicStore()
+  const { valveModel } = schedule
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+      <div className="px-3 py-2 bg-gray-750 border-b border-gray-700">
+        <span className="text-xs font-medium text-gray-400">Balancing Valve Schedule</span>
+      </div>
+      <div className="p-3 space-y-3 text-sm">
+        <div>
+          <label className="block text-xs text-gray-500 mb-0.5">Valve Model</label>
+          <select
+            value={valveModel.id}
+            onChange={(e) => updateSystem(system.id, { balancingValveModelId: e.target.value })}
+            className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1.5 text-xs"
+          >
+            {BALANCING_VALVE_MODELS.map(model => (
+              <option key={model.id} value={model.id}>
+                {model.displayName}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          {schedule.valves.map(valve => (
+            <div key={valve.sectionId} className="text-xs">
+              <div className={`flex justify-between ${valve.circuitIndex === 0 ? 'text-white font-medium' : 'text-gray-300'}`}>
+                <span className="truncate">{valve.circuitIndex === 0 && 'Index: '}{valve.sectionName}</span>
+                <span className="text-blue-400 whitespace-nowrap">
+                  {valve.setting !== null
+                    ? valve.setting >= valveModel.maxSetting
+                      ? 'Full open'
+                      : `${valve.setting} ${valveModel.settingUnit}`
+                    : '-'}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-x-2 text-gray-500">
+                <span>{valve.valveSize}" @ {valve.flowGpm} GPM</span>
+                <span>+{valve.excessHeadFt.toFixed(2)} ft</span>
+                {valve.requiredCv !== null && <span>Cv {valve.requiredCv.toFixed(1)} / {valve.fullOpenCv}</span>}
+                {valve.settingDpFt !== null && <span>dP {valve.settingDpFt.toFixed(2)} ft</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {schedule.warnings.map((warning, i) => (
+          <div key={i} className="flex gap-1.5 text-xs text-amber-400/80">
+            <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+            {warning}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+// ===========================================
+// CLOSED LOOP ACCESSORIES PANEL
+// Expansion tank, air separator and glycol fill
+// ===========================================
+
+import { AlertTriangle } from 'lucide-react'
+import { useHydronicStore } from '../../store/useHydronicStore'
+import type { HydronicAccessorySizing, HydronicSystem } from '../../types/hydronic'
+
+interface HydronicAccessoriesPanelProps {
+  system: HydronicSystem
+  accessories: HydronicAccessorySizing
+}
+
+type AccessoryField = 'fillPressurePsig' | 'maxPressurePsig' | 'fillTempF' | 'maxTempF' | 'equipmentVolumeGal' | 'glycolCostPerGal'
+
+export function HydronicAccessoriesPanel({ system, accessories }: HydronicAccessoriesPanelProps) {
+  const { updateSystem } = useHydronicStore()
+  const { expansionTank: tank, airSeparator, glycolFill } = accessories
+
+  // Blank clears the override back to the calculated default
+  const renderInput = (field: AccessoryField, label: string, unit: string, placeholder: number) => (
+    <div>
+      <label className="block text-xs text-gray-500 mb-0.5">{label}</label>
+      <div className="flex items-center">
+        <input
+          type="number"
+          value={system[field] ?? ''}
+          placeholder={String(placeholder)}
+          onChange={(e) => updateSystem(system.id, { [field]: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+          className="w-full bg-gray-700 border border-gray-600 rounded-l px-2 py-1.5 text-sm"
+        />
+        <span className="bg-gray-600 border border-gray-600 rounded-r px-2 py-1.5 text-xs text-gray-400">
+          {unit}
+        </span>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+      <div className="px-3 py-2 bg-gray-750 border-b border-gray-700">
+        <span className="text-xs font-medium text-gray-400">Closed Loop Accessories</span>
+      </div>
+      <div className="p-3 space-y-3 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          {renderInput('fillPressurePsig', 'Fill Pressure', 'psig', tank.fillPressurePsig)}
+          {renderInput('maxPressurePsig', 'Max Pressure', 'psig', tank.maxPressurePsig)}
+          {renderInput('fillTempF', 'Fill / Min Temp', '°F', tank.fillTempF)}
+          {renderInput('maxTempF', 'Max Temp', '°F', tank.maxTempF)}
+          {renderInput('equipmentVolumeGal', 'Equipment Vol.', 'gal', 0)}
+          {glycolFill && renderInput('glycolCostPerGal', 'Glycol Cost', '$/gal', glycolFill.costPerGal)}
+        </div>
+
+        {/* Expansion Tank */}
+        <div className="space-y-1.5 text-gray-400">
+          <div className="text-xs font-medium text-gray-300">Expansion Tank</div>
+          <div className="flex justify-between">
+            <span>System Volume</span>
+            <span className="text-gray-300">{tank.systemVolumeGal.toFixed(1)} gal</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Fluid Expansion ({tank.fillTempF}→{tank.maxTempF}°F)</span>
+            <span className="text-gray-300">{tank.fluidExpansionPct.toFixed(2)}%</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Expansion Volume</span>
+            <span className="text-gray-300">{tank.expansionVolumeGal.toFixed(2)} gal</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Acceptance Factor</span>
+            <span className="text-gray-300">{tank.acceptanceFactor.toFixed(3)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Required Tank</span>
+            <span className="text-gray-300">{tank.requiredTankGal.toFixed(1)} gal</span>
+          </div>
+          <div className="flex justify-between font-medium text-white">
+            <span>Selected</span>
+            <span className="text-blue-400">
+              {tank.tankCount > 1 && `${tank.tankCount} × `}{tank.tankSizeGal} gal
+            </span>
+          </div>
+        </div>
+
+        {/* Air Separator */}
+        <div className="space-y-1.5 text-gray-400 border-t border-gray-700 pt-2">
+          <div className="text-xs font-medium text-gray-300">Air Separator</div>
+          <div className="flex justify-between">
+            <span>Tangential, {airSeparator.connectionSize}"</span>
+            <span className="text-gray-300">{airSeparator.flowGpm.toFixed(0)} / {airSeparator.ratedGpm} GPM</span>
+          </div>
+        </div>
+
+        {/* Glycol Fill */}
+        {glycolFill && (
+          <div className="space-y-1.5 text-gray-400 border-t border-gray-700 pt-2">
+            <div className="text-xs font-medium text-gray-300">Glycol Fill ({glycolFill.concentrationPct}%)</div>
+            <div className="flex justify-between">
+              <span>Concentrate</span>
+              <span className="text-gray-300">{glycolFill.concentrateGal} gal</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Water</span>
+              <span className="text-gray-300">{glycolFill.waterGal} gal</span>
+            </div>
+            <div className="flex justify-between font-medium text-white">
+              <span>Glycol Cost</span>
+              <span className="text-blue-400">${glycolFill.cost.toLocaleString()}</span>
+            </div>
+          </div>
+        )}
+
+        {accessories.warnings.map((warning, i) => (
+          <div key={i} className="flex gap-1.5 text-xs text-amber-400/80">
+            <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+            {warning}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
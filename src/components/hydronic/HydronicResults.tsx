@@ -3,16 +3,28 @@
 // Displays calculation results with safety factor breakdown
 // =========================================== 
 
+import { useMemo } from 'react'
 import {
   AlertTriangle,
   FileSpreadsheet,
   FileText,
 } from 'lucide-react'
 import { getFluidDisplayName } from '../../data/fluidProperties'
+import { getLocationById } from '../../data/ashraeClimate'
 import { calculatePumpBhp, headToPsi } from '../../calculations/hydronic'
+import { selectSystemPump } from '../../calculations/pumpSelection'
+import { calculateHydronicAccessories } from '../../calculations/hydronicAccessories'
+import { calculatePipeHeatLoss } from '../../calculations/pipeHeatLoss'
+import { calculateBalancingSchedule } from '../../calculations/balancingValves'
 import { exportHydronicToExcel } from '../../export/hydronicExcel'
 import { exportHydronicToPdf } from '../../export/hydronicPdf'
 import { useHydronicStore } from '../../store/useHydronicStore'
+import { useSettingsStore } from '../../store/useSettingsStore'
+import { useProjectStore } from '../../store/useProjectStore'
+import { PumpSelectionPanel } from './PumpSelectionPanel'
+import { HydronicAccessoriesPanel } from './HydronicAccessoriesPanel'
+import { PipeHeatLossPanel } from './PipeHeatLossPanel'
+import { BalancingValvePanel } from './BalancingValvePanel'
 import type { HydronicSystem, HydronicCalculationResult } from '../../types/hydronic'
 
 interface HydronicResultsProps {
@@ -26,15 +38,39 @@ export function HydronicResults({
 }: HydronicResultsProps) {
   const { getSectionsForSystem } = useHydronicStore()
   const sections = getSectionsForSystem(system.id)
+  const { customPumpCurves, getPumpCurves } = useSettingsStore()
+  const { currentProject } = useProjectStore()
+  
+  // Project climate for the condensation check
+  const locationId = currentProject && currentProject.id === system.projectId ? currentProject.ashraeLocationId : undefined
+  const location = locationId ? getLocationById(locationId) : undefined
+  
+  const pumpCurves = useMemo(() => getPumpCurves(), [customPumpCurves, getPumpCurves])
+  const { selection, candidates } = useMemo(
+    () => (result ? selectSystemPump(system, result, pumpCurves) : { selection: null, candidates: [] }),
+    [system, result, pumpCurves]
+  )
+  const accessories = useMemo(
+    () => (result && system.systemType === 'closed' ? calculateHydronicAccessories(system, sections, result) : null),
+    [system, sections, result]
+  )
+  const balancing = useMemo(
+    () => (result ? calculateBalancingSchedule(system, sections, result) : null),
+    [system, sections, result]
+  )
+  const heatLoss = useMemo(
+    () => (result ? calculatePipeHeatLoss(system, sections, result, location) : null),
+    [system, sections, result, location]
+  )
   
   const handleExportExcel = () => {
     if (!result) return
-    exportHydronicToExcel(system, sections, result)
+    exportHydronicToExcel(system, sections, result, selection, heatLoss)
   }
   
   const handleExportPdf = () => {
     if (!result) return
-    exportHydronicToPdf(system, sections, result)
+    exportHydronicToPdf(system, sections, result, selection, heatLoss)
   }
   
   if (!result) {
@@ -45,13 +81,14 @@ export function HydronicResults({
     )
   }
   
-  const estimatedBhp = calculatePumpBhp(
-    result.maxFlowGpm,
-    result.totalPumpHeadFt,
-    result.fluidProperties.specificGravity
-  )
+  // Curve efficiency when a pump is selected, else the generic 70%
+  const estimatedBhp = selection?.operatingPoint
+    ? selection.totalBhp
+    : calculatePumpBhp(result.maxFlowGpm, result.totalPumpHeadFt, result.fluidProperties.specificGravity)
   
   const totalHeadPsi = headToPsi(result.totalPumpHeadFt, result.fluidProperties.specificGravity)
+  const network = result.network
+  const sectionName = (id: string) => sections.find(s => s.id === id)?.name ?? id
   
   return (
     <div className="p-4 space-y-6">
@@ -82,14 +119,14 @@ export function HydronicResults({
         {/* Flow & Power */}
         <div className="grid grid-cols-2 gap-3">
           <div className="bg-gray-700/50 rounded-lg p-3">
-            <div className="text-xs text-gray-400 mb-1">Max Flow</div>
+            <div className="text-xs text-gray-400 mb-1">{network ? 'Pump Flow' : 'Max Flow'}</div>
             <div className="text-xl font-semibold text-white">
               {result.maxFlowGpm.toFixed(0)}
               <span className="text-sm text-gray-400 ml-1">GPM</span>
             </div>
           </div>
           <div className="bg-gray-700/50 rounded-lg p-3">
-            <div className="text-xs text-gray-400 mb-1">Est. BHP</div>
+            <div className="text-xs text-gray-400 mb-1">{selection?.operatingPoint ? 'BHP (curve)' : 'Est. BHP'}</div>
             <div className="text-xl font-semibold text-white">
               {estimatedBhp.toFixed(1)}
               <span className="text-sm text-gray-400 ml-1">HP</span>
@@ -103,6 +140,9 @@ export function HydronicResults({
             <span className="text-xs font-medium text-gray-400">Head Breakdown</span>
           </div>
           <div className="p-3 space-y-2 text-sm">
+            {network && (
+              <div className="text-xs text-gray-500">Index circuit only</div>
+            )}
             <div className="flex justify-between text-gray-400">
               <span>Pipe Friction</span>
               <span className="text-gray-300">{result.totalPipeFrictionFt.toFixed(2)} ft</span>
@@ -132,6 +172,48 @@ export function HydronicResults({
           </div>
         </div>
         
+        {/* Pump Selection */}
+        <PumpSelectionPanel system={system} curves={pumpCurves} selection={selection} candidates={candidates} />
+        
+        {/* Closed Loop Accessories */}
+        {accessories && <HydronicAccessoriesPanel system={system} accessories={accessories} />}
+        
+        {/* Pipe Heat Loss */}
+        {heatLoss && heatLoss.sections.length > 0 && <PipeHeatLossPanel system={system} heatLoss={heatLoss} />}
+        
+        {/* Network Circuits */}
+        {network && (
+          <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+            <div className="px-3 py-2 bg-gray-750 border-b border-gray-700 flex justify-between">
+              <span className="text-xs font-medium text-gray-400">Network Circuits</span>
+              <span className="text-xs text-gray-500">
+                {network.supplyNode} → {network.returnNode} · {network.loopCount} loop{network.loopCount === 1 ? '' : 's'}
+                {network.loopCount > 0 && (network.converged ? ` · solved in ${network.iterations} it.` : ' · not converged')}
+              </span>
+            </div>
+            <div className="p-3 space-y-2 text-sm">
+              {network.circuits.map((circuit, i) => (
+                <div key={i} className={`flex justify-between gap-2 ${i === 0 ? 'text-white font-medium' : 'text-gray-400'}`}>
+                  <span className="truncate" title={circuit.nodes.join(' → ')}>
+                    {i === 0 && 'Index: '}{circuit.sectionIds.map(sectionName).join(' → ')}
+                  </span>
+                  <span className="whitespace-nowrap">
+                    {circuit.designHeadFt.toFixed(2)} ft
+                    {i > 0 && <span className="text-amber-400 ml-2">+{circuit.excessHeadFt.toFixed(2)} to balance</span>}
+                  </span>
+                </div>
+              ))}
+              <div className="flex justify-between text-gray-500 border-t border-gray-700 pt-2 text-xs">
+                <span>Unbalanced supply-to-return head</span>
+                <span>{network.solvedHeadFt.toFixed(2)} ft</span>
+              </div>
+            </div>
+          </div>
+        )}
+        
+        {/* Balancing Valves */}
+        {balancing && balancing.valves.length > 0 && <BalancingValvePanel system={system} schedule={balancing} />}
+        
         {/* Fluid Properties */}
         <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
           <div className="px-3 py-2 bg-gray-750 border-b border-gray-700">
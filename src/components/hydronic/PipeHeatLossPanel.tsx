@@ -0,0 +1,93 @@
+// ===========================================
+// PIPE HEAT LOSS PANEL
+// Heat loss / gain, temperature change, condensation and ASHRAE 90.1 insulation
+// ===========================================
+
+import { AlertTriangle } from 'lucide-react'
+import { useHydronicStore } from '../../store/useHydronicStore'
+import { getInsulationDisplayName } from '../../data/pipeInsulation'
+import type { HydronicSystem, PipeHeatLossResult } from '../../types/hydronic'
+
+interface PipeHeatLossPanelProps {
+  system: HydronicSystem
+  heatLoss: PipeHeatLossResult
+}
+
+type AmbientField = 'ambientTempF' | 'ambientDewPointF'
+
+export function PipeHeatLossPanel({ system, heatLoss }: PipeHeatLossPanelProps) {
+  const { updateSystem } = useHydronicStore()
+  const isGain = heatLoss.totalHeatLossBtuh < 0
+
+  // Blank clears the override back to the climate / default value
+  const renderInput = (field: AmbientField, label: string, placeholder: number) => (
+    <div>
+      <label className="block text-xs text-gray-500 mb-0.5">{label}</label>
+      <div className="flex items-center">
+        <input
+          type="number"
+          value={system[field] ?? ''}
+          placeholder={String(placeholder)}
+          onChange={(e) => updateSystem(system.id, { [field]: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+          className="w-full bg-gray-700 border border-gray-600 rounded-l px-2 py-1.5 text-sm"
+        />
+        <span className="bg-gray-600 border border-gray-600 rounded-r px-2 py-1.5 text-xs text-gray-400">
+          °F
+        </span>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+      <div className="px-3 py-2 bg-gray-750 border-b border-gray-700">
+        <span className="text-xs font-medium text-gray-400">Pipe Heat Loss & Insulation</span>
+      </div>
+      <div className="p-3 space-y-3 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          {renderInput('ambientTempF', 'Ambient', heatLoss.ambientTempF)}
+          {renderInput('ambientDewPointF', 'Dew Point', heatLoss.dewPointF)}
+        </div>
+        {heatLoss.climateLocation && (
+          <p className="text-xs text-gray-500">Defaults from {heatLoss.climateLocation} (0.4% summer design)</p>
+        )}
+
+        {/* Sections */}
+        <div className="space-y-2">
+          {heatLoss.sections.map(s => (
+            <div key={s.sectionId} className="text-xs">
+              <div className="flex justify-between text-gray-300">
+                <span className="truncate">{s.sectionName}</span>
+                <span>{Math.abs(s.heatLossBtuh).toLocaleString()} Btu/h {s.heatLossBtuh < 0 ? 'gain' : 'loss'}</span>
+              </div>
+              <div className="flex flex-wrap gap-x-2 text-gray-500">
+                <span>
+                  {s.insulationType === 'none' ? 'Bare' : `${s.insulationThicknessIn}" ${getInsulationDisplayName(s.insulationType)}`}
+                </span>
+                <span>ΔT {s.tempChangeF > 0 ? '+' : ''}{s.tempChangeF.toFixed(2)}°F</span>
+                <span className={s.condensation ? 'text-red-400' : ''}>Surface {s.surfaceTempF.toFixed(0)}°F</span>
+                {s.ashraeMinThicknessIn !== null && (
+                  <span className={s.meetsAshrae ? 'text-green-400' : 'text-amber-400'}>
+                    90.1 min {s.ashraeMinThicknessIn}"
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between font-medium text-white border-t border-gray-700 pt-2">
+          <span>Total Heat {isGain ? 'Gain' : 'Loss'}</span>
+          <span className="text-blue-400">{Math.abs(heatLoss.totalHeatLossBtuh).toLocaleString()} Btu/h</span>
+        </div>
+
+        {heatLoss.warnings.map((warning, i) => (
+          <div key={i} className="flex gap-1.5 text-xs text-amber-400/80">
+            <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+            {warning}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -15,8 +15,9 @@ import {
 import { useHydronicStore } from '../../store/useHydronicStore'
 import { PIPE_MATERIALS, getAvailableSizes } from '../../data/pipeData'
 import { getFitting } from '../../data/fittingsLibrary'
+import { INSULATION_MATERIALS, STANDARD_INSULATION_THICKNESSES } from '../../data/pipeInsulation'
 import { FittingsPicker } from './FittingsPicker'
-import type { HydronicPipeSection, HydronicFitting, PipeMaterial } from '../../types/hydronic'
+import type { HydronicPipeSection, HydronicFitting, InsulationType, PipeMaterial } from '../../types/hydronic'
 
 interface PipeSectionBuilderProps {
   systemId: string
@@ -36,6 +37,7 @@ export function PipeSectionBuilder({ systemId }: PipeSectionBuilderProps) {
   
   const sections = getSectionsForSystem(systemId)
   const result = calculationResults[systemId]
+  const nodedCount = sections.filter(s => s.fromNode?.trim() && s.toNode?.trim()).length
   
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set())
   const [showFittingsPicker, setShowFittingsPicker] = useState<string | null>(null)
@@ -75,6 +77,11 @@ export function PipeSectionBuilder({ systemId }: PipeSectionBuilderProps) {
             Add Section
           </button>
         </div>
+        {nodedCount > 0 && nodedCount < sections.length && (
+          <p className="mt-2 text-xs text-amber-400">
+            Network mode needs From/To nodes on every section ({nodedCount} of {sections.length} set) - solving as a series run
+          </p>
+        )}
       </div>
       
       {/* Sections List - Scrollable */}
@@ -96,6 +103,7 @@ export function PipeSectionBuilder({ systemId }: PipeSectionBuilderProps) {
                 key={section.id}
                 section={section}
                 sectionResult={getSectionResult(section.id)}
+                solvedFlowGpm={result?.network?.solvedFlows[section.id]}
                 isExpanded={expandedSections.has(section.id)}
                 onToggleExpand={() => toggleExpanded(section.id)}
                 onUpdate={(updates) => updateSection(section.id, updates)}
@@ -137,6 +145,7 @@ interface SectionCardProps {
     volumeGal: number
     warnings: string[]
   }
+  solvedFlowGpm?: number
   isExpanded: boolean
   onToggleExpand: () => void
   onUpdate: (updates: Partial<HydronicPipeSection>) => void
@@ -149,6 +158,7 @@ interface SectionCardProps {
 function SectionCard({
   section,
   sectionResult,
+  solvedFlowGpm,
   isExpanded,
   onToggleExpand,
   onUpdate,
@@ -300,6 +310,82 @@ function SectionCard({
         </div>
       </div>
       
+      {/* Network Nodes */}
+      <div className="px-3 pb-3 grid grid-cols-5 gap-2">
+        <div>
+          <label className="block text-xs text-gray-500 mb-0.5">From Node</label>
+          <input
+            type="text"
+            value={section.fromNode ?? ''}
+            onChange={(e) => onUpdate({ fromNode: e.target.value })}
+            placeholder="e.g. S"
+            className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1.5 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-0.5">To Node</label>
+          <input
+            type="text"
+            value={section.toNode ?? ''}
+            onChange={(e) => onUpdate({ toNode: e.target.value })}
+            placeholder="e.g. T1"
+            className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1.5 text-sm"
+          />
+        </div>
+        {solvedFlowGpm !== undefined && (
+          <div className="col-span-3 flex items-end pb-1.5 text-xs text-gray-400">
+            Unbalanced flow:&nbsp;
+            <span className={Math.abs(solvedFlowGpm - section.flowGpm) > section.flowGpm * 0.1 ? 'text-amber-400' : 'text-green-400'}>
+              {solvedFlowGpm.toFixed(1)} GPM
+            </span>
+            &nbsp;vs {section.flowGpm} GPM design
+          </div>
+        )}
+      </div>
+
+      {/* Insulation */}
+      <div className="px-3 pb-3 grid grid-cols-5 gap-2">
+        <div className="col-span-2">
+          <label className="block text-xs text-gray-500 mb-0.5">Insulation</label>
+          <select
+            value={section.insulationType ?? 'none'}
+            onChange={(e) => onUpdate({
+              insulationType: e.target.value as InsulationType,
+              ...(section.insulationThicknessIn ? {} : { insulationThicknessIn: 1 }),
+            })}
+            className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1.5 text-sm"
+          >
+            {INSULATION_MATERIALS.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.displayName}
+              </option>
+            ))}
+          </select>
+        </div>
+        {section.insulationType && section.insulationType !== 'none' && (
+          <div>
+            <label className="block text-xs text-gray-500 mb-0.5">Thickness</label>
+            <div className="flex items-center">
+              <select
+                value={section.insulationThicknessIn ?? 0}
+                onChange={(e) => onUpdate({ insulationThicknessIn: parseFloat(e.target.value) })}
+                className="w-full bg-gray-700 border border-gray-600 rounded-l px-2 py-1.5 text-sm"
+              >
+                <option value={0}>-</option>
+                {STANDARD_INSULATION_THICKNESSES.map((t) => (
+                  <option key={t} value={t}>
+                    {t}"
+                  </option>
+                ))}
+              </select>
+              <span className="bg-gray-600 border border-gray-600 rounded-r px-2 py-1.5 text-xs text-gray-400">
+                in
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Expanded Content - Fittings List */}
       {isExpanded && (
         <div className="border-t border-gray-700 p-3 bg-gray-850">
@@ -0,0 +1,90 @@
+// ===========================================
+// PUMP CURVE CHART
+// Pump curve (full and VFD speed), system curve and operating points
+// ===========================================
+
+import { getRunoutGpm, pumpHeadAt, systemHeadAt } from '../../calculations/pumpSelection'
+import type { PumpSelection } from '../../types/pumpCurve'
+
+const WIDTH = 280
+const HEIGHT = 190
+const PAD = { left: 32, right: 8, top: 8, bottom: 24 }
+const SAMPLES = 40
+
+function niceStep(max: number): number {
+  const raw = max / 4
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)))
+  return [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(step => step >= raw) ?? raw
+}
+
+export function PumpCurveChart({ selection }: { selection: PumpSelection }) {
+  const { curve, systemCurve, arrangement, fullSpeedPoint, operatingPoint } = selection
+  const duty = arrangement.dutyPumps
+  const runoutGpm = getRunoutGpm(curve) * duty
+  const shutoffHeadFt = Math.max(...curve.points.map(p => p.headFt), 0)
+
+  const xStep = niceStep(Math.max(runoutGpm, systemCurve.designFlowGpm * 1.2, 1))
+  const xMax = Math.ceil(Math.max(runoutGpm, systemCurve.designFlowGpm * 1.2, 1) / xStep) * xStep
+  const yStep = niceStep(Math.max(shutoffHeadFt, systemCurve.designHeadFt, 1) * 1.1)
+  const yMax = Math.ceil(Math.max(shutoffHeadFt, systemCurve.designHeadFt, 1) * 1.1 / yStep) * yStep
+
+  const x = (gpm: number) => PAD.left + (gpm / xMax) * (WIDTH - PAD.left - PAD.right)
+  const y = (ft: number) => HEIGHT - PAD.bottom - (Math.min(ft, yMax) / yMax) * (HEIGHT - PAD.top - PAD.bottom)
+
+  const pumpPath = (speedRatio: number) => {
+    const points: string[] = []
+    for (let i = 0; i <= SAMPLES; i++) {
+      const gpm = (runoutGpm * speedRatio * i) / SAMPLES
+      const head = pumpHeadAt(curve, gpm, duty, speedRatio)
+      if (head !== null) points.push(`${x(gpm).toFixed(1)},${y(head).toFixed(1)}`)
+    }
+    return points.join(' ')
+  }
+
+  const systemPath = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+    const gpm = (xMax * i) / SAMPLES
+    return `${x(gpm).toFixed(1)},${y(systemHeadAt(systemCurve, gpm)).toFixed(1)}`
+  }).join(' ')
+
+  const reducedSpeed = operatingPoint && operatingPoint.speedRatio < 1 ? operatingPoint.speedRatio : null
+  const xTicks = Array.from({ length: Math.round(xMax / xStep) + 1 }, (_, i) => i * xStep)
+  const yTicks = Array.from({ length: Math.round(yMax / yStep) + 1 }, (_, i) => i * yStep)
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+      {/* Grid */}
+      {xTicks.map(t => (
+        <g key={`x${t}`}>
+          <line x1={x(t)} x2={x(t)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#374151" strokeWidth={0.5} />
+          <text x={x(t)} y={HEIGHT - PAD.bottom + 10} fill="#9ca3af" fontSize={7} textAnchor="middle">{t}</text>
+        </g>
+      ))}
+      {yTicks.map(t => (
+        <g key={`y${t}`}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} stroke="#374151" strokeWidth={0.5} />
+          <text x={PAD.left - 3} y={y(t) + 2.5} fill="#9ca3af" fontSize={7} textAnchor="end">{t}</text>
+        </g>
+      ))}
+      <text x={(PAD.left + WIDTH - PAD.right) / 2} y={HEIGHT - 3} fill="#9ca3af" fontSize={7} textAnchor="middle">GPM</text>
+      <text x={8} y={(PAD.top + HEIGHT - PAD.bottom) / 2} fill="#9ca3af" fontSize={7} textAnchor="middle" transform={`rotate(-90 8 ${(PAD.top + HEIGHT - PAD.bottom) / 2})`}>
+        Head (ft)
+      </text>
+
+      {/* Curves */}
+      <polyline points={systemPath} fill="none" stroke="#f59e0b" strokeWidth={1.5} />
+      <polyline points={pumpPath(1)} fill="none" stroke="#3b82f6" strokeWidth={1.5} />
+      {reducedSpeed && (
+        <polyline points={pumpPath(reducedSpeed)} fill="none" stroke="#3b82f6" strokeWidth={1} strokeDasharray="3 2" />
+      )}
+
+      {/* Points */}
+      {fullSpeedPoint && reducedSpeed && (
+        <circle cx={x(fullSpeedPoint.gpm)} cy={y(fullSpeedPoint.headFt)} r={2.5} fill="none" stroke="#9ca3af" />
+      )}
+      <circle cx={x(systemCurve.designFlowGpm)} cy={y(systemCurve.designHeadFt)} r={3} fill="none" stroke="#f59e0b" strokeWidth={1.5} />
+      {operatingPoint && (
+        <circle cx={x(operatingPoint.gpm)} cy={y(operatingPoint.headFt)} r={2.5} fill="#22c55e" />
+      )}
+    </svg>
+  )
+}
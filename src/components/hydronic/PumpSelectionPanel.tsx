@@ -0,0 +1,172 @@
+// ===========================================
+// PUMP SELECTION PANEL
+// Curve choice, duty / standby arrangement, VFD and operating point
+// ===========================================
+
+import { AlertTriangle } from 'lucide-react'
+import { useHydronicStore } from '../../store/useHydronicStore'
+import { PumpCurveChart } from './PumpCurveChart'
+import type { HydronicSystem } from '../../types/hydronic'
+import type { PumpCurve, PumpSelection } from '../../types/pumpCurve'
+
+interface PumpSelectionPanelProps {
+  system: HydronicSystem
+  curves: PumpCurve[]
+  selection: PumpSelection | null
+  candidates: PumpSelection[]
+}
+
+const curveLabel = (curve: PumpCurve) => `${curve.model} - ${curve.impellerIn}" @ ${curve.rpm} (${curve.motorHp} HP)`
+
+export function PumpSelectionPanel({ system, curves, selection, candidates }: PumpSelectionPanelProps) {
+  const { updateSystem } = useHydronicStore()
+  const point = selection?.operatingPoint
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+      <div className="px-3 py-2 bg-gray-750 border-b border-gray-700">
+        <span className="text-xs font-medium text-gray-400">Pump Selection</span>
+      </div>
+      <div className="p-3 space-y-3 text-sm">
+        {/* Curve */}
+        <div>
+          <label className="block text-xs text-gray-500 mb-0.5">Pump Curve</label>
+          <select
+            value={system.pumpCurveId ?? ''}
+            onChange={(e) => updateSystem(system.id, { pumpCurveId: e.target.value || null })}
+            className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1.5 text-xs"
+          >
+            <option value="">
+              Auto - best efficiency{candidates[0] ? ` (${candidates[0].curve.model} ${candidates[0].curve.impellerIn}")` : ''}
+            </option>
+            {curves.filter(c => !c.disabled || c.id === system.pumpCurveId).map(curve => (
+              <option key={curve.id} value={curve.id}>
+                {candidates.some(c => c.curve.id === curve.id) ? '✓ ' : ''}{curveLabel(curve)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Arrangement */}
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="block text-xs text-gray-500 mb-0.5">Duty</label>
+            <input
+              type="number"
+              value={system.dutyPumps ?? 1}
+              onChange={(e) => updateSystem(system.id, { dutyPumps: Math.max(1, parseInt(e.target.value) || 1) })}
+              min={1}
+              max={6}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1.5 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-0.5">Standby</label>
+            <input
+              type="number"
+              value={system.standbyPumps ?? 0}
+              onChange={(e) => updateSystem(system.id, { standbyPumps: Math.max(0, parseInt(e.target.value) || 0) })}
+              min={0}
+              max={2}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1.5 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-0.5">VFD</label>
+            <label className="flex items-center gap-1.5 py-1.5 text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={system.pumpVfd ?? false}
+                onChange={(e) => updateSystem(system.id, { pumpVfd: e.target.checked })}
+                className="rounded"
+              />
+              Yes
+            </label>
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-0.5">Control Head (system curve at zero flow)</label>
+          <div className="flex items-center">
+            <input
+              type="number"
+              value={system.pumpControlHeadFt ?? ''}
+              placeholder={selection ? selection.systemCurve.controlHeadFt.toFixed(0) : '0'}
+              onChange={(e) => updateSystem(system.id, { pumpControlHeadFt: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+              min={0}
+              className="w-full bg-gray-700 border border-gray-600 rounded-l px-2 py-1.5 text-sm"
+            />
+            <span className="bg-gray-600 border border-gray-600 rounded-r px-2 py-1.5 text-xs text-gray-400">
+              ft
+            </span>
+          </div>
+        </div>
+
+        {!selection ? (
+          <p className="text-xs text-amber-400">
+            No enabled curve meets the design point - add one under Settings → Pump Curves
+          </p>
+        ) : (
+          <>
+            <PumpCurveChart selection={selection} />
+            <div className="flex gap-3 text-[10px] text-gray-500">
+              <span><span className="text-blue-400">━</span> Pump</span>
+              <span><span className="text-amber-400">━</span> System</span>
+              <span><span className="text-amber-400">○</span> Design</span>
+              <span><span className="text-green-400">●</span> Operating</span>
+            </div>
+
+            {point && (
+              <div className="space-y-1.5 text-gray-400">
+                <div className="flex justify-between">
+                  <span>Operating Point</span>
+                  <span className="text-gray-300">{point.gpm.toFixed(0)} GPM @ {point.headFt.toFixed(1)} ft</span>
+                </div>
+                {selection.arrangement.vfd && (
+                  <div className="flex justify-between">
+                    <span>VFD Speed</span>
+                    <span className="text-gray-300">
+                      {(point.speedRatio * 100).toFixed(0)}% ({(selection.curve.rpm * point.speedRatio).toFixed(0)} RPM)
+                    </span>
+                  </div>
+                )}
+                {selection.arrangement.vfd && selection.fullSpeedPoint && (
+                  <div className="flex justify-between">
+                    <span>Full Speed</span>
+                    <span className="text-gray-300">
+                      {selection.fullSpeedPoint.gpm.toFixed(0)} GPM @ {selection.fullSpeedPoint.headFt.toFixed(1)} ft
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>Efficiency</span>
+                  <span className="text-gray-300">{(point.efficiency * 100).toFixed(0)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>BHP per Pump</span>
+                  <span className="text-gray-300">{point.bhp.toFixed(2)} / {selection.curve.motorHp} HP</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>NPSHr</span>
+                  <span className="text-gray-300">{point.npshrFt.toFixed(1)} ft</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Pumps</span>
+                  <span className="text-gray-300">
+                    {selection.arrangement.dutyPumps} duty{selection.arrangement.standbyPumps > 0 && ` + ${selection.arrangement.standbyPumps} standby`}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {selection.warnings.map((warning, i) => (
+              <div key={i} className="flex gap-1.5 text-xs text-amber-400/80">
+                <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                {warning}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react'
 import { 
   POOL_TYPE_PRESETS, 
   type PoolConfig, 
+  type PoolFilterType,
+  type PoolHeaterType,
   type PoolType 
 } from '../../calculations/pool'
+import { POOL_FILTER_TYPES, POOL_TURNOVER_HOURS, MIN_POOL_TURNOVER_HOURS } from '../../calculations/poolFiltration'
 
 interface PoolEditorProps {
   pool: PoolConfig
@@ -33,6 +36,7 @@ export default function PoolEditor({ pool, onUpdate, onClose, onDelete }: PoolEd
       name: preset.name,
       waterTempF: preset.waterTempRange.default,
       activityFactor: preset.activityFactor,
+      avgDepthFt: preset.depthFt,
     }
     setLocalPool(updated)
     onUpdate(updated)
@@ -142,6 +146,96 @@ export default function PoolEditor({ pool, onUpdate, onClose, onDelete }: PoolEd
         </div>
       </div>
       
+      {/* Heater */}
+      <div className="grid grid-cols-3 gap-4">
+        {/* Average Depth */}
+        <div>
+          <label className="block text-xs text-surface-400 mb-1">Average Depth</label>
+          <div className="relative">
+            <input
+              type="number"
+              value={localPool.avgDepthFt ?? preset.depthFt}
+              onChange={(e) => handleChange('avgDepthFt', Number(e.target.value))}
+              min={1}
+              max={20}
+              step={0.5}
+              className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white text-sm pr-8"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-xs">ft</span>
+          </div>
+        </div>
+        
+        {/* Heater Type */}
+        <div>
+          <label className="block text-xs text-surface-400 mb-1">Pool Heater</label>
+          <select
+            value={localPool.heaterType ?? 'gas'}
+            onChange={(e) => handleChange('heaterType', e.target.value as PoolHeaterType)}
+            className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white text-sm"
+          >
+            <option value="gas">🔥 Gas heater</option>
+            <option value="heat_pump">⚡ Heat pump</option>
+          </select>
+        </div>
+        
+        {/* Heater Output */}
+        <div>
+          <label className="block text-xs text-surface-400 mb-1">
+            Heater Output
+            <span className="text-surface-500 ml-1">(blank = recommended)</span>
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              value={localPool.heaterOutputMbh ?? ''}
+              onChange={(e) => handleChange('heaterOutputMbh', e.target.value === '' ? undefined : Number(e.target.value))}
+              min={0}
+              step={10}
+              placeholder="Auto"
+              className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white text-sm pr-12"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-xs">MBH</span>
+          </div>
+        </div>
+      </div>
+      
+      {/* Filtration */}
+      <div className="grid grid-cols-3 gap-4">
+        {/* Turnover */}
+        <div>
+          <label className="block text-xs text-surface-400 mb-1">
+            Turnover
+            <span className="text-surface-500 ml-1">(code: {POOL_TURNOVER_HOURS[localPool.poolType]} hr)</span>
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              value={localPool.turnoverHours ?? ''}
+              onChange={(e) => handleChange('turnoverHours', e.target.value === '' ? undefined : Number(e.target.value))}
+              min={MIN_POOL_TURNOVER_HOURS}
+              step={0.5}
+              placeholder={String(POOL_TURNOVER_HOURS[localPool.poolType])}
+              className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white text-sm pr-8"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-xs">hr</span>
+          </div>
+        </div>
+        
+        {/* Filter Type */}
+        <div className="col-span-2">
+          <label className="block text-xs text-surface-400 mb-1">Filter Type</label>
+          <select
+            value={localPool.filterType ?? 'high_rate_sand'}
+            onChange={(e) => handleChange('filterType', e.target.value as PoolFilterType)}
+            className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white text-sm"
+          >
+            {Object.entries(POOL_FILTER_TYPES).map(([key, filter]) => (
+              <option key={key} value={key}>{filter.name} ({filter.rateGpmSf} GPM/SF)</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      
       {/* Activity Factor Guide */}
       <div className="bg-surface-900/50 rounded-lg p-3 text-xs text-surface-400">
         <div className="font-medium text-surface-300 mb-2">Activity Factor Guide:</div>
@@ -4,14 +4,25 @@ import { useProjectStore } from '../../store/useProjectStore'
 import PoolEditor from './PoolEditor'
 import { 
   calculatePoolRoomLoads, 
+  calculatePoolHeaters,
   getDefaultPoolRoomParams, 
+  DEFAULT_POOL_HEATER_PARAMS,
+  MIN_POOL_HEATER_PARAMS,
   createDefaultPool,
   POOL_TYPE_PRESETS,
   type PoolConfig,
+  type PoolHeaterResult,
   type PoolRoomParams,
   type PoolRoomResults,
   type PoolType 
 } from '../../calculations/pool'
+import {
+  calculatePoolFiltration,
+  DEFAULT_POOL_FILTRATION_PARAMS,
+  MIN_FILTRATION_PUMP_EFFICIENCY,
+  POOL_FILTER_TYPES,
+  type PoolFiltrationResult,
+} from '../../calculations/poolFiltration'
 import { getLocationById, formatLocationDisplay } from '../../data/ashraeClimate'
 
 export default function PoolRoomTab() {
@@ -182,6 +193,20 @@ export default function PoolRoomTab() {
     return calculatePoolRoomLoads(pools, effectiveParams)
   }, [pools, effectiveParams])
   
+  // Pool heater sizing from the heat-loss model
+  const heaters: PoolHeaterResult[] = useMemo(() => {
+    if (pools.length === 0) return []
+    return calculatePoolHeaters(pools, effectiveParams)
+  }, [pools, effectiveParams])
+  const heaterParams = { ...DEFAULT_POOL_HEATER_PARAMS, ...params }
+  
+  // Recirculation, filter and filtration pump sizing
+  const filtration: PoolFiltrationResult[] = useMemo(() => {
+    if (pools.length === 0) return []
+    return calculatePoolFiltration(pools, effectiveParams)
+  }, [pools, effectiveParams])
+  const filtrationParams = { ...DEFAULT_POOL_FILTRATION_PARAMS, ...params }
+  
   // Add a new pool
   const handleAddPool = (poolType: PoolType = 'recreational') => {
     const newPool = createDefaultPool(uuidv4(), poolType, 800)
@@ -242,6 +267,10 @@ export default function PoolRoomTab() {
       processLoads: {
         ...zone.processLoads,
         dehumid_lb_hr: 0, // Dehumid comes from line items, not processLoads
+        // Gas pool heater input - line items carry the load, the energy model reads the fuel from this
+        pool_heater_mbh: heaters
+          .filter(h => h.heaterType === 'gas' && h.selectedMbh > 0)
+          .reduce((sum, h) => sum + h.gasInputMbh, 0),
       },
       // Keep existing non-pool line items
       lineItems: existingLineItems,
@@ -257,6 +286,42 @@ export default function PoolRoomTab() {
       notes: `Pools: ${results.poolEvaporationLbHr.toFixed(1)} + People: ${(results.spectatorMoistureLbHr + results.swimmerMoistureLbHr).toFixed(1)} + Ventilation: ${results.ventilationMoistureLbHr.toFixed(1)} lb/hr`,
     })
     
+    // Add a filtration pump line item per pool
+    filtration.forEach(pump => {
+      addLineItem(targetZoneId, {
+        category: 'power',
+        name: `Pool Filtration Pump - ${pump.name}`,
+        quantity: 1,
+        unit: 'kW',
+        value: pump.pumpKw,
+        notes: `${pump.motorHp} HP • ${pump.recirculationGpm} GPM @ ${pump.pumpHeadFt} ft TDH • ${pump.turnoverHours} hr turnover`,
+      })
+    })
+    
+    // Add a heater line item per heated pool - gas input MBH or heat pump kW
+    heaters.filter(h => h.selectedMbh > 0).forEach(heater => {
+      const heatUp = heater.heatUpHours !== null ? `${heater.heatUpHours} hr heat-up` : 'cannot reach temperature'
+      if (heater.heaterType === 'gas') {
+        addLineItem(targetZoneId, {
+          category: 'gas',
+          name: `Pool Heater - ${heater.name}`,
+          quantity: 1,
+          unit: 'MBH',
+          value: heater.gasInputMbh,
+          notes: `${heater.selectedMbh} MBH output @ ${(Math.max(heaterParams.gasHeaterEfficiency, MIN_POOL_HEATER_PARAMS.gasHeaterEfficiency) * 100).toFixed(0)}% • ${heatUp}`,
+        })
+      } else {
+        addLineItem(targetZoneId, {
+          category: 'power',
+          name: `Pool Heat Pump - ${heater.name}`,
+          quantity: 1,
+          unit: 'kW',
+          value: heater.heatPumpKw,
+          notes: `${heater.selectedMbh} MBH output @ COP ${Math.max(heaterParams.heatPumpCOP, MIN_POOL_HEATER_PARAMS.heatPumpCOP)} • ${heatUp}`,
+        })
+      }
+    })
+    
     // NOTE: For pool rooms, airflow is:
     // - Supply Air: Total CFM moved by equipment (for equipment sizing)
     // - Outdoor Air: Fresh air component of supply (for code compliance - THIS is the "ventilation")
@@ -284,6 +349,14 @@ export default function PoolRoomTab() {
   • Ventilation: ${results.outdoorAirCFM.toLocaleString()} CFM (OA requirement)
   • Exhaust: ${results.exhaustAirCFM.toLocaleString()} CFM (110% of OA)
 
+🔥 POOL HEATERS:
+${heaters.filter(h => h.selectedMbh > 0).map(h => h.heaterType === 'gas'
+  ? `  • ${h.name}: ${h.gasInputMbh} MBH gas input (${h.selectedMbh} MBH output)`
+  : `  • ${h.name}: ${h.heatPumpKw} kW heat pump (${h.selectedMbh} MBH output)`).join('\n') || '  • None required'}
+
+💧 FILTRATION PUMPS:
+${filtration.map(p => `  • ${p.name}: ${p.motorHp} HP (${p.pumpKw} kW) - ${p.recirculationGpm} GPM @ ${p.pumpHeadFt} ft`).join('\n')}
+
 🌡️ HEATING/COOLING SET TO: 0
   • Dehumidification unit handles all conditioning
 
@@ -765,6 +838,180 @@ export default function PoolRoomTab() {
               </div>
             </div>
             
+            {/* Pool Heaters */}
+            {heaters.length > 0 && (
+              <div className="mb-6 p-4 bg-surface-900/50 rounded-lg border border-surface-700">
+                <h4 className="text-sm font-semibold text-surface-300 mb-3 flex items-center gap-2">
+                  🔥 Pool Heater Sizing
+                  <span className="text-xs font-normal text-surface-500">(Steady-state heat loss and initial heat-up)</span>
+                </h4>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+                  {([
+                    { key: 'makeupWaterTempF', label: 'Make-up Water', unit: '°F', step: 1, min: 0 },
+                    { key: 'groundTempF', label: 'Ground Temp', unit: '°F', step: 1, min: 0 },
+                    { key: 'heatUpTargetHours', label: 'Heat-up Target', unit: 'hr', step: 4, min: MIN_POOL_HEATER_PARAMS.heatUpTargetHours },
+                    { key: 'gasHeaterEfficiency', label: 'Gas Efficiency', unit: '', step: 0.01, min: MIN_POOL_HEATER_PARAMS.gasHeaterEfficiency },
+                    { key: 'heatPumpCOP', label: 'Heat Pump COP', unit: '', step: 0.1, min: MIN_POOL_HEATER_PARAMS.heatPumpCOP },
+                  ] as const).map(field => (
+                    <div key={field.key}>
+                      <label className="block text-xs text-surface-400 mb-1">{field.label}</label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          value={heaterParams[field.key]}
+                          onChange={(e) => setParams({ ...params, [field.key]: Number(e.target.value) })}
+                          min={field.min}
+                          step={field.step}
+                          className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white text-sm pr-8"
+                        />
+                        {field.unit && (
+                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-xs">{field.unit}</span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-surface-700">
+                        <th className="text-left py-2 text-surface-400">Pool</th>
+                        <th className="text-right py-2 text-surface-400">Volume (gal)</th>
+                        <th className="text-right py-2 text-surface-400">Evap.</th>
+                        <th className="text-right py-2 text-surface-400">Conv.</th>
+                        <th className="text-right py-2 text-surface-400">Rad.</th>
+                        <th className="text-right py-2 text-surface-400">Cond.</th>
+                        <th className="text-right py-2 text-surface-400">Make-up</th>
+                        <th className="text-right py-2 text-surface-400">Total Loss</th>
+                        <th className="text-right py-2 text-surface-400">Heat-up</th>
+                        <th className="text-right py-2 text-surface-400">Recommended</th>
+                        <th className="text-right py-2 text-surface-400">Selected</th>
+                        <th className="text-right py-2 text-surface-400">Heat-up Time</th>
+                        <th className="text-right py-2 text-surface-400">Gas Input</th>
+                        <th className="text-right py-2 text-surface-400">Heat Pump</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {heaters.map(heater => {
+                        const mbh = (btuh: number) => (btuh / 1000).toFixed(1)
+                        return (
+                          <tr key={heater.id} className="border-b border-surface-700/50">
+                            <td className="py-2 text-white">{heater.name}</td>
+                            <td className="py-2 text-right text-surface-300 font-mono">{heater.volumeGal.toLocaleString()}</td>
+                            <td className="py-2 text-right text-surface-300 font-mono">{mbh(heater.heatLoss.evaporationBtuh)}</td>
+                            <td className="py-2 text-right text-surface-300 font-mono">{mbh(heater.heatLoss.convectionBtuh)}</td>
+                            <td className="py-2 text-right text-surface-300 font-mono">{mbh(heater.heatLoss.radiationBtuh)}</td>
+                            <td className="py-2 text-right text-surface-300 font-mono">{mbh(heater.heatLoss.conductionBtuh)}</td>
+                            <td className="py-2 text-right text-surface-300 font-mono">{mbh(heater.heatLoss.makeupWaterBtuh)}</td>
+                            <td className="py-2 text-right text-white font-mono">{mbh(heater.heatLoss.totalBtuh)}</td>
+                            <td className="py-2 text-right text-surface-300 font-mono">{heater.heatUpMbh.toFixed(1)}</td>
+                            <td className="py-2 text-right text-orange-400 font-mono font-medium">{heater.recommendedMbh}</td>
+                            <td className="py-2 text-right text-white font-mono">{heater.selectedMbh}</td>
+                            <td className={`py-2 text-right font-mono ${heater.heatUpHours === null ? 'text-red-400' : 'text-surface-300'}`}>
+                              {heater.selectedMbh === 0 ? '-' : heater.heatUpHours === null ? 'Never' : `${heater.heatUpHours} hr`}
+                            </td>
+                            <td className={`py-2 text-right font-mono ${heater.heaterType === 'gas' ? 'text-white' : 'text-surface-500'}`}>
+                              {heater.gasInputMbh} MBH
+                            </td>
+                            <td className={`py-2 text-right font-mono ${heater.heaterType === 'heat_pump' ? 'text-white' : 'text-surface-500'}`}>
+                              {heater.heatPumpKw} kW
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-surface-500 mt-2">
+                  Losses in MBH at design water temperature. Recommended output is the larger of the steady-state loss + 10% and the
+                  output that reaches temperature from make-up water in {heaterParams.heatUpTargetHours} hr. The pool's heater type
+                  (editable per pool) is applied to the zone.
+                </p>
+              </div>
+            )}
+            
+            {/* Pool Filtration */}
+            {filtration.length > 0 && (
+              <div className="mb-6 p-4 bg-surface-900/50 rounded-lg border border-surface-700">
+                <h4 className="text-sm font-semibold text-surface-300 mb-3 flex items-center gap-2">
+                  💧 Filtration &amp; Recirculation
+                  <span className="text-xs font-normal text-surface-500">(Turnover, filters, surge tank and pump)</span>
+                </h4>
+                <div className="grid grid-cols-3 gap-3 mb-4">
+                  {([
+                    { key: 'filtrationPipeRunFt', label: 'Pipe Run to Equipment', unit: 'ft', step: 5, min: 0 },
+                    { key: 'filtrationStaticHeadFt', label: 'Static Lift', unit: 'ft', step: 1, min: 0 },
+                    { key: 'filtrationPumpEfficiency', label: 'Pump Efficiency', unit: '', step: 0.05, min: MIN_FILTRATION_PUMP_EFFICIENCY },
+                  ] as const).map(field => (
+                    <div key={field.key}>
+                      <label className="block text-xs text-surface-400 mb-1">{field.label}</label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          value={filtrationParams[field.key]}
+                          onChange={(e) => setParams({ ...params, [field.key]: Number(e.target.value) })}
+                          min={field.min}
+                          step={field.step}
+                          className="w-full px-3 py-2 bg-surface-800 border border-surface-600 rounded-lg text-white text-sm pr-8"
+                        />
+                        {field.unit && (
+                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-400 text-xs">{field.unit}</span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-surface-700">
+                        <th className="text-left py-2 text-surface-400">Pool</th>
+                        <th className="text-right py-2 text-surface-400">Volume (gal)</th>
+                        <th className="text-right py-2 text-surface-400">Turnover</th>
+                        <th className="text-right py-2 text-surface-400">Recirc. GPM</th>
+                        <th className="text-right py-2 text-surface-400">Filter</th>
+                        <th className="text-right py-2 text-surface-400">Filter Area</th>
+                        <th className="text-right py-2 text-surface-400">Surge Tank</th>
+                        <th className="text-right py-2 text-surface-400">Suction / Return</th>
+                        <th className="text-right py-2 text-surface-400">Pump TDH</th>
+                        <th className="text-right py-2 text-surface-400">BHP</th>
+                        <th className="text-right py-2 text-surface-400">Motor</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filtration.map(pump => (
+                        <tr key={pump.id} className="border-b border-surface-700/50">
+                          <td className="py-2 text-white">{pump.name}</td>
+                          <td className="py-2 text-right text-surface-300 font-mono">{pump.volumeGal.toLocaleString()}</td>
+                          <td className="py-2 text-right text-surface-300 font-mono">{pump.turnoverHours} hr</td>
+                          <td className="py-2 text-right text-cyan-400 font-mono font-medium">{pump.recirculationGpm.toLocaleString()}</td>
+                          <td className="py-2 text-right text-surface-300">{POOL_FILTER_TYPES[pump.filterType].name}</td>
+                          <td className="py-2 text-right text-surface-300 font-mono">{pump.filterAreaSF.toLocaleString()} SF</td>
+                          <td className="py-2 text-right text-surface-300 font-mono">{pump.surgeTankGal.toLocaleString()} gal</td>
+                          <td className="py-2 text-right text-surface-300 font-mono">{pump.suctionPipeSize}" / {pump.returnPipeSize}"</td>
+                          <td className="py-2 text-right text-white font-mono">{pump.pumpHeadFt} ft</td>
+                          <td className="py-2 text-right text-surface-300 font-mono">{pump.pumpBhp}</td>
+                          <td className="py-2 text-right text-amber-400 font-mono font-medium">{pump.motorHp} HP ({pump.pumpKw} kW)</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {filtration.some(pump => pump.warnings.length > 0) && (
+                  <div className="mt-2 space-y-1">
+                    {filtration.flatMap(pump => pump.warnings.map(w => (
+                      <p key={`${pump.id}-${w}`} className="text-xs text-amber-400">⚠️ {pump.name}: {w}</p>
+                    )))}
+                  </div>
+                )}
+                <p className="text-xs text-surface-500 mt-2">
+                  Recirculation = volume ÷ turnover (MAHC/ISPSC code values by pool type, editable per pool). Surge tank = 1 min of
+                  recirculation in transit + 1 gal/SF bather displacement + 3 min backwash. Pump TDH is the PVC suction (≤ 6 fps) and
+                  return (≤ 8 fps) piping with fittings, hair &amp; lint strainer, dirty filter and static lift, plus 10%.
+                </p>
+              </div>
+            )}
+            
             {/* Calculation Notes */}
             <div className="text-xs text-surface-500 space-y-1 mb-4">
               <p><strong className="text-surface-400">Pool Evaporation:</strong> 0.1 × Area × Activity Factor × (Pw - Pa) per ASHRAE</p>
@@ -772,6 +1019,7 @@ export default function PoolRoomTab() {
               <p><strong className="text-surface-400">Ventilation:</strong> 4.5 × CFM × (W_outdoor - W_indoor) ÷ 7000 lb/hr</p>
               <p><strong className="text-surface-400">Supply Air:</strong> Room Volume ({results.roomVolumeCF.toLocaleString()} CF) × {params.airChangesPerHour} ACH ÷ 60</p>
               <p><strong className="text-surface-400">Outdoor Air:</strong> 0.48 CFM/ft² × ({results.totalPoolAreaSF} + {params.wetDeckAreaSF} SF deck) + 7.5 × {params.spectatorCount + params.swimmerCount} people</p>
+              <p><strong className="text-surface-400">Pool Heat Loss:</strong> Evaporation × 1,050 BTU/lb + 0.6 × Area × (Tw - Ta) + ε σ Area (Tw⁴ - Ta⁴) + 0.1 × Shell × (Tw - Tground) + Make-up lb/hr × (Tw - Tmakeup)</p>
             </div>
             
             {/* Apply Button */}
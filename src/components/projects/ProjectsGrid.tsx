@@ -442,5 +442,9 @@ function dbZoneToZone(db: Record<string, unknown>): import('../../types').Zone {
     // CRITICAL: Load the actual CFM values from database
     ventilationCfm: db.ventilation_cfm as number | undefined,
     exhaustCfm: db.exhaust_cfm as number | undefined,
+    envelope: db.envelope as import('../../types').ZoneEnvelope | undefined,
+    dwellingUnit: db.dwelling_unit as string | undefined,
+    residentialVentilationMode: db.residential_ventilation_mode as import('../../types').ResidentialVentilationMode | undefined,
+    occupancyGroup: db.occupancy_group as import('../../types/emissions').LL97OccupancyGroup | undefined,
   }
 }
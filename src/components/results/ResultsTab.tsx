@@ -4,6 +4,7 @@ import { exportToExcelFile } from '../../export'
 import { exportConceptPDF, exportConceptWord, setReportLogo, getReportLogo } from '../../export/conceptReport'
 import { getZoneDefaults } from '../../data/zoneDefaults'
 import { getLegacyFixtureCounts } from '../../data/fixtureUtils'
+import { LL97_COVERED_MIN_SF } from '../../data/ll97'
 import { supabase, isSupabaseConfigured } from '../../lib/supabase'
 import type { CalculationResults, ZoneFixtures, SavedReport } from '../../types'
 import SDPackageReport from './SDPackageReport'
@@ -827,6 +828,16 @@ export default function ResultsTab({ calculations }: ResultsTabProps) {
                 <ul className="space-y-0.5 text-xs">
                   <li>Fresh Air (OA): <span className="font-mono font-medium">{results.hvac.totalVentCFM.toLocaleString()} CFM</span></li>
                   <li>Exhaust: <span className="font-mono font-medium">{results.hvac.totalExhaustCFM.toLocaleString()} CFM</span></li>
+                  {results.hvac.residentialVentilation && (
+                    <>
+                      <li>ASHRAE 62.2 Whole-Dwelling: <span className="font-mono font-medium">{results.hvac.residentialVentilation.totalQfanCfm.toLocaleString()} CFM</span></li>
+                      {results.hvac.residentialVentilation.dwellings.map(d => (
+                        <li key={d.name} className="pl-2 text-gray-600">
+                          {d.name}: {d.qfanCfm} CFM continuous, ERV {d.ervCount > 1 ? `${d.ervCount} × ` : ''}{d.ervCfm} CFM, local exhaust {d.intermittentExhaustCfm} CFM demand / {d.continuousExhaustCfm} CFM continuous
+                        </li>
+                      ))}
+                    </>
+                  )}
                 </ul>
               </div>
             </div>
@@ -940,6 +951,49 @@ export default function ResultsTab({ calculations }: ResultsTabProps) {
             )}
           </section>
 
+          {/* Annual Energy Section */}
+          {results.energy && (
+            <section className="px-8 py-4 border-b border-gray-200">
+              <h2 className="text-base font-bold text-gray-900 mb-2">5. Annual Energy & Operating Cost</h2>
+              <div className="grid grid-cols-2 gap-4 text-sm text-gray-700">
+                <div>
+                  <h3 className="font-semibold text-gray-900 text-xs uppercase tracking-wide mb-1">Consumption</h3>
+                  <ul className="space-y-0.5 text-xs">
+                    <li>Electricity: <span className="font-mono font-medium">{results.energy.totalKwh.toLocaleString()} kWh/yr</span></li>
+                    <li>Natural Gas: <span className="font-mono font-medium">{results.energy.totalTherms.toLocaleString()} therms/yr</span></li>
+                    <li>Peak Demand: <span className="font-mono font-medium">{results.energy.peakDemandKw} kW</span></li>
+                    <li>Site EUI: <span className="font-mono font-medium">{results.energy.euiKbtuSf} kBtu/SF-yr</span></li>
+                  </ul>
+                </div>
+                <div>
+                  <h3 className="font-semibold text-gray-900 text-xs uppercase tracking-wide mb-1">Utility Cost</h3>
+                  <ul className="space-y-0.5 text-xs">
+                    <li>Electric Energy: <span className="font-mono">${results.energy.electricCost.toLocaleString()}</span> @ ${results.energy.settings.electricRatePerKwh}/kWh</li>
+                    <li>Electric Demand: <span className="font-mono">${results.energy.demandCost.toLocaleString()}</span> @ ${results.energy.settings.demandRatePerKw}/kW-mo</li>
+                    <li>Gas: <span className="font-mono">${results.energy.gasCost.toLocaleString()}</span> @ ${results.energy.settings.gasRatePerTherm}/therm</li>
+                    <li className="font-medium">Total: <span className="font-mono">${results.energy.totalCost.toLocaleString()}/yr</span> (${results.energy.costPerSf.toFixed(2)}/SF)</li>
+                  </ul>
+                </div>
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                Bin-hour estimate for {results.energy.locationName}. Largest end uses: {[...results.energy.endUses]
+                  .sort((a, b) => b.cost - a.cost)
+                  .slice(0, 3)
+                  .map(e => `${e.name} ($${e.cost.toLocaleString()})`)
+                  .join(', ')}.
+              </p>
+              {results.emissions && (
+                <p className="mt-1 text-xs text-gray-500">
+                  NYC LL97: {results.emissions.covered
+                    ? results.emissions.periods
+                        .map(p => `${p.label} ${p.emissionsTco2e} / ${p.limitTco2e} tCO2e${p.penalty > 0 ? ` ($${p.penalty.toLocaleString()}/yr penalty)` : ' ✓'}`)
+                        .join(' • ')
+                    : `not covered (${results.emissions.coveredSf.toLocaleString()} SF ≤ ${LL97_COVERED_MIN_SF.toLocaleString()} SF)`}
+                </p>
+              )}
+            </section>
+          )}
+
           {/* Footer */}
           <div className="px-8 py-4 bg-gray-50 text-center text-xs text-gray-500">
             <p>Generated by COLLECTIF Engineering MEP Calculator</p>
@@ -1225,6 +1279,20 @@ export default function ResultsTab({ calculations }: ResultsTabProps) {
                       <dt className="text-gray-600">Exhaust:</dt>
                       <dd className="font-mono font-medium">{results.hvac.totalExhaustCFM.toLocaleString()} CFM</dd>
                     </div>
+                    {results.hvac.residentialVentilation && (
+                      <>
+                        <div className="flex justify-between">
+                          <dt className="text-gray-600">62.2 Whole-Dwelling:</dt>
+                          <dd className="font-mono font-medium">{results.hvac.residentialVentilation.totalQfanCfm.toLocaleString()} CFM</dd>
+                        </div>
+                        <div className="flex justify-between">
+                          <dt className="text-gray-600">62.2 Local Exhaust:</dt>
+                          <dd className="font-mono font-medium">
+                            {results.hvac.residentialVentilation.totalIntermittentExhaustCfm + results.hvac.residentialVentilation.totalContinuousExhaustCfm} CFM
+                          </dd>
+                        </div>
+                      </>
+                    )}
                     <div className="flex justify-between">
                       <dt className="text-gray-600">Est. RTU Count:</dt>
                       <dd className="font-mono font-medium">{results.hvac.rtuCount} units</dd>
@@ -525,6 +525,42 @@ HAZARD CLASSIFICATION:
       }),
     ]
     
+    // Conceptual cost estimate table
+    const estimate = results.costEstimate
+    const costTableRows = estimate ? [
+      new TableRow({
+        children: [
+          new TableCell({ children: [new Paragraph({ text: 'Item' })] }),
+          new TableCell({ children: [new Paragraph({ text: 'Quantity', alignment: AlignmentType.RIGHT })] }),
+          new TableCell({ children: [new Paragraph({ text: 'Budget', alignment: AlignmentType.RIGHT })] }),
+        ],
+        tableHeader: true,
+      }),
+      ...estimate.trades.flatMap(trade => [
+        ...estimate.lines.filter(line => line.trade === trade.trade).map(line => new TableRow({
+          children: [
+            new TableCell({ children: [new Paragraph({ text: line.description })] }),
+            new TableCell({ children: [new Paragraph({ text: line.manual ? '-' : `${line.quantity.toLocaleString()} ${line.unit}`, alignment: AlignmentType.RIGHT })] }),
+            new TableCell({ children: [new Paragraph({ text: `$${line.cost.toLocaleString()}`, alignment: AlignmentType.RIGHT })] }),
+          ],
+        })),
+        new TableRow({
+          children: [
+            new TableCell({ children: [new Paragraph({ children: [new TextRun({ text: `${trade.name} Subtotal`, bold: true })] })] }),
+            new TableCell({ children: [new Paragraph({ text: `$${trade.costPerSf.toFixed(2)}/SF`, alignment: AlignmentType.RIGHT })] }),
+            new TableCell({ children: [new Paragraph({ children: [new TextRun({ text: `$${trade.cost.toLocaleString()}`, bold: true })], alignment: AlignmentType.RIGHT })] }),
+          ],
+        }),
+      ]),
+      new TableRow({
+        children: [
+          new TableCell({ children: [new Paragraph({ children: [new TextRun({ text: 'TOTAL MEP', bold: true })] })] }),
+          new TableCell({ children: [new Paragraph({ children: [new TextRun({ text: `$${estimate.costPerSf.toFixed(2)}/SF`, bold: true })], alignment: AlignmentType.RIGHT })] }),
+          new TableCell({ children: [new Paragraph({ children: [new TextRun({ text: `$${estimate.total.toLocaleString()}`, bold: true })], alignment: AlignmentType.RIGHT })] }),
+        ],
+      }),
+    ] : []
+    
     // Create document
     const doc = new Document({
       sections: [{
@@ -585,6 +621,7 @@ HAZARD CLASSIFICATION:
           new Paragraph({ text: 'Appendix: Fixture Schedule', spacing: { after: 100 } }),
           new Paragraph({ text: 'Appendix: Electrical Load Calculator', spacing: { after: 100 } }),
           new Paragraph({ text: 'Appendix: Gas Equipment Schedule', spacing: { after: 100 } }),
+          ...(estimate ? [new Paragraph({ text: 'Appendix: Conceptual Cost Estimate', spacing: { after: 100 } })] : []),
           new Paragraph({ children: [new PageBreak()] }),
           
           // Basis of Design
@@ -664,6 +701,24 @@ HAZARD CLASSIFICATION:
             rows: gasTableRows,
             width: { size: 100, type: WidthType.PERCENTAGE },
           }),
+          
+          // Appendix: Cost Estimate
+          ...(estimate ? [
+            new Paragraph({ children: [new PageBreak()] }),
+            new Paragraph({
+              text: 'Appendix: Conceptual Cost Estimate',
+              heading: HeadingLevel.HEADING_1,
+              spacing: { after: 200 },
+            }),
+            new Paragraph({
+              text: `Installed MEP costs from the calculated quantities, regional multiplier ${estimate.regionalMultiplier.toFixed(2)}. Excludes general conditions, GC fee, escalation and design contingency.`,
+              spacing: { after: 200 },
+            }),
+            new Table({
+              rows: costTableRows,
+              width: { size: 100, type: WidthType.PERCENTAGE },
+            }),
+          ] : []),
         ],
       }],
     })
@@ -976,6 +1031,38 @@ HAZARD CLASSIFICATION:
                     </table>
                   </section>
                 )}
+                
+                {/* Cost Estimate */}
+                {results.costEstimate && (
+                  <section className="px-8 py-6 border-t border-gray-200">
+                    <h3 className="text-lg font-bold text-gray-900 mb-4">Conceptual Cost Estimate</h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-gray-200">
+                          <th className="text-left py-2 px-3">Trade</th>
+                          <th className="text-right py-2 px-3">$/SF</th>
+                          <th className="text-right py-2 px-3">Budget</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.costEstimate.trades.map((trade, i) => (
+                          <tr key={trade.trade} className={i % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                            <td className="py-2 px-3">{trade.name}</td>
+                            <td className="py-2 px-3 text-right font-mono">${trade.costPerSf.toFixed(2)}</td>
+                            <td className="py-2 px-3 text-right font-mono">${trade.cost.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr className="bg-gray-200 font-semibold">
+                          <td className="py-2 px-3">TOTAL MEP (regional multiplier {results.costEstimate.regionalMultiplier.toFixed(2)})</td>
+                          <td className="py-2 px-3 text-right font-mono">${results.costEstimate.costPerSf.toFixed(2)}</td>
+                          <td className="py-2 px-3 text-right font-mono">${results.costEstimate.total.toLocaleString()}</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </section>
+                )}
               </>
             )}
             
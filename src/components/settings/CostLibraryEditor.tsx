@@ -0,0 +1,82 @@
+import { useSettingsStore } from '../../store/useSettingsStore'
+import { COST_BASIS_UNITS, COST_TRADE_NAMES, DEFAULT_UNIT_COSTS } from '../../data/costLibrary'
+import type { CostTrade } from '../../types/costEstimate'
+
+export default function CostLibraryEditor() {
+  const { customUnitCosts, saveUnitCost, resetUnitCost, getCostLibrary } = useSettingsStore()
+  const library = getCostLibrary()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Cost Library</h2>
+        <p className="text-surface-400 mt-1">
+          Installed unit costs (national average) for the conceptual MEP cost estimate - projects apply a regional multiplier
+        </p>
+      </div>
+
+      {(Object.keys(COST_TRADE_NAMES) as CostTrade[]).map(trade => (
+        <div key={trade} className="bg-surface-800 rounded-xl border border-surface-700 overflow-x-auto">
+          <div className="px-4 py-3 border-b border-surface-700 text-white font-medium">{COST_TRADE_NAMES[trade]}</div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-surface-900 text-left text-surface-400">
+                <th className="px-3 py-3 font-medium">Item</th>
+                <th className="px-3 py-3 font-medium">Notes</th>
+                <th className="px-3 py-3 font-medium text-right">Default</th>
+                <th className="px-3 py-3 font-medium text-right">Unit Cost</th>
+                <th className="px-3 py-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {library.filter(item => item.trade === trade).map(item => {
+                const builtIn = DEFAULT_UNIT_COSTS.find(d => d.id === item.id)
+                const modified = customUnitCosts[item.id] !== undefined
+                return (
+                  <tr key={item.id} className="border-b border-surface-700/50">
+                    <td className="px-3 py-2 text-white">{item.name}</td>
+                    <td className="px-3 py-2 text-surface-500 text-xs">{item.notes}</td>
+                    <td className="px-3 py-2 text-right font-mono text-surface-500">
+                      ${builtIn?.rate.toLocaleString()}/{COST_BASIS_UNITS[item.basis]}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <div className="inline-flex items-center gap-1">
+                        <span className="text-surface-400">$</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={item.rate >= 100 ? 100 : 0.5}
+                          value={item.rate}
+                          onChange={(e) => saveUnitCost(item.id, Number(e.target.value))}
+                          className={`w-24 px-2 py-1 bg-surface-900 border rounded text-white text-right font-mono text-sm ${
+                            modified ? 'border-amber-500' : 'border-surface-600'
+                          }`}
+                        />
+                        <span className="text-surface-400 text-xs w-10 text-left">/{COST_BASIS_UNITS[item.basis]}</span>
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {modified && (
+                        <button
+                          onClick={() => resetUnitCost(item.id)}
+                          className="text-xs text-amber-400 hover:text-amber-300"
+                        >
+                          Reset
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      <p className="text-xs text-surface-500">
+        Order-of-magnitude installed costs for concept budgets (material, labor and subcontractor markup). Fixture costs include
+        rough-in and apply per fixture in each plumbing fixture category.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { useSettingsStore } from '../../store/useSettingsStore'
+import { EQUIPMENT_CATEGORIES, isBuiltInEquipment } from '../../data/equipmentCatalog'
+import { getEquipmentCapacity } from '../../calculations/equipmentSelection'
+import type { EquipmentCatalogItem, EquipmentCategory } from '../../types/equipment'
+
+type NumericField = 'nominalTons' | 'heatingMbh' | 'cfm' | 'moistureLbHr' | 'voltage' | 'mca' | 'mocp' | 'weightLb'
+
+const NUMERIC_COLUMNS: { field: NumericField; label: string; step: number }[] = [
+  { field: 'nominalTons', label: 'Tons', step: 0.5 },
+  { field: 'heatingMbh', label: 'Heat MBH', step: 1 },
+  { field: 'cfm', label: 'CFM', step: 100 },
+  { field: 'moistureLbHr', label: 'lb/hr', step: 1 },
+  { field: 'voltage', label: 'Volts', step: 1 },
+  { field: 'mca', label: 'MCA', step: 0.5 },
+  { field: 'mocp', label: 'MOCP', step: 5 },
+  { field: 'weightLb', label: 'Weight (lb)', step: 50 },
+]
+
+export default function EquipmentCatalogEditor() {
+  const { customEquipment, saveEquipment, resetEquipment, getEquipmentCatalog } = useSettingsStore()
+  const [category, setCategory] = useState<EquipmentCategory>('rtu')
+
+  const items = getEquipmentCatalog()
+    .filter(item => item.category === category)
+    .sort((a, b) => getEquipmentCapacity(a) - getEquipmentCapacity(b))
+
+  const handleChange = (item: EquipmentCatalogItem, updates: Partial<EquipmentCatalogItem>) => {
+    saveEquipment({ ...item, ...updates })
+  }
+
+  const handleAdd = () => {
+    const largest = items[items.length - 1]
+    saveEquipment({
+      ...(largest ?? {
+        nominalTons: 0, heatingMbh: 0, cfm: 0, moistureLbHr: 0, voltage: 460, mca: 0, mocp: 15, weightLb: 0,
+      }),
+      id: `custom_${category}_${Date.now()}`,
+      category,
+      model: `New ${EQUIPMENT_CATEGORIES[category].tagPrefix}`,
+      disabled: false,
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Equipment Catalog</h2>
+          <p className="text-surface-400 mt-1">
+            Nominal unit sizes used to auto-select RTUs, AHUs, DOAS and dehumidifiers for the equipment schedule
+          </p>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          + Add Size
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        {(Object.keys(EQUIPMENT_CATEGORIES) as EquipmentCategory[]).map(c => (
+          <button
+            key={c}
+            onClick={() => setCategory(c)}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              category === c
+                ? 'bg-cyan-600 text-white'
+                : 'bg-surface-800 text-surface-400 hover:text-white hover:bg-surface-700'
+            }`}
+          >
+            {EQUIPMENT_CATEGORIES[c].name}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-surface-900 text-left text-surface-400">
+              <th className="px-3 py-3 font-medium">Use</th>
+              <th className="px-3 py-3 font-medium">Model</th>
+              {NUMERIC_COLUMNS.map(col => (
+                <th key={col.field} className="px-3 py-3 font-medium text-right">{col.label}</th>
+              ))}
+              <th className="px-3 py-3 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => {
+              const builtIn = isBuiltInEquipment(item.id)
+              const modified = builtIn && !!customEquipment[item.id]
+              return (
+                <tr key={item.id} className={`border-b border-surface-700/50 ${item.disabled ? 'opacity-50' : ''}`}>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={!item.disabled}
+                      onChange={(e) => handleChange(item, { disabled: !e.target.checked })}
+                      className="w-4 h-4 rounded accent-cyan-500"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={item.model}
+                      onChange={(e) => handleChange(item, { model: e.target.value })}
+                      className="w-44 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-sm"
+                    />
+                  </td>
+                  {NUMERIC_COLUMNS.map(col => (
+                    <td key={col.field} className="px-3 py-2 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        step={col.step}
+                        value={item[col.field]}
+                        onChange={(e) => handleChange(item, { [col.field]: Number(e.target.value) })}
+                        className="w-20 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-right font-mono text-sm"
+                      />
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {modified && (
+                      <button
+                        onClick={() => resetEquipment(item.id)}
+                        className="text-xs text-amber-400 hover:text-amber-300"
+                      >
+                        Reset
+                      </button>
+                    )}
+                    {!builtIn && (
+                      <button
+                        onClick={() => resetEquipment(item.id)}
+                        className="text-xs text-red-400 hover:text-red-300"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-surface-500">
+        Built-in sizes are representative published data at 460V/3Ø. AHU MCA is the supply fan only - the chiller or heat
+        pump plant stays on kVA per ton. Unchecked sizes are skipped by auto-selection.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,236 @@
+import { Fragment, useState } from 'react'
+import { useSettingsStore } from '../../store/useSettingsStore'
+import { isBuiltInPumpCurve } from '../../data/pumpCurves'
+import { getBestEfficiencyGpm } from '../../calculations/pumpSelection'
+import type { PumpCurve, PumpCurvePoint } from '../../types/pumpCurve'
+
+type CurveField = 'impellerIn' | 'rpm' | 'motorHp'
+
+const CURVE_COLUMNS: { field: CurveField; label: string; step: number }[] = [
+  { field: 'impellerIn', label: 'Impeller (in)', step: 0.25 },
+  { field: 'rpm', label: 'RPM', step: 50 },
+  { field: 'motorHp', label: 'Motor HP', step: 0.5 },
+]
+
+export default function PumpCurveEditor() {
+  const { customPumpCurves, savePumpCurve, resetPumpCurve, getPumpCurves } = useSettingsStore()
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const curves = getPumpCurves().sort((a, b) => getBestEfficiencyGpm(a) - getBestEfficiencyGpm(b))
+
+  const handleChange = (curve: PumpCurve, updates: Partial<PumpCurve>) => {
+    savePumpCurve({ ...curve, ...updates })
+  }
+
+  const handlePointChange = (curve: PumpCurve, index: number, updates: Partial<PumpCurvePoint>) => {
+    handleChange(curve, { points: curve.points.map((p, i) => (i === index ? { ...p, ...updates } : p)) })
+  }
+
+  const handleAddPoint = (curve: PumpCurve) => {
+    const last = curve.points[curve.points.length - 1]
+    handleChange(curve, {
+      points: [...curve.points, last ? { ...last, gpm: Math.round(last.gpm * 1.2) } : { gpm: 0, headFt: 0, efficiency: 0, npshrFt: 0 }],
+    })
+  }
+
+  const handleAdd = () => {
+    const template = curves[0]
+    const id = `custom_pump_${Date.now()}`
+    savePumpCurve({
+      ...template,
+      id,
+      model: 'New Pump',
+      points: template.points.map(p => ({ ...p })),
+      disabled: false,
+    })
+    setExpandedId(id)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Pump Curves</h2>
+          <p className="text-surface-400 mt-1">
+            Head, efficiency and NPSHr vs flow per impeller, used to select hydronic pumps and find the operating point
+          </p>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          + Add Curve
+        </button>
+      </div>
+
+      <div className="bg-surface-800 rounded-xl border border-surface-700 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-surface-900 text-left text-surface-400">
+              <th className="px-3 py-3 font-medium">Use</th>
+              <th className="px-3 py-3 font-medium">Model</th>
+              {CURVE_COLUMNS.map(col => (
+                <th key={col.field} className="px-3 py-3 font-medium text-right">{col.label}</th>
+              ))}
+              <th className="px-3 py-3 font-medium text-right">BEP</th>
+              <th className="px-3 py-3 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {curves.map(curve => {
+              const builtIn = isBuiltInPumpCurve(curve.id)
+              const modified = builtIn && !!customPumpCurves[curve.id]
+              const bep = curve.points.find(p => p.gpm === getBestEfficiencyGpm(curve))
+              const expanded = expandedId === curve.id
+              return (
+                <Fragment key={curve.id}>
+                  <tr className={`border-b border-surface-700/50 ${curve.disabled ? 'opacity-50' : ''}`}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={!curve.disabled}
+                        onChange={(e) => handleChange(curve, { disabled: !e.target.checked })}
+                        className="w-4 h-4 rounded accent-cyan-500"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={curve.model}
+                        onChange={(e) => handleChange(curve, { model: e.target.value })}
+                        className="w-56 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-sm"
+                      />
+                    </td>
+                    {CURVE_COLUMNS.map(col => (
+                      <td key={col.field} className="px-3 py-2 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          step={col.step}
+                          value={curve[col.field]}
+                          onChange={(e) => handleChange(curve, { [col.field]: Number(e.target.value) })}
+                          className="w-20 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-right font-mono text-sm"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right font-mono text-surface-300 whitespace-nowrap">
+                      {bep ? `${bep.gpm} GPM @ ${bep.headFt} ft` : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                      <button
+                        onClick={() => setExpandedId(expanded ? null : curve.id)}
+                        className="text-xs text-cyan-400 hover:text-cyan-300"
+                      >
+                        {expanded ? 'Hide points' : `${curve.points.length} points`}
+                      </button>
+                      {modified && (
+                        <button
+                          onClick={() => resetPumpCurve(curve.id)}
+                          className="text-xs text-amber-400 hover:text-amber-300"
+                        >
+                          Reset
+                        </button>
+                      )}
+                      {!builtIn && (
+                        <button
+                          onClick={() => resetPumpCurve(curve.id)}
+                          className="text-xs text-red-400 hover:text-red-300"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded && (
+                    <tr className="border-b border-surface-700/50 bg-surface-900/50">
+                      <td></td>
+                      <td colSpan={CURVE_COLUMNS.length + 3} className="px-3 py-3">
+                        <table className="text-sm">
+                          <thead>
+                            <tr className="text-surface-400">
+                              <th className="px-2 py-1 font-medium text-right">GPM</th>
+                              <th className="px-2 py-1 font-medium text-right">Head (ft)</th>
+                              <th className="px-2 py-1 font-medium text-right">Eff. (%)</th>
+                              <th className="px-2 py-1 font-medium text-right">NPSHr (ft)</th>
+                              <th></th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {curve.points.map((point, i) => (
+                              <tr key={i}>
+                                <td className="px-2 py-1">
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    value={point.gpm}
+                                    onChange={(e) => handlePointChange(curve, i, { gpm: Number(e.target.value) })}
+                                    className="w-20 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-right font-mono text-sm"
+                                  />
+                                </td>
+                                <td className="px-2 py-1">
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={point.headFt}
+                                    onChange={(e) => handlePointChange(curve, i, { headFt: Number(e.target.value) })}
+                                    className="w-20 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-right font-mono text-sm"
+                                  />
+                                </td>
+                                <td className="px-2 py-1">
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={Math.round(point.efficiency * 1000) / 10}
+                                    onChange={(e) => handlePointChange(curve, i, { efficiency: Number(e.target.value) / 100 })}
+                                    className="w-20 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-right font-mono text-sm"
+                                  />
+                                </td>
+                                <td className="px-2 py-1">
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={point.npshrFt}
+                                    onChange={(e) => handlePointChange(curve, i, { npshrFt: Number(e.target.value) })}
+                                    className="w-20 px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-right font-mono text-sm"
+                                  />
+                                </td>
+                                <td className="px-2 py-1">
+                                  {curve.points.length > 2 && (
+                                    <button
+                                      onClick={() => handleChange(curve, { points: curve.points.filter((_, j) => j !== i) })}
+                                      className="text-xs text-red-400 hover:text-red-300"
+                                    >
+                                      Remove
+                                    </button>
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <button
+                          onClick={() => handleAddPoint(curve)}
+                          className="mt-2 text-xs text-cyan-400 hover:text-cyan-300"
+                        >
+                          + Add point
+                        </button>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-surface-500">
+        Built-in curves are representative published data for common casings at full speed. Enter points from shutoff to
+        runout - the curve is not extrapolated past the last point. Unchecked curves are skipped by auto-selection.
+      </p>
+    </div>
+  )
+}
@@ -5,6 +5,9 @@ import ZoneDefaultsEditor from './ZoneDefaultsEditor'
 import NewZoneTypeModal from './NewZoneTypeModal'
 import GlobalSettingsPanel from './GlobalSettingsPanel'
 import ASHRAEDefaultsEditor from './ASHRAEDefaultsEditor'
+import EquipmentCatalogEditor from './EquipmentCatalogEditor'
+import CostLibraryEditor from './CostLibraryEditor'
+import PumpCurveEditor from './PumpCurveEditor'
 import AdminManagement from './AdminManagement'
 import { Logo } from '../shared/Logo'
 import { useSettingsStore } from '../../store/useSettingsStore'
@@ -54,7 +57,7 @@ function getModifiedSettings(store: ReturnType<typeof useSettingsStore.getState>
   }
 }
 
-type SettingsTab = 'zones' | 'global' | 'ashrae' | 'admins'
+type SettingsTab = 'zones' | 'global' | 'ashrae' | 'equipment' | 'pumps' | 'costs' | 'admins'
 
 export default function SettingsPage() {
   const navigate = useNavigate()
@@ -211,6 +214,36 @@ export default function SettingsPage() {
           >
             💨 ASHRAE Ventilation
           </button>
+          <button
+            onClick={() => setActiveTab('equipment')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              activeTab === 'equipment'
+                ? 'bg-primary-600 text-white'
+                : 'text-surface-400 hover:text-white hover:bg-surface-700'
+            }`}
+          >
+            🧰 Equipment Catalog
+          </button>
+          <button
+            onClick={() => setActiveTab('pumps')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              activeTab === 'pumps'
+                ? 'bg-primary-600 text-white'
+                : 'text-surface-400 hover:text-white hover:bg-surface-700'
+            }`}
+          >
+            🌀 Pump Curves
+          </button>
+          <button
+            onClick={() => setActiveTab('costs')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              activeTab === 'costs'
+                ? 'bg-primary-600 text-white'
+                : 'text-surface-400 hover:text-white hover:bg-surface-700'
+            }`}
+          >
+            💲 Cost Library
+          </button>
           <button
             onClick={() => setActiveTab('global')}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
@@ -237,6 +270,12 @@ export default function SettingsPage() {
           <GlobalSettingsPanel />
         ) : activeTab === 'ashrae' ? (
           <ASHRAEDefaultsEditor />
+        ) : activeTab === 'equipment' ? (
+          <EquipmentCatalogEditor />
+        ) : activeTab === 'pumps' ? (
+          <PumpCurveEditor />
+        ) : activeTab === 'costs' ? (
+          <CostLibraryEditor />
         ) : activeTab === 'admins' ? (
           <AdminManagement />
         ) : (
@@ -0,0 +1,104 @@
+import { ENVELOPE_ORIENTATIONS, DEFAULT_ENVELOPE_U } from '../../data/envelopeLoads'
+import type { ZoneEnvelope, EnvelopeOrientation } from '../../types'
+
+interface EnvelopeInputsProps {
+  envelope: ZoneEnvelope
+  onChange: (updates: Partial<ZoneEnvelope>) => void
+}
+
+// Walls / glazing by orientation, roof, equipment and infiltration
+// Shared by the concept zone editor and the HVAC space editor
+export default function EnvelopeInputs({ envelope, onChange }: EnvelopeInputsProps) {
+  // One wall + one glazing entry per orientation
+  const getWall = (orientation: EnvelopeOrientation) =>
+    envelope.walls.find(w => w.orientation === orientation) ?? { orientation, areaSF: 0, uValue: DEFAULT_ENVELOPE_U.wall }
+  const getGlazing = (orientation: EnvelopeOrientation) =>
+    envelope.glazing.find(g => g.orientation === orientation) ?? { orientation, areaSF: 0, uValue: DEFAULT_ENVELOPE_U.glazing, shgc: DEFAULT_ENVELOPE_U.shgc }
+
+  const handleWall = (orientation: EnvelopeOrientation, field: 'areaSF' | 'uValue', value: number) => {
+    const wall = { ...getWall(orientation), [field]: value }
+    onChange({
+      walls: [...envelope.walls.filter(w => w.orientation !== orientation), wall],
+    })
+  }
+
+  const handleGlazing = (orientation: EnvelopeOrientation, field: 'areaSF' | 'uValue' | 'shgc', value: number) => {
+    const glazing = { ...getGlazing(orientation), [field]: value }
+    onChange({
+      glazing: [...envelope.glazing.filter(g => g.orientation !== orientation), glazing],
+    })
+  }
+
+  const inputClass = 'w-full px-2 py-1 bg-surface-900 border border-surface-600 rounded text-white text-xs text-right font-mono'
+
+  return (
+    <>
+      {/* Walls & Glazing by Orientation */}
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-surface-400">
+            <th className="text-left py-1 font-medium">Face</th>
+            <th className="text-right py-1 px-1 font-medium">Wall SF</th>
+            <th className="text-right py-1 px-1 font-medium">Wall U</th>
+            <th className="text-right py-1 px-1 font-medium">Glass SF</th>
+            <th className="text-right py-1 px-1 font-medium">Glass U</th>
+            <th className="text-right py-1 px-1 font-medium">SHGC</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ENVELOPE_ORIENTATIONS.map(orientation => {
+            const wall = getWall(orientation)
+            const glazing = getGlazing(orientation)
+            return (
+              <tr key={orientation}>
+                <td className="py-0.5 text-surface-300 font-mono">{orientation}</td>
+                <td className="py-0.5 px-1">
+                  <input type="number" min={0} step={10} value={wall.areaSF}
+                    onChange={(e) => handleWall(orientation, 'areaSF', Number(e.target.value))} className={inputClass} />
+                </td>
+                <td className="py-0.5 px-1">
+                  <input type="number" min={0} step={0.001} value={wall.uValue}
+                    onChange={(e) => handleWall(orientation, 'uValue', Number(e.target.value))} className={inputClass} />
+                </td>
+                <td className="py-0.5 px-1">
+                  <input type="number" min={0} step={10} value={glazing.areaSF}
+                    onChange={(e) => handleGlazing(orientation, 'areaSF', Number(e.target.value))} className={inputClass} />
+                </td>
+                <td className="py-0.5 px-1">
+                  <input type="number" min={0} step={0.01} value={glazing.uValue}
+                    onChange={(e) => handleGlazing(orientation, 'uValue', Number(e.target.value))} className={inputClass} />
+                </td>
+                <td className="py-0.5 px-1">
+                  <input type="number" min={0} max={1} step={0.01} value={glazing.shgc}
+                    onChange={(e) => handleGlazing(orientation, 'shgc', Number(e.target.value))} className={inputClass} />
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      {/* Roof & Internal Gains */}
+      <div className="grid grid-cols-2 gap-3">
+        {[
+          { key: 'roofAreaSF', label: 'Roof Area', unit: 'SF', step: 10 },
+          { key: 'roofU', label: 'Roof U', unit: 'BTU/h·SF·°F', step: 0.001 },
+          { key: 'equipmentWSF', label: 'Equipment', unit: 'W/SF', step: 0.1 },
+          { key: 'infiltrationACH', label: 'Infiltration', unit: 'ACH', step: 0.05 },
+        ].map(field => (
+          <div key={field.key}>
+            <label className="block text-xs text-surface-400 mb-1">{field.label} ({field.unit})</label>
+            <input
+              type="number"
+              min={0}
+              step={field.step}
+              value={envelope[field.key as 'roofAreaSF' | 'roofU' | 'equipmentWSF' | 'infiltrationACH']}
+              onChange={(e) => onChange({ [field.key]: Number(e.target.value) })}
+              className="w-full px-3 py-1.5 bg-surface-900 border border-surface-600 rounded-lg text-white text-sm"
+            />
+          </div>
+        ))}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,68 @@
+import type { EquipmentSchedule } from '../../types/equipment'
+import { EQUIPMENT_CATEGORIES, SELECTION_BASIS_UNITS } from '../../data/equipmentCatalog'
+
+interface EquipmentScheduleTableProps {
+  schedule: EquipmentSchedule
+}
+
+export default function EquipmentScheduleTable({ schedule }: EquipmentScheduleTableProps) {
+  if (schedule.units.length === 0) {
+    return <p className="text-sm text-surface-500 italic">No catalog equipment selected for this system.</p>
+  }
+
+  const totalKVA = schedule.units.reduce((sum, u) => sum + u.kva, 0)
+  const totalWeight = schedule.units.reduce((sum, u) => sum + u.weightLb, 0)
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-surface-700">
+            <th className="text-left py-2 px-2 text-surface-400 font-medium">Tag</th>
+            <th className="text-left py-2 px-2 text-surface-400 font-medium">Unit</th>
+            <th className="text-left py-2 px-2 text-surface-400 font-medium">Serves</th>
+            <th className="text-right py-2 px-2 text-surface-400 font-medium">Qty</th>
+            <th className="text-right py-2 px-2 text-surface-400 font-medium">Design / Unit</th>
+            <th className="text-right py-2 px-2 text-surface-400 font-medium">Cooling</th>
+            <th className="text-right py-2 px-2 text-surface-400 font-medium">Heating</th>
+            <th className="text-right py-2 px-2 text-surface-400 font-medium">CFM</th>
+            <th className="text-right py-2 px-2 text-surface-400 font-medium">Electrical</th>
+            <th className="text-right py-2 px-2 text-surface-400 font-medium">MCA / MOCP</th>
+            <th className="text-right py-2 px-2 text-surface-400 font-medium">kVA</th>
+            <th className="text-right py-2 px-2 text-surface-400 font-medium">Weight</th>
+          </tr>
+        </thead>
+        <tbody>
+          {schedule.units.map(u => {
+            const basisUnit = SELECTION_BASIS_UNITS[EQUIPMENT_CATEGORIES[u.category].basis]
+            return (
+              <tr key={u.tag} className="border-b border-surface-700/50">
+                <td className="py-2 px-2 text-white font-mono whitespace-nowrap">{u.tag}</td>
+                <td className="py-2 px-2 text-surface-300">{u.item.model}</td>
+                <td className="py-2 px-2 text-surface-400">{u.serves}</td>
+                <td className="py-2 px-2 text-right text-surface-300 font-mono">{u.quantity}</td>
+                <td className="py-2 px-2 text-right text-surface-400 font-mono whitespace-nowrap">
+                  {u.designPerUnit.toLocaleString()} / {u.capacityPerUnit.toLocaleString()} {basisUnit}
+                </td>
+                <td className="py-2 px-2 text-right text-cyan-400 font-mono">{u.item.nominalTons > 0 ? `${u.item.nominalTons} T` : '—'}</td>
+                <td className="py-2 px-2 text-right text-orange-400 font-mono">{u.item.heatingMbh > 0 ? `${u.item.heatingMbh} MBH` : '—'}</td>
+                <td className="py-2 px-2 text-right text-surface-300 font-mono">{u.item.cfm.toLocaleString()}</td>
+                <td className="py-2 px-2 text-right text-surface-400 font-mono whitespace-nowrap">{u.voltage}V/3Ø</td>
+                <td className="py-2 px-2 text-right text-surface-300 font-mono whitespace-nowrap">{u.mca}A / {u.mocp}A</td>
+                <td className="py-2 px-2 text-right text-amber-400 font-mono">{u.kva.toFixed(1)}</td>
+                <td className="py-2 px-2 text-right text-surface-400 font-mono">{u.weightLb.toLocaleString()} lb</td>
+              </tr>
+            )
+          })}
+        </tbody>
+        <tfoot>
+          <tr className="bg-surface-900">
+            <td colSpan={10} className="py-2 px-2 text-right text-surface-300 font-medium">Total:</td>
+            <td className="py-2 px-2 text-right text-amber-400 font-mono font-medium">{totalKVA.toFixed(1)}</td>
+            <td className="py-2 px-2 text-right text-surface-300 font-mono">{totalWeight.toLocaleString()} lb</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  )
+}
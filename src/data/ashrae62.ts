@@ -49,15 +49,29 @@ export interface ASHRAE62SpaceType {
 // ASHRAE 170 Healthcare Space Interface
 // ============================================
 
+export type ASHRAE170Pressure = 'positive' | 'negative' | 'equal'
+
 export interface ASHRAE170Space {
   id: string
   spaceType: string
   minTotalACH: number
   minOAach: number
-  pressureRelationship: 'positive' | 'negative' | 'equal'
+  pressureRelationship: ASHRAE170Pressure
   allAirExhaust: boolean
   recirculated: boolean
   notes?: string
+  // Design conditions (Table 7-1) - undefined = no requirement
+  rhMin?: number
+  rhMax?: number
+  tempMinF?: number
+  tempMaxF?: number
+}
+
+export interface ASHRAE170DesignConditions {
+  rhMin?: number
+  rhMax?: number
+  tempMinF?: number
+  tempMaxF?: number
 }
 
 // ============================================
@@ -103,6 +117,33 @@ export const ZONE_EZ_VALUES: EzConfiguration[] = [
   { id: 'MU_EX', description: 'Makeup supply near exhaust', ez: 0.5 },
 ]
 
+// ============================================
+// ASHRAE 170 design RH / temperature (Table 7-1, rarely change, keep hardcoded)
+// Spaces not listed have no requirement (NR)
+// ============================================
+
+export const ASHRAE170_DESIGN_CONDITIONS: Record<string, ASHRAE170DesignConditions> = {
+  or_class_b: { rhMin: 20, rhMax: 60, tempMinF: 68, tempMaxF: 75 },
+  or_class_c: { rhMin: 20, rhMax: 60, tempMinF: 68, tempMaxF: 75 },
+  procedure_room: { rhMin: 20, rhMax: 60, tempMinF: 70, tempMaxF: 75 },
+  recovery_room: { rhMin: 20, rhMax: 60, tempMinF: 70, tempMaxF: 75 },
+  isolation_aii: { rhMax: 60, tempMinF: 70, tempMaxF: 75 },
+  isolation_pe: { rhMax: 60, tempMinF: 70, tempMaxF: 75 },
+  hc_patient_room: { rhMax: 60, tempMinF: 70, tempMaxF: 75 },
+  icu: { rhMin: 30, rhMax: 60, tempMinF: 70, tempMaxF: 75 },
+  newborn_nursery: { rhMin: 30, rhMax: 60, tempMinF: 72, tempMaxF: 78 },
+  emergency_waiting: { rhMax: 65, tempMinF: 70, tempMaxF: 75 },
+  radiology: { rhMax: 60, tempMinF: 72, tempMaxF: 78 },
+  clean_workroom: { rhMax: 60 },
+  autopsy: { tempMinF: 68, tempMaxF: 75 },
+}
+
+export const PRESSURE_RELATIONSHIP_LABELS: Record<ASHRAE170Pressure, string> = {
+  positive: 'Positive',
+  negative: 'Negative',
+  equal: 'Neutral',
+}
+
 /**
  * Get Ez value by configuration ID
  */
@@ -157,13 +198,21 @@ export function getAshrae170Spaces(): ASHRAE170Space[] {
     spaceType: db.display_name,
     minTotalACH: db.min_total_ach ?? 0,
     minOAach: db.min_oa_ach ?? 0,
-    pressureRelationship: (db.pressure_relationship ?? 'equal') as 'positive' | 'negative' | 'equal',
+    pressureRelationship: (db.pressure_relationship ?? 'equal') as ASHRAE170Pressure,
     allAirExhaust: db.all_air_exhaust ?? false,
     recirculated: db.recirculated ?? true,
     notes: db.notes,
+    ...ASHRAE170_DESIGN_CONDITIONS[db.id],
   }))
 }
 
+/**
+ * Get ASHRAE 170 healthcare space by ID (from database)
+ */
+export function getAshrae170Space(id: string): ASHRAE170Space | undefined {
+  return getAshrae170Spaces().find(st => st.id === id)
+}
+
 // Lazy-loaded arrays that get data from database
 // These are getters, not constants, to ensure fresh data
 export const ASHRAE62_SPACE_TYPES: ASHRAE62SpaceType[] = new Proxy([] as ASHRAE62SpaceType[], {
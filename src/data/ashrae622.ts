@@ -0,0 +1,42 @@
+// ===========================================
+// ASHRAE 62.2 RESIDENTIAL VENTILATION DATA
+// Whole-dwelling mechanical ventilation and local exhaust for dwelling units
+// Reference: ASHRAE 62.2-2019 Sections 4 and 5, Normative Appendix B (wsf)
+// ===========================================
+
+import type { ZoneType } from '../types'
+
+// Total required ventilation rate, Eq. 4-1a: Qtot = 0.03 × Afloor + 7.5 × (Nbr + 1)
+export const WHOLE_DWELLING_CFM_PER_SF = 0.03
+export const WHOLE_DWELLING_CFM_PER_PERSON = 7.5
+
+// Effective annual infiltration, Eq. 4-2: Qinf = 0.052 × Q50 × wsf × (H / Hr)^z
+export const INFILTRATION_COEFFICIENT = 0.052
+export const INFILTRATION_REFERENCE_HEIGHT_FT = 8.2
+export const INFILTRATION_HEIGHT_EXPONENT = 0.4
+
+// Appendix B weather and shielding factor - mid-range value for a mixed climate
+export const DEFAULT_WEATHER_SHIELDING_FACTOR = 0.5
+
+// IECC 2021 R402.4.1.2 maximum envelope leakage (air changes per hour at 50 Pa)
+export const DEFAULT_ACH50 = 3
+
+// Table 5.2 - continuous kitchen exhaust is 5 ACH on the kitchen volume
+export const KITCHEN_CONTINUOUS_ACH = 5
+
+export const DEFAULT_RESIDENTIAL_CEILING_FT = 9
+
+export const BEDROOM_ZONE_TYPES: ZoneType[] = ['res_bedroom_master', 'res_bedroom_standard', 'res_bedroom_guest']
+export const KITCHEN_ZONE_TYPES: ZoneType[] = ['res_kitchen_gas', 'res_kitchen_electric']
+
+// Residential ERV / HRV nominal airflow ratings (CFM)
+export const STANDARD_ERV_CFM = [50, 70, 100, 120, 150, 200, 250, 300, 400, 500]
+
+export function getStandardErvCfm(cfm: number): number {
+  return STANDARD_ERV_CFM.find(size => size >= cfm)
+    ?? STANDARD_ERV_CFM[STANDARD_ERV_CFM.length - 1]
+}
+
+export function isResidentialZoneType(type: ZoneType): boolean {
+  return type.startsWith('res_')
+}
@@ -0,0 +1,116 @@
+// ===========================================
+// BALANCING VALVE MODELS
+// Handwheel characteristics for calibrated balancing valves
+// Full-open Cv comes from the fittings library by size
+// ===========================================
+
+import type { BalancingValveModel } from '../types/hydronic'
+
+// Globe-pattern multi-turn valves - close to linear over most of the travel
+const GLOBE_CHARACTERISTIC: [number, number][] = [
+  [0, 0],
+  [0.1, 0.05],
+  [0.2, 0.1],
+  [0.3, 0.17],
+  [0.4, 0.25],
+  [0.5, 0.35],
+  [0.6, 0.47],
+  [0.7, 0.6],
+  [0.8, 0.74],
+  [0.9, 0.88],
+  [1, 1],
+]
+
+// Ball / plug quarter-turn valves - equal percentage
+const QUARTER_TURN_CHARACTERISTIC: [number, number][] = [
+  [0, 0],
+  [0.1, 0.02],
+  [0.2, 0.05],
+  [0.3, 0.09],
+  [0.4, 0.15],
+  [0.5, 0.23],
+  [0.6, 0.34],
+  [0.7, 0.48],
+  [0.8, 0.65],
+  [0.9, 0.83],
+  [1, 1],
+]
+
+export const BALANCING_VALVE_MODELS: BalancingValveModel[] = [
+  {
+    id: 'multi_turn_4',
+    displayName: 'Multi-turn Globe (0-4 turns)',
+    fittingId: 'balance_valve',
+    settingUnit: 'turns',
+    maxSetting: 4,
+    settingStep: 0.1,
+    minTravel: 0.1,
+    characteristic: GLOBE_CHARACTERISTIC,
+  },
+  {
+    id: 'multi_turn_8',
+    displayName: 'Multi-turn Globe, Large (0-8 turns)',
+    fittingId: 'balance_valve',
+    settingUnit: 'turns',
+    maxSetting: 8,
+    settingStep: 0.1,
+    minTravel: 0.1,
+    characteristic: GLOBE_CHARACTERISTIC,
+  },
+  {
+    id: 'circuit_setter',
+    displayName: 'Circuit Setter (0-90° memory stop)',
+    fittingId: 'balance_valve',
+    settingUnit: '°',
+    maxSetting: 90,
+    settingStep: 5,
+    minTravel: 0.2,
+    characteristic: QUARTER_TURN_CHARACTERISTIC,
+  },
+  {
+    id: 'triple_duty',
+    displayName: 'Triple Duty Valve (0-5 turns)',
+    fittingId: 'triple_duty_valve',
+    settingUnit: 'turns',
+    maxSetting: 5,
+    settingStep: 0.25,
+    minTravel: 0.2,
+    characteristic: GLOBE_CHARACTERISTIC,
+  },
+]
+
+export const DEFAULT_BALANCING_VALVE_MODEL_ID = 'multi_turn_4'
+
+// Fittings that count as a balancing valve already in a branch
+export const BALANCING_FITTING_IDS = ['balance_valve', 'triple_duty_valve']
+
+export function getBalancingValveModel(id?: string | null): BalancingValveModel {
+  return BALANCING_VALVE_MODELS.find(m => m.id === id)
+    ?? BALANCING_VALVE_MODELS.find(m => m.id === DEFAULT_BALANCING_VALVE_MODEL_ID)!
+}
+
+/**
+ * Fraction of full-open Cv at a fraction of travel (linear between points)
+ */
+export function getCvFractionAtTravel(model: BalancingValveModel, travel: number): number {
+  const points = model.characteristic
+  if (travel >= 1) return 1
+  if (travel <= 0) return 0
+  const upper = points.findIndex(([t]) => t >= travel)
+  const [t0, c0] = points[upper - 1]
+  const [t1, c1] = points[upper]
+  return c0 + (travel - t0) / (t1 - t0) * (c1 - c0)
+}
+
+/**
+ * Fraction of travel that gives a fraction of full-open Cv
+ */
+export function getTravelForCvFraction(model: BalancingValveModel, cvFraction: number): number {
+  const points = model.characteristic
+  if (cvFraction >= 1) return 1
+  if (cvFraction <= 0) return 0
+  const upper = points.findIndex(([, c]) => c >= cvFraction)
+  const [t0, c0] = points[upper - 1]
+  const [t1, c1] = points[upper]
+  return t0 + (cvFraction - c0) / (c1 - c0) * (t1 - t0)
+}
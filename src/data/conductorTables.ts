@@ -0,0 +1,159 @@
+// ===========================================
+// CONDUCTOR DATA
+// Ampacity, impedance and raceway tables for feeder/branch sizing
+// Reference: NFPA 70-2020 Table 310.16, Table 310.15(B)(1), Table 310.15(C)(1),
+// Table 250.122, Chapter 9 Tables 4, 5 and 9
+// ===========================================
+
+import type { ConductorData, ConductorMaterial, InsulationTempRating } from '../types/electrical'
+
+// Table 310.16 ampacities (not more than 3 current-carrying conductors, 30°C ambient)
+// Chapter 9 Table 9: AC resistance and reactance in steel conduit (ohms / 1000 ft, 75°C)
+// Chapter 9 Table 5: THHN/THWN-2 area
+export const CONDUCTORS: ConductorData[] = [
+  { size: '14', circularMils: 4110, copper: { 60: 15, 75: 20, 90: 25 }, aluminum: null, rCopper: 3.1, rAluminum: null, xL: 0.073, thhnAreaIn2: 0.0097 },
+  { size: '12', circularMils: 6530, copper: { 60: 20, 75: 25, 90: 30 }, aluminum: { 60: 15, 75: 20, 90: 25 }, rCopper: 2.0, rAluminum: 3.2, xL: 0.068, thhnAreaIn2: 0.0133 },
+  { size: '10', circularMils: 10380, copper: { 60: 30, 75: 35, 90: 40 }, aluminum: { 60: 25, 75: 30, 90: 35 }, rCopper: 1.2, rAluminum: 2.0, xL: 0.063, thhnAreaIn2: 0.0211 },
+  { size: '8', circularMils: 16510, copper: { 60: 40, 75: 50, 90: 55 }, aluminum: { 60: 35, 75: 40, 90: 45 }, rCopper: 0.78, rAluminum: 1.3, xL: 0.065, thhnAreaIn2: 0.0366 },
+  { size: '6', circularMils: 26240, copper: { 60: 55, 75: 65, 90: 75 }, aluminum: { 60: 40, 75: 50, 90: 55 }, rCopper: 0.49, rAluminum: 0.81, xL: 0.064, thhnAreaIn2: 0.0507 },
+  { size: '4', circularMils: 41740, copper: { 60: 70, 75: 85, 90: 95 }, aluminum: { 60: 55, 75: 65, 90: 75 }, rCopper: 0.31, rAluminum: 0.51, xL: 0.060, thhnAreaIn2: 0.0824 },
+  { size: '3', circularMils: 52620, copper: { 60: 85, 75: 100, 90: 115 }, aluminum: { 60: 65, 75: 75, 90: 85 }, rCopper: 0.25, rAluminum: 0.40, xL: 0.059, thhnAreaIn2: 0.0973 },
+  { size: '2', circularMils: 66360, copper: { 60: 95, 75: 115, 90: 130 }, aluminum: { 60: 75, 75: 90, 90: 100 }, rCopper: 0.19, rAluminum: 0.32, xL: 0.057, thhnAreaIn2: 0.1158 },
+  { size: '1', circularMils: 83690, copper: { 60: 110, 75: 130, 90: 145 }, aluminum: { 60: 85, 75: 100, 90: 115 }, rCopper: 0.15, rAluminum: 0.25, xL: 0.057, thhnAreaIn2: 0.1562 },
+  { size: '1/0', circularMils: 105600, copper: { 60: 125, 75: 150, 90: 170 }, aluminum: { 60: 100, 75: 120, 90: 135 }, rCopper: 0.12, rAluminum: 0.20, xL: 0.055, thhnAreaIn2: 0.1855 },
+  { size: '2/0', circularMils: 133100, copper: { 60: 145, 75: 175, 90: 195 }, aluminum: { 60: 115, 75: 135, 90: 150 }, rCopper: 0.10, rAluminum: 0.16, xL: 0.054, thhnAreaIn2: 0.2223 },
+  { size: '3/0', circularMils: 167800, copper: { 60: 165, 75: 200, 90: 225 }, aluminum: { 60: 130, 75: 155, 90: 175 }, rCopper: 0.079, rAluminum: 0.13, xL: 0.052, thhnAreaIn2: 0.2679 },
+  { size: '4/0', circularMils: 211600, copper: { 60: 195, 75: 230, 90: 260 }, aluminum: { 60: 150, 75: 180, 90: 205 }, rCopper: 0.063, rAluminum: 0.10, xL: 0.051, thhnAreaIn2: 0.3237 },
+  { size: '250', circularMils: 250000, copper: { 60: 215, 75: 255, 90: 290 }, aluminum: { 60: 170, 75: 205, 90: 230 }, rCopper: 0.054, rAluminum: 0.086, xL: 0.052, thhnAreaIn2: 0.3970 },
+  { size: '300', circularMils: 300000, copper: { 60: 240, 75: 285, 90: 320 }, aluminum: { 60: 195, 75: 230, 90: 260 }, rCopper: 0.045, rAluminum: 0.072, xL: 0.051, thhnAreaIn2: 0.4608 },
+  { size: '350', circularMils: 350000, copper: { 60: 260, 75: 310, 90: 350 }, aluminum: { 60: 210, 75: 250, 90: 280 }, rCopper: 0.039, rAluminum: 0.063, xL: 0.050, thhnAreaIn2: 0.5242 },
+  { size: '400', circularMils: 400000, copper: { 60: 280, 75: 335, 90: 380 }, aluminum: { 60: 225, 75: 270, 90: 305 }, rCopper: 0.035, rAluminum: 0.055, xL: 0.049, thhnAreaIn2: 0.5863 },
+  { size: '500', circularMils: 500000, copper: { 60: 320, 75: 380, 90: 430 }, aluminum: { 60: 260, 75: 310, 90: 350 }, rCopper: 0.029, rAluminum: 0.045, xL: 0.048, thhnAreaIn2: 0.7073 },
+  { size: '600', circularMils: 600000, copper: { 60: 350, 75: 420, 90: 475 }, aluminum: { 60: 285, 75: 340, 90: 385 }, rCopper: 0.025, rAluminum: 0.038, xL: 0.048, thhnAreaIn2: 0.8676 },
+  { size: '750', circularMils: 750000, copper: { 60: 400, 75: 475, 90: 535 }, aluminum: { 60: 320, 75: 385, 90: 435 }, rCopper: 0.021, rAluminum: 0.031, xL: 0.048, thhnAreaIn2: 1.0496 },
+  { size: '1000', circularMils: 1000000, copper: { 60: 455, 75: 545, 90: 615 }, aluminum: { 60: 375, 75: 445, 90: 500 }, rCopper: 0.018, rAluminum: 0.025, xL: 0.046, thhnAreaIn2: 1.3478 },
+]
+
+export function getConductor(size: string): ConductorData | undefined {
+  return CONDUCTORS.find(c => c.size === size)
+}
+
+export function getConductorAmpacity(
+  conductor: ConductorData,
+  material: ConductorMaterial,
+  rating: InsulationTempRating
+): number {
+  const column = material === 'copper' ? conductor.copper : conductor.aluminum
+  return column ? column[rating] : 0
+}
+
+// Display label: "12 AWG", "4/0 AWG", "500 kcmil"
+export function formatConductorSize(size: string): string {
+  return Number(size) >= 250 ? `${size} kcmil` : `${size} AWG`
+}
+
+// Smallest conductor permitted in parallel - 310.10(G)
+export const MIN_PARALLEL_SIZE = '1/0'
+// Practical maximum per set before adding parallel sets
+export const MAX_PRACTICAL_SIZE = '600'
+
+// 240.4(D) small conductor OCPD limits
+export const SMALL_CONDUCTOR_MAX_OCPD: Record<ConductorMaterial, Record<string, number>> = {
+  copper: { '14': 15, '12': 20, '10': 30 },
+  aluminum: { '12': 15, '10': 25 },
+}
+
+// ===========================================
+// TABLE 310.15(B)(1) - AMBIENT TEMPERATURE CORRECTION (30°C / 86°F BASE)
+// ===========================================
+export const AMBIENT_CORRECTION_F: { maxTempF: number; factors: Record<InsulationTempRating, number> }[] = [
+  { maxTempF: 50, factors: { 60: 1.29, 75: 1.20, 90: 1.15 } },
+  { maxTempF: 59, factors: { 60: 1.22, 75: 1.15, 90: 1.12 } },
+  { maxTempF: 68, factors: { 60: 1.15, 75: 1.11, 90: 1.08 } },
+  { maxTempF: 77, factors: { 60: 1.08, 75: 1.05, 90: 1.04 } },
+  { maxTempF: 86, factors: { 60: 1.00, 75: 1.00, 90: 1.00 } },
+  { maxTempF: 95, factors: { 60: 0.91, 75: 0.94, 90: 0.96 } },
+  { maxTempF: 104, factors: { 60: 0.82, 75: 0.88, 90: 0.91 } },
+  { maxTempF: 113, factors: { 60: 0.71, 75: 0.82, 90: 0.87 } },
+  { maxTempF: 122, factors: { 60: 0.58, 75: 0.75, 90: 0.82 } },
+  { maxTempF: 131, factors: { 60: 0.41, 75: 0.67, 90: 0.76 } },
+  { maxTempF: 140, factors: { 60: 0, 75: 0.58, 90: 0.71 } },
+  { maxTempF: 149, factors: { 60: 0, 75: 0.47, 90: 0.65 } },
+  { maxTempF: 158, factors: { 60: 0, 75: 0.33, 90: 0.58 } },
+  { maxTempF: 167, factors: { 60: 0, 75: 0, 90: 0.50 } },
+  { maxTempF: 176, factors: { 60: 0, 75: 0, 90: 0.41 } },
+  { maxTempF: 185, factors: { 60: 0, 75: 0, 90: 0.29 } },
+]
+
+export function getAmbientCorrectionFactor(ambientF: number, rating: InsulationTempRating): number {
+  const row = AMBIENT_CORRECTION_F.find(r => ambientF <= r.maxTempF)
+  return row ? row.factors[rating] : 0
+}
+
+// ===========================================
+// TABLE 310.15(C)(1) - MORE THAN 3 CURRENT-CARRYING CONDUCTORS
+// ===========================================
+export const CONDUCTOR_FILL_ADJUSTMENT: { maxConductors: number; factor: number }[] = [
+  { maxConductors: 3, factor: 1.0 },
+  { maxConductors: 6, factor: 0.8 },
+  { maxConductors: 9, factor: 0.7 },
+  { maxConductors: 20, factor: 0.5 },
+  { maxConductors: 30, factor: 0.45 },
+  { maxConductors: 40, factor: 0.4 },
+  { maxConductors: Infinity, factor: 0.35 },
+]
+
+export function getFillAdjustmentFactor(currentCarryingConductors: number): number {
+  const row = CONDUCTOR_FILL_ADJUSTMENT.find(r => currentCarryingConductors <= r.maxConductors)
+  return row ? row.factor : 0.35
+}
+
+// ===========================================
+// TABLE 250.122 - EQUIPMENT GROUNDING CONDUCTOR
+// Sizes above 1000 kcmil are limited to the largest tabulated conductor here
+// ===========================================
+export const NEC_TABLE_250_122: { maxOcpdAmps: number; copper: string; aluminum: string }[] = [
+  { maxOcpdAmps: 15, copper: '14', aluminum: '12' },
+  { maxOcpdAmps: 20, copper: '12', aluminum: '10' },
+  { maxOcpdAmps: 60, copper: '10', aluminum: '8' },
+  { maxOcpdAmps: 100, copper: '8', aluminum: '6' },
+  { maxOcpdAmps: 200, copper: '6', aluminum: '4' },
+  { maxOcpdAmps: 300, copper: '4', aluminum: '2' },
+  { maxOcpdAmps: 400, copper: '3', aluminum: '1' },
+  { maxOcpdAmps: 500, copper: '2', aluminum: '1/0' },
+  { maxOcpdAmps: 600, copper: '1', aluminum: '2/0' },
+  { maxOcpdAmps: 800, copper: '1/0', aluminum: '3/0' },
+  { maxOcpdAmps: 1000, copper: '2/0', aluminum: '4/0' },
+  { maxOcpdAmps: 1200, copper: '3/0', aluminum: '250' },
+  { maxOcpdAmps: 1600, copper: '4/0', aluminum: '350' },
+  { maxOcpdAmps: 2000, copper: '250', aluminum: '400' },
+  { maxOcpdAmps: 2500, copper: '350', aluminum: '600' },
+  { maxOcpdAmps: 3000, copper: '400', aluminum: '600' },
+  { maxOcpdAmps: 4000, copper: '500', aluminum: '750' },
+  { maxOcpdAmps: 5000, copper: '750', aluminum: '1000' },
+  { maxOcpdAmps: 6000, copper: '750', aluminum: '1000' },
+]
+
+export function getEGCSize(ocpdAmps: number, material: ConductorMaterial): string {
+  const row = NEC_TABLE_250_122.find(r => ocpdAmps <= r.maxOcpdAmps) ?? NEC_TABLE_250_122[NEC_TABLE_250_122.length - 1]
+  return material === 'copper' ? row.copper : row.aluminum
+}
+
+// ===========================================
+// CHAPTER 9 TABLE 4 - EMT INTERNAL AREA (100%)
+// Chapter 9 Table 1: 40% fill for over 2 conductors
+// ===========================================
+export const EMT_CONDUIT_AREAS: { tradeSize: string; areaIn2: number }[] = [
+  { tradeSize: '1/2', areaIn2: 0.304 },
+  { tradeSize: '3/4', areaIn2: 0.533 },
+  { tradeSize: '1', areaIn2: 0.864 },
+  { tradeSize: '1-1/4', areaIn2: 1.496 },
+  { tradeSize: '1-1/2', areaIn2: 2.036 },
+  { tradeSize: '2', areaIn2: 3.356 },
+  { tradeSize: '2-1/2', areaIn2: 5.858 },
+  { tradeSize: '3', areaIn2: 8.846 },
+  { tradeSize: '3-1/2', areaIn2: 11.545 },
+  { tradeSize: '4', areaIn2: 14.753 },
+]
+
+export const CONDUIT_MAX_FILL = 0.40
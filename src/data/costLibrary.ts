@@ -0,0 +1,116 @@
+// ===========================================
+// CONCEPTUAL COST LIBRARY
+// Installed unit costs (material + labor + sub markup), national average -
+// the project's regional multiplier localizes them. Order-of-magnitude
+// values for concept budgets, edited firm-wide on the Settings page
+// ===========================================
+
+import type { HVACSystemType } from '../types'
+import type { CostBasis, CostEstimateSettings, CostTrade, UnitCost } from '../types/costEstimate'
+import { FIXTURE_CATEGORIES } from './nycFixtures'
+import { HVAC_SYSTEM_CONFIGS } from './defaults'
+
+export const COST_TRADE_NAMES: Record<CostTrade, string> = {
+  hvac: 'HVAC',
+  electrical: 'Electrical',
+  plumbing: 'Plumbing & Gas',
+}
+
+export const COST_BASIS_UNITS: Record<CostBasis, string> = {
+  ton: 'ton',
+  mbh: 'MBH',
+  cfm: 'CFM',
+  lb_hr: 'lb/hr',
+  kva: 'kVA',
+  sf: 'SF',
+  fixture: 'ea',
+  gallon: 'gal',
+  cfh: 'CFH',
+}
+
+// Approximate city cost indexes vs. the national average
+export const REGIONAL_COST_MULTIPLIERS: { id: string; name: string; multiplier: number }[] = [
+  { id: 'national', name: 'National Average', multiplier: 1.0 },
+  { id: 'nyc', name: 'New York City', multiplier: 1.32 },
+  { id: 'boston', name: 'Boston', multiplier: 1.18 },
+  { id: 'san_francisco', name: 'San Francisco', multiplier: 1.27 },
+  { id: 'los_angeles', name: 'Los Angeles', multiplier: 1.12 },
+  { id: 'chicago', name: 'Chicago', multiplier: 1.17 },
+  { id: 'seattle', name: 'Seattle', multiplier: 1.1 },
+  { id: 'denver', name: 'Denver', multiplier: 0.92 },
+  { id: 'miami', name: 'Miami', multiplier: 0.93 },
+  { id: 'dallas', name: 'Dallas', multiplier: 0.86 },
+]
+
+export const DEFAULT_COST_ESTIMATE_SETTINGS: CostEstimateSettings = {
+  regionalMultiplier: 1.32,
+  region: 'nyc',
+  overrides: {},
+  adjustments: [],
+}
+
+// $/ton cooling - equipment, refrigerant / hydronic piping and controls
+const COOLING_COST_PER_TON: Record<HVACSystemType, number> = {
+  chiller_ahu: 5500,
+  heat_pump_ahu: 6500,
+  vrf_erv: 6000,
+  rtu: 3500,
+  wshp: 5000,
+  split_system: 4000,
+  custom: 5000,
+}
+
+// $/fixture installed with rough-in, by NYC_FIXTURE_DATABASE category
+const FIXTURE_COST: Record<typeof FIXTURE_CATEGORIES[number], number> = {
+  'Toilets & Urinals': 2800,
+  'Sinks & Lavatories': 2200,
+  'Bathing': 3500,
+  'Appliances': 1800,
+  'Drains': 900,
+  'Specialty': 2500,
+  'Medical': 4000,
+  'Commercial Kitchen': 3000,
+}
+
+export function getFixtureCostId(category: string): string {
+  return `fixture_${category.toLowerCase().replace(/[^a-z]+/g, '_')}`
+}
+
+export const DEFAULT_UNIT_COSTS: UnitCost[] = [
+  // HVAC
+  ...(Object.keys(COOLING_COST_PER_TON) as HVACSystemType[]).map(type => ({
+    id: `cooling_${type}`,
+    trade: 'hvac' as const,
+    name: `Cooling - ${HVAC_SYSTEM_CONFIGS[type].name}`,
+    basis: 'ton' as const,
+    rate: COOLING_COST_PER_TON[type],
+  })),
+  { id: 'heating_gas', trade: 'hvac', name: 'Gas Heating Plant', basis: 'mbh', rate: 35, notes: 'Boilers / RTU gas sections, flues' },
+  { id: 'pool_chiller', trade: 'hvac', name: 'Pool Water Chiller', basis: 'ton', rate: 4500 },
+  { id: 'ventilation', trade: 'hvac', name: 'Outdoor Air / Ventilation', basis: 'cfm', rate: 12, notes: 'OA units, ductwork, ERV' },
+  { id: 'exhaust', trade: 'hvac', name: 'Exhaust Systems', basis: 'cfm', rate: 6 },
+  { id: 'dehumidification', trade: 'hvac', name: 'Pool Dehumidification', basis: 'lb_hr', rate: 2500 },
+  { id: 'hvac_distribution', trade: 'hvac', name: 'Air Distribution & Controls', basis: 'sf', rate: 15 },
+  // Electrical
+  { id: 'electrical_service', trade: 'electrical', name: 'Service & Distribution', basis: 'kva', rate: 250, notes: 'Switchgear, feeders, utility work' },
+  { id: 'power_branch', trade: 'electrical', name: 'Panels, Branch Power & Devices', basis: 'sf', rate: 12 },
+  { id: 'lighting', trade: 'electrical', name: 'Lighting & Controls', basis: 'sf', rate: 14 },
+  { id: 'fire_alarm', trade: 'electrical', name: 'Fire Alarm', basis: 'sf', rate: 3.5 },
+  // Plumbing & gas
+  ...FIXTURE_CATEGORIES.map(category => ({
+    id: getFixtureCostId(category),
+    trade: 'plumbing' as const,
+    name: `Fixtures - ${category}`,
+    basis: 'fixture' as const,
+    rate: FIXTURE_COST[category],
+  })),
+  { id: 'dhw_heater', trade: 'plumbing', name: 'Water Heaters', basis: 'mbh', rate: 40 },
+  { id: 'dhw_storage', trade: 'plumbing', name: 'DHW Storage', basis: 'gallon', rate: 35 },
+  { id: 'plumbing_piping', trade: 'plumbing', name: 'Domestic Water, Sanitary & Vent Piping', basis: 'sf', rate: 8 },
+  { id: 'gas_piping', trade: 'plumbing', name: 'Gas Service & Piping', basis: 'cfh', rate: 20 },
+]
+
+// Library edits are stored as rate overrides by unit cost id
+export function mergeUnitCosts(custom: Record<string, number>): UnitCost[] {
+  return DEFAULT_UNIT_COSTS.map(item => (custom[item.id] !== undefined ? { ...item, rate: custom[item.id] } : item))
+}
@@ -0,0 +1,63 @@
+// ===========================================
+// ELECTRIFICATION SCENARIO DATA
+// Plant fuel variants for comparing service, energy, carbon and first cost
+// ===========================================
+
+import type { HVACSystemType } from '../types'
+import type { ElectrificationScenario } from '../types/electrification'
+
+export const ELECTRIFICATION_SCENARIOS: ElectrificationScenario[] = [
+  {
+    id: 'current',
+    name: 'Current Design',
+    description: 'Project as configured',
+    heating: 'current',
+    dhw: 'current',
+    zoneEquipment: 'current',
+  },
+  {
+    id: 'all_gas',
+    name: 'All Gas',
+    description: 'Gas-fired heating and gas DHW',
+    heating: 'gas',
+    dhw: 'gas',
+    zoneEquipment: 'current',
+  },
+  {
+    id: 'hybrid',
+    name: 'Hybrid',
+    description: 'Heat pump heating with gas DHW and equipment',
+    heating: 'heat_pump',
+    dhw: 'gas',
+    zoneEquipment: 'current',
+  },
+  {
+    id: 'all_electric',
+    name: 'All Electric',
+    description: 'Heat pump heating, electric resistance DHW, electric equipment',
+    heating: 'heat_pump',
+    dhw: 'electric',
+    zoneEquipment: 'electric',
+  },
+  {
+    id: 'heat_pump_dhw',
+    name: 'All Electric + HPWH',
+    description: 'Heat pump heating, heat pump water heaters, electric equipment',
+    heating: 'heat_pump',
+    dhw: 'heat_pump',
+    zoneEquipment: 'electric',
+  },
+]
+
+// System used when the current one can't serve the scenario's heating
+export const GAS_HEAT_FALLBACK_SYSTEM: HVACSystemType = 'rtu'
+export const HEAT_PUMP_FALLBACK_SYSTEM: HVACSystemType = 'vrf_erv'
+
+// Above this the system heats with resistance rather than a heat pump (1 MBH = 0.293 kVA)
+export const RESISTANCE_HEAT_KVA_PER_MBH = 0.293
+
+// Heat pump water heater COP when the project doesn't set one
+export const DEFAULT_HPWH_COP = 3.0
+
+// Electrified gas equipment - resistance unless a heat pump is practical
+export const ELECTRIC_EQUIPMENT_COP = 1.0
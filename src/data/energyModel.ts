@@ -0,0 +1,110 @@
+// ===========================================
+// ANNUAL ENERGY MODEL DATA
+// Temperature bins, system efficiencies and unit conversions for the
+// bin-hour energy estimate (ASHRAE Fundamentals Ch. 19 bin method)
+// ===========================================
+
+import type { HVACSystemType } from '../types'
+import type { ASHRAELocation } from './ashraeClimate'
+
+export const HOURS_PER_YEAR = 8760
+export const BIN_WIDTH_F = 5
+
+export const BTU_PER_KWH = 3412
+export const BTU_PER_THERM = 100000
+export const KW_PER_HP = 0.746
+
+// hfg at pool water temperature - heat carried off by each lb evaporated
+export const POOL_EVAPORATION_BTU_PER_LB = 1050
+
+// Share of the evaporation heat a pool dehumidifier returns to the pool water
+export const DEHUMIDIFIER_POOL_HEAT_RECOVERY = 0.5
+
+// Electric pool heaters are heat pumps at typical pool water temperatures
+export const POOL_HEAT_PUMP_COP = 5
+
+// Indoor setpoints the outdoor air is conditioned to
+export const INDOOR_COOLING_DB = 75
+export const INDOOR_HEATING_DB = 70
+export const INDOOR_HUMIDITY_GR = 65     // 75°F / 50% RH
+
+// 0.4% and 99.6% points are ±2.652σ from the annual mean of a normal distribution
+const DESIGN_POINT_Z = 2.652
+
+// ===========================================
+// SYSTEM EFFICIENCIES
+// Rated full-load values by system type. Air-source equipment is corrected
+// for outdoor temperature in each bin (rated at 95°F cooling / 47°F heating)
+// ===========================================
+export interface SystemEnergyEfficiency {
+  coolingEer: number    // BTU/hr per W, including condenser fans / plant auxiliaries
+  heatingCop: number    // Electric heat (1.0 = resistance)
+  airSource: boolean    // Efficiency varies with outdoor temperature
+}
+
+export const SYSTEM_ENERGY_EFFICIENCY: Record<HVACSystemType, SystemEnergyEfficiency> = {
+  chiller_ahu: { coolingEer: 10.5, heatingCop: 1.0, airSource: true },
+  heat_pump_ahu: { coolingEer: 10.5, heatingCop: 3.0, airSource: true },
+  vrf_erv: { coolingEer: 12.5, heatingCop: 3.4, airSource: true },
+  rtu: { coolingEer: 11.0, heatingCop: 1.0, airSource: true },
+  wshp: { coolingEer: 12.0, heatingCop: 3.8, airSource: false },   // Loop pumps / tower included
+  split_system: { coolingEer: 11.5, heatingCop: 3.0, airSource: true },
+  custom: { coolingEer: 10.0, heatingCop: 1.0, airSource: true },
+}
+
+export const RATED_COOLING_OUTDOOR_F = 95
+export const RATED_HEATING_OUTDOOR_F = 47
+export const EER_CHANGE_PER_F = 0.01       // +1% EER per °F below 95°F
+export const MAX_EER_MULTIPLIER = 1.3      // Head pressure control floor
+export const COP_CHANGE_PER_F = 0.0125     // -1.25% COP per °F below 47°F
+
+// ===========================================
+// TEMPERATURE BINS
+// Bin hours are not tabulated in the climate data, so each location's
+// annual dry-bulb distribution is taken as normal between its 99.6%
+// heating and 0.4% cooling design points
+// ===========================================
+export interface TemperatureBin {
+  tempF: number          // Bin midpoint
+  hours: number          // Annual hours in the bin
+  humidityGr: number     // Mean coincident humidity ratio (grains/lb)
+}
+
+// Abramowitz & Stegun 7.1.26
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1
+  const t = 1 / (1 + 0.3275911 * Math.abs(x))
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t
+    * Math.exp(-x * x)
+  return sign * y
+}
+
+function normalCdf(x: number, mean: number, sd: number): number {
+  return 0.5 * (1 + erf((x - mean) / (sd * Math.SQRT2)))
+}
+
+export function generateTemperatureBins(location: ASHRAELocation): TemperatureBin[] {
+  const mean = (location.cooling_04_db + location.heating_996_db) / 2
+  const sd = (location.cooling_04_db - location.heating_996_db) / (2 * DESIGN_POINT_Z)
+
+  const low = Math.floor((mean - 3.5 * sd) / BIN_WIDTH_F) * BIN_WIDTH_F
+  const high = Math.ceil((mean + 3.5 * sd) / BIN_WIDTH_F) * BIN_WIDTH_F
+
+  // Humidity ratio from the winter design point up to the summer design point
+  const humiditySpan = location.cooling_04_db - location.heating_99_db
+  const bins: TemperatureBin[] = []
+  for (let edge = low; edge < high; edge += BIN_WIDTH_F) {
+    const tempF = edge + BIN_WIDTH_F / 2
+    const fraction = normalCdf(edge + BIN_WIDTH_F, mean, sd) - normalCdf(edge, mean, sd)
+    const position = Math.min(1, Math.max(0, (tempF - location.heating_99_db) / humiditySpan))
+    bins.push({
+      tempF,
+      hours: fraction * HOURS_PER_YEAR,
+      humidityGr: location.winter_hr + (location.summer_hr - location.winter_hr) * position,
+    })
+  }
+
+  // Spread the truncated tails back over the bins so the year is 8760 hours
+  const total = bins.reduce((sum, b) => sum + b.hours, 0)
+  return bins.map(b => ({ ...b, hours: b.hours * HOURS_PER_YEAR / total }))
+}
@@ -0,0 +1,89 @@
+// ===========================================
+// ENVELOPE COOLING / HEATING LOAD FACTORS
+// CLTD/SCL/CLF method, ASHRAE Fundamentals 1997 Ch. 28
+// Values at the 4 PM building peak, 40°N latitude, July
+// ===========================================
+
+import type { EnvelopeOrientation, ZoneType } from '../types'
+
+export const ENVELOPE_ORIENTATIONS: EnvelopeOrientation[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW']
+
+// Medium-weight wall (Group D) CLTD at 4 PM (°F)
+export const WALL_CLTD: Record<EnvelopeOrientation, number> = {
+  N: 10,
+  NE: 16,
+  E: 24,
+  SE: 24,
+  S: 19,
+  SW: 17,
+  W: 15,
+  NW: 11,
+}
+
+// Insulated steel deck roof, no suspended ceiling, CLTD at 4 PM (°F)
+export const ROOF_CLTD = 60
+
+// Glass solar cooling load at 4 PM, medium zone (BTU/hr·SF at SC = 1.0)
+export const GLASS_SCL: Record<EnvelopeOrientation, number> = {
+  N: 31,
+  NE: 33,
+  E: 46,
+  SE: 45,
+  S: 50,
+  SW: 148,
+  W: 176,
+  NW: 118,
+}
+
+// Shading coefficient from SHGC (SC = SHGC / 0.87)
+export const SHGC_TO_SC = 1 / 0.87
+
+// Tabulated CLTD basis: 78°F indoor, 85°F mean outdoor
+// CLTDcorr = CLTD + (78 - Ti) + (Tm - 85), Tm = To - DR / 2
+export const CLTD_BASE_INDOOR_F = 78
+export const CLTD_BASE_MEAN_OUTDOOR_F = 85
+
+// Climate data carries no daily range - a typical inland value
+export const DEFAULT_DAILY_RANGE_F = 20
+
+export const DEFAULT_INDOOR_COOLING_DB = 75
+export const DEFAULT_INDOOR_HEATING_DB = 70
+
+// Heat gain from people (BTU/hr per person), Table 1 Ch. 18
+export const PEOPLE_GAINS = {
+  moderate: { sensible: 250, latent: 200 },   // Office / light work / walking
+  athletic: { sensible: 710, latent: 1090 },  // Athletics / heavy work
+}
+
+export const ATHLETIC_ZONE_TYPES: ZoneType[] = [
+  'open_gym',
+  'group_fitness',
+  'mma_studio',
+  'basketball_court',
+  'padel_court',
+  'yoga_studio',
+  'pilates_studio',
+]
+
+// ASHRAE 62.1 space types that get athletic gains (HVAC module spaces)
+export const ATHLETIC_SPACE_TYPES = [
+  'health_club_aerobics',
+  'health_club_weights',
+  'gym_arena_play',
+  'yoga_studio',
+  'pilates_studio',
+]
+
+export const WATTS_TO_BTUH = 3.412
+export const AIR_SENSIBLE_FACTOR = 1.08  // BTU/(hr·CFM·°F)
+
+// Starting values for a zone switched to envelope inputs (90.1-2019 CZ 4A prescriptive)
+export const DEFAULT_ENVELOPE_U = {
+  wall: 0.064,
+  roof: 0.032,
+  glazing: 0.38,
+  shgc: 0.38,
+}
+
+export const DEFAULT_EQUIPMENT_W_SF = 1.0
+export const DEFAULT_INFILTRATION_ACH = 0.25
@@ -0,0 +1,120 @@
+// ===========================================
+// MECHANICAL EQUIPMENT CATALOG
+// Nominal unit sizes for auto-selection and the equipment schedule
+// Representative published data at 460V/3Ø - packaged DX rooftop units
+// (gas heat), chilled / hot water AHUs (MCA is the supply fan only),
+// DX DOAS with energy recovery, and pool dehumidifiers with reheat
+// ===========================================
+
+import type { EquipmentCatalogItem, EquipmentCategory, EquipmentSelectionBasis } from '../types/equipment'
+import type { HVACSystemType } from '../types'
+
+export const EQUIPMENT_CATEGORIES: Record<EquipmentCategory, { name: string; tagPrefix: string; basis: EquipmentSelectionBasis }> = {
+  rtu: { name: 'Rooftop Units', tagPrefix: 'RTU', basis: 'tons' },
+  ahu: { name: 'Air Handling Units', tagPrefix: 'AHU', basis: 'tons' },
+  doas: { name: 'Dedicated Outdoor Air Systems', tagPrefix: 'DOAS', basis: 'cfm' },
+  dehumidifier: { name: 'Dehumidifiers', tagPrefix: 'DH', basis: 'lb_hr' },
+}
+
+export const SELECTION_BASIS_UNITS: Record<EquipmentSelectionBasis, string> = {
+  tons: 'Tons',
+  cfm: 'CFM',
+  lb_hr: 'lb/hr',
+}
+
+// Unit carrying the space cooling for each Concept MEP system type
+// (null = VRF / WSHP / split terminal units stay on kVA per ton)
+export const SYSTEM_PRIMARY_EQUIPMENT: Record<HVACSystemType, EquipmentCategory | null> = {
+  chiller_ahu: 'ahu',
+  heat_pump_ahu: 'ahu',
+  vrf_erv: null,
+  rtu: 'rtu',
+  wshp: null,
+  split_system: null,
+  custom: null,
+}
+
+// Catalog voltage when the project runs at 208V - MCA scales with 460 / 208
+export const CATALOG_VOLTAGE = 460
+
+type CatalogRow = [model: string, tons: number, heatingMbh: number, cfm: number, lbHr: number, mca: number, mocp: number, weightLb: number]
+
+function catalogRows(category: EquipmentCategory, rows: CatalogRow[]): EquipmentCatalogItem[] {
+  return rows.map(([model, nominalTons, heatingMbh, cfm, moistureLbHr, mca, mocp, weightLb]) => ({
+    id: model.toLowerCase().replace(/[^a-z0-9.]+/g, '_'),
+    category,
+    model,
+    nominalTons,
+    heatingMbh,
+    cfm,
+    moistureLbHr,
+    voltage: CATALOG_VOLTAGE,
+    mca,
+    mocp,
+    weightLb,
+  }))
+}
+
+export const BUILT_IN_EQUIPMENT: EquipmentCatalogItem[] = [
+  ...catalogRows('rtu', [
+    ['3 Ton RTU', 3, 72, 1200, 0, 9, 15, 550],
+    ['4 Ton RTU', 4, 72, 1600, 0, 11, 15, 600],
+    ['5 Ton RTU', 5, 115, 2000, 0, 13, 20, 650],
+    ['6 Ton RTU', 6, 115, 2400, 0, 15, 20, 800],
+    ['7.5 Ton RTU', 7.5, 180, 3000, 0, 18, 25, 1000],
+    ['8.5 Ton RTU', 8.5, 180, 3400, 0, 21, 30, 1100],
+    ['10 Ton RTU', 10, 224, 4000, 0, 24, 30, 1300],
+    ['12.5 Ton RTU', 12.5, 250, 5000, 0, 29, 40, 1500],
+    ['15 Ton RTU', 15, 250, 6000, 0, 36, 45, 1800],
+    ['20 Ton RTU', 20, 360, 8000, 0, 46, 60, 2400],
+    ['25 Ton RTU', 25, 400, 10000, 0, 56, 70, 2900],
+    ['30 Ton RTU', 30, 400, 12000, 0, 66, 80, 3400],
+    ['40 Ton RTU', 40, 540, 16000, 0, 86, 110, 4500],
+    ['50 Ton RTU', 50, 675, 20000, 0, 108, 125, 5600],
+  ]),
+  ...catalogRows('ahu', [
+    ['AHU 2,000 CFM', 5, 108, 2000, 0, 6, 15, 900],
+    ['AHU 4,000 CFM', 10, 216, 4000, 0, 9.5, 15, 1400],
+    ['AHU 6,000 CFM', 15, 324, 6000, 0, 14, 25, 1900],
+    ['AHU 8,000 CFM', 20, 432, 8000, 0, 17.5, 30, 2400],
+    ['AHU 10,000 CFM', 25, 540, 10000, 0, 26, 45, 3000],
+    ['AHU 15,000 CFM', 37.5, 810, 15000, 0, 34, 60, 4200],
+    ['AHU 20,000 CFM', 50, 1080, 20000, 0, 43, 70, 5400],
+    ['AHU 30,000 CFM', 75, 1620, 30000, 0, 65, 110, 7800],
+    ['AHU 40,000 CFM', 100, 2160, 40000, 0, 81, 125, 10000],
+    ['AHU 50,000 CFM', 125, 2700, 50000, 0, 96, 150, 12500],
+  ]),
+  ...catalogRows('doas', [
+    ['DOAS 500 CFM', 3, 30, 500, 0, 12, 15, 900],
+    ['DOAS 1,000 CFM', 5, 60, 1000, 0, 19, 25, 1400],
+    ['DOAS 1,500 CFM', 7.5, 90, 1500, 0, 27, 35, 1800],
+    ['DOAS 2,000 CFM', 10, 120, 2000, 0, 33, 45, 2300],
+    ['DOAS 3,000 CFM', 15, 180, 3000, 0, 46, 60, 3200],
+    ['DOAS 4,000 CFM', 20, 240, 4000, 0, 60, 80, 4000],
+    ['DOAS 5,000 CFM', 25, 300, 5000, 0, 72, 90, 4800],
+    ['DOAS 6,000 CFM', 30, 360, 6000, 0, 86, 110, 5600],
+    ['DOAS 8,000 CFM', 40, 480, 8000, 0, 112, 150, 7200],
+    ['DOAS 10,000 CFM', 50, 600, 10000, 0, 138, 175, 8800],
+  ]),
+  ...catalogRows('dehumidifier', [
+    ['Dehumidifier 20 lb/hr', 4, 0, 2000, 20, 22, 30, 1200],
+    ['Dehumidifier 35 lb/hr', 7, 0, 3500, 35, 34, 45, 1800],
+    ['Dehumidifier 50 lb/hr', 10, 0, 5000, 50, 46, 60, 2600],
+    ['Dehumidifier 75 lb/hr', 15, 0, 7500, 75, 66, 80, 3500],
+    ['Dehumidifier 100 lb/hr', 20, 0, 10000, 100, 86, 110, 4600],
+    ['Dehumidifier 150 lb/hr', 30, 0, 15000, 150, 125, 150, 6500],
+    ['Dehumidifier 200 lb/hr', 40, 0, 20000, 200, 160, 200, 8500],
+    ['Dehumidifier 300 lb/hr', 60, 0, 30000, 300, 235, 300, 12000],
+  ]),
+]
+
+// Built-in catalog with user edits applied (same id replaces, new id adds)
+export function mergeEquipmentCatalog(custom: Record<string, EquipmentCatalogItem>): EquipmentCatalogItem[] {
+  const merged = BUILT_IN_EQUIPMENT.map(item => custom[item.id] ?? item)
+  const added = Object.values(custom).filter(item => !BUILT_IN_EQUIPMENT.some(b => b.id === item.id))
+  return [...merged, ...added]
+}
+
+export function isBuiltInEquipment(id: string): boolean {
+  return BUILT_IN_EQUIPMENT.some(item => item.id === id)
+}
@@ -0,0 +1,24 @@
+// ===========================================
+// ELECTRIC VEHICLE SUPPLY EQUIPMENT (EVSE)
+// Typical charger ratings by level
+// Reference: NEC 625 (NFPA 70-2020), SAE J1772, NYC Local Law 55/2022
+// ===========================================
+
+import type { EVChargerLevel } from '../types/electrical'
+
+export const EV_CHARGER_LEVELS: Record<EVChargerLevel, {
+  name: string
+  voltage: number          // Supply voltage
+  phase: 1 | 3
+  defaultKWPerPort: number
+}> = {
+  level1: { name: 'Level 1 (120V, 16A)', voltage: 120, phase: 1, defaultKWPerPort: 1.9 },
+  level2: { name: 'Level 2 (208V, 40A)', voltage: 208, phase: 1, defaultKWPerPort: 8.3 },
+  dcfc: { name: 'DC Fast Charger (480V)', voltage: 480, phase: 3, defaultKWPerPort: 50 },
+}
+
+// 625.41: EVSE is a continuous load - branch circuits and feeders at 125%
+export const EVSE_CONTINUOUS_FACTOR = 1.25
+
+// Minimum power an EMS should leave each managed Level 2 port (~16A at 208V)
+export const EMS_MIN_KW_PER_L2_PORT = 3.3
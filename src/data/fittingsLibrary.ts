@@ -556,6 +556,14 @@ export const HYDRONIC_DEVICES: FittingData[] = [
     requiresDpInput: true,
     notes: 'Enter dP for fill/spray (typically 5-15 ft)',
   },
+  {
+    id: 'pool_filter',
+    displayName: 'Pool Filter',
+    category: 'device',
+    method: 'manual_dp',
+    requiresDpInput: true,
+    notes: 'Enter dirty-filter dP (typically 20-35 ft)',
+  },
   
   // Pumps & Headers
   {
@@ -698,6 +706,22 @@ export function calculateCvPressureDrop(
   return dpPsi * 2.31
 }
 
+/**
+ * Cv that drops a given head at a flow - inverse of calculateCvPressureDrop
+ * @param flowGpm - Flow rate in GPM
+ * @param dpFt - Allowed pressure drop in feet of water column
+ * @param specificGravity - Fluid specific gravity (1.0 for water)
+ * @returns Required Cv (Infinity when no pressure drop is allowed)
+ */
+export function calculateRequiredCv(
+  flowGpm: number,
+  dpFt: number,
+  specificGravity: number = 1.0
+): number {
+  if (dpFt <= 0) return Infinity
+  return flowGpm / Math.sqrt(dpFt / 2.31 / specificGravity)
+}
+
 // Display groupings for UI
 export const FITTING_CATEGORIES = [
   { id: 'fitting', displayName: 'Pipe Fittings', items: PIPE_FITTINGS },
@@ -337,6 +337,21 @@ export function getFluidSpecificHeat(
   return getFluidProperties(fluidType, glycolConcentration, tempF).specificHeatBtuLbF
 }
 
+/**
+ * Net volumetric expansion heating the fluid from lowF to highF
+ * v_high / v_low − 1 = ρ_low / ρ_high − 1
+ */
+export function getFluidExpansionFactor(
+  fluidType: FluidType,
+  glycolConcentration: number,
+  lowF: number,
+  highF: number
+): number {
+  const densityLow = getFluidDensity(fluidType, glycolConcentration, lowF)
+  const densityHigh = getFluidDensity(fluidType, glycolConcentration, highF)
+  return densityLow / densityHigh - 1
+}
+
 // Display names
 export function getFluidDisplayName(fluidType: FluidType): string {
   switch (fluidType) {
@@ -0,0 +1,90 @@
+// ===========================================
+// GENERATOR SIZING DATA
+// Emergency / legally required / optional standby systems
+// Reference: NEC 700 / 701 / 702, NFPA 110, NEMA MG-1 Table 10-1 (code letters),
+// manufacturer sizing guides (Cummins T-030, Caterpillar LEBE0070)
+// ===========================================
+
+import type { GeneratorLoadClass, GeneratorFuelType, MotorStartingMethod } from '../types/electrical'
+
+// NEC article and NFPA 110 transfer time for each class of load
+export const GENERATOR_LOAD_CLASSES: Record<GeneratorLoadClass, { name: string; article: string; transferSeconds: number }> = {
+  emergency: { name: 'Emergency (life safety)', article: '700', transferSeconds: 10 },
+  legally_required: { name: 'Legally required standby', article: '701', transferSeconds: 60 },
+  optional: { name: 'Optional standby', article: '702', transferSeconds: 0 },
+}
+
+// Emergency system loads carried by every zone (per SF)
+export const EGRESS_LIGHTING_W_SF = 0.15     // 1 fc average egress path with LED (NFPA 101 7.9)
+export const FIRE_ALARM_W_SF = 0.03          // FACP, NAC panels, notification appliances
+export const FIRE_ALARM_MIN_KW = 1.5
+
+// Line items that must be on legally required standby (NYC BC 2702 / 3003, IPC 712)
+export const LEGALLY_REQUIRED_PATTERN = /sump|ejector|sewage|smoke|stair pressur|fire pump|elevator/i
+
+// Locked-rotor kVA per HP (NEMA Code G midpoint) and starting method multipliers
+export const LOCKED_ROTOR_KVA_PER_HP = 6.0
+export const MOTOR_STARTING_FACTORS: Record<MotorStartingMethod, { name: string; factor: number }> = {
+  across_the_line: { name: 'Across-the-line', factor: 1.0 },
+  soft_starter: { name: 'Soft starter', factor: 0.5 },
+  vfd: { name: 'VFD', factor: 0.2 },
+}
+
+// Motor running kVA per HP (~90% efficiency, 0.85 PF)
+export const MOTOR_RUNNING_KVA_PER_HP = 0.746 / (0.9 * 0.85)
+
+// Alternator subtransient reactance (per unit) for the transient voltage dip estimate
+export const GENERATOR_SUBTRANSIENT_REACTANCE = 0.25
+
+// Standby rating basis
+export const GENERATOR_RATED_PF = 0.8
+export const GENERATOR_MAX_CONTINUOUS_LOADING = 0.8   // Do not run above 80% of standby rating
+
+// Standard packaged genset standby ratings (kW)
+export const STANDARD_GENERATOR_KW = [
+  20, 30, 40, 50, 60, 80, 100, 125, 150, 175, 200, 250, 300, 350, 400, 450, 500,
+  600, 750, 800, 1000, 1250, 1500, 1750, 2000, 2500,
+]
+
+export function getStandardGeneratorKW(kw: number): number {
+  return STANDARD_GENERATOR_KW.find(rating => rating >= kw)
+    ?? STANDARD_GENERATOR_KW[STANDARD_GENERATOR_KW.length - 1]
+}
+
+// Fuel consumption per rated kW vs load fraction (typical published curves)
+// Diesel in gal/hr per kW, natural gas in BTU/hr per kW
+export const GENERATOR_FUEL_CURVES: Record<GeneratorFuelType, { load: number; perKW: number }[]> = {
+  diesel: [
+    { load: 0.25, perKW: 0.028 },
+    { load: 0.50, perKW: 0.040 },
+    { load: 0.75, perKW: 0.055 },
+    { load: 1.00, perKW: 0.072 },
+  ],
+  natural_gas: [
+    { load: 0.25, perKW: 5200 },
+    { load: 0.50, perKW: 7600 },
+    { load: 0.75, perKW: 10100 },
+    { load: 1.00, perKW: 12600 },
+  ],
+}
+
+export function getGeneratorFuelPerKW(fuel: GeneratorFuelType, loadFraction: number): number {
+  const curve = GENERATOR_FUEL_CURVES[fuel]
+  const load = Math.min(1, Math.max(curve[0].load, loadFraction))
+  const upper = curve.findIndex(p => p.load >= load)
+  if (upper <= 0) return curve[0].perKW
+  const lo = curve[upper - 1]
+  const hi = curve[upper]
+  return lo.perKW + (hi.perKW - lo.perKW) * (load - lo.load) / (hi.load - lo.load)
+}
+
+// Natural gas heating value for CFH conversion
+export const NATURAL_GAS_BTU_PER_CF = 1000
+
+// Sub-base / day tank sizes (gallons)
+export const STANDARD_FUEL_TANK_GAL = [50, 100, 150, 200, 250, 300, 400, 500, 660, 800, 1000, 1500, 2000, 2500, 3000, 4000]
+
+export function getStandardFuelTankGal(gal: number): number {
+  return STANDARD_FUEL_TANK_GAL.find(size => size >= gal)
+    ?? STANDARD_FUEL_TANK_GAL[STANDARD_FUEL_TANK_GAL.length - 1]
+}
@@ -0,0 +1,151 @@
+// ===========================================
+// LIGHTING POWER DENSITY ALLOWANCES
+// Space-by-space method, ASHRAE 90.1 Table 9.6.1 (W/SF)
+// Reference: ANSI/ASHRAE/IES 90.1-2019 and 90.1-2022
+// ===========================================
+
+import type { ZoneType } from '../types'
+import type { LPDCodeEdition } from '../types/electrical'
+
+export const LPD_CODE_EDITIONS: Record<LPDCodeEdition, string> = {
+  '90.1-2019': 'ASHRAE 90.1-2019',
+  '90.1-2022': 'ASHRAE 90.1-2022',
+}
+
+// null = exempt from the interior LPD limits (9.1.1 / 9.2.2.3 exceptions)
+export interface LPDSpaceType {
+  name: string
+  allowance: Record<LPDCodeEdition, number | null>
+}
+
+export const LPD_SPACE_TYPES: Record<string, LPDSpaceType> = {
+  audience_seating: { name: 'Audience seating area - auditorium', allowance: { '90.1-2019': 0.63, '90.1-2022': 0.61 } },
+  classroom: { name: 'Classroom / lecture / training', allowance: { '90.1-2019': 0.71, '90.1-2022': 0.71 } },
+  conference: { name: 'Conference / meeting / multipurpose', allowance: { '90.1-2019': 0.97, '90.1-2022': 0.93 } },
+  corridor: { name: 'Corridor', allowance: { '90.1-2019': 0.41, '90.1-2022': 0.41 } },
+  dining_bar_lounge: { name: 'Dining area - bar / lounge / leisure', allowance: { '90.1-2019': 0.86, '90.1-2022': 0.86 } },
+  dining_cafeteria: { name: 'Dining area - cafeteria / fast food', allowance: { '90.1-2019': 0.40, '90.1-2022': 0.40 } },
+  electrical_mechanical: { name: 'Electrical / mechanical room', allowance: { '90.1-2019': 0.43, '90.1-2022': 0.43 } },
+  food_preparation: { name: 'Food preparation area', allowance: { '90.1-2019': 1.09, '90.1-2022': 1.09 } },
+  laundry: { name: 'Laundry / washing area', allowance: { '90.1-2019': 0.53, '90.1-2022': 0.53 } },
+  lobby: { name: 'Lobby', allowance: { '90.1-2019': 0.84, '90.1-2022': 0.82 } },
+  locker_room: { name: 'Locker room', allowance: { '90.1-2019': 0.48, '90.1-2022': 0.48 } },
+  lounge: { name: 'Lounge / breakroom', allowance: { '90.1-2019': 0.59, '90.1-2022': 0.56 } },
+  office_enclosed: { name: 'Office - enclosed', allowance: { '90.1-2019': 0.74, '90.1-2022': 0.69 } },
+  office_open: { name: 'Office - open plan', allowance: { '90.1-2019': 0.61, '90.1-2022': 0.59 } },
+  restroom: { name: 'Restroom', allowance: { '90.1-2019': 0.63, '90.1-2022': 0.61 } },
+  sales: { name: 'Sales area', allowance: { '90.1-2019': 1.05, '90.1-2022': 1.01 } },
+  stairwell: { name: 'Stairwell', allowance: { '90.1-2019': 0.49, '90.1-2022': 0.49 } },
+  storage: { name: 'Storage room (50 - 1000 SF)', allowance: { '90.1-2019': 0.38, '90.1-2022': 0.38 } },
+  exam_treatment: { name: 'Health care - exam / treatment room', allowance: { '90.1-2019': 1.40, '90.1-2022': 1.36 } },
+  fitness_exercise: { name: 'Gymnasium / fitness center - exercise area', allowance: { '90.1-2019': 0.72, '90.1-2022': 0.70 } },
+  fitness_playing: { name: 'Gymnasium / fitness center - playing area', allowance: { '90.1-2019': 0.85, '90.1-2022': 0.83 } },
+  sports_arena: { name: 'Sports arena - playing area (Class IV)', allowance: { '90.1-2019': 0.73, '90.1-2022': 0.73 } },
+  hotel_guest_room: { name: 'Guest room', allowance: { '90.1-2019': 0.41, '90.1-2022': 0.41 } },
+  dwelling_unit: { name: 'Dwelling unit (exempt)', allowance: { '90.1-2019': null, '90.1-2022': null } },
+  exterior: { name: 'Exterior / unconditioned (exempt from interior LPD)', allowance: { '90.1-2019': null, '90.1-2022': null } },
+}
+
+// Zone type → 90.1 space type (fallback when no ASHRAE 62.1 space type is linked)
+export const ZONE_LPD_SPACE_TYPE: Record<ZoneType, string> = {
+  reception: 'lobby',
+  mechanical_room: 'electrical_mechanical',
+  open_gym: 'fitness_exercise',
+  group_fitness: 'fitness_exercise',
+  locker_room: 'locker_room',
+  restroom: 'restroom',
+  banya_gas: 'locker_room',
+  sauna_gas: 'locker_room',
+  sauna_electric: 'locker_room',
+  steam_room: 'locker_room',
+  cold_plunge: 'locker_room',
+  snow_room: 'locker_room',
+  pool_indoor: 'sports_arena',
+  pool_outdoor: 'exterior',
+  hot_tub: 'sports_arena',
+  laundry_commercial: 'laundry',
+  laundry_residential: 'dwelling_unit',
+  kitchen_commercial: 'food_preparation',
+  kitchen_light_fb: 'food_preparation',
+  treatment_room: 'exam_treatment',
+  massage_room: 'office_enclosed',
+  couples_treatment: 'office_enclosed',
+  private_suite: 'hotel_guest_room',
+  retail: 'sales',
+  office: 'office_enclosed',
+  storage: 'storage',
+  break_room: 'lounge',
+  cowork: 'office_open',
+  conference_room: 'conference',
+  child_care: 'classroom',
+  event_space: 'conference',
+  screening_room: 'audience_seating',
+  contrast_suite: 'locker_room',
+  mma_studio: 'fitness_exercise',
+  basketball_court: 'fitness_playing',
+  padel_court: 'fitness_playing',
+  yoga_studio: 'fitness_exercise',
+  pilates_studio: 'fitness_exercise',
+  stretching_area: 'fitness_exercise',
+  cafe_light_fb: 'dining_cafeteria',
+  terrace: 'exterior',
+  recovery_longevity: 'exam_treatment',
+  elevator: 'corridor',
+  res_kitchen_gas: 'dwelling_unit',
+  res_kitchen_electric: 'dwelling_unit',
+  res_bathroom_master: 'dwelling_unit',
+  res_bathroom_standard: 'dwelling_unit',
+  res_powder_room: 'dwelling_unit',
+  res_bedroom_master: 'dwelling_unit',
+  res_bedroom_standard: 'dwelling_unit',
+  res_bedroom_guest: 'dwelling_unit',
+  res_living_room: 'dwelling_unit',
+  res_dining_room: 'dwelling_unit',
+  res_family_room: 'dwelling_unit',
+  res_office: 'dwelling_unit',
+  res_study: 'dwelling_unit',
+  res_media_room: 'dwelling_unit',
+  res_wine_cellar: 'dwelling_unit',
+  res_pantry: 'dwelling_unit',
+  res_mudroom: 'dwelling_unit',
+  res_corridor: 'dwelling_unit',
+  res_closet_walkin: 'dwelling_unit',
+  custom: 'fitness_exercise',
+}
+
+// ASHRAE 62.1 space type (zone.ventilationSpaceType) → 90.1 space type
+// Takes precedence over the zone type when the engineer has linked a space type
+export const ASHRAE62_LPD_SPACE_TYPE: Record<string, string> = {
+  auditorium: 'audience_seating',
+  break_room: 'lounge',
+  cafe_fast_food: 'dining_cafeteria',
+  conference_meeting: 'conference',
+  corridor: 'corridor',
+  daycare_5plus: 'classroom',
+  electrical_room: 'electrical_mechanical',
+  gym_arena_play: 'fitness_playing',
+  health_club_aerobics: 'fitness_exercise',
+  health_club_weights: 'fitness_exercise',
+  hot_tub_area: 'sports_arena',
+  hotel_laundry: 'laundry',
+  hotel_multipurpose: 'conference',
+  kitchen_cooking: 'food_preparation',
+  office: 'office_enclosed',
+  pilates_studio: 'fitness_exercise',
+  reception: 'lobby',
+  residential_bathroom: 'dwelling_unit',
+  residential_kitchen: 'dwelling_unit',
+  residential_laundry: 'dwelling_unit',
+  residential_living: 'dwelling_unit',
+  retail_sales: 'sales',
+  sauna: 'locker_room',
+  spa_locker_room: 'locker_room',
+  spa_massage: 'office_enclosed',
+  spa_relaxation: 'lounge',
+  spa_treatment: 'office_enclosed',
+  steam_room: 'locker_room',
+  storage_conditioned: 'storage',
+  swimming_pool: 'sports_arena',
+  toilet_public: 'restroom',
+  yoga_studio: 'fitness_exercise',
+}
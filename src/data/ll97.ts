@@ -0,0 +1,114 @@
+// ===========================================
+// NYC LOCAL LAW 97 DATA
+// Carbon coefficients and emissions limits by occupancy group
+// Reference: NYC Admin. Code §28-320, 1 RCNY §103-14
+// ===========================================
+
+import type { ZoneType } from '../types'
+import type { LL97OccupancyGroup, LL97Period } from '../types/emissions'
+
+// Civil penalty per tCO2e over the limit (§28-320.6)
+export const LL97_PENALTY_PER_TCO2E = 268
+
+// Covered buildings exceed 25,000 gross SF (§28-320.1)
+export const LL97_COVERED_MIN_SF = 25000
+
+export const KBTU_PER_THERM = 100
+
+export const LL97_PERIODS: { id: LL97Period; label: string }[] = [
+  { id: '2024_2029', label: '2024–2029' },
+  { id: '2030_2034', label: '2030–2034' },
+  { id: '2035_plus', label: '2035+' },
+]
+
+// tCO2e per kWh grid electricity / per kBtu utility natural gas
+export const LL97_CARBON_COEFFICIENTS: Record<LL97Period, { electricityPerKwh: number; gasPerKbtu: number }> = {
+  '2024_2029': { electricityPerKwh: 0.000288962, gasPerKbtu: 0.00005311 },
+  '2030_2034': { electricityPerKwh: 0.000145, gasPerKbtu: 0.00005311 },
+  '2035_plus': { electricityPerKwh: 0.000145, gasPerKbtu: 0.00005311 },
+}
+
+export const LL97_OCCUPANCY_NAMES: Record<LL97OccupancyGroup, string> = {
+  A: 'A - Assembly',
+  B: 'B - Business',
+  B_healthcare: 'B - Healthcare',
+  E: 'E - Educational',
+  F: 'F - Factory',
+  H: 'H - High Hazard',
+  'I-1': 'I-1 - Supervised Residential',
+  'I-2': 'I-2 - Hospital / Nursing',
+  'I-3': 'I-3 - Detention',
+  'I-4': 'I-4 - Day Care',
+  M: 'M - Mercantile',
+  'R-1': 'R-1 - Hotel / Transient',
+  'R-2': 'R-2 - Multifamily',
+  S: 'S - Storage',
+  U: 'U - Utility',
+}
+
+// 2035+ limits are still to be set by rule - projected at 40% of the 2030–2034 limit
+const LL97_2035_PROJECTION = 0.4
+
+// tCO2e per gross SF per year
+const LIMITS_2024: Record<LL97OccupancyGroup, number> = {
+  A: 0.01074, B: 0.00846, B_healthcare: 0.02381, E: 0.00758, F: 0.00574, H: 0.02381,
+  'I-1': 0.01138, 'I-2': 0.02381, 'I-3': 0.02381, 'I-4': 0.00758,
+  M: 0.01181, 'R-1': 0.00987, 'R-2': 0.00675, S: 0.00426, U: 0.00426,
+}
+
+const LIMITS_2030: Record<LL97OccupancyGroup, number> = {
+  A: 0.00420, B: 0.00453, B_healthcare: 0.01193, E: 0.00344, F: 0.00167, H: 0.01193,
+  'I-1': 0.00598, 'I-2': 0.01193, 'I-3': 0.01193, 'I-4': 0.00344,
+  M: 0.00403, 'R-1': 0.00526, 'R-2': 0.00407, S: 0.00110, U: 0.00110,
+}
+
+export const LL97_EMISSIONS_LIMITS: Record<LL97Period, Record<LL97OccupancyGroup, number>> = {
+  '2024_2029': LIMITS_2024,
+  '2030_2034': LIMITS_2030,
+  '2035_plus': Object.fromEntries(
+    Object.entries(LIMITS_2030).map(([group, limit]) => [group, limit * LL97_2035_PROJECTION])
+  ) as Record<LL97OccupancyGroup, number>,
+}
+
+// Default occupancy by zone type - accessory spaces (mechanical, restrooms,
+// storage, laundry) are left out and follow the project's primary occupancy
+export const LL97_ZONE_OCCUPANCY: Partial<Record<ZoneType, LL97OccupancyGroup>> = {
+  reception: 'A',
+  open_gym: 'A',
+  group_fitness: 'A',
+  locker_room: 'A',
+  banya_gas: 'A',
+  sauna_gas: 'A',
+  sauna_electric: 'A',
+  steam_room: 'A',
+  cold_plunge: 'A',
+  snow_room: 'A',
+  pool_indoor: 'A',
+  hot_tub: 'A',
+  kitchen_commercial: 'A',
+  kitchen_light_fb: 'A',
+  cafe_light_fb: 'A',
+  event_space: 'A',
+  screening_room: 'A',
+  contrast_suite: 'A',
+  mma_studio: 'A',
+  basketball_court: 'A',
+  padel_court: 'A',
+  yoga_studio: 'A',
+  pilates_studio: 'A',
+  stretching_area: 'A',
+  recovery_longevity: 'A',
+  treatment_room: 'B',
+  massage_room: 'B',
+  couples_treatment: 'B',
+  office: 'B',
+  cowork: 'B',
+  conference_room: 'B',
+  break_room: 'B',
+  child_care: 'E',
+  retail: 'M',
+  private_suite: 'R-1',
+}
+
+// Outdoor areas are not gross floor area
+export const LL97_EXCLUDED_ZONE_TYPES: ZoneType[] = ['pool_outdoor', 'terrace']
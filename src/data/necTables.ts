@@ -0,0 +1,273 @@
+// ===========================================
+// NEC (NFPA 70) REFERENCE TABLES
+// Service and feeder load calculation per Article 220
+// Reference: NFPA 70-2020 (NEC 2020)
+// ===========================================
+
+import type { ZoneType } from '../types'
+import type { NECOccupancyType } from '../types/electrical'
+
+// ===========================================
+// TABLE 220.12 - GENERAL LIGHTING UNIT LOADS (VA/SF)
+// The 125% continuous-load multiplier is already included in these values
+// Dwelling units use 3 VA/SF per 220.14(J)
+// ===========================================
+export const NEC_TABLE_220_12: Record<NECOccupancyType, { name: string; vaPerSF: number }> = {
+  exercise_center: { name: 'Exercise center', vaPerSF: 1.4 },
+  gymnasium: { name: 'Gymnasium', vaPerSF: 1.7 },
+  health_care_clinic: { name: 'Health care clinic', vaPerSF: 1.6 },
+  hotel: { name: 'Hotels and motels', vaPerSF: 1.7 },
+  office: { name: 'Office', vaPerSF: 1.3 },
+  restaurant: { name: 'Restaurant', vaPerSF: 1.5 },
+  retail: { name: 'Retail', vaPerSF: 1.9 },
+  school: { name: 'School/university', vaPerSF: 1.5 },
+  motion_picture_theater: { name: 'Motion picture theater', vaPerSF: 1.6 },
+  performing_arts_theater: { name: 'Performing arts theater', vaPerSF: 1.5 },
+  convention_center: { name: 'Convention center', vaPerSF: 1.4 },
+  warehouse: { name: 'Warehouse', vaPerSF: 1.2 },
+  parking_garage: { name: 'Parking garage', vaPerSF: 0.3 },
+  dwelling_unit: { name: 'Dwelling unit (220.14(J))', vaPerSF: 3.0 },
+  none: { name: 'No unit load (outdoor / shaft)', vaPerSF: 0 },
+}
+
+// Zone type → NEC occupancy for Table 220.12
+export const ZONE_NEC_OCCUPANCY: Record<ZoneType, NECOccupancyType> = {
+  reception: 'exercise_center',
+  mechanical_room: 'warehouse',
+  open_gym: 'exercise_center',
+  group_fitness: 'exercise_center',
+  locker_room: 'exercise_center',
+  restroom: 'exercise_center',
+  banya_gas: 'exercise_center',
+  sauna_gas: 'exercise_center',
+  sauna_electric: 'exercise_center',
+  steam_room: 'exercise_center',
+  cold_plunge: 'exercise_center',
+  snow_room: 'exercise_center',
+  pool_indoor: 'exercise_center',
+  pool_outdoor: 'none',
+  hot_tub: 'exercise_center',
+  laundry_commercial: 'warehouse',
+  laundry_residential: 'dwelling_unit',
+  kitchen_commercial: 'restaurant',
+  kitchen_light_fb: 'restaurant',
+  treatment_room: 'health_care_clinic',
+  massage_room: 'health_care_clinic',
+  couples_treatment: 'health_care_clinic',
+  private_suite: 'hotel',
+  retail: 'retail',
+  office: 'office',
+  storage: 'warehouse',
+  break_room: 'office',
+  cowork: 'office',
+  conference_room: 'office',
+  child_care: 'school',
+  event_space: 'convention_center',
+  screening_room: 'motion_picture_theater',
+  contrast_suite: 'exercise_center',
+  mma_studio: 'exercise_center',
+  basketball_court: 'gymnasium',
+  padel_court: 'gymnasium',
+  yoga_studio: 'exercise_center',
+  pilates_studio: 'exercise_center',
+  stretching_area: 'exercise_center',
+  cafe_light_fb: 'restaurant',
+  terrace: 'none',
+  recovery_longevity: 'health_care_clinic',
+  elevator: 'none',
+  res_kitchen_gas: 'dwelling_unit',
+  res_kitchen_electric: 'dwelling_unit',
+  res_bathroom_master: 'dwelling_unit',
+  res_bathroom_standard: 'dwelling_unit',
+  res_powder_room: 'dwelling_unit',
+  res_bedroom_master: 'dwelling_unit',
+  res_bedroom_standard: 'dwelling_unit',
+  res_bedroom_guest: 'dwelling_unit',
+  res_living_room: 'dwelling_unit',
+  res_dining_room: 'dwelling_unit',
+  res_family_room: 'dwelling_unit',
+  res_office: 'dwelling_unit',
+  res_study: 'dwelling_unit',
+  res_media_room: 'dwelling_unit',
+  res_wine_cellar: 'dwelling_unit',
+  res_pantry: 'dwelling_unit',
+  res_mudroom: 'dwelling_unit',
+  res_corridor: 'dwelling_unit',
+  res_closet_walkin: 'dwelling_unit',
+  custom: 'exercise_center',
+}
+
+export function getNECOccupancy(type: ZoneType): NECOccupancyType {
+  return ZONE_NEC_OCCUPANCY[type] || 'exercise_center'
+}
+
+// ===========================================
+// TABLE 220.42 - DWELLING UNIT LIGHTING DEMAND FACTORS
+// ===========================================
+export const NEC_TABLE_220_42_DWELLING: { upToVA: number; factor: number }[] = [
+  { upToVA: 3000, factor: 1.0 },
+  { upToVA: 120000, factor: 0.35 },
+  { upToVA: Infinity, factor: 0.25 },
+]
+
+// Apply a stepped demand table to a connected load
+export function applySteppedDemand(connectedVA: number, table: { upToVA: number; factor: number }[]): number {
+  let remaining = connectedVA
+  let previousLimit = 0
+  let demand = 0
+  for (const step of table) {
+    if (remaining <= 0) break
+    const band = Math.min(remaining, step.upToVA - previousLimit)
+    demand += band * step.factor
+    remaining -= band
+    previousLimit = step.upToVA
+  }
+  return demand
+}
+
+// ===========================================
+// RECEPTACLE LOADS
+// 220.14(K): banks and office buildings - 1 VA/SF minimum where outlets unknown
+// 220.44 / Table 220.44: first 10 kVA at 100%, remainder at 50%
+// ===========================================
+export const NEC_OFFICE_RECEPTACLE_MIN_VA_SF = 1.0
+export const NEC_RECEPTACLE_FIRST_VA = 10000
+export const NEC_RECEPTACLE_REMAINDER_FACTOR = 0.5
+
+// Continuous loads (operating 3 hours or more) sized at 125%
+export const NEC_CONTINUOUS_FACTOR = 1.25
+
+// Largest motor adder per 430.24 (25% of the largest motor FLC)
+export const NEC_LARGEST_MOTOR_ADDER = 0.25
+
+// ===========================================
+// TABLE 220.56 - COMMERCIAL KITCHEN EQUIPMENT DEMAND FACTORS
+// Demand load shall not be less than the sum of the two largest units
+// ===========================================
+export const NEC_TABLE_220_56: { minUnits: number; factor: number }[] = [
+  { minUnits: 6, factor: 0.65 },
+  { minUnits: 5, factor: 0.70 },
+  { minUnits: 4, factor: 0.80 },
+  { minUnits: 3, factor: 0.90 },
+  { minUnits: 1, factor: 1.00 },
+]
+
+export function getKitchenDemandFactor(units: number): number {
+  const row = NEC_TABLE_220_56.find(r => units >= r.minUnits)
+  return row ? row.factor : 1.0
+}
+
+// ===========================================
+// TABLE 430.250 - THREE-PHASE MOTOR FULL-LOAD CURRENT @ 460V
+// Motor VA = FLC × 460 × √3 (voltage-independent for load calc purposes)
+// ===========================================
+export const NEC_TABLE_430_250_460V: { hp: number; amps: number }[] = [
+  { hp: 0.5, amps: 1.1 },
+  { hp: 0.75, amps: 1.6 },
+  { hp: 1, amps: 2.1 },
+  { hp: 1.5, amps: 3.0 },
+  { hp: 2, amps: 3.4 },
+  { hp: 3, amps: 4.8 },
+  { hp: 5, amps: 7.6 },
+  { hp: 7.5, amps: 11 },
+  { hp: 10, amps: 14 },
+  { hp: 15, amps: 21 },
+  { hp: 20, amps: 27 },
+  { hp: 25, amps: 34 },
+  { hp: 30, amps: 40 },
+  { hp: 40, amps: 52 },
+  { hp: 50, amps: 65 },
+  { hp: 60, amps: 77 },
+  { hp: 75, amps: 96 },
+  { hp: 100, amps: 124 },
+  { hp: 125, amps: 156 },
+  { hp: 150, amps: 180 },
+  { hp: 200, amps: 240 },
+]
+
+// Motor input VA from horsepower using Table 430.250 (linear interpolation)
+export function getMotorVA(hp: number): number {
+  if (hp <= 0) return 0
+  const table = NEC_TABLE_430_250_460V
+  let amps: number
+  if (hp <= table[0].hp) {
+    amps = table[0].amps * (hp / table[0].hp)
+  } else if (hp >= table[table.length - 1].hp) {
+    const last = table[table.length - 1]
+    amps = last.amps * (hp / last.hp)
+  } else {
+    const upperIdx = table.findIndex(r => r.hp >= hp)
+    const upper = table[upperIdx]
+    const lower = table[upperIdx - 1]
+    const t = (hp - lower.hp) / (upper.hp - lower.hp)
+    amps = lower.amps + t * (upper.amps - lower.amps)
+  }
+  return amps * 460 * Math.sqrt(3)
+}
+
+// ===========================================
+// 240.6(A) - STANDARD AMPERE RATINGS FOR FUSES AND INVERSE TIME BREAKERS
+// ===========================================
+export const NEC_240_6_STANDARD_RATINGS = [
+  15, 20, 25, 30, 35, 40, 45, 50, 60, 70, 80, 90, 100, 110, 125, 150, 175, 200,
+  225, 250, 300, 350, 400, 450, 500, 600, 700, 800, 1000, 1200, 1600, 2000,
+  2500, 3000, 4000, 5000, 6000,
+]
+
+// Next standard rating at or above the calculated amps
+export function getStandardOCPDRating(amps: number): number {
+  for (const rating of NEC_240_6_STANDARD_RATINGS) {
+    if (rating >= amps) return rating
+  }
+  return NEC_240_6_STANDARD_RATINGS[NEC_240_6_STANDARD_RATINGS.length - 1]
+}
+
+// ===========================================
+// BRANCH CIRCUITS AND PANELBOARDS
+// 210.19(A)(1) / 210.20(A): continuous loads limited to 80% of the OCPD rating
+// 220.14(I): 180 VA per receptacle outlet
+// ===========================================
+export const NEC_BRANCH_CIRCUIT_MAX_LOADING = 0.8
+export const NEC_RECEPTACLE_VA_PER_OUTLET = 180
+export const RECEPTACLES_PER_CIRCUIT = 8           // Design practice: 8 duplex outlets per 20A circuit
+export const BRANCH_CIRCUIT_MIN_AMPS = 20
+
+// Panelboard bus ratings (A) and common space counts
+export const STANDARD_PANEL_BUS_RATINGS = [100, 125, 150, 225, 400, 600, 800, 1200, 1600, 2000, 2500, 3000, 4000, 5000, 6000]
+export const STANDARD_PANEL_SPACES = 42
+
+// Dry-type transformer ratings (kVA, 3-phase)
+export const STANDARD_TRANSFORMER_KVA = [15, 30, 45, 75, 112.5, 150, 225, 300, 500, 750, 1000]
+
+export function getStandardPanelBus(amps: number): number {
+  return STANDARD_PANEL_BUS_RATINGS.find(rating => rating >= amps)
+    ?? STANDARD_PANEL_BUS_RATINGS[STANDARD_PANEL_BUS_RATINGS.length - 1]
+}
+
+export function getStandardTransformerKVA(kva: number): number {
+  return STANDARD_TRANSFORMER_KVA.find(rating => rating >= kva)
+    ?? STANDARD_TRANSFORMER_KVA[STANDARD_TRANSFORMER_KVA.length - 1]
+}
+
+// Zone types whose electrical process equipment runs 3+ hours (heaters, pool equipment)
+export const CONTINUOUS_PROCESS_ZONE_TYPES: ZoneType[] = [
+  'sauna_electric',
+  'steam_room',
+  'contrast_suite',
+  'snow_room',
+  'cold_plunge',
+  'hot_tub',
+  'pool_indoor',
+  'pool_outdoor',
+  'recovery_longevity',
+]
+
+// Zone types whose cooking/dishwashing equipment falls under 220.56
+export const COMMERCIAL_KITCHEN_ZONE_TYPES: ZoneType[] = [
+  'kitchen_commercial',
+  'kitchen_light_fb',
+  'cafe_light_fb',
+]
+
+// Line item names that indicate motor-driven equipment
+export const MOTOR_NAME_PATTERN = /elevator|pump|motor|fan|compressor|blower|chiller/i
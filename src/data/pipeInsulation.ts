@@ -0,0 +1,78 @@
+// ===========================================
+// PIPE INSULATION DATA
+// Material conductivities and ASHRAE 90.1-2019 Table 6.8.3 minimum thicknesses
+// ===========================================
+
+import type { InsulationMaterialData, InsulationRequirement, InsulationType } from '../types/hydronic'
+
+// Conductivity (Btu·in/h·ft²·°F) varies roughly linearly with mean temperature
+export const INSULATION_MATERIALS: InsulationMaterialData[] = [
+  { id: 'none', displayName: 'None', conductivityAt75F: 0, conductivitySlope: 0, maxServiceTempF: Infinity },
+  { id: 'fiberglass', displayName: 'Fiberglass (ASJ)', conductivityAt75F: 0.23, conductivitySlope: 0.0007, maxServiceTempF: 850 },
+  { id: 'mineral_wool', displayName: 'Mineral Wool', conductivityAt75F: 0.24, conductivitySlope: 0.0008, maxServiceTempF: 1200 },
+  { id: 'elastomeric', displayName: 'Flexible Elastomeric', conductivityAt75F: 0.25, conductivitySlope: 0.0005, maxServiceTempF: 220 },
+  { id: 'cellular_glass', displayName: 'Cellular Glass', conductivityAt75F: 0.29, conductivitySlope: 0.0006, maxServiceTempF: 800 },
+  { id: 'polyisocyanurate', displayName: 'Polyisocyanurate', conductivityAt75F: 0.19, conductivitySlope: 0.0003, maxServiceTempF: 300 },
+  { id: 'calcium_silicate', displayName: 'Calcium Silicate', conductivityAt75F: 0.38, conductivitySlope: 0.0005, maxServiceTempF: 1200 },
+]
+
+// Standard sectional pipe insulation thicknesses (in)
+export const STANDARD_INSULATION_THICKNESSES = [0.5, 0.75, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5]
+
+// ===========================================
+// ASHRAE 90.1 TABLE 6.8.3-1 (heating & hot water)
+// ASHRAE 90.1 TABLE 6.8.3-2 (cooling - chilled water, brine)
+// Fluids between 60°F and 105°F have no minimum
+// ===========================================
+export const ASHRAE_INSULATION_REQUIREMENTS: InsulationRequirement[] = [
+  { minFluidTempF: 351, maxFluidTempF: Infinity, meanRatingTempF: 250, maxConductivity: 0.34, thicknessIn: [4.5, 5, 5, 5, 5] },
+  { minFluidTempF: 251, maxFluidTempF: 350, meanRatingTempF: 200, maxConductivity: 0.32, thicknessIn: [3, 4, 4.5, 4.5, 4.5] },
+  { minFluidTempF: 201, maxFluidTempF: 250, meanRatingTempF: 150, maxConductivity: 0.30, thicknessIn: [2.5, 2.5, 2.5, 3, 3] },
+  { minFluidTempF: 141, maxFluidTempF: 200, meanRatingTempF: 125, maxConductivity: 0.29, thicknessIn: [1.5, 1.5, 2, 2, 2] },
+  { minFluidTempF: 105, maxFluidTempF: 140, meanRatingTempF: 100, maxConductivity: 0.28, thicknessIn: [1, 1, 1.5, 1.5, 1.5] },
+  { minFluidTempF: 40, maxFluidTempF: 60, meanRatingTempF: 75, maxConductivity: 0.27, thicknessIn: [0.5, 0.5, 1, 1, 1] },
+  { minFluidTempF: -Infinity, maxFluidTempF: 39, meanRatingTempF: 50, maxConductivity: 0.26, thicknessIn: [0.5, 1, 1, 1, 1.5] },
+]
+
+// ===========================================
+// HELPER FUNCTIONS
+// ===========================================
+
+export function getInsulationMaterial(insulationType: InsulationType): InsulationMaterialData {
+  return INSULATION_MATERIALS.find(m => m.id === insulationType) ?? INSULATION_MATERIALS[0]
+}
+
+export function getInsulationConductivity(insulationType: InsulationType, meanTempF: number): number {
+  const material = getInsulationMaterial(insulationType)
+  return material.conductivityAt75F + material.conductivitySlope * (meanTempF - 75)
+}
+
+// Table ranges are in whole degrees
+export function getInsulationRequirement(fluidTempF: number): InsulationRequirement | undefined {
+  const tempF = Math.round(fluidTempF)
+  return ASHRAE_INSULATION_REQUIREMENTS.find(r => tempF >= r.minFluidTempF && tempF <= r.maxFluidTempF)
+}
+
+// Nominal size string ('1-1/4', '3/4', '2') to inches
+export function parseNominalPipeSize(nominalSize: string): number {
+  return nominalSize.split('-').reduce((sum, part) => {
+    const [num, den] = part.split('/').map(Number)
+    return sum + (den ? num / den : num || 0)
+  }, 0)
+}
+
+/**
+ * Table 6.8.3 thickness column for a nominal pipe size
+ */
+export function getRequirementThickness(requirement: InsulationRequirement, nominalSize: string): number {
+  const size = parseNominalPipeSize(nominalSize)
+  if (size < 1) return requirement.thicknessIn[0]
+  if (size < 1.5) return requirement.thicknessIn[1]
+  if (size < 4) return requirement.thicknessIn[2]
+  if (size < 8) return requirement.thicknessIn[3]
+  return requirement.thicknessIn[4]
+}
+
+export function getInsulationDisplayName(insulationType: InsulationType): string {
+  return getInsulationMaterial(insulationType).displayName
+}
@@ -0,0 +1,58 @@
+// ===========================================
+// PUMP CURVE LIBRARY
+// Representative published curves for common hydronic pump casings
+// (inline, close-coupled and end suction) at full speed
+// ===========================================
+
+import type { PumpCurve } from '../types/pumpCurve'
+
+type CurveRow = [gpm: number, headFt: number, efficiencyPct: number, npshrFt: number]
+
+function pumpCurve(model: string, impellerIn: number, rpm: number, motorHp: number, rows: CurveRow[]): PumpCurve {
+  return {
+    id: `${model}_${impellerIn}in_${rpm}`.toLowerCase().replace(/[^a-z0-9.]+/g, '_'),
+    model,
+    impellerIn,
+    rpm,
+    motorHp,
+    points: rows.map(([gpm, headFt, efficiencyPct, npshrFt]) => ({ gpm, headFt, efficiency: efficiencyPct / 100, npshrFt })),
+  }
+}
+
+export const BUILT_IN_PUMP_CURVES: PumpCurve[] = [
+  pumpCurve('Inline 1-1/2x1-1/2x7', 6, 1750, 1, [
+    [0, 28, 0, 0], [20, 27.5, 45, 3], [40, 26, 60, 4], [60, 23.5, 66, 5], [80, 19.5, 63, 6.5], [100, 14, 52, 8.5],
+  ]),
+  pumpCurve('Inline 1-1/2x1-1/2x7', 7, 1750, 1.5, [
+    [0, 38, 0, 0], [25, 37.5, 46, 3], [50, 36, 61, 4], [75, 33, 67, 5], [100, 28, 64, 6.5], [125, 21, 54, 9],
+  ]),
+  pumpCurve('Close-Coupled 1-1/4x1-1/2x6', 6, 3500, 7.5, [
+    [0, 140, 0, 0], [25, 139, 40, 6], [50, 135, 56, 7], [75, 128, 62, 8.5], [100, 117, 61, 10.5], [120, 105, 57, 13],
+  ]),
+  pumpCurve('End Suction 2x2-1/2x9.5', 8.5, 1750, 5, [
+    [0, 60, 0, 0], [50, 59, 48, 4], [100, 56, 64, 5], [150, 50, 70, 6.5], [200, 41, 67, 8.5], [230, 34, 61, 10.5],
+  ]),
+  pumpCurve('End Suction 2x2-1/2x9.5', 9.5, 1750, 7.5, [
+    [0, 75, 0, 0], [60, 74, 50, 4], [120, 71, 66, 5], [180, 65, 72, 6.5], [240, 55, 69, 8.5], [290, 44, 60, 11.5],
+  ]),
+  pumpCurve('End Suction 3x4x9.5', 9.5, 1750, 10, [
+    [0, 78, 0, 0], [150, 76, 58, 5], [300, 71, 74, 7], [400, 64, 79, 9], [500, 54, 76, 12], [580, 44, 69, 15],
+  ]),
+  pumpCurve('End Suction 4x5x11', 11, 1750, 25, [
+    [0, 105, 0, 0], [250, 103, 60, 6], [500, 97, 77, 8], [700, 88, 82, 11], [900, 74, 79, 15], [1050, 61, 72, 19],
+  ]),
+  pumpCurve('End Suction 5x6x12', 12, 1750, 50, [
+    [0, 125, 0, 0], [400, 123, 62, 7], [800, 116, 79, 10], [1100, 105, 84, 13], [1400, 89, 82, 17], [1650, 72, 75, 22],
+  ]),
+]
+
+// Built-in library with user edits applied (same id replaces, new id adds)
+export function mergePumpCurves(custom: Record<string, PumpCurve>): PumpCurve[] {
+  const merged = BUILT_IN_PUMP_CURVES.map(curve => custom[curve.id] ?? curve)
+  const added = Object.values(custom).filter(curve => !BUILT_IN_PUMP_CURVES.some(b => b.id === curve.id))
+  return [...merged, ...added]
+}
+
+export function isBuiltInPumpCurve(id: string): boolean {
+  return BUILT_IN_PUMP_CURVES.some(curve => curve.id === id)
+}
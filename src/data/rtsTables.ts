@@ -0,0 +1,91 @@
+// ===========================================
+// RADIANT TIME SERIES (RTS) COOLING LOAD DATA
+// ASHRAE Fundamentals Ch. 18 - representative time series, medium-weight
+// construction with carpet, 10% glass; clear-sky model from the 1985
+// Fundamentals (21st day of each month)
+// All 24-hour arrays are indexed by hour ending 1..24 (index 0 = 0-1 AM)
+// ===========================================
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Nonsolar RTS (% of radiant gain appearing as cooling load j hours later)
+export const NONSOLAR_RTS = [50, 18, 9, 5, 3, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0]
+
+// Solar RTS - transmitted solar absorbed by the floor
+export const SOLAR_RTS = [54, 16, 8, 5, 3, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0]
+
+// Conduction time series (% of heat input reaching the room j hours later)
+export const WALL_CTS = [0, 4, 13, 17, 15, 12, 9, 7, 5, 4, 3, 3, 2, 2, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0]  // Brick veneer, insulated stud
+export const ROOF_CTS = [6, 45, 33, 11, 3, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]  // Insulated metal deck with ceiling
+
+// Radiant fraction of each heat gain (Table 14)
+export const RADIANT_FRACTION = {
+  people: 0.6,
+  lighting: 0.57,
+  equipment: 0.3,
+  wall: 0.46,
+  roof: 0.6,
+  glazingConduction: 0.46,
+  solar: 1.0,
+}
+
+// Fraction of the daily range below the design DB (Table 6)
+export const DAILY_RANGE_FRACTION = [
+  0.87, 0.92, 0.96, 0.99, 1.00, 0.98, 0.93, 0.84, 0.71, 0.56, 0.39, 0.23,
+  0.11, 0.03, 0.00, 0.03, 0.10, 0.21, 0.34, 0.47, 0.58, 0.68, 0.76, 0.82,
+]
+
+// Monthly design DB relative to the annual cooling design DB (°F, northern hemisphere)
+export const MONTHLY_DB_OFFSET = [-27, -24, -17, -10, -5, -1, 0, -1, -5, -12, -19, -25]
+
+// Clear-sky constants: A (BTU/hr·SF), B (extinction), C (diffuse factor), declination (°)
+export const CLEAR_SKY = [
+  { A: 390, B: 0.142, C: 0.058, declination: -20.0 },
+  { A: 385, B: 0.144, C: 0.060, declination: -10.8 },
+  { A: 376, B: 0.156, C: 0.071, declination: 0.0 },
+  { A: 360, B: 0.180, C: 0.097, declination: 11.6 },
+  { A: 350, B: 0.196, C: 0.121, declination: 20.0 },
+  { A: 345, B: 0.205, C: 0.134, declination: 23.45 },
+  { A: 344, B: 0.207, C: 0.136, declination: 20.6 },
+  { A: 351, B: 0.201, C: 0.122, declination: 12.3 },
+  { A: 365, B: 0.177, C: 0.092, declination: 0.0 },
+  { A: 378, B: 0.160, C: 0.073, declination: -10.5 },
+  { A: 387, B: 0.149, C: 0.063, declination: -19.8 },
+  { A: 391, B: 0.142, C: 0.057, declination: -23.45 },
+]
+
+export const GROUND_REFLECTANCE = 0.2
+
+// Sol-air: Te = To + (α / ho) × It - ε ΔR / ho
+export const SOL_AIR_ABSORPTANCE_RATIO = 0.30  // Dark surface, α / ho (°F·SF·hr/BTU) - 0.15 for light colors
+export const ROOF_LONGWAVE_CORRECTION_F = 7
+
+// Surface azimuth from south, west positive (°)
+export const ORIENTATION_AZIMUTH = {
+  N: 180,
+  NE: -135,
+  E: -90,
+  SE: -45,
+  S: 0,
+  SW: 45,
+  W: 90,
+  NW: 135,
+}
+
+// Operating schedules (fraction of peak) - 6 AM to 10 PM commercial / fitness
+export const OCCUPANCY_SCHEDULE = [
+  0, 0, 0, 0, 0, 0.1, 0.5, 0.9, 0.9, 0.9, 0.9, 0.9,
+  0.9, 0.9, 0.9, 0.9, 0.9, 0.9, 0.7, 0.5, 0.3, 0.1, 0, 0,
+]
+export const LIGHTING_SCHEDULE = [
+  0.05, 0.05, 0.05, 0.05, 0.05, 0.3, 0.9, 1, 1, 1, 1, 1,
+  1, 1, 1, 1, 1, 1, 1, 0.9, 0.7, 0.3, 0.05, 0.05,
+]
+export const EQUIPMENT_SCHEDULE = [
+  0.3, 0.3, 0.3, 0.3, 0.3, 0.5, 0.9, 1, 1, 1, 1, 1,
+  1, 1, 1, 1, 1, 1, 0.9, 0.8, 0.6, 0.4, 0.3, 0.3,
+]
+
+// Fallback latitude when the location has none (custom locations)
+export const DEFAULT_LATITUDE = 40
+export const DEFAULT_LIGHTING_W_SF = 0.8
@@ -0,0 +1,64 @@
+// ===========================================
+// SHORT-CIRCUIT DATA
+// Point-to-point method constants and equipment interrupting ratings
+// Reference: Eaton Bussmann SPD "Short-Circuit Current Calculations",
+// NEC 110.9 / 110.10, IEEE 141 (Red Book)
+// ===========================================
+
+import type { ConductorMaterial, RacewayType } from '../types/electrical'
+
+// "C" values (ft·A/V) for three single conductors, 600V, 75°C
+// Higher C = lower impedance = less fault current reduction per foot
+export const CONDUCTOR_C_VALUES: Record<string, Record<ConductorMaterial, Record<RacewayType, number>>> = {
+  '14': { copper: { steel: 389, nonmagnetic: 389 }, aluminum: { steel: 237, nonmagnetic: 237 } },
+  '12': { copper: { steel: 617, nonmagnetic: 617 }, aluminum: { steel: 376, nonmagnetic: 376 } },
+  '10': { copper: { steel: 981, nonmagnetic: 982 }, aluminum: { steel: 599, nonmagnetic: 599 } },
+  '8': { copper: { steel: 1557, nonmagnetic: 1559 }, aluminum: { steel: 951, nonmagnetic: 952 } },
+  '6': { copper: { steel: 2425, nonmagnetic: 2433 }, aluminum: { steel: 1481, nonmagnetic: 1482 } },
+  '4': { copper: { steel: 3806, nonmagnetic: 3837 }, aluminum: { steel: 2346, nonmagnetic: 2350 } },
+  '3': { copper: { steel: 4760, nonmagnetic: 4802 }, aluminum: { steel: 2924, nonmagnetic: 2939 } },
+  '2': { copper: { steel: 5906, nonmagnetic: 6044 }, aluminum: { steel: 3633, nonmagnetic: 3668 } },
+  '1': { copper: { steel: 7292, nonmagnetic: 7493 }, aluminum: { steel: 4504, nonmagnetic: 4560 } },
+  '1/0': { copper: { steel: 8924, nonmagnetic: 9317 }, aluminum: { steel: 5571, nonmagnetic: 5663 } },
+  '2/0': { copper: { steel: 10755, nonmagnetic: 11423 }, aluminum: { steel: 6861, nonmagnetic: 7008 } },
+  '3/0': { copper: { steel: 12843, nonmagnetic: 13923 }, aluminum: { steel: 8339, nonmagnetic: 8588 } },
+  '4/0': { copper: { steel: 15082, nonmagnetic: 16673 }, aluminum: { steel: 10102, nonmagnetic: 10498 } },
+  '250': { copper: { steel: 16483, nonmagnetic: 18593 }, aluminum: { steel: 11074, nonmagnetic: 11608 } },
+  '300': { copper: { steel: 18176, nonmagnetic: 20867 }, aluminum: { steel: 12404, nonmagnetic: 13137 } },
+  '350': { copper: { steel: 19703, nonmagnetic: 22736 }, aluminum: { steel: 13643, nonmagnetic: 14565 } },
+  '400': { copper: { steel: 20565, nonmagnetic: 24296 }, aluminum: { steel: 14721, nonmagnetic: 15906 } },
+  '500': { copper: { steel: 22185, nonmagnetic: 26706 }, aluminum: { steel: 16287, nonmagnetic: 17937 } },
+  '600': { copper: { steel: 22965, nonmagnetic: 28033 }, aluminum: { steel: 17262, nonmagnetic: 19048 } },
+  '750': { copper: { steel: 24136, nonmagnetic: 29735 }, aluminum: { steel: 18355, nonmagnetic: 20515 } },
+  '1000': { copper: { steel: 25278, nonmagnetic: 31491 }, aluminum: { steel: 19785, nonmagnetic: 22060 } },
+}
+
+export function getConductorCValue(size: string, material: ConductorMaterial, raceway: RacewayType): number {
+  return CONDUCTOR_C_VALUES[size]?.[material][raceway] ?? 0
+}
+
+// Transformer nameplate %Z tolerance - ANSI C57.12 allows -7.5%; use 0.9 × %Z for worst case
+export const TRANSFORMER_Z_TOLERANCE = 0.9
+
+// Utility pad-mount / vault transformer sizes
+export const UTILITY_TRANSFORMER_KVA = [75, 112.5, 150, 225, 300, 500, 750, 1000, 1500, 2000, 2500, 3000, 3750, 5000]
+
+export function getUtilityTransformerKVA(kva: number): number {
+  return UTILITY_TRANSFORMER_KVA.find(rating => rating >= kva)
+    ?? UTILITY_TRANSFORMER_KVA[UTILITY_TRANSFORMER_KVA.length - 1]
+}
+
+// Standard equipment short-circuit / interrupting ratings (kA symmetrical)
+export const STANDARD_AIC_RATINGS_KA = [10, 14, 18, 22, 25, 35, 42, 50, 65, 85, 100, 150, 200]
+
+export function getStandardAICRating(faultKA: number): number {
+  return STANDARD_AIC_RATINGS_KA.find(rating => rating >= faultKA)
+    ?? STANDARD_AIC_RATINGS_KA[STANDARD_AIC_RATINGS_KA.length - 1]
+}
+
+// Default equipment ratings before the engineer specifies them
+export const DEFAULT_SWITCHBOARD_AIC_KA = 65
+export const DEFAULT_PANEL_AIC_KA: Record<'low' | 'high', number> = {
+  low: 10,   // 120/240V, 208Y/120V panelboards
+  high: 14,  // 480Y/277V panelboards
+}
@@ -7,9 +7,11 @@
 import pdfMake from 'pdfmake/build/pdfmake'
 import * as pdfFonts from 'pdfmake/build/vfs_fonts'
 import type { TDocumentDefinitions, Content } from 'pdfmake/interfaces'
-import type { Project, Zone, CalculationResults, ZoneFixtures } from '../types'
+import type { Project, Zone, CalculationResults, ZoneFixtures, AnnualEnergyResult } from '../types'
+import type { GeneratorSizingResult } from '../types/electrical'
 import { getZoneDefaults } from '../data/zoneDefaults'
 import { getLegacyFixtureCounts } from '../data/fixtureUtils'
+import { formatHVACLoadMethod } from '../calculations/hvac'
 import {
   Document,
   Packer,
@@ -49,6 +51,26 @@ export function getReportLogo() {
   return { base64: storedLogoBase64, dataUrl: storedLogoDataUrl }
 }
 
+// One-line generator summary shared by the PDF and Word reports
+function formatGenerator(generator: GeneratorSizingResult): string {
+  if (generator.recommendedKW === 0) return 'None - no standby loads identified'
+  const fuel = generator.fuelType === 'diesel'
+    ? `diesel, ${generator.tankGallons?.toLocaleString()} gal tank (~${Math.floor(generator.runtimeHours ?? 0)} hr)`
+    : 'natural gas'
+  return `${generator.recommendedKW} kW / ${Math.round(generator.recommendedKVA)} kVA ${fuel} - ${Math.round(generator.runningKW)} kW running in ${generator.steps.length} load steps`
+}
+
+// Annual energy summary lines shared by the PDF and Word reports
+function formatEnergyLines(energy: AnnualEnergyResult): string[] {
+  const { settings } = energy
+  return [
+    `Electricity: ${energy.totalKwh.toLocaleString()} kWh/yr  •  Peak Demand: ${energy.peakDemandKw} kW`,
+    `Natural Gas: ${energy.totalTherms.toLocaleString()} therms/yr  •  Site EUI: ${energy.euiKbtuSf} kBtu/SF-yr`,
+    `Utility Cost: $${energy.totalCost.toLocaleString()}/yr ($${energy.costPerSf.toFixed(2)}/SF) - electric $${energy.electricCost.toLocaleString()}, demand $${energy.demandCost.toLocaleString()}, gas $${energy.gasCost.toLocaleString()}`,
+    `Rates: $${settings.electricRatePerKwh}/kWh, $${settings.demandRatePerKw}/kW-mo, $${settings.gasRatePerTherm}/therm  •  Bin-hour estimate for ${energy.locationName}`,
+  ]
+}
+
 /**
  * Export Concept Report to PDF
  */
@@ -143,6 +165,7 @@ export async function exportConceptPDF(
               { text: 'Air Conditioning / Heating:', style: 'subHeader' },
               { 
                 ul: [
+                  `Load Method: ${formatHVACLoadMethod(results.hvac)}`,
                   `Space Cooling: ${results.hvac.totalTons} Tons (${Math.round(totalSF / results.hvac.totalTons)} SF/Ton)`,
                   ...(results.hvac.poolChillerTons > 0 ? [`Pool Chiller: ${results.hvac.poolChillerTons} Tons`] : []),
                   ...(results.hvac.dehumidLbHr > 0 ? [`Dehumidification: ${results.hvac.dehumidLbHr} lb/hr (~${results.hvac.dehumidTons || Math.round(results.hvac.dehumidLbHr * 0.2)} Tons)`] : []),
@@ -214,7 +237,9 @@ export async function exportConceptPDF(
               { 
                 ul: [
                   `Panelboards: ~${results.electrical.panelCount} required`,
-                  'Emergency: Generator for egress/life safety',
+                  results.electrical.generator
+                    ? `Generator: ${formatGenerator(results.electrical.generator)}`
+                    : 'Emergency: Generator for egress/life safety',
                   'Fire Alarm: Manual pull stations, horn/strobes',
                 ],
                 style: 'list',
@@ -356,6 +381,16 @@ export async function exportConceptPDF(
         }
       ] : [])(project.mepNarratives?.fireProtection)),
 
+      // 6. Annual Energy
+      ...(results.energy ? [
+        { text: '6. Annual Energy & Operating Cost', style: 'sectionHeader' },
+        {
+          ul: formatEnergyLines(results.energy),
+          style: 'list',
+          margin: [0, 0, 0, 3] as [number, number, number, number],
+        },
+      ] : []),
+
       // Zone Schedule (compact)
       { text: 'Zone Schedule', style: 'sectionHeader' },
       {
@@ -609,6 +644,7 @@ export async function exportConceptWord(
 
         // 1. Mechanical
         new Paragraph({ text: '1. Mechanical (HVAC)', heading: HeadingLevel.HEADING_2, spacing: { before: 200, after: 100 } }),
+        new Paragraph({ text: `Load Method: ${formatHVACLoadMethod(results.hvac)}` }),
         new Paragraph({ text: `Space Cooling: ${results.hvac.totalTons} Tons (${Math.round(totalSF / results.hvac.totalTons)} SF/Ton)` }),
         ...(results.hvac.poolChillerTons > 0 ? [new Paragraph({ text: `Pool Chiller: ${results.hvac.poolChillerTons} Tons` })] : []),
         ...(results.hvac.dehumidLbHr > 0 ? [new Paragraph({ text: `Dehumidification: ${results.hvac.dehumidLbHr} lb/hr (~${results.hvac.dehumidTons || Math.round(results.hvac.dehumidLbHr * 0.2)} Tons)` })] : []),
@@ -628,6 +664,7 @@ export async function exportConceptWord(
         new Paragraph({ text: `Service @ 208V/3PH: ${results.electrical.amps_208v.toLocaleString()}A  •  @ 480V: ${results.electrical.amps_480v.toLocaleString()}A` }),
         new Paragraph({ text: `Recommended Service: ${results.electrical.recommendedService}` }),
         new Paragraph({ text: `Panelboards: ~${results.electrical.panelCount} required` }),
+        ...(results.electrical.generator ? [new Paragraph({ text: `Emergency/Standby Generator: ${formatGenerator(results.electrical.generator)}` })] : []),
         // Electrical Narrative
         ...(project.mepNarratives?.electrical ? project.mepNarratives.electrical.split('\n\n').map(p => 
           new Paragraph({ text: p.trim(), spacing: { before: 50, after: 50 } })
@@ -657,6 +694,12 @@ export async function exportConceptWord(
           new Paragraph({ text: p.trim(), spacing: { before: 50, after: 50 } })
         ) : []),
 
+        // 6. Annual Energy
+        ...(results.energy ? [
+          new Paragraph({ text: '6. Annual Energy & Operating Cost', heading: HeadingLevel.HEADING_2, spacing: { before: 200, after: 100 } }),
+          ...formatEnergyLines(results.energy).map(text => new Paragraph({ text })),
+        ] : []),
+
         // Zone Schedule
         new Paragraph({ text: 'Zone Schedule', heading: HeadingLevel.HEADING_2, spacing: { before: 300, after: 100 } }),
         new Table({ rows: zoneRows, width: { size: 100, type: WidthType.PERCENTAGE } }),
@@ -173,6 +173,36 @@ export function exportToExcelFile(
     XLSX.utils.book_append_sheet(workbook, lineItemsSheet, 'Line Items')
   }
 
+  // Sheet 7: Conceptual Cost Estimate
+  const estimate = results.costEstimate
+  if (estimate) {
+    const costData: (string | number)[][] = [
+      ['CONCEPTUAL MEP COST ESTIMATE'],
+      ['Regional Multiplier', estimate.regionalMultiplier],
+      [],
+      ['Trade', 'Item', 'Qty', 'Unit', 'Unit Cost ($)', 'Budget ($)', 'Note'],
+    ]
+    estimate.trades.forEach(trade => {
+      estimate.lines.filter(line => line.trade === trade.trade).forEach(line => {
+        costData.push([
+          trade.name,
+          line.description,
+          line.manual ? '' : line.quantity,
+          line.manual ? '' : line.unit,
+          line.manual ? '' : line.rate,
+          line.cost,
+          line.manual ? 'Manual line' : line.overridden ? `Adjusted (calc. ${line.calculatedCost})` : '',
+        ])
+      })
+      costData.push([`${trade.name} Subtotal`, '', '', '', `$${trade.costPerSf.toFixed(2)}/SF`, trade.cost, ''])
+      costData.push([])
+    })
+    costData.push(['TOTAL MEP', '', '', '', `$${estimate.costPerSf.toFixed(2)}/SF`, estimate.total, ''])
+    const costSheet = XLSX.utils.aoa_to_sheet(costData)
+    costSheet['!cols'] = [{ wch: 22 }, { wch: 40 }, { wch: 10 }, { wch: 8 }, { wch: 14 }, { wch: 14 }, { wch: 24 }]
+    XLSX.utils.book_append_sheet(workbook, costSheet, 'Cost Estimate')
+  }
+
   // Download
   XLSX.writeFile(workbook, `${project.name || 'MEP-Calculator'}.xlsx`)
 }
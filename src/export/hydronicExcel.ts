@@ -4,25 +4,32 @@
 // =========================================== 
 
 import * as XLSX from 'xlsx'
-import type { HydronicSystem, HydronicPipeSection, HydronicCalculationResult } from '../types/hydronic'
+import type { HydronicSystem, HydronicPipeSection, HydronicCalculationResult, PipeHeatLossResult } from '../types/hydronic'
+import type { PumpSelection } from '../types/pumpCurve'
 import { getPipeMaterial } from '../data/pipeData'
 import { getFitting } from '../data/fittingsLibrary'
 import { getFluidDisplayName } from '../data/fluidProperties'
+import { getInsulationDisplayName } from '../data/pipeInsulation'
 import { headToPsi, calculatePumpBhp } from '../calculations/hydronic'
+import { calculateHydronicAccessories } from '../calculations/hydronicAccessories'
+import { calculateBalancingSchedule } from '../calculations/balancingValves'
 
 export function exportHydronicToExcel(
   system: HydronicSystem,
   sections: HydronicPipeSection[],
-  result: HydronicCalculationResult
+  result: HydronicCalculationResult,
+  pumpSelection?: PumpSelection | null,
+  pipeHeatLoss?: PipeHeatLossResult | null
 ): void {
   const workbook = XLSX.utils.book_new()
   
-  const estimatedBhp = calculatePumpBhp(
-    result.maxFlowGpm,
-    result.totalPumpHeadFt,
-    result.fluidProperties.specificGravity
-  )
+  const operatingPoint = pumpSelection?.operatingPoint
+  const estimatedBhp = operatingPoint
+    ? pumpSelection.totalBhp
+    : calculatePumpBhp(result.maxFlowGpm, result.totalPumpHeadFt, result.fluidProperties.specificGravity)
   const totalHeadPsi = headToPsi(result.totalPumpHeadFt, result.fluidProperties.specificGravity)
+  const accessories = system.systemType === 'closed' ? calculateHydronicAccessories(system, sections, result) : null
+  const balancing = calculateBalancingSchedule(system, sections, result)
   
   // =========================================== 
   // Sheet 1: Summary
@@ -43,10 +50,23 @@ export function exportHydronicToExcel(
     ['Specific Gravity', result.fluidProperties.specificGravity.toFixed(3)],
     [],
     ['PUMP REQUIREMENTS'],
-    ['Max Flow Rate', `${result.maxFlowGpm.toFixed(0)} GPM`],
+    [result.network ? 'Pump Flow Rate' : 'Max Flow Rate', `${result.maxFlowGpm.toFixed(0)} GPM`],
     ['Total Pump Head', `${result.totalPumpHeadFt.toFixed(1)} ft WC`],
     ['Total Pump Head (psi)', `${totalHeadPsi.toFixed(1)} psi`],
-    ['Estimated BHP', `${estimatedBhp.toFixed(2)} HP`],
+    [operatingPoint ? 'BHP (pump curve)' : 'Estimated BHP', `${estimatedBhp.toFixed(2)} HP`],
+    ...(pumpSelection && operatingPoint ? [
+      [],
+      ['PUMP SELECTION'],
+      ['Pump', `${pumpSelection.curve.model}, ${pumpSelection.curve.impellerIn}" impeller, ${pumpSelection.curve.rpm} RPM`],
+      ['Motor', `${pumpSelection.curve.motorHp} HP`],
+      ['Duty / Standby', `${pumpSelection.arrangement.dutyPumps} / ${pumpSelection.arrangement.standbyPumps}`],
+      ['VFD', pumpSelection.arrangement.vfd ? `Yes - ${(operatingPoint.speedRatio * 100).toFixed(0)}% speed` : 'No'],
+      ['Operating Point', `${operatingPoint.gpm.toFixed(0)} GPM @ ${operatingPoint.headFt.toFixed(1)} ft`],
+      ['Pump Efficiency', `${(operatingPoint.efficiency * 100).toFixed(0)}%`],
+      ['BHP per Pump', `${operatingPoint.bhp.toFixed(2)} HP`],
+      ['NPSH Required', `${operatingPoint.npshrFt.toFixed(1)} ft`],
+      ...pumpSelection.warnings.map(w => ['Note', w]),
+    ] : []),
     [],
     ['HEAD BREAKDOWN'],
     ['Pipe Friction Loss', `${result.totalPipeFrictionFt.toFixed(2)} ft`],
@@ -57,6 +77,24 @@ export function exportHydronicToExcel(
     ['TOTAL PUMP HEAD', `${result.totalPumpHeadFt.toFixed(1)} ft`],
     [],
     ['System Volume', `${result.totalSystemVolumeGal.toFixed(1)} gallons`],
+    ...(accessories ? [
+      [],
+      ['CLOSED LOOP ACCESSORIES'],
+      ['System Volume (incl. equipment)', `${accessories.expansionTank.systemVolumeGal.toFixed(1)} gallons`],
+      ['Temperature Range', `${accessories.expansionTank.fillTempF}–${accessories.expansionTank.maxTempF}°F`],
+      ['Fluid Expansion', `${accessories.expansionTank.fluidExpansionPct.toFixed(2)}%`],
+      ['Expansion Volume', `${accessories.expansionTank.expansionVolumeGal.toFixed(2)} gal`],
+      ['Fill / Max Pressure', `${accessories.expansionTank.fillPressurePsig} / ${accessories.expansionTank.maxPressurePsig} psig`],
+      ['Acceptance Factor', accessories.expansionTank.acceptanceFactor.toFixed(3)],
+      ['Required Tank Volume', `${accessories.expansionTank.requiredTankGal.toFixed(1)} gal`],
+      ['Expansion Tank', `${accessories.expansionTank.tankCount} × ${accessories.expansionTank.tankSizeGal} gal diaphragm`],
+      ['Air Separator', `${accessories.airSeparator.connectionSize}" tangential, ${accessories.airSeparator.ratedGpm} GPM rated`],
+      ...(accessories.glycolFill ? [
+        ['Glycol Concentrate', `${accessories.glycolFill.concentrateGal} gal (${accessories.glycolFill.concentrationPct}%)`],
+        ['Fill Water', `${accessories.glycolFill.waterGal} gal`],
+        ['Glycol Cost', `$${accessories.glycolFill.cost.toLocaleString()} at $${accessories.glycolFill.costPerGal}/gal`],
+      ] : []),
+    ] : []),
   ]
   
   const summarySheet = XLSX.utils.aoa_to_sheet(summaryData)
@@ -147,13 +185,175 @@ export function exportHydronicToExcel(
   }
   
   // =========================================== 
-  // Sheet 4: Warnings
+  // Sheet 4: Network Circuits
+  // =========================================== 
+  if (result.network) {
+    const network = result.network
+    const sectionName = (id: string) => sections.find(s => s.id === id)?.name ?? id
+    const circuitsData = [
+      ['NETWORK CIRCUITS'],
+      ['Supply Node', network.supplyNode],
+      ['Return Node', network.returnNode],
+      ['Independent Loops', network.loopCount],
+      ['Flow Solution', network.converged ? `Converged in ${network.iterations} iterations` : 'Not converged'],
+      ['Unbalanced Supply-Return Head (ft)', Math.round(network.solvedHeadFt * 100) / 100],
+      [],
+      ['Circuit', 'Nodes', 'Sections', 'Pipe Friction (ft)', 'Fittings (ft)', 'Design Head (ft)', 'Excess to Balance (ft)'],
+      ...network.circuits.map((circuit, i) => [
+        i === 0 ? 'Index' : `${i + 1}`,
+        circuit.nodes.join(' → '),
+        circuit.sectionIds.map(sectionName).join(' → '),
+        Math.round(circuit.pipeFrictionFt * 100) / 100,
+        Math.round(circuit.fittingsLossFt * 100) / 100,
+        Math.round(circuit.designHeadFt * 100) / 100,
+        Math.round(circuit.excessHeadFt * 100) / 100,
+      ]),
+      [],
+      ['Section', 'Design Flow (GPM)', 'Unbalanced Flow (GPM)'],
+      ...sections.map(section => [section.name, section.flowGpm, network.solvedFlows[section.id] ?? null]),
+    ]
+    const circuitsSheet = XLSX.utils.aoa_to_sheet(circuitsData)
+    circuitsSheet['!cols'] = [
+      { wch: 32 },
+      { wch: 30 },
+      { wch: 40 },
+      { wch: 16 },
+      { wch: 14 },
+      { wch: 16 },
+      { wch: 20 },
+    ]
+    XLSX.utils.book_append_sheet(workbook, circuitsSheet, 'Network Circuits')
+  }
+  
   // =========================================== 
-  if (result.warnings.length > 0) {
+  // Sheet 5: Balancing Valves
+  // =========================================== 
+  if (balancing && balancing.valves.length > 0) {
+    const { valveModel } = balancing
+    const balancingData = [
+      ['BALANCING VALVE SCHEDULE'],
+      ['Valve Model', valveModel.displayName],
+      [],
+      [
+        'Circuit',
+        'Section',
+        'Design Flow (GPM)',
+        'Valve Size (in)',
+        'Excess Head (ft)',
+        'Required dP (ft)',
+        'Full-Open Cv',
+        'Required Cv',
+        `Setting (${valveModel.settingUnit})`,
+        'Cv at Setting',
+        'dP at Setting (ft)',
+        'Notes',
+      ],
+      ...balancing.valves.map(v => [
+        v.circuitIndex === 0 ? 'Index' : `${v.circuitIndex + 1}`,
+        v.sectionName,
+        v.flowGpm,
+        v.valveSize,
+        v.excessHeadFt,
+        v.requiredDpFt,
+        v.fullOpenCv,
+        v.requiredCv,
+        v.setting,
+        v.settingCv,
+        v.settingDpFt,
+        v.warnings.join('; '),
+      ]),
+    ]
+    const balancingSheet = XLSX.utils.aoa_to_sheet(balancingData)
+    balancingSheet['!cols'] = [
+      { wch: 10 },
+      { wch: 25 },
+      { wch: 16 },
+      { wch: 14 },
+      { wch: 15 },
+      { wch: 15 },
+      { wch: 12 },
+      { wch: 12 },
+      { wch: 14 },
+      { wch: 13 },
+      { wch: 16 },
+      { wch: 60 },
+    ]
+    XLSX.utils.book_append_sheet(workbook, balancingSheet, 'Balancing Valves')
+  }
+  
+  // =========================================== 
+  // Sheet 6: Heat Loss
+  // =========================================== 
+  if (pipeHeatLoss && pipeHeatLoss.sections.length > 0) {
+    const heatLossData = [
+      ['PIPE HEAT LOSS & INSULATION'],
+      ['Ambient', `${pipeHeatLoss.ambientTempF}°F`],
+      ['Dew Point', `${pipeHeatLoss.dewPointF}°F`],
+      ...(pipeHeatLoss.climateLocation ? [['Climate', pipeHeatLoss.climateLocation]] : []),
+      [],
+      [
+        'Section',
+        'Insulation',
+        'Thickness (in)',
+        'Inlet (°F)',
+        'Outlet (°F)',
+        'Heat Loss (Btu/h)',
+        'Btu/h per ft',
+        'Surface (°F)',
+        'Condensation',
+        'No-Condensation Thickness (in)',
+        'ASHRAE 90.1 Min (in)',
+        'Meets 90.1',
+      ],
+      ...pipeHeatLoss.sections.map(s => [
+        s.sectionName,
+        getInsulationDisplayName(s.insulationType),
+        s.insulationThicknessIn,
+        s.inletTempF,
+        s.outletTempF,
+        s.heatLossBtuh,
+        s.heatLossBtuhPerFt,
+        s.surfaceTempF,
+        s.condensation ? 'Yes' : 'No',
+        s.condensationThicknessIn,
+        s.ashraeMinThicknessIn,
+        s.meetsAshrae ? 'Yes' : 'No',
+      ]),
+      [],
+      ['Total Heat Loss (Btu/h)', pipeHeatLoss.totalHeatLossBtuh],
+    ]
+    const heatLossSheet = XLSX.utils.aoa_to_sheet(heatLossData)
+    heatLossSheet['!cols'] = [
+      { wch: 25 },
+      { wch: 22 },
+      { wch: 14 },
+      { wch: 10 },
+      { wch: 11 },
+      { wch: 16 },
+      { wch: 12 },
+      { wch: 12 },
+      { wch: 13 },
+      { wch: 28 },
+      { wch: 20 },
+      { wch: 11 },
+    ]
+    XLSX.utils.book_append_sheet(workbook, heatLossSheet, 'Heat Loss')
+  }
+  
+  // =========================================== 
+  // Sheet 7: Warnings
+  // =========================================== 
+  const allWarnings = [
+    ...result.warnings,
+    ...(accessories?.warnings ?? []),
+    ...(balancing?.warnings ?? []),
+    ...(pipeHeatLoss?.warnings ?? []),
+  ]
+  if (allWarnings.length > 0) {
     const warningsData = [
       ['WARNINGS'],
       [],
-      ...result.warnings.map(w => [w]),
+      ...allWarnings.map(w => [w]),
     ]
     const warningsSheet = XLSX.utils.aoa_to_sheet(warningsData)
     warningsSheet['!cols'] = [{ wch: 80 }]
@@ -6,10 +6,13 @@
 import pdfMake from 'pdfmake/build/pdfmake'
 import * as pdfFonts from 'pdfmake/build/vfs_fonts'
 import type { TDocumentDefinitions, Content, TableCell } from 'pdfmake/interfaces'
-import type { HydronicSystem, HydronicPipeSection, HydronicCalculationResult } from '../types/hydronic'
+import type { HydronicSystem, HydronicPipeSection, HydronicCalculationResult, PipeHeatLossResult } from '../types/hydronic'
 import { getPipeMaterial } from '../data/pipeData'
 import { getFluidDisplayName } from '../data/fluidProperties'
+import { getInsulationDisplayName } from '../data/pipeInsulation'
 import { headToPsi, calculatePumpBhp } from '../calculations/hydronic'
+import { calculateHydronicAccessories } from '../calculations/hydronicAccessories'
+import type { PumpSelection } from '../types/pumpCurve'
 
 // Initialize pdfmake fonts
 // @ts-expect-error pdfmake vfs typing issue
@@ -17,16 +20,18 @@ pdfMake.vfs = pdfFonts.pdfMake?.vfs || pdfFonts.default?.pdfMake?.vfs || pdfFont
 
 export async function exportHydronicToPdf(
   system: HydronicSystem,
-  _sections: HydronicPipeSection[], // eslint-disable-line @typescript-eslint/no-unused-vars
+  sections: HydronicPipeSection[],
   result: HydronicCalculationResult,
+  pumpSelection?: PumpSelection | null,
+  pipeHeatLoss?: PipeHeatLossResult | null,
   projectName?: string
 ): Promise<void> {
-  const estimatedBhp = calculatePumpBhp(
-    result.maxFlowGpm,
-    result.totalPumpHeadFt,
-    result.fluidProperties.specificGravity
-  )
+  const operatingPoint = pumpSelection?.operatingPoint
+  const estimatedBhp = operatingPoint
+    ? pumpSelection.totalBhp
+    : calculatePumpBhp(result.maxFlowGpm, result.totalPumpHeadFt, result.fluidProperties.specificGravity)
   const totalHeadPsi = headToPsi(result.totalPumpHeadFt, result.fluidProperties.specificGravity)
+  const accessories = system.systemType === 'closed' ? calculateHydronicAccessories(system, sections, result) : null
   
   const content: Content[] = [
     // Title
@@ -54,9 +59,23 @@ export async function exportHydronicToPdf(
             { text: `${result.maxFlowGpm.toFixed(0)} GPM`, style: 'valueBold' },
           ],
           [
-            { text: 'Estimated BHP', style: 'label' },
+            { text: operatingPoint ? 'BHP (pump curve)' : 'Estimated BHP', style: 'label' },
             { text: `${estimatedBhp.toFixed(2)} HP`, style: 'value' },
           ],
+          ...(pumpSelection && operatingPoint ? [
+            [
+              { text: 'Selected Pump', style: 'label' },
+              { text: `${pumpSelection.curve.model}, ${pumpSelection.curve.impellerIn}" impeller, ${pumpSelection.curve.rpm} RPM, ${pumpSelection.curve.motorHp} HP`, style: 'value' },
+            ],
+            [
+              { text: 'Pumps', style: 'label' },
+              { text: `${pumpSelection.arrangement.dutyPumps} duty${pumpSelection.arrangement.standbyPumps > 0 ? ` + ${pumpSelection.arrangement.standbyPumps} standby` : ''}${pumpSelection.arrangement.vfd ? ', VFD' : ''}`, style: 'value' },
+            ],
+            [
+              { text: 'Operating Point', style: 'label' },
+              { text: `${operatingPoint.gpm.toFixed(0)} GPM @ ${operatingPoint.headFt.toFixed(1)} ft, ${(operatingPoint.efficiency * 100).toFixed(0)}% eff., ${(operatingPoint.speedRatio * 100).toFixed(0)}% speed, NPSHr ${operatingPoint.npshrFt.toFixed(1)} ft`, style: 'value' },
+            ],
+          ] as TableCell[][] : []),
           [
             { text: 'System Type', style: 'label' },
             { text: system.systemType === 'closed' ? 'Closed Loop' : 'Open Loop', style: 'value' },
@@ -139,6 +158,50 @@ export async function exportHydronicToPdf(
       margin: [0, 0, 0, 15],
     },
     
+    // Closed Loop Accessories
+    ...(accessories ? [{
+      table: {
+        widths: ['*', '*', '*', '*'],
+        body: [
+          [
+            { text: 'CLOSED LOOP ACCESSORIES', style: 'sectionHeader', colSpan: 4, fillColor: '#374151' },
+            {}, {}, {},
+          ],
+          [
+            { text: 'Expansion Tank', style: 'smallLabel' },
+            { text: `${accessories.expansionTank.tankCount > 1 ? `${accessories.expansionTank.tankCount} × ` : ''}${accessories.expansionTank.tankSizeGal} gal diaphragm`, style: 'smallValue' },
+            { text: 'Required Volume', style: 'smallLabel' },
+            { text: `${accessories.expansionTank.requiredTankGal.toFixed(1)} gal`, style: 'smallValue' },
+          ],
+          [
+            { text: 'Fill / Max Pressure', style: 'smallLabel' },
+            { text: `${accessories.expansionTank.fillPressurePsig} / ${accessories.expansionTank.maxPressurePsig} psig`, style: 'smallValue' },
+            { text: 'Temperature Range', style: 'smallLabel' },
+            { text: `${accessories.expansionTank.fillTempF}–${accessories.expansionTank.maxTempF}°F`, style: 'smallValue' },
+          ],
+          [
+            { text: 'System Volume', style: 'smallLabel' },
+            { text: `${accessories.expansionTank.systemVolumeGal.toFixed(1)} gal (incl. equipment)`, style: 'smallValue' },
+            { text: 'Expansion Volume', style: 'smallLabel' },
+            { text: `${accessories.expansionTank.expansionVolumeGal.toFixed(2)} gal (${accessories.expansionTank.fluidExpansionPct.toFixed(2)}%)`, style: 'smallValue' },
+          ],
+          [
+            { text: 'Air Separator', style: 'smallLabel' },
+            { text: `${accessories.airSeparator.connectionSize}" tangential (${accessories.airSeparator.ratedGpm} GPM)`, style: 'smallValue' },
+            { text: accessories.glycolFill ? 'Glycol Fill' : '', style: 'smallLabel' },
+            {
+              text: accessories.glycolFill
+                ? `${accessories.glycolFill.concentrateGal} gal concentrate + ${accessories.glycolFill.waterGal} gal water, $${accessories.glycolFill.cost.toLocaleString()}`
+                : '',
+              style: 'smallValue',
+            },
+          ],
+        ],
+      },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 15],
+    }] as Content[] : []),
+    
     // Pipe Sections Table
     { text: 'PIPE SECTIONS', style: 'sectionHeaderText', margin: [0, 10, 0, 5] },
     {
@@ -171,11 +234,55 @@ export async function exportHydronicToPdf(
       },
     },
     
+    // Pipe Heat Loss & Insulation
+    ...(pipeHeatLoss && pipeHeatLoss.sections.length > 0 ? [
+      {
+        text: `PIPE HEAT LOSS & INSULATION (${pipeHeatLoss.ambientTempF}°F ambient, ${pipeHeatLoss.dewPointF}°F dew point)`,
+        style: 'sectionHeaderText',
+        margin: [0, 15, 0, 5],
+      },
+      {
+        table: {
+          headerRows: 1,
+          widths: ['*', 85, 55, 45, 45, 50, 45],
+          body: [
+            [
+              { text: 'Section', style: 'tableHeader' },
+              { text: 'Insulation', style: 'tableHeader' },
+              { text: 'Loss (Btu/h)', style: 'tableHeader' },
+              { text: 'ΔT', style: 'tableHeader' },
+              { text: 'Surface', style: 'tableHeader' },
+              { text: '90.1 Min', style: 'tableHeader' },
+              { text: 'Status', style: 'tableHeader' },
+            ],
+            ...pipeHeatLoss.sections.map(s => [
+              { text: s.sectionName, style: 'tableCell' },
+              { text: s.insulationType === 'none' ? 'None' : `${s.insulationThicknessIn}" ${getInsulationDisplayName(s.insulationType)}`, style: 'tableCell', fontSize: 7 },
+              { text: s.heatLossBtuh.toLocaleString(), style: 'tableCell', alignment: 'right' },
+              { text: `${s.tempChangeF.toFixed(2)}°F`, style: 'tableCell', alignment: 'center' },
+              { text: `${s.surfaceTempF.toFixed(0)}°F`, style: 'tableCell', alignment: 'center' },
+              { text: s.ashraeMinThicknessIn !== null ? `${s.ashraeMinThicknessIn}"` : '-', style: 'tableCell', alignment: 'center' },
+              { text: s.condensation ? 'Condenses' : s.meetsAshrae ? 'OK' : 'Below min', style: 'tableCell', alignment: 'center' },
+            ] as TableCell[]),
+            [
+              { text: 'TOTAL', style: 'tableCell', bold: true },
+              { text: '' },
+              { text: pipeHeatLoss.totalHeatLossBtuh.toLocaleString(), style: 'tableCell', alignment: 'right', bold: true },
+              { text: '' }, { text: '' }, { text: '' }, { text: '' },
+            ] as TableCell[],
+          ],
+        },
+        layout: {
+          fillColor: (rowIndex: number) => rowIndex === 0 ? '#4b5563' : (rowIndex % 2 === 0 ? '#f9fafb' : null),
+        },
+      },
+    ] as Content[] : []),
+    
     // Warnings
-    ...(result.warnings.length > 0 ? [
+    ...(result.warnings.length > 0 || accessories?.warnings.length || pipeHeatLoss?.warnings.length ? [
       { text: 'WARNINGS', style: 'warningHeader', margin: [0, 20, 0, 5] },
       {
-        ul: result.warnings,
+        ul: [...result.warnings, ...(accessories?.warnings ?? []), ...(pipeHeatLoss?.warnings ?? [])],
         style: 'warningText',
       },
     ] as Content[] : []),
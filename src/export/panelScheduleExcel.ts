@@ -0,0 +1,121 @@
+// ===========================================
+// PANEL SCHEDULE EXCEL EXPORT
+// MDP feeder schedule + one sheet per branch panel
+// ===========================================
+
+import * as XLSX from 'xlsx'
+import type { PanelSchedule, PanelScheduleResult } from '../types/electrical'
+import { getPanelPositionMap, getPositionPhase, formatPanelVoltage } from '../calculations/panelSchedule'
+
+function buildPanelRows(panel: PanelSchedule): (string | number | null)[][] {
+  const positionMap = getPanelPositionMap(panel)
+  const rows: (string | number | null)[][] = []
+
+  const cellsFor = (position: number): (string | number | null)[] => {
+    const circuit = positionMap.get(position)
+    if (!circuit) return [position, 'SPACE', null, null, null]
+    // Continuation poles of multi-pole breakers
+    if (circuit.number !== position) return [position, '↑', null, null, null]
+    return [
+      position,
+      `${circuit.source} - ${circuit.description}`,
+      Math.round(circuit.loadVA),
+      circuit.breakerAmps,
+      circuit.poles,
+    ]
+  }
+
+  for (let row = 0; row < panel.spaces / 2; row++) {
+    const left = row * 2 + 1
+    const right = row * 2 + 2
+    rows.push([...cellsFor(left), getPositionPhase(left, panel.phase), ...cellsFor(right)])
+  }
+  return rows
+}
+
+export function exportPanelSchedulesToExcel(
+  projectName: string,
+  schedule: PanelScheduleResult
+): void {
+  const workbook = XLSX.utils.book_new()
+  const { mdp } = schedule
+
+  // ===========================================
+  // Sheet 1: MDP / Switchboard
+  // ===========================================
+  const mdpData: (string | number | null)[][] = [
+    ['MAIN DISTRIBUTION PANEL - FEEDER SCHEDULE'],
+    [],
+    ['Project', projectName],
+    ['Switchboard', mdp.name],
+    ['Voltage', formatPanelVoltage(mdp.voltageLL, mdp.voltageLN, mdp.phase)],
+    ['Main Breaker (A)', mdp.mainBreakerAmps],
+    ['Bus Rating (A)', mdp.busAmps],
+    ['Connected Load (kVA)', Math.round(mdp.connectedVA / 100) / 10],
+    ['Demand Load (kVA)', Math.round(mdp.demandVA / 100) / 10],
+    ['Demand Current (A)', Math.round(mdp.demandAmps)],
+    ['Generated', new Date().toLocaleDateString()],
+    [],
+    ['Feeder', 'Serves', 'Connected kVA', 'Demand kVA', 'Poles', 'Breaker (A)'],
+    ...mdp.feeders.map(f => [
+      f.description,
+      f.load,
+      Math.round(f.connectedVA / 100) / 10,
+      Math.round(f.demandVA / 100) / 10,
+      f.poles,
+      f.breakerAmps,
+    ]),
+  ]
+  const mdpSheet = XLSX.utils.aoa_to_sheet(mdpData)
+  mdpSheet['!cols'] = [{ wch: 50 }, { wch: 25 }, { wch: 14 }, { wch: 12 }, { wch: 8 }, { wch: 12 }]
+  XLSX.utils.book_append_sheet(workbook, mdpSheet, 'MDP')
+
+  // ===========================================
+  // One sheet per branch panel
+  // ===========================================
+  schedule.panels.forEach(panel => {
+    const panelData: (string | number | null)[][] = [
+      [`PANEL ${panel.name}`],
+      [],
+      ['Voltage', formatPanelVoltage(panel.voltageLL, panel.voltageLN, panel.phase)],
+      ['Fed From', panel.fedFrom],
+      ...(panel.transformerKVA ? [['Transformer', `${panel.transformerKVA} kVA`]] : []),
+      ['Main Breaker (A)', panel.mainBreakerAmps],
+      ['Bus Rating (A)', panel.busAmps],
+      ['Zones Served', panel.zones.join(', ')],
+      [],
+      ['Ckt', 'Description', 'VA', 'Bkr', 'P', 'Phase', 'Ckt', 'Description', 'VA', 'Bkr', 'P'],
+      ...buildPanelRows(panel),
+      [],
+      ['PHASE LOADS (VA)'],
+      ['Phase A', Math.round(panel.phaseVA.A)],
+      ['Phase B', Math.round(panel.phaseVA.B)],
+      ...(panel.phase === 3 ? [['Phase C', Math.round(panel.phaseVA.C)]] : []),
+      ['Imbalance', `${panel.imbalancePercent.toFixed(1)}%`],
+      [],
+      ['Connected Load (kVA)', Math.round(panel.connectedVA / 100) / 10],
+      ['Demand Load (kVA)', Math.round(panel.demandVA / 100) / 10],
+      ['Demand Current (A)', Math.round(panel.demandAmps)],
+    ]
+    const panelSheet = XLSX.utils.aoa_to_sheet(panelData)
+    panelSheet['!cols'] = [
+      { wch: 6 }, { wch: 35 }, { wch: 8 }, { wch: 6 }, { wch: 4 },
+      { wch: 7 },
+      { wch: 6 }, { wch: 35 }, { wch: 8 }, { wch: 6 }, { wch: 4 },
+    ]
+    XLSX.utils.book_append_sheet(workbook, panelSheet, panel.name)
+  })
+
+  // ===========================================
+  // Warnings
+  // ===========================================
+  if (schedule.warnings.length > 0) {
+    const warningsSheet = XLSX.utils.aoa_to_sheet([['WARNINGS'], [], ...schedule.warnings.map(w => [w])])
+    warningsSheet['!cols'] = [{ wch: 80 }]
+    XLSX.utils.book_append_sheet(workbook, warningsSheet, 'Warnings')
+  }
+
+  // Download
+  const filename = `${(projectName || 'Project').replace(/[^a-z0-9]/gi, '_')}_Panel_Schedules.xlsx`
+  XLSX.writeFile(workbook, filename)
+}
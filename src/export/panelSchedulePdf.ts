@@ -0,0 +1,298 @@
+// ===========================================
+// PANEL SCHEDULE PDF EXPORT
+// MDP feeder schedule followed by one page per branch panel
+// ===========================================
+
+import pdfMake from 'pdfmake/build/pdfmake'
+import * as pdfFonts from 'pdfmake/build/vfs_fonts'
+import type { TDocumentDefinitions, Content, TableCell } from 'pdfmake/interfaces'
+import type { PanelSchedule, PanelScheduleResult } from '../types/electrical'
+import { getPanelPositionMap, getPositionPhase, formatPanelVoltage } from '../calculations/panelSchedule'
+
+// Initialize pdfmake fonts
+// @ts-expect-error pdfmake vfs typing issue
+pdfMake.vfs = pdfFonts.pdfMake?.vfs || pdfFonts.default?.pdfMake?.vfs || pdfFonts
+
+const kva = (va: number) => (va / 1000).toFixed(1)
+
+function panelCells(position: number, positionMap: ReturnType<typeof getPanelPositionMap>): TableCell[] {
+  const circuit = positionMap.get(position)
+  if (!circuit) {
+    return [
+      { text: `${position}`, style: 'tableCell', alignment: 'center' },
+      { text: 'SPACE', style: 'tableCell', color: '#9ca3af' },
+      { text: '', style: 'tableCell' },
+      { text: '', style: 'tableCell' },
+    ]
+  }
+  const isFirstPole = circuit.number === position
+  return [
+    { text: `${position}`, style: 'tableCell', alignment: 'center' },
+    { text: isFirstPole ? `${circuit.source} - ${circuit.description}` : '', style: 'tableCell' },
+    { text: Math.round(circuit.loadVA / circuit.poles).toLocaleString(), style: 'tableCell', alignment: 'right' },
+    { text: isFirstPole ? `${circuit.breakerAmps}/${circuit.poles}` : '', style: 'tableCell', alignment: 'center' },
+  ]
+}
+
+function panelContent(panel: PanelSchedule): Content[] {
+  const positionMap = getPanelPositionMap(panel)
+  const rows: TableCell[][] = []
+  for (let row = 0; row < panel.spaces / 2; row++) {
+    const left = row * 2 + 1
+    const right = row * 2 + 2
+    // Right side mirrors the left: Bkr | VA | Description | Ckt
+    const rightCells = panelCells(right, positionMap).reverse()
+    rows.push([
+      ...panelCells(left, positionMap),
+      { text: getPositionPhase(left, panel.phase), style: 'tableCell', alignment: 'center', bold: true },
+      ...rightCells,
+    ])
+  }
+
+  return [
+    { text: `PANEL ${panel.name}`, style: 'title', pageBreak: 'before' },
+    {
+      text: `${formatPanelVoltage(panel.voltageLL, panel.voltageLN, panel.phase)} • ${panel.busAmps}A bus • ${panel.mainBreakerAmps}A main • Fed from ${panel.fedFrom}${panel.transformerKVA ? ` (${panel.transformerKVA} kVA)` : ''}`,
+      style: 'subtitle',
+    },
+    { text: `Serves: ${panel.zones.join(', ')}`, style: 'date', margin: [0, 0, 0, 10] },
+    {
+      table: {
+        headerRows: 1,
+        widths: [20, '*', 35, 30, 20, 30, 35, '*', 20],
+        body: [
+          [
+            { text: 'Ckt', style: 'tableHeader' },
+            { text: 'Description', style: 'tableHeader' },
+            { text: 'VA', style: 'tableHeader' },
+            { text: 'Bkr', style: 'tableHeader' },
+            { text: 'Ph', style: 'tableHeader' },
+            { text: 'Bkr', style: 'tableHeader' },
+            { text: 'VA', style: 'tableHeader' },
+            { text: 'Description', style: 'tableHeader' },
+            { text: 'Ckt', style: 'tableHeader' },
+          ],
+          ...rows,
+        ],
+      },
+      layout: {
+        fillColor: (rowIndex: number) => rowIndex === 0 ? '#4b5563' : (rowIndex % 2 === 0 ? '#f9fafb' : null),
+      },
+    },
+    {
+      table: {
+        widths: ['*', '*', '*', '*'],
+        body: [
+          [
+            { text: 'Phase A', style: 'smallLabel' },
+            { text: `${kva(panel.phaseVA.A)} kVA`, style: 'smallValue' },
+            { text: 'Connected', style: 'smallLabel' },
+            { text: `${kva(panel.connectedVA)} kVA`, style: 'smallValue' },
+          ],
+          [
+            { text: 'Phase B', style: 'smallLabel' },
+            { text: `${kva(panel.phaseVA.B)} kVA`, style: 'smallValue' },
+            { text: 'Demand (NEC 220)', style: 'smallLabel' },
+            { text: `${kva(panel.demandVA)} kVA`, style: 'smallValue' },
+          ],
+          [
+            { text: panel.phase === 3 ? 'Phase C' : '', style: 'smallLabel' },
+            { text: panel.phase === 3 ? `${kva(panel.phaseVA.C)} kVA` : '', style: 'smallValue' },
+            { text: 'Demand Current', style: 'smallLabel' },
+            { text: `${Math.round(panel.demandAmps)} A`, style: 'smallValue' },
+          ],
+          [
+            { text: 'Imbalance', style: 'smallLabel' },
+            { text: `${panel.imbalancePercent.toFixed(1)}%`, style: 'smallValue' },
+            { text: '', style: 'smallLabel' },
+            { text: '', style: 'smallValue' },
+          ],
+        ],
+      },
+      layout: 'lightHorizontalLines',
+      margin: [0, 10, 0, 0],
+    },
+  ]
+}
+
+export async function exportPanelSchedulesToPdf(
+  projectName: string,
+  schedule: PanelScheduleResult
+): Promise<void> {
+  const { mdp } = schedule
+
+  const content: Content[] = [
+    // Title
+    { text: 'PANEL SCHEDULES', style: 'title' },
+    { text: `Project: ${projectName}`, style: 'projectName' },
+    { text: `Generated: ${new Date().toLocaleDateString()}`, style: 'date' },
+    { text: '', margin: [0, 15, 0, 0] },
+
+    // MDP Summary
+    {
+      table: {
+        widths: ['*', '*'],
+        body: [
+          [
+            { text: `${mdp.name} - MAIN DISTRIBUTION`, style: 'sectionHeader', colSpan: 2, fillColor: '#d97706' },
+            {},
+          ],
+          [
+            { text: 'Voltage', style: 'label' },
+            { text: formatPanelVoltage(mdp.voltageLL, mdp.voltageLN, mdp.phase), style: 'value' },
+          ],
+          [
+            { text: 'Main Breaker / Bus', style: 'label' },
+            { text: `${mdp.mainBreakerAmps}A / ${mdp.busAmps}A`, style: 'valueHighlight' },
+          ],
+          [
+            { text: 'Connected Load', style: 'label' },
+            { text: `${kva(mdp.connectedVA)} kVA`, style: 'value' },
+          ],
+          [
+            { text: 'Demand Load (NEC 220)', style: 'label' },
+            { text: `${kva(mdp.demandVA)} kVA (${Math.round(mdp.demandAmps)} A)`, style: 'valueBold' },
+          ],
+        ],
+      },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 15],
+    },
+
+    // Feeder Schedule
+    { text: 'FEEDER SCHEDULE', style: 'sectionHeaderText', margin: [0, 10, 0, 5] },
+    {
+      table: {
+        headerRows: 1,
+        widths: ['*', 60, 60, 30, 45],
+        body: [
+          [
+            { text: 'Feeder', style: 'tableHeader' },
+            { text: 'Connected', style: 'tableHeader' },
+            { text: 'Demand', style: 'tableHeader' },
+            { text: 'Poles', style: 'tableHeader' },
+            { text: 'Breaker', style: 'tableHeader' },
+          ],
+          ...mdp.feeders.map(f => [
+            { text: f.description, style: 'tableCell' },
+            { text: `${kva(f.connectedVA)} kVA`, style: 'tableCell', alignment: 'right' },
+            { text: `${kva(f.demandVA)} kVA`, style: 'tableCell', alignment: 'right' },
+            { text: `${f.poles}`, style: 'tableCell', alignment: 'center' },
+            { text: `${f.breakerAmps}A`, style: 'tableCell', alignment: 'right' },
+          ] as TableCell[]),
+        ],
+      },
+      layout: {
+        fillColor: (rowIndex: number) => rowIndex === 0 ? '#4b5563' : (rowIndex % 2 === 0 ? '#f9fafb' : null),
+      },
+    },
+
+    // Warnings
+    ...(schedule.warnings.length > 0 ? [
+      { text: 'WARNINGS', style: 'warningHeader', margin: [0, 20, 0, 5] },
+      {
+        ul: schedule.warnings,
+        style: 'warningText',
+      },
+    ] as Content[] : []),
+
+    // Branch panels
+    ...schedule.panels.flatMap(panelContent),
+  ]
+
+  const docDefinition: TDocumentDefinitions = {
+    pageSize: 'LETTER',
+    pageMargins: [30, 40, 30, 40],
+    content,
+    styles: {
+      title: {
+        fontSize: 18,
+        bold: true,
+        color: '#1f2937',
+        margin: [0, 0, 0, 2],
+      },
+      subtitle: {
+        fontSize: 11,
+        color: '#4b5563',
+        margin: [0, 0, 0, 2],
+      },
+      projectName: {
+        fontSize: 10,
+        color: '#6b7280',
+      },
+      date: {
+        fontSize: 9,
+        color: '#9ca3af',
+      },
+      sectionHeader: {
+        fontSize: 10,
+        bold: true,
+        color: '#ffffff',
+        margin: [5, 5, 5, 5],
+      },
+      sectionHeaderText: {
+        fontSize: 11,
+        bold: true,
+        color: '#374151',
+      },
+      label: {
+        fontSize: 10,
+        color: '#4b5563',
+        margin: [5, 4, 5, 4],
+      },
+      value: {
+        fontSize: 10,
+        color: '#1f2937',
+        margin: [5, 4, 5, 4],
+      },
+      valueBold: {
+        fontSize: 10,
+        bold: true,
+        color: '#1f2937',
+        margin: [5, 4, 5, 4],
+      },
+      valueHighlight: {
+        fontSize: 12,
+        bold: true,
+        color: '#d97706',
+        margin: [5, 4, 5, 4],
+      },
+      smallLabel: {
+        fontSize: 8,
+        color: '#6b7280',
+        margin: [3, 2, 3, 2],
+      },
+      smallValue: {
+        fontSize: 9,
+        color: '#1f2937',
+        margin: [3, 2, 3, 2],
+      },
+      tableHeader: {
+        fontSize: 8,
+        bold: true,
+        color: '#ffffff',
+        margin: [2, 3, 2, 3],
+      },
+      tableCell: {
+        fontSize: 7,
+        color: '#374151',
+        margin: [2, 2, 2, 2],
+      },
+      warningHeader: {
+        fontSize: 10,
+        bold: true,
+        color: '#d97706',
+      },
+      warningText: {
+        fontSize: 9,
+        color: '#92400e',
+      },
+    },
+    defaultStyle: {
+      fontSize: 10,
+    },
+  }
+
+  const filename = `${(projectName || 'Project').replace(/[^a-z0-9]/gi, '_')}_Panel_Schedules.pdf`
+  pdfMake.createPdf(docDefinition).download(filename)
+}
@@ -2,6 +2,8 @@ import pdfMake from 'pdfmake/build/pdfmake'
 import * as pdfFonts from 'pdfmake/build/vfs_fonts'
 import type { TDocumentDefinitions, Content } from 'pdfmake/interfaces'
 import type { Project, Zone, CalculationResults, ZoneFixtures } from '../types'
+import type { FaultCurrentResult } from '../types/electrical'
+import { formatHVACLoadMethod } from '../calculations/hvac'
 
 // Initialize pdfmake fonts
 // @ts-expect-error pdfmake vfs typing issue
@@ -59,6 +61,7 @@ export async function exportToPDF(
       { text: 'Air Conditioning / Heating:', style: 'subHeader' },
       {
         ul: [
+          `Load Method: ${formatHVACLoadMethod(results.hvac)}`,
           `Space Cooling: ${results.hvac.totalTons} Tons (${Math.round(totalSF / results.hvac.totalTons)} SF/Ton)`,
           ...(results.hvac.poolChillerTons > 0 ? [`Pool Chiller: ${results.hvac.poolChillerTons} Tons`] : []),
           ...(results.hvac.dehumidLbHr > 0 ? [`Dehumidification: ${results.hvac.dehumidLbHr} lb/hr (~${results.hvac.dehumidTons || Math.round(results.hvac.dehumidLbHr * 0.2)} Tons)`] : []),
@@ -89,11 +92,16 @@ export async function exportToPDF(
           `Estimated service size: ${results.electrical.amps_208v.toLocaleString()}A at 208V/3PH, 4W (or ${results.electrical.amps_480v.toLocaleString()}A at 480V/3PH, 4W)`,
           'Service based on: mechanical/plumbing loads, pool equipment, elevator, and general lighting/receptacle at 3 VA/SF.',
           `Approximately ${results.electrical.panelCount} panelboards required for distribution.`,
-          'A ~60kW generator shall be provided for emergency and standby loads.',
+          results.electrical.generator?.recommendedKW === 0
+            ? 'No emergency or standby loads identified - generator not required.'
+            : results.electrical.generator
+            ? `A ${results.electrical.generator.recommendedKW}kW ${results.electrical.generator.fuelType === 'diesel' ? 'diesel' : 'natural gas'} generator shall be provided for emergency and standby loads (${Math.round(results.electrical.generator.runningKW)}kW running).`
+            : 'A ~60kW generator shall be provided for emergency and standby loads.',
           'Fire alarm: Manual system with horn/strobe notification devices.',
         ],
         style: 'list',
       },
+      ...(results.electrical.faultCurrent ? createFaultCurrentTable(results.electrical.faultCurrent) : []),
       createRecommendationBox('Electrical', [
         'Landlord to provide incoming utility and coordination with utility company.',
         `Landlord to provide main switchboard rated ${results.electrical.recommendedService}.`,
@@ -192,6 +200,45 @@ function createRecommendationBox(system: string, recommendations: string[]): Con
   }
 }
 
+function createFaultCurrentTable(faultCurrent: FaultCurrentResult): Content[] {
+  return [
+    { text: 'Available Fault Current:', style: 'subHeader' },
+    {
+      text: `Utility transformer ${faultCurrent.utilityTransformerKVA} kVA @ ${faultCurrent.utilityImpedancePercent}%Z - ${(faultCurrent.transformerFaultA / 1000).toFixed(1)} kA at secondary terminals (point-to-point method, infinite primary).`,
+      fontSize: 8,
+      margin: [0, 0, 0, 4],
+    },
+    {
+      table: {
+        headerRows: 1,
+        widths: ['auto', '*', 'auto', 'auto', 'auto', 'auto'],
+        body: [
+          [
+            { text: 'Bus', style: 'tableHeader' },
+            { text: 'Fed From / Conductors', style: 'tableHeader' },
+            { text: 'f', style: 'tableHeader' },
+            { text: 'Isc (kA)', style: 'tableHeader' },
+            { text: 'Rating (kA)', style: 'tableHeader' },
+            { text: 'Status', style: 'tableHeader' },
+          ],
+          ...faultCurrent.buses.map(bus => [
+            { text: `${bus.name}\n${bus.voltage}V ${bus.phase}PH`, style: 'tableCell' },
+            { text: `${bus.fedFrom}\n${bus.conductor}${bus.lengthFt > 0 ? ` x ${bus.lengthFt} ft` : ''}`, style: 'tableCell', fontSize: 7 },
+            { text: bus.fFactor.toFixed(3), style: 'tableCell' },
+            { text: (bus.faultCurrentA / 1000).toFixed(1), style: 'tableCell', bold: true },
+            { text: bus.aicRatingKA.toString(), style: 'tableCell' },
+            bus.adequate
+              ? { text: 'OK', style: 'tableCell', color: '#15803d' }
+              : { text: `Min. ${bus.requiredAICKA} kA`, style: 'tableCell', color: '#b91c1c', bold: true },
+          ]),
+        ],
+      },
+      margin: [0, 0, 0, 10],
+    },
+    ...(faultCurrent.warnings.length > 0 ? [{ ul: faultCurrent.warnings, style: 'list', color: '#b91c1c' } as Content] : []),
+  ]
+}
+
 function createDetailedAppendix(
   project: Project,
   zones: Zone[],
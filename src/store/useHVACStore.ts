@@ -1,6 +1,7 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { v4 as uuidv4 } from 'uuid'
+import type { ZoneEnvelope } from '../types'
 
 // ============================================
 // HVAC Module Types
@@ -36,6 +37,10 @@ export interface HVACSpace {
   // Pool Configuration (for natatoriums/pool rooms)
   poolConfigs?: PoolConfigRef[]
   poolRoomParams?: PoolRoomParamsRef
+  
+  // Cooling load inputs (RTS hourly profile)
+  envelope?: ZoneEnvelope     // Exterior walls / glazing / roof + equipment and infiltration
+  lightingWsf?: number        // Lighting power density (defaults to the 90.1 allowance)
 }
 
 // Pool configuration reference (stored in HVAC space)
@@ -70,6 +75,12 @@ export interface HVACZone {
   coolingSetpoint: number     // °F (default 75)
   systemId?: string           // Which system this zone belongs to
   sortOrder: number
+  
+  // VAV primary airflow (ASHRAE 62.1 Appendix A, multiple-zone recirculating systems)
+  primaryCfm?: number               // Vpz - design primary airflow
+  minPrimaryCfm?: number            // Vpz-min - minimum expected primary airflow
+  primaryAirFraction?: number       // Ep - primary air fraction of discharge (fan-powered boxes < 1)
+  secondaryRecircFraction?: number  // Er - secondary recirculation from other zones (0-1)
 }
 
 export interface HVACSystem {
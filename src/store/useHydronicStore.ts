@@ -13,6 +13,7 @@ import type {
   SystemType,
   FluidType,
   PipeMaterial,
+  InsulationType,
   HydronicCalculationResult,
 } from '../types/hydronic'
 import { calculateHydronicSystem } from '../calculations/hydronic'
@@ -178,6 +179,20 @@ export const useHydronicStore = create<HydronicState>((set, get) => ({
         if (updates.fluidTempF !== undefined) dbUpdates.fluidTempF = updates.fluidTempF
         if (updates.staticHeadFt !== undefined) dbUpdates.static_head_ft = updates.staticHeadFt
         if (updates.safetyFactor !== undefined) dbUpdates.safety_factor = updates.safetyFactor
+        if (updates.pumpCurveId !== undefined) dbUpdates.pump_curve_id = updates.pumpCurveId
+        if (updates.dutyPumps !== undefined) dbUpdates.duty_pumps = updates.dutyPumps
+        if (updates.standbyPumps !== undefined) dbUpdates.standby_pumps = updates.standbyPumps
+        if (updates.pumpVfd !== undefined) dbUpdates.pump_vfd = updates.pumpVfd
+        if (updates.pumpControlHeadFt !== undefined) dbUpdates.pump_control_head_ft = updates.pumpControlHeadFt
+        if (updates.fillPressurePsig !== undefined) dbUpdates.fill_pressure_psig = updates.fillPressurePsig
+        if (updates.maxPressurePsig !== undefined) dbUpdates.max_pressure_psig = updates.maxPressurePsig
+        if (updates.fillTempF !== undefined) dbUpdates.fill_temp_f = updates.fillTempF
+        if (updates.maxTempF !== undefined) dbUpdates.max_temp_f = updates.maxTempF
+        if (updates.equipmentVolumeGal !== undefined) dbUpdates.equipment_volume_gal = updates.equipmentVolumeGal
+        if (updates.glycolCostPerGal !== undefined) dbUpdates.glycol_cost_per_gal = updates.glycolCostPerGal
+        if (updates.ambientTempF !== undefined) dbUpdates.ambient_temp_f = updates.ambientTempF
+        if (updates.ambientDewPointF !== undefined) dbUpdates.ambient_dew_point_f = updates.ambientDewPointF
+        if (updates.balancingValveModelId !== undefined) dbUpdates.balancing_valve_model_id = updates.balancingValveModelId
         if (updates.notes !== undefined) dbUpdates.notes = updates.notes
         if (updates.projectId !== undefined) dbUpdates.project_id = updates.projectId
         if (updates.personalCalcId !== undefined) dbUpdates.personal_calc_id = updates.personalCalcId
@@ -251,6 +266,9 @@ export const useHydronicStore = create<HydronicState>((set, get) => ({
       pipeSizeNominal: lastSection?.pipeSizeNominal ?? '1',
       lengthFt: 10,
       sortOrder: existingSections.length,
+      fromNode: lastSection?.toNode,
+      insulationType: lastSection?.insulationType,
+      insulationThicknessIn: lastSection?.insulationThicknessIn,
       fittings: [],
       createdAt: new Date(),
     }
@@ -277,6 +295,9 @@ export const useHydronicStore = create<HydronicState>((set, get) => ({
             pipe_size_nominal: newSection.pipeSizeNominal,
             length_ft: newSection.lengthFt,
             sort_order: newSection.sortOrder,
+            from_node: newSection.fromNode ?? null,
+            insulation_type: newSection.insulationType ?? null,
+            insulation_thickness_in: newSection.insulationThicknessIn ?? null,
           } as any)
         
         if (error) throw error
@@ -312,6 +333,10 @@ export const useHydronicStore = create<HydronicState>((set, get) => ({
         if (updates.pipeSizeNominal !== undefined) dbUpdates.pipe_size_nominal = updates.pipeSizeNominal
         if (updates.lengthFt !== undefined) dbUpdates.length_ft = updates.lengthFt
         if (updates.sortOrder !== undefined) dbUpdates.sort_order = updates.sortOrder
+        if (updates.fromNode !== undefined) dbUpdates.from_node = updates.fromNode || null
+        if (updates.toNode !== undefined) dbUpdates.to_node = updates.toNode || null
+        if (updates.insulationType !== undefined) dbUpdates.insulation_type = updates.insulationType
+        if (updates.insulationThicknessIn !== undefined) dbUpdates.insulation_thickness_in = updates.insulationThicknessIn
         
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const { error } = await (supabase as any)
@@ -909,6 +934,20 @@ function mapDbToSystem(data: any): HydronicSystem {
     fluidTempF: data.fluid_temp_f || 180,
     staticHeadFt: data.static_head_ft || 0,
     safetyFactor: data.safety_factor || 0.15,
+    pumpCurveId: data.pump_curve_id ?? null,
+    dutyPumps: data.duty_pumps ?? 1,
+    standbyPumps: data.standby_pumps ?? 0,
+    pumpVfd: data.pump_vfd ?? false,
+    pumpControlHeadFt: data.pump_control_head_ft ?? null,
+    fillPressurePsig: data.fill_pressure_psig ?? null,
+    maxPressurePsig: data.max_pressure_psig ?? null,
+    fillTempF: data.fill_temp_f ?? null,
+    maxTempF: data.max_temp_f ?? null,
+    equipmentVolumeGal: data.equipment_volume_gal ?? null,
+    glycolCostPerGal: data.glycol_cost_per_gal ?? null,
+    ambientTempF: data.ambient_temp_f ?? null,
+    ambientDewPointF: data.ambient_dew_point_f ?? null,
+    balancingValveModelId: data.balancing_valve_model_id ?? null,
     notes: data.notes || '',
     createdAt: new Date(data.created_at),
     updatedAt: new Date(data.updated_at),
@@ -925,6 +964,10 @@ function mapDbToSection(data: any): Omit<HydronicPipeSection, 'fittings'> {
     pipeSizeNominal: data.pipe_size_nominal || '1',
     lengthFt: data.length_ft || 10,
     sortOrder: data.sort_order || 0,
+    fromNode: data.from_node ?? undefined,
+    toNode: data.to_node ?? undefined,
+    insulationType: (data.insulation_type as InsulationType) ?? undefined,
+    insulationThicknessIn: data.insulation_thickness_in ?? undefined,
     velocityFps: data.velocity_fps,
     reynoldsNumber: data.reynolds_number,
     frictionFactor: data.friction_factor,
@@ -146,7 +146,7 @@ export function generateDefaultLineItems(
     })
   }
   
-  // 3. Pool heater
+  // 3. Pool heater - placeholder until the Pool Room Calculator sizes it from heat loss
   if (defaults.pool_heater_gas_mbh && defaults.pool_heater_gas_mbh > 0) {
     items.push({
       id: uuidv4(),
@@ -155,7 +155,7 @@ export function generateDefaultLineItems(
       quantity: 1,
       unit: 'MBH',
       value: defaults.pool_heater_gas_mbh,
-      notes: 'Gas pool heater - can switch to electric heat pump'
+      notes: 'Default estimate - use Pool Room Calculator for heat-loss sizing'
     })
   }
   
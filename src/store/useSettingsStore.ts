@@ -2,6 +2,12 @@ import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { zoneDefaults as builtInDefaults, type ZoneDefaults } from '../data/zoneDefaults'
 import type { ZoneType } from '../types'
+import type { EquipmentCatalogItem } from '../types/equipment'
+import { mergeEquipmentCatalog } from '../data/equipmentCatalog'
+import type { UnitCost } from '../types/costEstimate'
+import { mergeUnitCosts } from '../data/costLibrary'
+import type { PumpCurve } from '../types/pumpCurve'
+import { mergePumpCurves } from '../data/pumpCurves'
 import { supabase, isSupabaseConfigured } from '../lib/supabase'
 
 // Track realtime subscription
@@ -157,6 +163,12 @@ interface SettingsState {
   customZoneTypes: string[]
   // Custom ASHRAE space types added by user
   customAshraeSpaceTypes: CustomAshraeSpaceType[]
+  // Equipment catalog edits (same id overrides built-in, new id adds)
+  customEquipment: Record<string, EquipmentCatalogItem>
+  // Cost library rate edits by unit cost id
+  customUnitCosts: Record<string, number>
+  // Pump curve edits (same id overrides built-in, new id adds)
+  customPumpCurves: Record<string, PumpCurve>
   
   // Database-loaded data (single source of truth when available)
   dbAshraeSpaceTypes: DbAshraeSpaceType[]
@@ -189,6 +201,21 @@ interface SettingsState {
   deleteCustomAshraeSpaceType: (id: string) => void
   getCustomAshraeSpaceType: (id: string) => CustomAshraeSpaceType | undefined
   
+  // Equipment catalog actions
+  saveEquipment: (item: EquipmentCatalogItem) => void
+  resetEquipment: (id: string) => void
+  getEquipmentCatalog: () => EquipmentCatalogItem[]
+  
+  // Cost library actions
+  saveUnitCost: (id: string, rate: number) => void
+  resetUnitCost: (id: string) => void
+  getCostLibrary: () => UnitCost[]
+  
+  // Pump curve library actions
+  savePumpCurve: (curve: PumpCurve) => void
+  resetPumpCurve: (id: string) => void
+  getPumpCurves: () => PumpCurve[]
+  
   // Database ASHRAE/Zone actions
   fetchAshraeSpaceTypes: () => Promise<void>
   fetchZoneTypeDefaults: () => Promise<void>
@@ -282,6 +309,9 @@ export const useSettingsStore = create<SettingsState>()(
       customZoneDefaults: {},
       customZoneTypes: [],
       customAshraeSpaceTypes: [],
+      customEquipment: {},
+      customUnitCosts: {},
+      customPumpCurves: {},
       
       // Database-loaded data
       dbAshraeSpaceTypes: [],
@@ -355,6 +385,9 @@ export const useSettingsStore = create<SettingsState>()(
           customZoneDefaults: {},
           customZoneTypes: [],
           customAshraeSpaceTypes: [],
+          customEquipment: {},
+          customUnitCosts: {},
+          customPumpCurves: {},
           electrical: defaultElectrical,
           gas: defaultGas,
           dhw: defaultDHW,
@@ -392,6 +425,66 @@ export const useSettingsStore = create<SettingsState>()(
         return get().customAshraeSpaceTypes.find((st) => st.id === id)
       },
       
+      // Equipment catalog actions
+      saveEquipment: (item) => {
+        set((state) => ({
+          customEquipment: { ...state.customEquipment, [item.id]: item },
+        }))
+        get().saveToDatabase()
+      },
+      
+      resetEquipment: (id) => {
+        set((state) => {
+          const { [id]: _, ...rest } = state.customEquipment
+          return { customEquipment: rest }
+        })
+        get().saveToDatabase()
+      },
+      
+      getEquipmentCatalog: () => {
+        return mergeEquipmentCatalog(get().customEquipment)
+      },
+      
+      // Cost library actions
+      saveUnitCost: (id, rate) => {
+        set((state) => ({
+          customUnitCosts: { ...state.customUnitCosts, [id]: rate },
+        }))
+        get().saveToDatabase()
+      },
+      
+      resetUnitCost: (id) => {
+        set((state) => {
+          const { [id]: _, ...rest } = state.customUnitCosts
+          return { customUnitCosts: rest }
+        })
+        get().saveToDatabase()
+      },
+      
+      getCostLibrary: () => {
+        return mergeUnitCosts(get().customUnitCosts)
+      },
+      
+      // Pump curve library actions
+      savePumpCurve: (curve) => {
+        set((state) => ({
+          customPumpCurves: { ...state.customPumpCurves, [curve.id]: curve },
+        }))
+        get().saveToDatabase()
+      },
+      
+      resetPumpCurve: (id) => {
+        set((state) => {
+          const { [id]: _, ...rest } = state.customPumpCurves
+          return { customPumpCurves: rest }
+        })
+        get().saveToDatabase()
+      },
+      
+      getPumpCurves: () => {
+        return mergePumpCurves(get().customPumpCurves)
+      },
+      
       // Database ASHRAE/Zone actions
       fetchAshraeSpaceTypes: async () => {
         console.log('[ASHRAE] fetchAshraeSpaceTypes: Starting...')
@@ -693,6 +786,9 @@ export const useSettingsStore = create<SettingsState>()(
               climate: settings.climate || defaultClimate,
               customZoneDefaults: settings.custom_zone_defaults || {},
               customZoneTypes: settings.custom_zone_types || [],
+              customEquipment: settings.custom_equipment || {},
+              customUnitCosts: settings.custom_unit_costs || {},
+              customPumpCurves: settings.custom_pump_curves || {},
               isLoading: false,
               lastSyncedAt: settings.updated_at,
             })
@@ -726,6 +822,9 @@ export const useSettingsStore = create<SettingsState>()(
               climate: state.climate,
               custom_zone_defaults: state.customZoneDefaults,
               custom_zone_types: state.customZoneTypes,
+              custom_equipment: state.customEquipment,
+              custom_unit_costs: state.customUnitCosts,
+              custom_pump_curves: state.customPumpCurves,
               updated_at: new Date().toISOString(),
             } as any, {
               onConflict: 'id'
@@ -806,6 +905,9 @@ export const useSettingsStore = create<SettingsState>()(
       partialize: (state) => ({
         customZoneDefaults: state.customZoneDefaults,
         customZoneTypes: state.customZoneTypes,
+        customEquipment: state.customEquipment,
+        customUnitCosts: state.customUnitCosts,
+        customPumpCurves: state.customPumpCurves,
         electrical: state.electrical,
         gas: state.gas,
         dhw: state.dhw,
@@ -819,6 +921,9 @@ export const useSettingsStore = create<SettingsState>()(
           ...currentState,
           customZoneDefaults: persisted?.customZoneDefaults ?? currentState.customZoneDefaults,
           customZoneTypes: persisted?.customZoneTypes ?? currentState.customZoneTypes,
+          customEquipment: persisted?.customEquipment ?? currentState.customEquipment,
+          customUnitCosts: persisted?.customUnitCosts ?? currentState.customUnitCosts,
+          customPumpCurves: persisted?.customPumpCurves ?? currentState.customPumpCurves,
           // Deep merge each settings object to ensure new fields get defaults
           electrical: mergeWithDefaults<ElectricalSettings>(persisted?.electrical, defaultElectrical),
           gas: mergeWithDefaults<GasSettings>(persisted?.gas, defaultGas),
@@ -869,6 +974,9 @@ export const initializeSettings = async () => {
               climate: settings.climate || useSettingsStore.getState().climate,
               customZoneDefaults: settings.custom_zone_defaults || useSettingsStore.getState().customZoneDefaults,
               customZoneTypes: settings.custom_zone_types || useSettingsStore.getState().customZoneTypes,
+              customEquipment: settings.custom_equipment || useSettingsStore.getState().customEquipment,
+              customUnitCosts: settings.custom_unit_costs || useSettingsStore.getState().customUnitCosts,
+              customPumpCurves: settings.custom_pump_curves || useSettingsStore.getState().customPumpCurves,
               lastSyncedAt: settings.updated_at,
             })
           }
@@ -0,0 +1,62 @@
+// ===========================================
+// CONCEPTUAL MEP COST ESTIMATE TYPES
+// Unit-cost library, project adjustments and the trade breakdown
+// ===========================================
+
+export type CostTrade = 'hvac' | 'electrical' | 'plumbing'
+
+// Quantity the unit cost is applied to
+export type CostBasis = 'ton' | 'mbh' | 'cfm' | 'lb_hr' | 'kva' | 'sf' | 'fixture' | 'gallon' | 'cfh'
+
+export interface UnitCost {
+  id: string
+  trade: CostTrade
+  name: string
+  basis: CostBasis
+  rate: number             // $ per basis unit, national average installed
+  notes?: string
+}
+
+// Manual line added to a trade, in final dollars (no regional multiplier)
+export interface CostAdjustment {
+  id: string
+  trade: CostTrade
+  description: string
+  amount: number
+}
+
+export interface CostEstimateSettings {
+  regionalMultiplier: number          // Applied to every library-based line
+  region: string                      // Preset the multiplier came from ('custom' when typed in)
+  overrides: Record<string, number>   // Line id → replacement cost ($)
+  adjustments: CostAdjustment[]
+}
+
+export interface CostLineItem {
+  id: string
+  trade: CostTrade
+  description: string
+  quantity: number
+  unit: string
+  rate: number             // $ per unit after the regional multiplier
+  calculatedCost: number
+  cost: number             // Override when set, otherwise calculated
+  overridden: boolean
+  manual: boolean          // From a project adjustment
+}
+
+export interface CostTradeTotal {
+  trade: CostTrade
+  name: string
+  cost: number
+  costPerSf: number
+}
+
+export interface CostEstimateResult {
+  regionalMultiplier: number
+  region: string
+  lines: CostLineItem[]
+  trades: CostTradeTotal[]
+  total: number
+  costPerSf: number
+}
@@ -0,0 +1,396 @@
+// ===========================================
+// ELECTRICAL DESIGN TYPES
+// NEC service load calculation and distribution
+// ===========================================
+
+// NEC Table 220.12 occupancy used for the general lighting unit load
+export type NECOccupancyType =
+  | 'exercise_center'
+  | 'gymnasium'
+  | 'health_care_clinic'
+  | 'hotel'
+  | 'office'
+  | 'restaurant'
+  | 'retail'
+  | 'school'
+  | 'motion_picture_theater'
+  | 'performing_arts_theater'
+  | 'convention_center'
+  | 'warehouse'
+  | 'parking_garage'
+  | 'dwelling_unit'
+  | 'none'
+
+// How a load is treated in the NEC Article 220 calculation
+export type NECLoadCategory =
+  | 'general_lighting'   // 220.12 unit load (continuous)
+  | 'receptacle'         // 220.14(I) / 220.44 demand
+  | 'continuous'         // 215.2(A)(1) / 230.42(A)(1) at 125%
+  | 'noncontinuous'      // 100%
+  | 'kitchen'            // 220.56 commercial kitchen equipment
+  | 'motor'              // 220.50 / 430.24 motors
+  | 'heating'            // 220.51 fixed electric space heating
+  | 'cooling'            // 440 A/C and refrigeration
+  | 'ev_charging'        // 625.41 / 625.42 EVSE at 125%, EMS setpoint where managed
+
+// A single load contributing to the service calculation
+export interface NEC220LoadItem {
+  source: string              // Zone or equipment name
+  zoneId?: string             // Set on zone loads
+  description: string
+  category: NECLoadCategory
+  connectedVA: number         // Nameplate / unit-load VA (all units)
+  quantity: number
+  unitVA: number              // VA per unit (for largest-motor and kitchen rules)
+}
+
+// One row of the code-traceable calculation summary
+export interface NEC220CalcLine {
+  article: string             // e.g., "220.12", "220.44"
+  description: string
+  connectedVA: number
+  demandFactor: number        // Effective factor applied (demandVA / connectedVA)
+  demandVA: number
+}
+
+export interface NEC220Options {
+  voltage: number
+  phase: 1 | 3
+  spareCapacity: number                // Design spare (not a code requirement)
+  useEnergyCodeLighting?: boolean      // 220.12(B): use design W/SF in lieu of Table 220.12
+  evCharging?: EVChargingResult        // EV chargers as a separate load category
+}
+
+export interface NEC220Result {
+  items: NEC220LoadItem[]
+  lines: NEC220CalcLine[]
+  connectedVA: number
+  demandVA: number                     // NEC minimum calculated load
+  noncoincidentLoad: 'heating' | 'cooling' | 'none'  // Which side of 220.60 was kept
+  largestMotorVA: number
+  designVA: number                     // demandVA × (1 + spare)
+  calculatedAmps: number
+  serviceRatingAmps: number            // Next standard rating per 240.6(A)
+  exceedsMaxRating: boolean
+  voltage: number
+  phase: 1 | 3
+  recommendedService: string
+}
+
+// Identifier for mechanical loads passed into the NEC calculation
+export type MechanicalLoadId = 'cooling' | 'heating' | 'pool_chiller' | 'dehumid' | 'dhw' | 'fans' | 'ahu_fans' | 'doas'
+
+export interface MechanicalLoadItem {
+  id: MechanicalLoadId
+  name: string
+  kva: number
+}
+
+// ===========================================
+// PANEL SCHEDULES
+// Branch circuits generated from zones and line items, rolled up to the MDP
+// ===========================================
+
+export type PanelPhase = 'A' | 'B' | 'C'
+
+export interface PanelCircuit {
+  number: number              // First pole position (odd = left, even = right)
+  positions: number[]         // All pole positions occupied
+  source: string              // Zone name
+  description: string
+  category: NECLoadCategory
+  loadVA: number
+  poles: 1 | 2 | 3
+  voltage: number             // Circuit voltage (L-N for 1-pole, L-L for 2/3-pole)
+  amps: number                // Calculated load amps
+  breakerAmps: number         // Standard rating per 240.6(A)
+  phases: PanelPhase[]
+}
+
+export interface PanelSchedule {
+  name: string                // e.g., "LP-1", "HP-1"
+  voltageLL: number
+  voltageLN: number
+  phase: 1 | 3
+  spaces: number
+  fedFrom: string             // "MDP" or transformer name
+  transformerKVA?: number     // Step-down transformer feeding this panel
+  zones: string[]             // Zones served
+  circuits: PanelCircuit[]
+  phaseVA: Record<PanelPhase, number>
+  connectedVA: number
+  demandVA: number            // NEC Article 220 demand for the panel feeder
+  demandAmps: number
+  mainBreakerAmps: number
+  busAmps: number
+  imbalancePercent: number    // (max phase - min phase) / average phase
+}
+
+export interface SwitchboardFeeder {
+  description: string
+  load: string                // Panel name, transformer, or equipment served
+  connectedVA: number
+  demandVA: number
+  poles: 1 | 2 | 3
+  breakerAmps: number
+}
+
+export interface SwitchboardSchedule {
+  name: string                // "MDP"
+  voltageLL: number
+  voltageLN: number
+  phase: 1 | 3
+  feeders: SwitchboardFeeder[]
+  connectedVA: number
+  demandVA: number
+  demandAmps: number
+  mainBreakerAmps: number
+  busAmps: number
+}
+
+export interface PanelScheduleOptions {
+  voltage: number             // Service voltage
+  phase: 1 | 3
+  panelSpaces?: number        // Spaces per branch panel (default 42)
+  serviceRatingAmps?: number  // MDP main not smaller than the NEC 220 service rating
+  evCharging?: EVChargingResult  // EV charging fed from its own MDP feeder
+}
+
+export interface PanelScheduleResult {
+  panels: PanelSchedule[]
+  mdp: SwitchboardSchedule
+  warnings: string[]
+}
+
+// ===========================================
+// CONDUCTOR & VOLTAGE DROP SIZING
+// ===========================================
+
+export type ConductorMaterial = 'copper' | 'aluminum'
+export type InsulationTempRating = 60 | 75 | 90
+
+export interface ConductorData {
+  size: string                                   // AWG or kcmil ("12", "4/0", "500")
+  circularMils: number
+  copper: Record<InsulationTempRating, number>   // Table 310.16 ampacity
+  aluminum: Record<InsulationTempRating, number> | null
+  rCopper: number                                // AC resistance, ohms/1000 ft (Ch. 9 Table 9, steel conduit)
+  rAluminum: number | null
+  xL: number                                     // Reactance, ohms/1000 ft (steel conduit)
+  thhnAreaIn2: number                            // Ch. 9 Table 5
+}
+
+export interface ConductorSizingInput {
+  loadAmps: number
+  voltage: number
+  phase: 1 | 3
+  lengthFt: number                     // One-way length
+  material: ConductorMaterial
+  insulationRating: InsulationTempRating
+  terminationRating?: InsulationTempRating   // 110.14(C) - default 75°C
+  ambientTempF: number
+  currentCarryingConductors?: number   // Per raceway, for 310.15(C)(1)
+  continuous?: boolean                 // Size at 125% of load
+  ocpdAmps?: number                    // Defaults to next standard rating above the load
+  parallelSets?: number                // Force a number of parallel sets
+  includeNeutral?: boolean             // Neutral in the raceway (default true)
+  powerFactor?: number                 // For effective Z (default 0.9)
+  targetVoltageDropPercent: number     // Upsize until the drop is at or below this
+}
+
+export interface ConductorSizingResult {
+  conductorSize: string
+  sets: number
+  minimumSize: string                  // Smallest size meeting ampacity (before voltage drop upsizing)
+  upsizedForVoltageDrop: boolean
+  requiredAmps: number                 // Load × 125% where continuous
+  ocpdAmps: number
+  baseAmpacity: number                 // Table 310.16 at insulation rating, per set
+  ambientFactor: number
+  fillFactor: number
+  adjustedAmpacity: number             // All sets, after correction / termination limits
+  egcSize: string                      // 250.122, increased per 250.122(B) when upsized
+  conduitSize: string | null           // EMT per set; null if over 4"
+  conduitFillPercent: number
+  voltageDropV: number
+  voltageDropPercent: number
+  description: string                  // e.g. "(2) sets 4#500 kcmil CU + 1#1/0 CU EGC in 3-1/2\" EMT"
+  warnings: string[]
+}
+
+// Feeder sizing settings stored with the project electrical settings
+export interface FeederSizingSettings {
+  material: ConductorMaterial
+  insulationRating: InsulationTempRating
+  ambientTempF: number
+  targetVoltageDropPercent: number
+  lengthsFt: Record<string, number>    // Feeder name → one-way length
+}
+
+export interface FeederSizingRow {
+  name: string                         // "Service" or the MDP feeder served
+  description: string
+  loadAmps: number
+  voltage: number
+  phase: 1 | 3
+  lengthFt: number
+  result: ConductorSizingResult
+}
+
+// ===========================================
+// SHORT-CIRCUIT STUDY (POINT-TO-POINT)
+// ===========================================
+
+export type RacewayType = 'steel' | 'nonmagnetic'
+
+// Stored with the project electrical settings
+export interface FaultCurrentSettings {
+  utilityTransformerKVA?: number       // Default: next utility size above the service kVA
+  utilityImpedancePercent: number      // Nameplate %Z
+  racewayType: RacewayType
+  stepDownImpedancePercent: number     // Dry-type transformers feeding LP panels
+  secondaryLengthFt: number            // Transformer secondary → panel
+  aicRatingsKA: Record<string, number> // Bus name → equipment interrupting rating
+}
+
+export interface FaultCurrentBus {
+  name: string                         // "MDP", "LP-1", ...
+  fedFrom: string                      // Upstream bus or "Utility"
+  voltage: number                      // Line-to-line
+  phase: 1 | 3
+  conductor: string                    // Upstream conductors / transformer description
+  lengthFt: number
+  fFactor: number                      // Point-to-point "f"
+  multiplier: number                   // M = 1 / (1 + f)
+  faultCurrentA: number                // Available symmetrical RMS
+  aicRatingKA: number
+  requiredAICKA: number                // Next standard rating at or above the fault current
+  adequate: boolean
+}
+
+export interface FaultCurrentResult {
+  utilityTransformerKVA: number
+  utilityImpedancePercent: number
+  secondaryFLA: number
+  transformerFaultA: number            // At the transformer secondary terminals (infinite primary)
+  buses: FaultCurrentBus[]
+  warnings: string[]
+}
+
+// ===========================================
+// EMERGENCY / STANDBY GENERATOR SIZING
+// ===========================================
+
+export type GeneratorLoadClass = 'emergency' | 'legally_required' | 'optional'   // NEC 700 / 701 / 702
+export type GeneratorFuelType = 'diesel' | 'natural_gas'
+export type MotorStartingMethod = 'across_the_line' | 'soft_starter' | 'vfd'
+
+// Stored with the project electrical settings
+export interface GeneratorSizingSettings {
+  fuelType: GeneratorFuelType
+  targetRuntimeHours: number           // On-site fuel at full running load (NFPA 110 class)
+  motorStarting: MotorStartingMethod
+  maxVoltageDipPercent: number         // Transient dip allowed on a motor-starting step
+  includeOptionalStandby: boolean      // Carry zones flagged requires_standby_power
+  egressOnGenerator: boolean           // Egress lighting and fire alarm on the generator (off = battery units)
+}
+
+export interface GeneratorLoadItem {
+  source: string                       // Zone name
+  description: string
+  loadClass: GeneratorLoadClass
+  runningKW: number
+  runningKVA: number
+  isMotor: boolean
+  startingKVA: number                  // Locked-rotor kVA with starting method (running kVA if not a motor)
+}
+
+export interface GeneratorStep {
+  step: number
+  description: string
+  loadKW: number                       // Running kW added on this step
+  startingKVA: number                  // Inrush kVA applied on this step
+  cumulativeKW: number                 // Running kW after this step
+  cumulativeKVA: number
+  requiredKVA: number                  // Generator kVA to hold the transient dip on this step
+}
+
+export interface GeneratorSizingResult {
+  loads: GeneratorLoadItem[]
+  steps: GeneratorStep[]
+  kwByClass: Record<GeneratorLoadClass, number>
+  runningKW: number
+  runningKVA: number
+  largestStepKVA: number
+  recommendedKW: number                // Standard standby rating (0 = no standby loads)
+  recommendedKVA: number               // At 0.8 PF
+  sizedBy: 'running' | 'starting'
+  loadPercent: number                  // Running kW / recommended kW
+  fuelType: GeneratorFuelType
+  fuelPerHour: number                  // gal/hr (diesel) or CFH (natural gas) at running load
+  tankGallons: number | null           // Standard tank for the target runtime (diesel only)
+  runtimeHours: number | null          // Runtime of the selected tank (null = piped natural gas)
+  warnings: string[]
+}
+
+// ===========================================
+// LIGHTING POWER DENSITY COMPLIANCE
+// ===========================================
+
+export type LPDCodeEdition = '90.1-2019' | '90.1-2022'
+
+export interface ZoneLPDCheck {
+  zoneId: string
+  zoneName: string
+  sf: number
+  spaceTypeId: string
+  spaceTypeName: string
+  mappedFrom: 'ventilation' | 'zone_type'   // ASHRAE 62.1 space type link or zone type fallback
+  designLPD: number                        // zone.rates.lighting_w_sf
+  allowedLPD: number | null                // null = exempt
+  designW: number
+  allowedW: number
+  pass: boolean
+}
+
+export interface LPDComplianceResult {
+  code: LPDCodeEdition
+  zones: ZoneLPDCheck[]
+  designW: number                          // Non-exempt zones only
+  allowedW: number
+  exemptSF: number
+  failingZones: number
+  buildingPass: boolean                    // Space-by-space trade-off: total design ≤ total allowance
+}
+
+// ===========================================
+// EV CHARGING (NEC 625)
+// ===========================================
+
+export type EVChargerLevel = 'level1' | 'level2' | 'dcfc'
+
+// Stored with the project electrical settings
+export interface EVChargingSettings {
+  chargers: Record<EVChargerLevel, { count: number; kwPerPort: number }>
+  emsEnabled: boolean                  // 625.42 / 750.30 energy management system
+  emsLimitKW: number                   // EMS setpoint - maximum load on the service
+}
+
+export interface EVChargerGroup {
+  level: EVChargerLevel
+  name: string
+  count: number
+  kwPerPort: number
+  connectedKW: number
+}
+
+export interface EVChargingResult {
+  groups: EVChargerGroup[]
+  ports: number
+  connectedKW: number                  // Nameplate total
+  emsLimitKW: number | null            // null = unmanaged
+  serviceKW: number                    // Load on the service (EMS setpoint if lower than nameplate)
+  designKW: number                     // serviceKW × 125% (625.41 continuous)
+  managedKWPerPort: number             // Average power per port with the EMS cap applied
+  warnings: string[]
+}
@@ -0,0 +1,49 @@
+// ===========================================
+// ELECTRIFICATION COMPARISON TYPES
+// Plant fuel variants run through the full calculation pipeline
+// ===========================================
+
+import type { HVACSystemType } from './index'
+
+export type ElectrificationScenarioId = 'current' | 'all_gas' | 'hybrid' | 'all_electric' | 'heat_pump_dhw'
+
+export interface ElectrificationScenario {
+  id: ElectrificationScenarioId
+  name: string
+  description: string
+  heating: 'gas' | 'heat_pump' | 'current'           // Gas heat keeps a gas-capable system, heat pump a heat pump system
+  dhw: 'gas' | 'electric' | 'heat_pump' | 'current'
+  zoneEquipment: 'electric' | 'current'              // Electric converts gas line items (pool heaters, burners)
+}
+
+// Cost estimate line for a scenario
+export interface ElectrificationCostItem {
+  id: string               // Cost library line id
+  name: string
+  cost: number
+}
+
+export interface ElectrificationScenarioResult {
+  id: ElectrificationScenarioId
+  name: string
+  description: string
+  hvacSystemType: HVACSystemType
+  heatingFuelType: 'electric' | 'gas'
+  dhwHeaterType: 'electric' | 'gas'
+  dhwHeatPump: boolean
+  serviceKva: number
+  serviceAmps: number          // NEC 220 standard service rating
+  serviceVoltage: number
+  gasCFH: number
+  plantTons: number
+  kwh: number | null           // Null without an energy estimate (no ASHRAE location)
+  therms: number | null
+  annualEnergyCost: number | null
+  carbonTco2e: number | null   // 2024–2029 LL97 coefficients
+  carbonTco2e2030: number | null
+  ll97Penalty2030: number | null
+  costItems: ElectrificationCostItem[]
+  firstCost: number
+  firstCostDelta: number       // vs. the current design
+  annualCostDelta: number | null
+}
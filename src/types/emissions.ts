@@ -0,0 +1,58 @@
+// ===========================================
+// NYC LOCAL LAW 97 EMISSIONS TYPES
+// Occupancy-weighted emissions limits, projected emissions and penalties
+// ===========================================
+
+// Occupancy groups with a distinct LL97 emissions limit (B split per §28-320.3)
+export type LL97OccupancyGroup =
+  | 'A' | 'B' | 'B_healthcare' | 'E' | 'F' | 'H'
+  | 'I-1' | 'I-2' | 'I-3' | 'I-4' | 'M' | 'R-1' | 'R-2' | 'S' | 'U'
+
+export type LL97Period = '2024_2029' | '2030_2034' | '2035_plus'
+
+export interface LL97Settings {
+  energySource: 'estimate' | 'manual'   // Annual energy estimate or utility data
+  manualKwh: number
+  manualTherms: number
+  primaryOccupancy: LL97OccupancyGroup   // Accessory / unmapped zones follow the main occupancy
+}
+
+export interface LL97OccupancyArea {
+  group: LL97OccupancyGroup
+  sf: number
+}
+
+export interface LL97PeriodResult {
+  period: LL97Period
+  label: string
+  limitTco2e: number       // Σ area × group limit
+  electricTco2e: number
+  gasTco2e: number
+  emissionsTco2e: number
+  excessTco2e: number
+  penalty: number          // $/yr
+}
+
+// One heating / DHW fuel combination run through the energy model
+export interface LL97Scenario {
+  id: string
+  name: string
+  heatingFuelType: 'electric' | 'gas'
+  dhwHeaterType: 'electric' | 'gas'
+  current: boolean         // Matches the project's selections
+  kwh: number
+  therms: number
+  annualCost: number       // Utility cost from the energy estimate
+  periods: LL97PeriodResult[]
+}
+
+export interface LL97Result {
+  settings: LL97Settings
+  areas: LL97OccupancyArea[]
+  coveredSf: number
+  covered: boolean           // Over the §28-320.1 floor area threshold - no penalties otherwise
+  kwh: number
+  therms: number
+  periods: LL97PeriodResult[]
+  scenarios: LL97Scenario[]  // Empty without an energy estimate
+}
@@ -0,0 +1,47 @@
+// ===========================================
+// MECHANICAL EQUIPMENT TYPES
+// Catalog of nominal unit sizes and the selected equipment schedule
+// ===========================================
+
+export type EquipmentCategory = 'rtu' | 'ahu' | 'doas' | 'dehumidifier'
+
+// What the category is selected on - tons for RTU / AHU, CFM for DOAS, lb/hr for dehumidifiers
+export type EquipmentSelectionBasis = 'tons' | 'cfm' | 'lb_hr'
+
+export interface EquipmentCatalogItem {
+  id: string
+  category: EquipmentCategory
+  model: string                 // Nominal designation shown on the schedule
+  nominalTons: number           // Cooling capacity (0 for fan-only / dehumidifier)
+  heatingMbh: number            // Heating capacity (0 if none)
+  cfm: number                   // Nominal supply airflow
+  moistureLbHr: number          // Moisture removal (dehumidifiers)
+  voltage: number               // Nameplate voltage (3-phase)
+  mca: number                   // Minimum circuit ampacity (A)
+  mocp: number                  // Maximum overcurrent protection (A)
+  weightLb: number              // Operating weight
+  disabled?: boolean            // Excluded from auto-selection
+}
+
+export interface ScheduledEquipment {
+  tag: string                   // "RTU-1" or "RTU-1 – RTU-3"
+  category: EquipmentCategory
+  item: EquipmentCatalogItem
+  quantity: number
+  designPerUnit: number         // Design load per unit (selection basis units)
+  capacityPerUnit: number       // Catalog capacity per unit (selection basis units)
+  mca: number                   // Per unit at the service voltage
+  mocp: number                  // Per unit at the service voltage
+  voltage: number               // Service voltage the unit is connected at
+  kva: number                   // Connected kVA, all units
+  weightLb: number              // All units
+  serves: string                // System or load served
+}
+
+export interface EquipmentSchedule {
+  units: ScheduledEquipment[]
+  primaryUnitCount: number      // RTU / AHU count (0 when the system type has no catalog unit)
+  coversCooling: boolean        // Packaged DX units carry the cooling compressors
+  coversVentilation: boolean    // Outdoor air fans are in an RTU / AHU / DOAS
+  warnings: string[]
+}
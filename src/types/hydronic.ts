@@ -16,6 +16,15 @@ export type PipeMaterial =
   | 'hdpe'
   | 'ppr'
 
+export type InsulationType =
+  | 'none'
+  | 'fiberglass'
+  | 'mineral_wool'
+  | 'elastomeric'
+  | 'cellular_glass'
+  | 'polyisocyanurate'
+  | 'calcium_silicate'
+
 export interface HydronicSystem {
   id: string
   projectId: string | null
@@ -27,6 +36,23 @@ export interface HydronicSystem {
   fluidTempF: number
   staticHeadFt: number // for open systems
   safetyFactor: number // 0-0.5 (0-50%)
+  // Pump selection from the curve library
+  pumpCurveId?: string | null // null = most efficient curve that meets the design point
+  dutyPumps?: number // identical pumps running in parallel (default 1)
+  standbyPumps?: number
+  pumpVfd?: boolean
+  pumpControlHeadFt?: number | null // system curve head at zero flow - defaults to the static head
+  // Closed loop accessories (null = defaults)
+  fillPressurePsig?: number | null // at the expansion tank
+  maxPressurePsig?: number | null // at the expansion tank - below the relief valve setting
+  fillTempF?: number | null // lowest fluid temperature (cold fill / chilled supply)
+  maxTempF?: number | null // highest fluid temperature (design supply / idle ambient)
+  equipmentVolumeGal?: number | null // boilers, chillers, coils, buffer tanks
+  glycolCostPerGal?: number | null // inhibited glycol concentrate
+  // Pipe heat loss (null = defaults - chilled loops use the project's summer design conditions)
+  ambientTempF?: number | null // air around the piping
+  ambientDewPointF?: number | null // for the condensation check on cold piping
+  balancingValveModelId?: string | null // null = default model for the balancing schedule
   notes?: string
   createdAt: Date
   updatedAt: Date
@@ -52,6 +78,13 @@ export interface HydronicPipeSection {
   pipeSizeNominal: string // e.g., '3/4', '1', '1-1/4', '2'
   lengthFt: number
   sortOrder: number
+  // Network connectivity - when every section has both nodes the system is
+  // solved as a network; flowGpm is then the section's design flow
+  fromNode?: string
+  toNode?: string
+  // Insulation (none when unset)
+  insulationType?: InsulationType
+  insulationThicknessIn?: number
   // Calculated values
   velocityFps?: number
   reynoldsNumber?: number
@@ -106,6 +139,36 @@ export interface FittingData {
   notes?: string
 }
 
+// Balancing valve data
+export interface BalancingValveModel {
+  id: string
+  displayName: string
+  fittingId: string          // fittings library entry with the full-open Cv by size
+  settingUnit: string        // handwheel scale, e.g. 'turns'
+  maxSetting: number         // full open
+  settingStep: number        // handwheel resolution
+  minTravel: number          // fraction of travel below which the setting is inaccurate
+  characteristic: [number, number][] // [fraction of travel, fraction of full-open Cv]
+}
+
+// Insulation data
+export interface InsulationMaterialData {
+  id: InsulationType
+  displayName: string
+  conductivityAt75F: number  // Btu·in/h·ft²·°F at 75°F mean
+  conductivitySlope: number  // change in conductivity per °F of mean temperature
+  maxServiceTempF: number
+}
+
+// ASHRAE 90.1 Table 6.8.3 row - minimum thickness by nominal pipe size
+export interface InsulationRequirement {
+  minFluidTempF: number
+  maxFluidTempF: number
+  meanRatingTempF: number    // temperature the conductivity range is rated at
+  maxConductivity: number    // upper end of the table's conductivity range
+  thicknessIn: [number, number, number, number, number] // <1", 1 to <1-1/2", 1-1/2 to <4", 4 to <8", ≥8"
+}
+
 // Fluid properties
 export interface FluidProperties {
   densityLbFt3: number
@@ -155,6 +218,122 @@ export interface HydronicCalculationResult {
   totalSystemVolumeGal: number
   maxFlowGpm: number
   
+  // Network solution (sections connected through nodes)
+  network?: HydronicNetworkResult
+  
   // Warnings
   warnings: string[]
 }
+
+// A supply-to-return path through the network
+export interface HydronicCircuit {
+  sectionIds: string[]
+  nodes: string[]            // node path, supply node first
+  designHeadFt: number       // friction + fittings at the sections' design flows
+  pipeFrictionFt: number
+  fittingsLossFt: number
+  excessHeadFt: number       // index circuit head minus this circuit's - to be balanced out
+}
+
+export interface HydronicNetworkResult {
+  supplyNode: string         // pump discharge - no section flows into it
+  returnNode: string         // pump suction - no section flows out of it
+  pumpFlowGpm: number        // design flow leaving the supply node
+  converged: boolean
+  iterations: number
+  loopCount: number
+  solvedFlows: Record<string, number>  // section id → unbalanced flow (GPM, negative = toNode → fromNode)
+  solvedHeadFt: number       // supply-to-return head with unbalanced flows
+  circuits: HydronicCircuit[]          // index circuit first
+  indexCircuit: HydronicCircuit
+}
+
+// Closed loop accessory sizing
+export interface ExpansionTankSizing {
+  systemVolumeGal: number    // piping + equipment
+  fillTempF: number
+  maxTempF: number
+  fluidExpansionPct: number  // (v_max / v_fill − 1) × 100
+  pipeExpansionGal: number   // piping and vessel growth (reduces the fluid expansion)
+  expansionVolumeGal: number // required acceptance volume
+  fillPressurePsig: number
+  maxPressurePsig: number
+  acceptanceFactor: number   // 1 − P_fill / P_max (absolute)
+  requiredTankGal: number
+  tankCount: number
+  tankSizeGal: number        // nominal size of each tank
+}
+
+export interface AirSeparatorSizing {
+  flowGpm: number
+  connectionSize: string     // nominal, inches
+  ratedGpm: number
+}
+
+export interface GlycolFill {
+  fluidType: FluidType
+  concentrationPct: number
+  systemVolumeGal: number
+  concentrateGal: number
+  waterGal: number
+  costPerGal: number
+  cost: number
+}
+
+export interface HydronicAccessorySizing {
+  expansionTank: ExpansionTankSizing
+  airSeparator: AirSeparatorSizing
+  glycolFill: GlycolFill | null
+  warnings: string[]
+}
+
+// Pipe heat loss and insulation
+export interface SectionHeatLoss {
+  sectionId: string
+  sectionName: string
+  insulationType: InsulationType
+  insulationThicknessIn: number
+  inletTempF: number
+  outletTempF: number
+  tempChangeF: number        // outlet − inlet (negative = fluid cools)
+  heatLossBtuh: number       // to the surroundings (negative = heat gain)
+  heatLossBtuhPerFt: number
+  surfaceTempF: number       // outer surface at the inlet end
+  condensation: boolean      // surface below the ambient dew point
+  condensationThicknessIn: number | null // thinnest standard thickness that keeps the surface above the dew point
+  ashraeMinThicknessIn: number | null    // 90.1 minimum for this material (null = no requirement)
+  meetsAshrae: boolean
+  warnings: string[]
+}
+
+export interface PipeHeatLossResult {
+  ambientTempF: number
+  dewPointF: number
+  climateLocation: string | null // project location the defaults came from
+  sections: SectionHeatLoss[]
+  totalHeatLossBtuh: number
+  warnings: string[]
+}
+
+// Balancing valve schedule (network systems)
+export interface BalancingValveSetting {
+  circuitIndex: number       // position in the network circuits (0 = index)
+  sectionId: string          // terminal branch the valve sits in
+  sectionName: string
+  flowGpm: number            // design flow to set
+  valveSize: string          // nominal - may be reduced from the pipe size
+  excessHeadFt: number       // to absorb to match the index circuit
+  requiredDpFt: number       // excess + full-open valve drop
+  fullOpenCv: number | null
+  requiredCv: number | null
+  setting: number | null     // handwheel position in the model's units
+  settingCv: number | null
+  settingDpFt: number | null // valve drop at the setting and design flow
+  warnings: string[]
+}
+
+export interface BalancingValveSchedule {
+  valveModel: BalancingValveModel
+  valves: BalancingValveSetting[]
+  warnings: string[]
+}
@@ -1,4 +1,8 @@
 export * from './database'
+import type { NEC220Result, PanelScheduleResult, FeederSizingSettings, FaultCurrentSettings, FaultCurrentResult, GeneratorSizingSettings, GeneratorSizingResult, LPDCodeEdition, LPDComplianceResult, EVChargingSettings, EVChargingResult } from './electrical'
+import type { EquipmentSchedule } from './equipment'
+import type { LL97OccupancyGroup, LL97Result, LL97Settings } from './emissions'
+import type { CostEstimateResult, CostEstimateSettings } from './costEstimate'
 
 export type ClimateType = 'hot_humid' | 'cold_dry' | 'temperate'
 
@@ -220,6 +224,12 @@ export interface ProjectElectricalSettings {
   demandFactor: number      // Demand factor (0.5 - 1.0), default 0.90
   powerFactor: number       // Power factor (0.7 - 1.0)
   spareCapacity: number     // Spare capacity % (0 - 0.50)
+  useEnergyCodeLighting?: boolean  // NEC 220.12(B): size lighting at energy code W/SF instead of Table 220.12
+  feederSizing?: FeederSizingSettings  // Conductor / voltage drop settings for the feeder schedule
+  faultCurrent?: FaultCurrentSettings  // Utility transformer and equipment AIC for the short-circuit study
+  generator?: GeneratorSizingSettings  // Emergency / standby generator sizing options
+  lpdCode?: LPDCodeEdition             // ASHRAE 90.1 edition for the lighting power density check
+  evCharging?: EVChargingSettings      // EV charger counts by level and EMS cap
 }
 
 // HVAC System Types
@@ -277,6 +287,37 @@ export interface MechanicalElectricalSettings {
   // HVAC System Description - custom narrative for reports
   hvacSystemDescription?: string // Free-form text describing HVAC systems
   rtuCount?: number              // Override for RTU/AHU count (auto-calculated if not set)
+  hvacLoadMethod?: HVACLoadMethod  // Block load method (default: rule of thumb)
+  residentialVentilation?: Partial<ResidentialVentilationSettings>  // ASHRAE 62.2 dwelling inputs
+  equipmentScheduleLoads?: boolean  // Electrical from the equipment schedule MCA (default: true)
+  energyModel?: Partial<EnergyModelSettings>  // Utility rates and schedule for the annual energy estimate
+  ll97?: Partial<LL97Settings>                // NYC Local Law 97 emissions projection inputs
+}
+
+// ASHRAE 62.2 whole-dwelling ventilation inputs (project level)
+export interface ResidentialVentilationSettings {
+  ach50: number                    // Envelope leakage at 50 Pa (blower door target)
+  weatherShieldingFactor: number   // wsf from Normative Appendix B
+  infiltrationCredit: boolean      // Deduct effective annual infiltration from Qtot
+  balanced: boolean                // Balanced system (ERV/HRV) - Φ = 1
+  exteriorEnvelopeFraction: number // Aext - 1.0 detached, < 1.0 for attached units
+}
+
+// Annual bin-hour energy model inputs (project level)
+export interface EnergyModelSettings {
+  electricRatePerKwh: number        // $/kWh
+  demandRatePerKw: number           // $/kW per month, billed on the annual peak
+  gasRatePerTherm: number           // $/therm
+  occupiedHoursPerDay: number       // Outdoor air, fans and full building load
+  occupiedDaysPerWeek: number
+  coolingBalancePointF: number      // Outdoor DB where space cooling starts
+  heatingBalancePointF: number      // Outdoor DB where space heating starts
+  ervSensibleEffectiveness: number  // Applied when the system type has energy recovery
+  ervLatentEffectiveness: number
+  dhwPeakHoursPerDay: number        // Daily hot water use as hours at the peak-hour rate
+  poolEvaporationFactor: number     // Annual average evaporation / design rate
+  occupiedLoadFactor: number        // Lighting / receptacle kW as a fraction of connected
+  unoccupiedLoadFactor: number
 }
 
 // Process loads that are fixed per zone (not per SF)
@@ -310,6 +351,35 @@ export type VentilationUnit = 'cfm_sf' | 'cfm' | 'ach'
 // Ventilation standard source
 export type VentilationStandard = 'ashrae62' | 'ashrae170' | 'custom'
 
+// HVAC block load method - SF/ton + BTU/SF rules of thumb, or envelope (CLTD/SCL/CLF)
+export type HVACLoadMethod = 'rule_of_thumb' | 'envelope'
+
+export type EnvelopeOrientation = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW'
+
+export interface EnvelopeWall {
+  orientation: EnvelopeOrientation
+  areaSF: number             // Net opaque wall area (glazing excluded)
+  uValue: number             // BTU/hr·SF·°F
+}
+
+export interface EnvelopeGlazing {
+  orientation: EnvelopeOrientation
+  areaSF: number
+  uValue: number             // BTU/hr·SF·°F (assembly U-factor)
+  shgc: number               // Solar heat gain coefficient
+}
+
+// Exterior envelope and internal gains for the envelope load method
+// Lighting comes from zone.rates.lighting_w_sf, people from zone.occupants
+export interface ZoneEnvelope {
+  walls: EnvelopeWall[]
+  glazing: EnvelopeGlazing[]
+  roofAreaSF: number         // 0 = no roof exposure
+  roofU: number
+  equipmentWSF: number       // Plug / equipment sensible gain
+  infiltrationACH: number    // Envelope infiltration (air changes per hour)
+}
+
 export interface Zone {
   id: string
   projectId: string
@@ -336,6 +406,10 @@ export interface Zone {
   exhaustOverride?: boolean               // True if user overrode exhaust defaults
   ventilationCfm?: number                 // Calculated or override ventilation CFM
   exhaustCfm?: number                     // Calculated or override exhaust CFM
+  envelope?: ZoneEnvelope                 // Envelope inputs for the envelope load method
+  dwellingUnit?: string                   // ASHRAE 62.2 dwelling unit (res_* zones - unassigned zones share one 'Residence' unit)
+  residentialVentilationMode?: ResidentialVentilationMode  // Local exhaust mode override
+  occupancyGroup?: LL97OccupancyGroup     // LL97 occupancy override (defaults by zone type)
 }
 
 // ASHRAE building types for DHW demand factors
@@ -397,6 +471,7 @@ export interface ResultAdjustments {
   fireAlarmNotes: string
   // Custom overrides for calculated values
   overrides: Record<string, number | string>
+  costEstimate?: Partial<CostEstimateSettings>  // Regional multiplier and manual cost line adjustments
 }
 
 // Dynamic fixture type - keys are fixture IDs from NYC_FIXTURE_DATABASE
@@ -443,6 +518,9 @@ export interface CalculationResults {
   gas: GasCalcResult
   dhw: DHWCalcResult
   plumbing: PlumbingCalcResult
+  energy?: AnnualEnergyResult  // Bin-hour estimate, present when the project has an ASHRAE location
+  emissions?: LL97Result       // NYC Local Law 97 projection
+  costEstimate?: CostEstimateResult  // Conceptual trade-by-trade budget
 }
 
 export interface ElectricalCalcResult {
@@ -460,6 +538,12 @@ export interface ElectricalCalcResult {
   standardServiceAmps?: number  // Upsized to standard service size
   exceedsMaxService?: boolean   // True if > max standard size for voltage
   mechanicalKVA?: number        // Mechanical equipment kVA (with demand factor and spare applied)
+  nec220?: NEC220Result         // NEC Article 220 calculation - source of the service size
+  panelSchedule?: PanelScheduleResult  // Generated branch panels + MDP
+  faultCurrent?: FaultCurrentResult    // Point-to-point short-circuit study at each bus
+  generator?: GeneratorSizingResult    // Emergency / standby generator from zone flags and line items
+  lightingCompliance?: LPDComplianceResult  // ASHRAE 90.1 space-by-space LPD check
+  evCharging?: EVChargingResult        // NEC 625 EV charging load (separate service category)
 }
 
 export interface HVACCalcResult {
@@ -472,6 +556,111 @@ export interface HVACCalcResult {
   poolChillerTons: number  // Tracked separately for mechanical loads
   totalPlantTons: number   // Total cooling plant: space + pool chiller + dehumid
   rtuCount: number
+  loadMethod?: HVACLoadMethod       // Method actually used for space cooling / heating
+  envelope?: EnvelopeLoadSummary    // Present when the envelope method was used
+  residentialVentilation?: ResidentialVentilationResult  // ASHRAE 62.2, present with res_* zones
+  equipmentSchedule?: EquipmentSchedule  // Catalog units selected for the project system type
+}
+
+// Outdoor / indoor design conditions for the envelope method
+export interface EnvelopeDesignConditions {
+  locationName: string
+  coolingDb: number        // Outdoor cooling design DB (°F)
+  heatingDb: number        // Outdoor heating design DB (°F)
+  dailyRange: number       // Mean daily temperature range (°F)
+  indoorCoolingDb: number
+  indoorHeatingDb: number
+}
+
+export interface ZoneEnvelopeLoad {
+  zoneId: string
+  zoneName: string
+  // Cooling components (BTU/hr)
+  wallsBtuh: number
+  roofBtuh: number
+  glazingConductionBtuh: number
+  glazingSolarBtuh: number
+  peopleSensibleBtuh: number
+  peopleLatentBtuh: number
+  lightingBtuh: number
+  equipmentBtuh: number
+  infiltrationBtuh: number
+  coolingBtuh: number
+  // Heating (BTU/hr) - transmission + infiltration, no internal gain credit
+  heatingBtuh: number
+}
+
+export interface EnvelopeLoadSummary {
+  design: EnvelopeDesignConditions
+  zones: ZoneEnvelopeLoad[]
+  ruleOfThumbZones: number  // Zones without envelope inputs (sized by SF/ton, BTU/SF)
+}
+
+export interface ResidentialLocalExhaust {
+  zoneId: string
+  zoneName: string
+  mode: ResidentialVentilationMode
+  cfm: number
+}
+
+export interface DwellingVentilationResult {
+  name: string
+  zoneIds: string[]
+  floorAreaSf: number
+  bedrooms: number
+  heightFt: number            // H - vertical extent of the pressure boundary
+  qtotCfm: number             // Eq. 4-1a total required rate
+  q50Cfm: number
+  qinfCfm: number             // Effective annual infiltration
+  infiltrationCreditCfm: number
+  qfanCfm: number             // Required continuous mechanical ventilation
+  localExhaust: ResidentialLocalExhaust[]
+  intermittentExhaustCfm: number
+  continuousExhaustCfm: number
+  ervCfm: number              // Recommended nominal ERV rating per unit
+  ervCount: number
+}
+
+export interface ResidentialVentilationResult {
+  settings: ResidentialVentilationSettings
+  dwellings: DwellingVentilationResult[]
+  totalQfanCfm: number
+  totalIntermittentExhaustCfm: number
+  totalContinuousExhaustCfm: number
+}
+
+export type EnergyEndUse = 'space_cooling' | 'space_heating' | 'ventilation' | 'fans' | 'dhw' | 'pool' | 'building'
+
+export interface EnergyEndUseResult {
+  id: EnergyEndUse
+  name: string
+  kwh: number
+  therms: number
+  peakKw: number        // Contribution at the building peak
+  cost: number          // Energy charges only - demand is billed on the total
+}
+
+export interface EnergyBinResult {
+  tempF: number
+  hours: number
+  kw: number            // Electric demand at occupied conditions
+  therms: number        // Gas use in the bin
+}
+
+export interface AnnualEnergyResult {
+  settings: EnergyModelSettings
+  locationName: string
+  bins: EnergyBinResult[]
+  endUses: EnergyEndUseResult[]
+  totalKwh: number
+  totalTherms: number
+  peakDemandKw: number
+  electricCost: number
+  demandCost: number
+  gasCost: number
+  totalCost: number
+  costPerSf: number
+  euiKbtuSf: number     // Site energy use intensity
 }
 
 export interface GasCalcResult {
@@ -540,8 +729,16 @@ export interface PoolConfig {
   waterTempF: number
   activityFactor: number  // 0.5 to 1.5
   poolType: PoolType
+  avgDepthFt?: number         // average water depth (ft)
+  heaterType?: PoolHeaterType // defaults to gas
+  heaterOutputMbh?: number    // selected heater output (MBH) - defaults to the recommended size
+  turnoverHours?: number      // recirculation turnover - defaults to the code value for the pool type
+  filterType?: PoolFilterType // defaults to high-rate sand
 }
 
+export type PoolHeaterType = 'gas' | 'heat_pump'
+export type PoolFilterType = 'high_rate_sand' | 'cartridge' | 'diatomaceous_earth' | 'regenerative_media'
+
 export interface PoolRoomParams {
   roomSF: number            // room floor area (SF)
   ceilingHeightFt: number   // ceiling height (ft), typically 15-25 for natatoriums
@@ -552,6 +749,15 @@ export interface PoolRoomParams {
   swimmerCount: number      // number of active swimmers in pools
   airChangesPerHour: number // 4-6 recommended for natatoriums
   ashraeLocationId?: string // ASHRAE location ID for outdoor air moisture calculation
+  makeupWaterTempF?: number     // pool heater sizing - fill / make-up water temperature (°F)
+  groundTempF?: number          // soil temperature around the pool shell (°F)
+  heatUpTargetHours?: number    // initial heat-up time the heater is sized for
+  gasHeaterEfficiency?: number  // gas pool heater thermal efficiency
+  heatPumpCOP?: number          // pool heat pump COP
+  // Filtration sizing - defaults from DEFAULT_POOL_FILTRATION_PARAMS
+  filtrationPipeRunFt?: number      // pool to equipment room piping, one way (ft)
+  filtrationStaticHeadFt?: number   // surge tank water level to return inlets (ft)
+  filtrationPumpEfficiency?: number // filtration pump efficiency
 }
 
 export interface PoolRoomResults {
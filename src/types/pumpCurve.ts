@@ -0,0 +1,55 @@
+// ===========================================
+// PUMP CURVE TYPES
+// Published pump curves per impeller and the selected operating point
+// ===========================================
+
+export interface PumpCurvePoint {
+  gpm: number
+  headFt: number
+  efficiency: number            // 0-1 (0 at shutoff)
+  npshrFt: number               // NPSH required
+}
+
+export interface PumpCurve {
+  id: string
+  model: string                 // Casing designation, e.g. "End Suction 3x4x9.5"
+  impellerIn: number            // Impeller diameter the curve was published at
+  rpm: number
+  motorHp: number               // Nameplate motor for this impeller
+  points: PumpCurvePoint[]      // Full speed, shutoff first, ascending flow
+  disabled?: boolean            // Excluded from auto-selection
+}
+
+// Head = control head + (design head − control head) × (Q / Qdesign)²
+// Control head is static lift (open) or the VFD differential pressure setpoint
+export interface SystemCurve {
+  designFlowGpm: number
+  designHeadFt: number
+  controlHeadFt: number
+}
+
+export interface PumpArrangement {
+  dutyPumps: number             // Identical pumps running in parallel
+  standbyPumps: number
+  vfd: boolean                  // Slowed to the design point instead of riding the curve
+}
+
+export interface PumpOperatingPoint {
+  gpm: number                   // Total flow, all duty pumps
+  headFt: number
+  speedRatio: number            // 1 = full speed
+  efficiency: number            // Per pump
+  bhp: number                   // Per pump
+  npshrFt: number
+}
+
+export interface PumpSelection {
+  curve: PumpCurve
+  arrangement: PumpArrangement
+  systemCurve: SystemCurve
+  fullSpeedPoint: PumpOperatingPoint | null   // Intersection with the system curve at full speed
+  operatingPoint: PumpOperatingPoint | null   // VFD: design flow at reduced speed; else full speed
+  meetsDesign: boolean
+  totalBhp: number              // All duty pumps at the operating point
+  warnings: string[]
+}